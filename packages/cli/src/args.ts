@@ -75,12 +75,24 @@ export function parseArgs(args: string[]): ParsedArgs {
 }
 
 /**
- * Parse filter expressions like "stage=Lead" or "value>10000"
+ * Parse filter expressions like "stage=Lead", "value>10000", "metadata.source=web"
+ * (dot-paths into json fields), "tags~enterprise" ($contains), or a JSON filter
+ * such as '{"$or":[{"stage":"Lead"},{"stage":"Qualified"}]}'
  * Returns MongoDB-style filter objects
  */
 export function parseFilter(expr: string): Record<string, unknown> {
-  // Handle operator patterns: key>value, key<value, key>=value, key<=value, key!=value
-  const operatorMatch = expr.match(/^(\w+)(>=|<=|!=|>|<|=)(.+)$/)
+  // JSON filters pass through as-is for $and/$or/$not and other operators
+  if (expr.trim().startsWith('{')) {
+    try {
+      const parsed = JSON.parse(expr)
+      return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed : {}
+    } catch {
+      return {}
+    }
+  }
+
+  // Handle operator patterns: key>value, key<value, key>=value, key<=value, key!=value, key~value
+  const operatorMatch = expr.match(/^([\w.]+)(>=|<=|!=|>|<|~|=)(.+)$/)
   if (!operatorMatch) return {}
 
   const [, key, op, value] = operatorMatch
@@ -101,11 +113,28 @@ export function parseFilter(expr: string): Record<string, unknown> {
       return { [key]: { $lte: parsedValue } }
     case '!=':
       return { [key]: { $ne: parsedValue } }
+    case '~':
+      return { [key]: { $contains: parsedValue } }
     default:
       return { [key]: parsedValue }
   }
 }
 
+/**
+ * Combine filters from repeated --filter flags. Distinct fields are merged;
+ * if a field appears more than once (e.g. "value>10" and "value<100") the
+ * filters are combined with $and so neither overwrites the other.
+ */
+export function combineFilters(filters: Record<string, unknown>[]): Record<string, unknown> {
+  const nonEmpty = filters.filter((f) => Object.keys(f).length > 0)
+  const combined: Record<string, unknown> = {}
+  for (const filter of nonEmpty) {
+    if (Object.keys(filter).some((key) => key in combined)) return { $and: nonEmpty }
+    Object.assign(combined, filter)
+  }
+  return combined
+}
+
 function parseFilterValue(value: string): unknown {
   // Try numeric
   const num = Number(value)
@@ -0,0 +1,81 @@
+/**
+ * headlessly audit <type> <id> [--field name] [--actor id] [--since timestamp] [--until timestamp]
+ *
+ * Field-level change history of an entity: who changed which field, from what
+ * to what, and when.
+ *
+ * Examples:
+ *   headlessly audit Deal deal_k7TmPvQx
+ *   headlessly audit Deal deal_k7TmPvQx --field value
+ *   headlessly audit Deal deal_k7TmPvQx --actor user_fX9bL5nR --since 2026-01-01
+ */
+
+import { isAuditable } from '@headlessly/objects'
+import { parseArgs } from '../args.js'
+import { printJSON, printError, printTable } from '../output.js'
+import { getProvider } from '../provider.js'
+
+export async function auditCommand(args: string[]): Promise<void> {
+  const { positional, flags } = parseArgs(args)
+  const json = flags['json'] === true
+
+  // Per-command --help
+  if (flags['help'] === true) {
+    console.log('headlessly audit — Field-level change history of an entity')
+    console.log('')
+    console.log('Usage: headlessly audit <type> <id> [options]')
+    console.log('')
+    console.log('Options:')
+    console.log('  --field name         Only changes to this field')
+    console.log('  --actor id           Only changes made by this actor')
+    console.log('  --since timestamp    Only changes at or after this time')
+    console.log('  --until timestamp    Only changes at or before this time')
+    console.log('  --limit N            Max changes to show')
+    console.log('  --json               Output as JSON')
+    return
+  }
+
+  const [type, id] = positional
+  if (!type || !id) {
+    if (json) {
+      printJSON({ error: 'Missing arguments', usage: 'headlessly audit <type> <id>' })
+      return
+    }
+    printError('Missing type or id')
+    console.log('Usage: headlessly audit <type> <id>')
+    process.exit(1)
+    return
+  }
+
+  try {
+    const provider = await getProvider()
+    if (!isAuditable(provider)) {
+      throw new Error('audit is not supported by the current provider')
+    }
+
+    const limit = typeof flags['limit'] === 'string' ? Number(flags['limit']) : undefined
+    const changes = await provider.audit({
+      entityType: type,
+      entityId: id,
+      field: typeof flags['field'] === 'string' ? flags['field'] : undefined,
+      actor: typeof flags['actor'] === 'string' ? flags['actor'] : undefined,
+      since: typeof flags['since'] === 'string' ? flags['since'] : undefined,
+      until: typeof flags['until'] === 'string' ? flags['until'] : undefined,
+      limit: limit !== undefined && Number.isFinite(limit) ? limit : undefined,
+    })
+
+    if (json) {
+      printJSON(changes)
+      return
+    }
+    printTable(changes.map((c) => ({ timestamp: c.timestamp, field: c.field, from: c.from, to: c.to, verb: c.verb, actor: c.actor ?? '' })))
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    if (json) {
+      printJSON({ error: `Audit failed: ${message}` })
+      return
+    }
+    printError(`Audit failed: ${message}`)
+    process.exit(1)
+  }
+}
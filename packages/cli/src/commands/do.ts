@@ -1,15 +1,20 @@
 /**
  * headlessly do create <type> [--field key=value...]
+ * headlessly do upsert <type> --match key=value [--field value...]
+ * headlessly do restore <type> <id>
  * headlessly do <verb> <type> <id> [--data key=value...]
  * headlessly do eval <code>
  *
  * Examples:
  *   headlessly do create Contact --name Alice --stage Lead --email alice@acme.co
  *   headlessly do qualify Contact contact_abc123
+ *   headlessly do upsert Contact --match email=alice@acme.co --name Alice --stage Lead
+ *   headlessly do restore Contact contact_abc123
  *   headlessly do close Deal deal_xyz --reason "Won"
  *   headlessly do eval "$.Contact.find({ stage: 'Lead' })"
  */
 
+import { isRestorable, upsert } from '@headlessly/objects'
 import { parseArgs } from '../args.js'
 import { printJSON, printError, printSuccess } from '../output.js'
 import { getProvider } from '../provider.js'
@@ -28,7 +33,9 @@ export async function doCommand(args: string[]): Promise<void> {
     console.log('Actions:')
     console.log('  create <type> [--field value...]   Create an entity')
     console.log('  update <type> <id> [--field value...]   Update an entity')
-    console.log('  delete <type> <id>                 Delete an entity')
+    console.log('  delete <type> <id>                 Delete an entity (moves it to the trash)')
+    console.log('  upsert <type> --match key=value    Update the entity with that unique key, or create it')
+    console.log('  restore <type> <id>                Restore a deleted entity from the trash')
     console.log('  <verb> <type> <id>                 Execute a custom verb')
     console.log('  eval <code>                        Evaluate TypeScript code')
     console.log('')
@@ -138,6 +145,66 @@ export async function doCommand(args: string[]): Promise<void> {
       return
     }
 
+    // Upsert action, keyed on unique (##) fields given with --match key=value
+    if (action === 'upsert') {
+      const type = positional[1]
+      const matchFlag = flags['match']
+      if (!type || matchFlag === undefined || matchFlag === true) {
+        printError('Missing type or --match')
+        console.log('Usage: headlessly do upsert <type> --match key=value [--field value...]')
+        process.exit(1)
+        return
+      }
+
+      const match: Record<string, unknown> = {}
+      for (const pair of Array.isArray(matchFlag) ? matchFlag : [matchFlag as string]) {
+        const eq = pair.indexOf('=')
+        if (eq <= 0) {
+          printError(`Invalid --match "${pair}", expected key=value`)
+          process.exit(1)
+          return
+        }
+        match[pair.slice(0, eq)] = pair.slice(eq + 1)
+      }
+
+      const data: Record<string, unknown> = {}
+      for (const [key, value] of Object.entries(flags)) {
+        if (key === 'json' || key === 'quiet' || key === 'match') continue
+        data[key] = value
+      }
+
+      const { instance, created } = await upsert(provider, type, match, data)
+      if (!json && !quiet) {
+        printSuccess(`${created ? 'Created' : 'Updated'} ${type}: ${instance.$id}`)
+      }
+      printJSON(instance)
+      return
+    }
+
+    // Restore action
+    if (action === 'restore') {
+      const type = positional[1]
+      const id = positional[2]
+      if (!type || !id) {
+        printError('Missing type or id')
+        console.log('Usage: headlessly do restore <type> <id>')
+        process.exit(1)
+        return
+      }
+      if (!isRestorable(provider)) {
+        printError('Restore is not supported by the current provider')
+        process.exit(1)
+        return
+      }
+
+      const entity = await provider.restore(type, id)
+      if (!json && !quiet) {
+        printSuccess(`Restored ${type}: ${id}`)
+      }
+      printJSON(entity)
+      return
+    }
+
     // Custom verb execution: headlessly do <verb> <type> <id>
     const verb = action
     const type = positional[1]
@@ -13,12 +13,15 @@ const COMMAND_HELP: Record<string, () => void> = {
     console.log('Usage: headlessly search [type] [options]')
     console.log('')
     console.log('Options:')
-    console.log('  --filter key=value    Filter by field (supports >, <, >=, <=, !=)')
+    console.log('  --filter key=value    Filter by field (supports >, <, >=, <=, !=, ~ for contains)')
+    console.log('                        Keys may be dot-paths (metadata.source=web)')
+    console.log('                        or pass a JSON filter for $and/$or/$not')
     console.log('                        Can be specified multiple times')
     console.log('  --query text          Full-text search across fields')
     console.log('  --limit N             Max results (default: 20)')
     console.log('  --sort field:asc|desc Sort results')
     console.log('  --count               Output only the count of matching entities')
+    console.log('  --deleted             Search the trash (soft-deleted entities) instead')
     console.log('  --output format       Output format: table, json, csv')
     console.log('  --no-header           Omit table headers (for piping)')
     console.log('  --json                Output as JSON (shortcut for --output json)')
@@ -27,7 +30,10 @@ const COMMAND_HELP: Record<string, () => void> = {
     console.log('  headlessly search Contact')
     console.log('  headlessly search Contact --filter stage=Lead')
     console.log('  headlessly search Deal --filter "value>10000" --sort value:desc --limit 5')
+    console.log('  headlessly search Deal --filter "closeDate>=2026-01-01" --filter "tags~enterprise"')
+    console.log(`  headlessly search Deal --filter '{"$or":[{"stage":"Won"},{"value":{"$gt":50000}}]}'`)
     console.log('  headlessly search --query "alice"')
+    console.log('  headlessly search Contact --deleted')
   },
   fetch: () => {
     console.log('headlessly fetch — Fetch a specific entity')
@@ -45,6 +51,23 @@ const COMMAND_HELP: Record<string, () => void> = {
     console.log('  headlessly fetch Contact contact_fX9bL5nRd --include deals')
     console.log('  headlessly fetch schema Contact')
   },
+  audit: () => {
+    console.log('headlessly audit — Field-level change history of an entity')
+    console.log('')
+    console.log('Usage: headlessly audit <type> <id> [options]')
+    console.log('')
+    console.log('Options:')
+    console.log('  --field name         Only changes to this field')
+    console.log('  --actor id           Only changes made by this actor')
+    console.log('  --since timestamp    Only changes at or after this time')
+    console.log('  --until timestamp    Only changes at or before this time')
+    console.log('  --limit N            Max changes to show')
+    console.log('  --json               Output as JSON')
+    console.log('')
+    console.log('Examples:')
+    console.log('  headlessly audit Deal deal_k7TmPvQx')
+    console.log('  headlessly audit Deal deal_k7TmPvQx --field value --since 2026-01-01')
+  },
   do: () => {
     console.log('headlessly do — Execute actions on entities')
     console.log('')
@@ -53,7 +76,9 @@ const COMMAND_HELP: Record<string, () => void> = {
     console.log('Actions:')
     console.log('  create <type> [--field value...]   Create an entity')
     console.log('  update <type> <id> [--field value...]   Update an entity')
-    console.log('  delete <type> <id>                 Delete an entity')
+    console.log('  delete <type> <id>                 Delete an entity (moves it to the trash)')
+    console.log('  upsert <type> --match key=value    Update the entity with that unique key, or create it')
+    console.log('  restore <type> <id>                Restore a deleted entity from the trash')
     console.log('  <verb> <type> <id>                 Execute a custom verb')
     console.log('  eval <code>                        Evaluate TypeScript code')
     console.log('')
@@ -65,6 +90,8 @@ const COMMAND_HELP: Record<string, () => void> = {
     console.log('  headlessly do create Contact --name Alice --stage Lead')
     console.log('  headlessly do qualify Contact contact_fX9bL5nRd')
     console.log('  headlessly do delete Contact contact_fX9bL5nRd')
+    console.log('  headlessly do upsert Contact --match email=alice@acme.co --stage Lead')
+    console.log('  headlessly do restore Contact contact_fX9bL5nRd')
   },
   init: () => {
     console.log('headlessly init — Initialize a new organization')
@@ -74,11 +101,14 @@ const COMMAND_HELP: Record<string, () => void> = {
     console.log('Options:')
     console.log('  --template b2b|b2c|b2d|b2a   Use a business model template')
     console.log('  --tenant name                 Organization name (default: "default")')
+    console.log('  --local                       Persist entities to disk instead of memory')
+    console.log('  --path dir                    Storage directory for --local (default: ".headlessly")')
     console.log('  --dry-run                     Preview changes without writing config')
     console.log('')
     console.log('Examples:')
     console.log('  headlessly init')
     console.log('  headlessly init --template b2b --tenant my-startup')
+    console.log('  headlessly init --local --path ./data')
     console.log('  headlessly init --dry-run --template b2c')
   },
   schema: () => {
@@ -170,6 +200,7 @@ export async function helpCommand(args?: string[]): Promise<void> {
   console.log('    --query text              Full-text search across fields')
   console.log('    --limit N                 Max results (default: 20)')
   console.log('    --sort field:asc|desc     Sort results')
+  console.log('    --deleted                 Search the trash')
   console.log('    --json                    Output as JSON')
   console.log('')
   console.log('  fetch <type> <id>         Fetch a specific entity')
@@ -177,9 +208,16 @@ export async function helpCommand(args?: string[]): Promise<void> {
   console.log('  fetch schema [noun]       Show schema for a noun or all nouns')
   console.log('  fetch events              Fetch event stream')
   console.log('')
+  console.log('  audit <type> <id>         Field-level change history')
+  console.log('    --field name              Only changes to this field')
+  console.log('    --actor id                Only changes made by this actor')
+  console.log('    --since / --until time    Only changes in this time range')
+  console.log('')
   console.log('  do create <type> [flags]  Create an entity (flags become fields)')
   console.log('  do update <type> <id>     Update an entity')
   console.log('  do delete <type> <id>     Delete an entity')
+  console.log('  do upsert <type> --match   Update or create by a unique field')
+  console.log('  do restore <type> <id>    Restore a deleted entity')
   console.log('  do <verb> <type> <id>     Execute a custom verb')
   console.log('  do eval <code>            Evaluate TypeScript code')
   console.log('')
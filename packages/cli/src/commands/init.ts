@@ -1,9 +1,10 @@
 /**
- * headlessly init [--template b2b|b2c|b2d|b2a] [--tenant name]
+ * headlessly init [--template b2b|b2c|b2d|b2a] [--tenant name] [--local] [--path dir]
  *
  * Initialize a new headless.ly organization
  */
 
+import { resolve } from 'path'
 import { parseArgs } from '../args.js'
 import { loadConfig, saveConfig } from '../config.js'
 import { printSuccess, printError } from '../output.js'
@@ -43,6 +44,8 @@ export async function initCommand(args: string[]): Promise<void> {
     console.log('Options:')
     console.log('  --template b2b|b2c|b2d|b2a   Use a business model template')
     console.log('  --tenant name                 Organization name (default: "default")')
+    console.log('  --local                       Persist entities to disk instead of memory')
+    console.log('  --path dir                    Storage directory for --local (default: ".headlessly")')
     console.log('  --dry-run                     Preview changes without writing config')
     return
   }
@@ -50,6 +53,10 @@ export async function initCommand(args: string[]): Promise<void> {
   const tenant = (flags['tenant'] as string) || 'default'
   const template = flags['template'] as string | undefined
   const dryRun = flags['dry-run'] === true
+  const localFlag = flags['local']
+  const pathFlag = typeof flags['path'] === 'string' ? flags['path'] : typeof localFlag === 'string' ? localFlag : undefined
+  const local = localFlag !== undefined || pathFlag !== undefined
+  const localPath = local ? resolve(pathFlag ?? '.headlessly') : undefined
 
   if (template && !TEMPLATES.includes(template as (typeof TEMPLATES)[number])) {
     printError(`Unknown template: ${template}`)
@@ -61,7 +68,10 @@ export async function initCommand(args: string[]): Promise<void> {
   if (dryRun) {
     console.log('Dry run preview:')
     console.log(`  Tenant:   ${tenant}`)
-    console.log(`  Mode:     memory`)
+    console.log(`  Mode:     ${local ? 'local' : 'memory'}`)
+    if (localPath) {
+      console.log(`  Path:     ${localPath}`)
+    }
     if (template) {
       console.log(`  Template: ${template}`)
       const seeds = TEMPLATE_SEEDS[template]
@@ -75,7 +85,13 @@ export async function initCommand(args: string[]): Promise<void> {
   // Save tenant config
   const config = await loadConfig()
   config.tenant = tenant
-  config.mode = 'memory'
+  if (localPath) {
+    config.mode = 'local'
+    config.localPath = localPath
+  } else {
+    config.mode = 'memory'
+    delete config.localPath
+  }
   await saveConfig(config)
 
   // Scaffold template entities if specified
@@ -94,6 +110,9 @@ export async function initCommand(args: string[]): Promise<void> {
   }
 
   printSuccess(`Initialized organization: ${tenant}`)
+  if (localPath) {
+    console.log(`Storing entities in ${localPath}`)
+  }
   console.log('')
   console.log('Getting started:')
   console.log('')
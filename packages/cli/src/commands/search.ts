@@ -5,10 +5,14 @@
  *   headlessly search Contact
  *   headlessly search Contact --filter stage=Lead
  *   headlessly search Deal --filter "value>10000" --sort value:desc --limit 5
+ *   headlessly search Deal --filter "closeDate>=2026-01-01" --filter "tags~enterprise"
+ *   headlessly search Deal --filter '{"$or":[{"stage":"Won"},{"value":{"$gt":50000}}]}'
  *   headlessly search --query "alice"
+ *   headlessly search Contact --deleted
  */
 
-import { parseArgs, parseFilter, parseSort } from '../args.js'
+import { findMatching } from '@headlessly/objects'
+import { parseArgs, parseFilter, parseSort, combineFilters } from '../args.js'
 import { printTable, printJSON, printError, printCSV } from '../output.js'
 import { getProvider } from '../provider.js'
 
@@ -22,12 +26,15 @@ export async function searchCommand(args: string[]): Promise<void> {
     console.log('Usage: headlessly search [type] [options]')
     console.log('')
     console.log('Options:')
-    console.log('  --filter key=value    Filter by field (supports >, <, >=, <=, !=)')
+    console.log('  --filter key=value    Filter by field (supports >, <, >=, <=, !=, ~ for contains)')
+    console.log('                        Keys may be dot-paths (metadata.source=web)')
+    console.log('                        or pass a JSON filter for $and/$or/$not')
     console.log('                        Can be specified multiple times')
     console.log('  --query text          Full-text search across fields')
     console.log('  --limit N             Max results (default: 20)')
     console.log('  --sort field:asc|desc Sort results')
     console.log('  --count               Output only the count of matching entities')
+    console.log('  --deleted             Search the trash (soft-deleted entities) instead')
     console.log('  --output format       Output format: table, json, csv')
     console.log('  --no-header           Omit table headers (for piping)')
     console.log('  --json                Output as JSON (shortcut for --output json)')
@@ -43,27 +50,22 @@ export async function searchCommand(args: string[]): Promise<void> {
   const outputFormat = flags['output'] as string | undefined
   const countOnly = flags['count'] === true
   const noHeader = flags['no-header'] === true
+  const deleted = flags['deleted'] === true
 
   const limit = limitStr ? parseInt(limitStr, 10) : 20
 
   // Build filter from --filter flag(s) — supports multiple
-  let filter: Record<string, unknown> = {}
-  if (filterExpr) {
-    if (Array.isArray(filterExpr)) {
-      for (const expr of filterExpr) {
-        Object.assign(filter, parseFilter(expr))
-      }
-    } else {
-      filter = parseFilter(filterExpr)
-    }
-  }
+  const filterExprs = filterExpr === undefined ? [] : Array.isArray(filterExpr) ? filterExpr : [filterExpr]
+  // --deleted: only entities in the trash
+  const filter = combineFilters([...filterExprs.map(parseFilter), ...(deleted ? [{ $deletedAt: { $exists: true } }] : [])])
+  const findOptions = deleted ? { includeDeleted: true } : undefined
 
   try {
     const provider = await getProvider()
 
     if (type) {
-      // Search specific type
-      let results = await provider.find(type, Object.keys(filter).length > 0 ? filter : undefined)
+      // Search specific type — advanced operators go through the shared filter engine
+      let results = await findMatching(provider, type, filter, findOptions)
 
       // Apply text query
       if (query) {
@@ -121,7 +123,7 @@ export async function searchCommand(args: string[]): Promise<void> {
       const allResults: Record<string, unknown>[] = []
 
       for (const [name] of allNouns) {
-        const results = await provider.find(name)
+        const results = deleted ? await findMatching(provider, name, filter, findOptions) : await provider.find(name)
         const q = query.toLowerCase()
         const filtered = results.filter((r) => Object.values(r).some((v) => typeof v === 'string' && v.toLowerCase().includes(q)))
         allResults.push(...(filtered as Record<string, unknown>[]))
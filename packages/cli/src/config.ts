@@ -14,6 +14,8 @@ export interface CLIConfig {
   apiKey?: string
   endpoint?: string
   mode?: 'memory' | 'local' | 'remote'
+  /** Directory for file-backed local storage (used when mode is 'local') */
+  localPath?: string
 }
 
 function resolveConfigDir(): string {
@@ -7,6 +7,7 @@
 
 import { searchCommand } from './commands/search.js'
 import { fetchCommand } from './commands/fetch.js'
+import { auditCommand } from './commands/audit.js'
 import { doCommand } from './commands/do.js'
 import { loginCommand } from './commands/login.js'
 import { initCommand } from './commands/init.js'
@@ -16,7 +17,7 @@ import { schemaCommand } from './commands/schema.js'
 import { apiCommand } from './commands/api.js'
 import { helpCommand, versionCommand } from './commands/help.js'
 
-const COMMANDS = ['search', 'fetch', 'do', 'login', 'init', 'status', 'mcp', 'schema', 'api', 'help']
+const COMMANDS = ['search', 'fetch', 'audit', 'do', 'login', 'init', 'status', 'mcp', 'schema', 'api', 'help']
 
 function levenshtein(a: string, b: string): number {
   const matrix: number[][] = []
@@ -56,6 +57,8 @@ export async function run(args: string[]): Promise<void> {
       return searchCommand(rest)
     case 'fetch':
       return fetchCommand(rest)
+    case 'audit':
+      return auditCommand(rest)
     case 'do':
       return doCommand(rest)
     case 'login':
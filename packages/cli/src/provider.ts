@@ -3,7 +3,8 @@
  *
  * Resolves the correct NounProvider based on config/environment:
  * - remote: DONounProvider targeting saved config or HEADLESSLY_ENDPOINT
- * - local: LocalNounProvider (default, in-process)
+ * - local: FileNounProvider persisting to the configured localPath (`headlessly init --local`)
+ * - memory: LocalNounProvider (default, in-process)
  *
  * Environment variables:
  * - HEADLESSLY_ENDPOINT: Remote API URL (e.g. https://crm.headless.ly)
@@ -15,7 +16,7 @@
 
 import type { NounProvider } from 'digital-objects'
 import { getProvider as getGlobalProvider, setProvider } from 'digital-objects'
-import { LocalNounProvider } from '@headlessly/objects'
+import { LocalNounProvider, tenantContext } from '@headlessly/objects'
 import { loadConfig } from './config.js'
 
 let initialized = false
@@ -26,6 +27,7 @@ const DEFAULT_REMOTE_ENDPOINT = 'https://db.headless.ly'
  *
  * On first call, checks saved config and environment variables for remote configuration.
  * If remote mode is configured, it initializes DONounProvider.
+ * If local mode is configured, it initializes FileNounProvider.
  * Otherwise sets LocalNounProvider as the default.
  */
 export async function getProvider(): Promise<NounProvider> {
@@ -43,6 +45,14 @@ export async function getProvider(): Promise<NounProvider> {
         apiKey: token,
       })
       setProvider(provider)
+    } else if (config.mode === 'local' && config.localPath) {
+      const { FileNounProvider } = await import('@headlessly/objects/file')
+      setProvider(
+        new FileNounProvider({
+          path: config.localPath,
+          context: config.tenant ? tenantContext(config.tenant) : undefined,
+        }),
+      )
     } else {
       setProvider(new LocalNounProvider())
     }
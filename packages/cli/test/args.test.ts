@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from 'vitest'
-import { parseArgs, parseFilter, parseSort } from '../src/args.js'
+import { parseArgs, parseFilter, parseSort, combineFilters } from '../src/args.js'
 import { printTable, printJSON, printError, printSuccess } from '../src/output.js'
 
 describe('parseArgs', () => {
@@ -147,6 +147,29 @@ describe('parseFilter', () => {
   it('handles float values', () => {
     expect(parseFilter('rate=0.5')).toEqual({ rate: 0.5 })
   })
+
+  it('accepts dot-path keys', () => {
+    expect(parseFilter('metadata.source=web')).toEqual({ 'metadata.source': 'web' })
+  })
+
+  it('parses ~ as $contains', () => {
+    expect(parseFilter('tags~enterprise')).toEqual({ tags: { $contains: 'enterprise' } })
+  })
+
+  it('passes JSON filters through', () => {
+    expect(parseFilter('{"$or":[{"stage":"Lead"},{"value":{"$gt":10}}]}')).toEqual({ $or: [{ stage: 'Lead' }, { value: { $gt: 10 } }] })
+    expect(parseFilter('{not json')).toEqual({})
+  })
+})
+
+describe('combineFilters', () => {
+  it('merges distinct fields', () => {
+    expect(combineFilters([{ stage: 'Lead' }, { value: { $gt: 10 } }])).toEqual({ stage: 'Lead', value: { $gt: 10 } })
+  })
+
+  it('combines repeated fields with $and', () => {
+    expect(combineFilters([{ value: { $gt: 10 } }, { value: { $lt: 100 } }])).toEqual({ $and: [{ value: { $gt: 10 } }, { value: { $lt: 100 } }] })
+  })
 })
 
 describe('parseSort', () => {
@@ -1,10 +1,13 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { setProvider, MemoryNounProvider } from 'digital-objects'
+import { LocalNounProvider } from '@headlessly/objects'
+import { EventLog } from '@headlessly/events'
 
 // Register all 35 entities
 import '@headlessly/sdk'
 
 import { run } from '../src/index.js'
+import { getProvider } from '../src/provider.js'
 import { printTable, printJSON, printCSV, printError, printSuccess } from '../src/output.js'
 
 // ============================================================================
@@ -803,3 +806,112 @@ describe('Login Command — Edge Cases', () => {
     expect(out).toContain('myorg')
   })
 })
+
+// ============================================================================
+// 17. Soft delete — trash search and restore (3 tests)
+// ============================================================================
+
+describe('Trash — search --deleted and do restore', () => {
+  let local: LocalNounProvider
+
+  beforeEach(async () => {
+    setup()
+    // Resolve the CLI's default provider first so it does not replace ours
+    await getProvider()
+    local = new LocalNounProvider()
+    setProvider(local)
+  })
+  afterEach(teardown)
+
+  it('search --deleted lists only trashed entities', async () => {
+    const alice = await local.create('Contact', { name: 'Alice', stage: 'Lead' })
+    await local.create('Contact', { name: 'Bob', stage: 'Lead' })
+    await run(['do', 'delete', 'Contact', alice.$id])
+    logSpy.mockClear()
+
+    await run(['search', 'Contact', '--deleted', '--json'])
+    const parsed = JSON.parse(logOutput())
+    expect(parsed.map((c: { name: string }) => c.name)).toEqual(['Alice'])
+  })
+
+  it('do restore brings a deleted entity back', async () => {
+    const alice = await local.create('Contact', { name: 'Alice', stage: 'Lead' })
+    await run(['do', 'delete', 'Contact', alice.$id])
+
+    await run(['do', 'restore', 'Contact', alice.$id])
+    expect(logOutput()).toContain(`Restored Contact: ${alice.$id}`)
+    expect((await local.get('Contact', alice.$id))?.name).toBe('Alice')
+  })
+
+  it('do restore fails for an entity that is not in the trash', async () => {
+    const alice = await local.create('Contact', { name: 'Alice', stage: 'Lead' })
+
+    await run(['do', 'restore', 'Contact', alice.$id])
+    expect(errorOutput()).toContain('not found in trash')
+    expect(exitSpy).toHaveBeenCalledWith(1)
+  })
+})
+
+// ============================================================================
+// 18. Upsert by unique key (2 tests)
+// ============================================================================
+
+describe('do upsert --match', () => {
+  let local: LocalNounProvider
+
+  beforeEach(async () => {
+    setup()
+    await getProvider()
+    local = new LocalNounProvider()
+    setProvider(local)
+  })
+  afterEach(teardown)
+
+  it('creates, then updates the entity with that unique key', async () => {
+    await run(['do', 'upsert', 'Contact', '--match', 'email=alice@acme.co', '--name', 'Alice', '--stage', 'Lead'])
+    expect(logOutput()).toContain('Created Contact:')
+
+    await run(['do', 'upsert', 'Contact', '--match', 'email=alice@acme.co', '--stage', 'Qualified'])
+    expect(logOutput()).toContain('Updated Contact:')
+    const contacts = await local.find('Contact')
+    expect(contacts).toHaveLength(1)
+    expect(contacts[0]).toMatchObject({ name: 'Alice', email: 'alice@acme.co', stage: 'Qualified', $version: 2 })
+  })
+
+  it('rejects a match on a field that is not unique', async () => {
+    await run(['do', 'upsert', 'Contact', '--match', 'name=Alice'])
+    expect(errorOutput()).toContain('Name is not a unique field of Contact')
+    expect(exitSpy).toHaveBeenCalledWith(1)
+  })
+})
+
+describe('audit', () => {
+  let local: LocalNounProvider
+
+  beforeEach(async () => {
+    setup()
+    await getProvider()
+    local = new LocalNounProvider({ eventLog: new EventLog() })
+    setProvider(local)
+  })
+  afterEach(teardown)
+
+  it("prints an entity's field-level changes", async () => {
+    const deal = await local.create('Deal', { name: 'Big', value: 100 })
+    await local.update('Deal', deal.$id, { value: 250 })
+
+    await run(['audit', 'Deal', deal.$id, '--field', 'value', '--json'])
+    const changes = JSON.parse(logOutput())
+    expect(changes.map((c: { verb: string; to: unknown }) => [c.verb, c.to])).toEqual([
+      ['create', 100],
+      ['update', 250],
+    ])
+  })
+
+  it('reports providers without audit support', async () => {
+    setProvider(new MemoryNounProvider())
+    await run(['audit', 'Deal', 'deal_abc'])
+    expect(errorOutput()).toContain('audit is not supported by the current provider')
+    expect(exitSpy).toHaveBeenCalledWith(1)
+  })
+})
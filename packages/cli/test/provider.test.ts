@@ -33,7 +33,24 @@ vi.mock('@headlessly/objects', () => {
     }
   }
 
-  return { LocalNounProvider, DONounProvider }
+  const tenantContext = (tenant: string) => (/^https?:\/\//.test(tenant) ? tenant : `https://headless.ly/~${tenant}`)
+
+  return { LocalNounProvider, DONounProvider, tenantContext }
+})
+
+vi.mock('@headlessly/objects/file', () => {
+  class FileNounProvider {
+    readonly kind = 'file'
+    readonly path: string
+    readonly context?: string
+
+    constructor(options: { path: string; context?: string }) {
+      this.path = options.path
+      this.context = options.context
+    }
+  }
+
+  return { FileNounProvider }
 })
 
 describe('getProvider()', () => {
@@ -104,6 +121,24 @@ describe('getProvider()', () => {
     })
   })
 
+  it('uses the file-backed provider when local mode has a storage path', async () => {
+    const { saveConfig } = await import('../src/config.js')
+    await saveConfig({
+      mode: 'local',
+      localPath: join(tempHome, 'data'),
+      tenant: 'acme',
+    })
+
+    const { getProvider } = await import('../src/provider.js')
+    const provider = await getProvider()
+
+    expect(provider).toMatchObject({
+      kind: 'file',
+      path: join(tempHome, 'data'),
+      context: 'https://headless.ly/~acme',
+    })
+  })
+
   it('falls back to the local provider with no remote configuration', async () => {
     const { getProvider } = await import('../src/provider.js')
     const provider = await getProvider()
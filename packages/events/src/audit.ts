@@ -0,0 +1,191 @@
+/**
+ * AuditLog — field-level change history over an event log
+ *
+ * Indexes every event of an EventLog or SQLiteEventLog into one FieldChange
+ * per changed field, with the actor, verb and timestamp of the event, and
+ * answers questions like "who changed Deal.value, and when":
+ *
+ *   const audit = new AuditLog(eventLog)
+ *   await audit.query({ entityType: 'Deal', entityId: 'deal_k7TmPvQx', field: 'value' })
+ *   await audit.query({ actor: 'user_fX9bL5nR', since: '2025-01-01' })
+ *
+ * Events carrying a `before` state are compared against it; events carrying
+ * only a partial `after` are compared against the entity's state replayed from
+ * earlier events. Meta-fields ($version, $updatedAt, ...) are not audited, and
+ * events without an `after` state (deletes) change no fields.
+ */
+
+import type { EventStore, NounEvent } from './types.js'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A single field changed by an event */
+export interface FieldChange {
+  /** ID of the event that made the change */
+  eventId: string
+  entityType: string
+  entityId: string
+  field: string
+  /** Value before the event (undefined when the field was unset) */
+  from: unknown
+  /** Value after the event (undefined when the field was removed) */
+  to: unknown
+  verb: string
+  actor?: string
+  context?: string
+  timestamp: string
+  /** Event sequence within the entity */
+  sequence: number
+}
+
+/** Filters for AuditLog.query() — all optional, combined with AND */
+export interface AuditQuery {
+  entityType?: string
+  entityId?: string
+  field?: string
+  actor?: string
+  verb?: string
+  /** Tenant context */
+  context?: string
+  /** Changes at or after this time */
+  since?: string | Date
+  /** Changes at or before this time */
+  until?: string | Date
+  limit?: number
+  offset?: number
+}
+
+/** The parts of an EventStore the audit index reads */
+export type AuditSource = Pick<EventStore, 'query' | 'subscribe'>
+
+/** Events read per query while indexing an existing log */
+const BACKFILL_PAGE_SIZE = 1000
+
+// =============================================================================
+// AuditLog
+// =============================================================================
+
+export class AuditLog {
+  private changes: FieldChange[] = []
+  private byEntity = new Map<string, FieldChange[]>()
+  /** Latest known state per entity, for events that carry only a partial `after` */
+  private states = new Map<string, Record<string, unknown>>()
+  private indexed = new Set<string>()
+  /** Events appended while the existing log is being indexed */
+  private pending: NounEvent[] | undefined = []
+  private ready: Promise<void>
+  private unsubscribe: () => void
+
+  constructor(private source: AuditSource) {
+    this.unsubscribe = source.subscribe('*', (event) => {
+      if (this.pending) this.pending.push(event)
+      else this.index(event)
+    })
+    this.ready = this.backfill()
+  }
+
+  /**
+   * Field changes matching a query, oldest first
+   */
+  async query(query: AuditQuery = {}): Promise<FieldChange[]> {
+    await this.ready
+    const candidates = query.entityType && query.entityId ? (this.byEntity.get(entityKey(query.entityType, query.entityId)) ?? []) : this.changes
+    const since = query.since === undefined ? undefined : toTimestamp(query.since)
+    const until = query.until === undefined ? undefined : toTimestamp(query.until)
+
+    const matches = candidates.filter((change) => {
+      if (query.entityType && change.entityType !== query.entityType) return false
+      if (query.entityId && change.entityId !== query.entityId) return false
+      if (query.field && change.field !== query.field) return false
+      if (query.actor && change.actor !== query.actor) return false
+      if (query.verb && change.verb !== query.verb) return false
+      if (query.context && change.context !== query.context) return false
+      if (since && change.timestamp < since) return false
+      if (until && change.timestamp > until) return false
+      return true
+    })
+
+    const offset = query.offset ?? 0
+    return matches.slice(offset, query.limit === undefined ? undefined : offset + query.limit)
+  }
+
+  /** Number of indexed field changes */
+  async size(): Promise<number> {
+    await this.ready
+    return this.changes.length
+  }
+
+  /** Stop indexing new events */
+  close(): void {
+    this.unsubscribe()
+  }
+
+  // ===========================================================================
+  // Indexing
+  // ===========================================================================
+
+  private async backfill(): Promise<void> {
+    for (let offset = 0; ; offset += BACKFILL_PAGE_SIZE) {
+      const page = await this.source.query({ limit: BACKFILL_PAGE_SIZE, offset })
+      for (const event of page) this.index(event)
+      if (page.length < BACKFILL_PAGE_SIZE) break
+    }
+    const pending = this.pending ?? []
+    this.pending = undefined
+    for (const event of pending) this.index(event)
+  }
+
+  private index(event: NounEvent): void {
+    if (this.indexed.has(event.$id)) return
+    this.indexed.add(event.$id)
+
+    const key = entityKey(event.entityType, event.entityId)
+    if (!event.after) return
+
+    const prior = event.before ?? this.states.get(key) ?? {}
+    const next = event.before ? event.after : { ...prior, ...event.after }
+    // Full before/after states can drop fields; partial updates only name what they set
+    const fields = event.before ? new Set([...Object.keys(event.before), ...Object.keys(event.after)]) : new Set(Object.keys(event.after))
+    this.states.set(key, next)
+
+    for (const field of fields) {
+      if (field.startsWith('$')) continue
+      if (sameValue(prior[field], next[field])) continue
+      const change: FieldChange = {
+        eventId: event.$id,
+        entityType: event.entityType,
+        entityId: event.entityId,
+        field,
+        from: prior[field],
+        to: next[field],
+        verb: event.verb,
+        actor: event.actor,
+        context: event.context,
+        timestamp: event.timestamp,
+        sequence: event.sequence,
+      }
+      this.changes.push(change)
+      const entityChanges = this.byEntity.get(key)
+      if (entityChanges) entityChanges.push(change)
+      else this.byEntity.set(key, [change])
+    }
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function entityKey(entityType: string, entityId: string): string {
+  return `${entityType}:${entityId}`
+}
+
+function toTimestamp(value: string | Date): string {
+  return typeof value === 'string' ? value : value.toISOString()
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b)
+}
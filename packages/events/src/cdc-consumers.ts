@@ -0,0 +1,373 @@
+/**
+ * Durable CDC consumers — persisted cursors and consumer groups
+ *
+ * A CursorStore keeps each consumer's position outside the process, so a
+ * restarted consumer resumes where it stopped and its lag() stays correct.
+ * A ConsumerGroup shares one position between members: each receive() leases
+ * events to a member for a visibility timeout, acknowledged events advance the
+ * group's cursor, and events not acknowledged in time are handed out again
+ * (at-least-once delivery).
+ *
+ *   const cdc = new CDCStream(log, { cursors: new SqlCursorStore(ctx.storage.sql) })
+ *   const indexer = cdc.group('search-indexer', { types: ['Contact'], visibilityTimeout: 60_000 })
+ *   const events = await indexer.receive('worker-1')
+ *   await indexer.ack(events.map((e) => e.$id))
+ */
+
+import type { CDCOptions, EventStore, NounEvent } from './types.js'
+import type { SqlStorage } from './sqlite-adapter.js'
+import { sanitizeTableName } from './sqlite-adapter.js'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** An event handed out to a consumer group member and not yet past the group's cursor */
+export interface OutstandingEvent {
+  /** Event ID */
+  id: string
+  /** Member the event was last handed to */
+  member?: string
+  /** When the event may be handed out again if it is not acknowledged (ISO) */
+  visibleAt: string
+  /** Times the event has been handed out */
+  deliveries: number
+  acked?: boolean
+}
+
+/** Everything persisted for one consumer or consumer group */
+export interface ConsumerState {
+  /** Every event up to and including this one has been processed */
+  cursor?: string
+  /** Events acknowledged one by one with CDCStream.acknowledge() */
+  acknowledged?: string[]
+  /** Consumer groups: the last event handed out */
+  position?: string
+  /** Consumer groups: events handed out after the cursor, in log order */
+  outstanding?: OutstandingEvent[]
+  /** Bumped by the store on every save; replace() compares it */
+  version?: number
+}
+
+/**
+ * Where consumer state is persisted: memory, SqlStorage, a file
+ * (FileCursorStore in @headlessly/node), or anything else.
+ */
+export interface CursorStore {
+  get(consumer: string): ConsumerState | undefined | Promise<ConsumerState | undefined>
+  set(consumer: string, state: ConsumerState): void | Promise<void>
+  /**
+   * Compare-and-set: save the state only if the consumer is still at
+   * `version` (undefined: it has no saved state). Resolves to false when
+   * another writer saved first. Stores shared between processes implement
+   * it, so concurrent updates never overwrite each other.
+   */
+  replace?(consumer: string, version: number | undefined, state: ConsumerState): boolean | Promise<boolean>
+  delete(consumer: string): void | Promise<void>
+  /** Names of all consumers with saved state */
+  list(): string[] | Promise<string[]>
+}
+
+export interface ConsumerGroupOptions extends Pick<CDCOptions, 'types' | 'verbs' | 'actors'> {
+  /** How long a received event stays hidden from other members before it is handed out again, in milliseconds (default: 30000) */
+  visibilityTimeout?: number
+  /** Events per receive() (default: 100) */
+  batchSize?: number
+}
+
+export const DEFAULT_VISIBILITY_TIMEOUT = 30_000
+
+/** Events read per CDC page when counting lag */
+const LAG_PAGE_SIZE = 1000
+
+/** Tries at a compare-and-set update before giving up on a consumer's contended state */
+const MAX_UPDATE_ATTEMPTS = 10
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Count the events after a cursor, paging through the store */
+export async function countAfter(store: EventStore, options: Omit<CDCOptions, 'batchSize' | 'since'>): Promise<number> {
+  let cursor = options.after
+  let total = 0
+  let hasMore = true
+  while (hasMore) {
+    const result = await store.cdc({ ...options, after: cursor, batchSize: LAG_PAGE_SIZE })
+    total += result.events.length
+    hasMore = result.hasMore
+    if (result.events.length > 0) {
+      cursor = result.cursor
+    }
+  }
+  return total
+}
+
+/**
+ * Consumer state over a CursorStore. Updates through one ConsumerStates are
+ * serialized; stores with replace() also keep updates from other instances
+ * and processes from overwriting each other, by re-running an update whose
+ * state changed underneath it.
+ */
+export class ConsumerStates {
+  private writes: Promise<unknown> = Promise.resolve()
+
+  constructor(readonly cursors: CursorStore) {}
+
+  async get(consumer: string): Promise<ConsumerState> {
+    await this.writes
+    return (await this.cursors.get(consumer)) ?? {}
+  }
+
+  /** Read-modify-write a consumer's state. `fn` may run more than once, so it should only change the state. */
+  update<R>(consumer: string, fn: (state: ConsumerState) => R | Promise<R>): Promise<R> {
+    const run = this.writes.then(async () => {
+      for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+        const current = (await this.cursors.get(consumer)) ?? {}
+        const state = structuredClone(current)
+        const result = await fn(state)
+        if (!this.cursors.replace) {
+          await this.cursors.set(consumer, state)
+          return result
+        }
+        if (await this.cursors.replace(consumer, current.version, state)) return result
+      }
+      throw new Error(`Consumer state of ${consumer} kept changing: gave up after ${MAX_UPDATE_ATTEMPTS} attempts`)
+    })
+    this.writes = run.catch(() => undefined)
+    return run
+  }
+
+  async delete(consumer: string): Promise<void> {
+    const run = this.writes.then(() => this.cursors.delete(consumer))
+    this.writes = run.catch(() => undefined)
+    await run
+  }
+}
+
+// =============================================================================
+// ConsumerGroup
+// =============================================================================
+
+/**
+ * Members of a group share its position: each event is handed to one member
+ * at a time, and is handed out again if not acknowledged within the
+ * visibility timeout.
+ */
+export class ConsumerGroup {
+  private visibilityTimeout: number
+  private batchSize: number
+
+  constructor(
+    private store: EventStore,
+    private states: ConsumerStates,
+    readonly name: string,
+    private options: ConsumerGroupOptions = {},
+  ) {
+    this.visibilityTimeout = options.visibilityTimeout ?? DEFAULT_VISIBILITY_TIMEOUT
+    this.batchSize = options.batchSize ?? 100
+  }
+
+  /**
+   * Lease up to `max` events to a member: first those whose visibility
+   * timeout ran out, then events not handed out yet.
+   */
+  receive(member: string, options: { max?: number; now?: Date } = {}): Promise<NounEvent[]> {
+    const max = options.max ?? this.batchSize
+    const now = options.now ?? new Date()
+    const visibleAt = new Date(now.getTime() + this.visibilityTimeout).toISOString()
+
+    return this.states.update(this.name, async (state) => {
+      const outstanding = (state.outstanding ??= [])
+      const events: NounEvent[] = []
+
+      for (const entry of outstanding) {
+        if (events.length >= max) break
+        if (entry.acked || entry.visibleAt > now.toISOString()) continue
+        const event = await this.store.get(entry.id)
+        if (!event) {
+          // Dropped from the log by retention: nothing left to deliver
+          entry.acked = true
+          continue
+        }
+        Object.assign(entry, { member, visibleAt, deliveries: entry.deliveries + 1 })
+        events.push(event)
+      }
+
+      if (events.length < max) {
+        const batch = await this.store.cdc({
+          after: state.position ?? state.cursor,
+          types: this.options.types,
+          verbs: this.options.verbs,
+          actors: this.options.actors,
+          batchSize: max - events.length,
+        })
+        for (const event of batch.events) {
+          outstanding.push({ id: event.$id, member, visibleAt, deliveries: 1 })
+          events.push(event)
+        }
+        if (batch.events.length > 0) state.position = batch.cursor
+      }
+
+      advance(state)
+      return events
+    })
+  }
+
+  /** Mark events processed. The group's cursor moves past every acknowledged event with nothing unacknowledged before it. */
+  ack(eventIds: string[]): Promise<void> {
+    const ids = new Set(eventIds)
+    return this.states.update(this.name, (state) => {
+      for (const entry of state.outstanding ?? []) {
+        if (ids.has(entry.id)) entry.acked = true
+      }
+      advance(state)
+    })
+  }
+
+  /** Hand events back so the next receive() delivers them again without waiting for the timeout */
+  nack(eventIds: string[]): Promise<void> {
+    const ids = new Set(eventIds)
+    return this.states.update(this.name, (state) => {
+      for (const entry of state.outstanding ?? []) {
+        if (ids.has(entry.id) && !entry.acked) entry.visibleAt = new Date(0).toISOString()
+      }
+    })
+  }
+
+  /** Events handed out and not yet acknowledged */
+  async inFlight(): Promise<OutstandingEvent[]> {
+    const state = await this.states.get(this.name)
+    return (state.outstanding ?? []).filter((entry) => !entry.acked)
+  }
+
+  /** The group's cursor: every event up to it is acknowledged */
+  async cursor(): Promise<string | undefined> {
+    return (await this.states.get(this.name)).cursor
+  }
+
+  /** Number of matching events not yet acknowledged, including those in flight */
+  async lag(): Promise<number> {
+    const state = await this.states.get(this.name)
+    const after = await countAfter(this.store, { after: state.cursor, types: this.options.types, verbs: this.options.verbs, actors: this.options.actors })
+    return after - (state.outstanding ?? []).filter((entry) => entry.acked).length
+  }
+}
+
+/** Move the cursor past the leading run of acknowledged events */
+function advance(state: ConsumerState): void {
+  const outstanding = state.outstanding ?? []
+  while (outstanding.length > 0 && outstanding[0].acked) {
+    state.cursor = outstanding.shift()!.id
+  }
+}
+
+/** A state as persisted: the version lives beside it */
+function withoutVersion(state: ConsumerState): ConsumerState {
+  const { version: _version, ...rest } = state
+  return rest
+}
+
+// =============================================================================
+// MemoryCursorStore
+// =============================================================================
+
+/**
+ * Default store: nothing outlives the process
+ */
+export class MemoryCursorStore implements CursorStore {
+  private states = new Map<string, ConsumerState>()
+
+  get(consumer: string): ConsumerState | undefined {
+    const state = this.states.get(consumer)
+    return state && structuredClone(state)
+  }
+
+  set(consumer: string, state: ConsumerState): void {
+    this.states.set(consumer, { ...structuredClone(state), version: (this.states.get(consumer)?.version ?? 0) + 1 })
+  }
+
+  replace(consumer: string, version: number | undefined, state: ConsumerState): boolean {
+    if (this.states.get(consumer)?.version !== version) return false
+    this.set(consumer, state)
+    return true
+  }
+
+  delete(consumer: string): void {
+    this.states.delete(consumer)
+  }
+
+  list(): string[] {
+    return Array.from(this.states.keys())
+  }
+}
+
+// =============================================================================
+// SqlCursorStore
+// =============================================================================
+
+export interface SqlCursorStoreOptions {
+  /** Table name (defaults to 'cdc_consumers') */
+  tableName?: string
+}
+
+/**
+ * Store over SqlStorage (Durable Object SQLite, better-sqlite3), so consumer
+ * positions survive restarts. Each row carries a version that replace()
+ * compares and bumps in a single statement, so stores in several processes
+ * can share one database.
+ */
+export class SqlCursorStore implements CursorStore {
+  private tableName: string
+
+  constructor(
+    private sql: SqlStorage,
+    options: SqlCursorStoreOptions = {},
+  ) {
+    this.tableName = sanitizeTableName(options.tableName ?? 'cdc_consumers')
+    this.sql.exec(
+      `CREATE TABLE IF NOT EXISTS ${this.tableName} (consumer TEXT PRIMARY KEY, state TEXT NOT NULL, version INTEGER NOT NULL DEFAULT 1, updated_at TEXT NOT NULL)`,
+    )
+  }
+
+  get(consumer: string): ConsumerState | undefined {
+    const row = this.sql.exec(`SELECT state, version FROM ${this.tableName} WHERE consumer = ?`, consumer).toArray()[0]
+    return row ? { ...(JSON.parse(row.state as string) as ConsumerState), version: row.version as number } : undefined
+  }
+
+  set(consumer: string, state: ConsumerState): void {
+    this.sql.exec(
+      `INSERT INTO ${this.tableName} (consumer, state, updated_at) VALUES (?, ?, ?) ON CONFLICT(consumer) DO UPDATE SET state = excluded.state, version = version + 1, updated_at = excluded.updated_at`,
+      consumer,
+      JSON.stringify(withoutVersion(state)),
+      new Date().toISOString(),
+    )
+  }
+
+  replace(consumer: string, version: number | undefined, state: ConsumerState): boolean {
+    const json = JSON.stringify(withoutVersion(state))
+    const now = new Date().toISOString()
+    const saved =
+      version === undefined
+        ? this.sql.exec(`INSERT INTO ${this.tableName} (consumer, state, updated_at) VALUES (?, ?, ?) ON CONFLICT(consumer) DO NOTHING RETURNING consumer`, consumer, json, now)
+        : this.sql.exec(
+            `UPDATE ${this.tableName} SET state = ?, version = version + 1, updated_at = ? WHERE consumer = ? AND version = ? RETURNING consumer`,
+            json,
+            now,
+            consumer,
+            version,
+          )
+    return saved.toArray().length > 0
+  }
+
+  delete(consumer: string): void {
+    this.sql.exec(`DELETE FROM ${this.tableName} WHERE consumer = ?`, consumer)
+  }
+
+  list(): string[] {
+    return this.sql
+      .exec(`SELECT consumer FROM ${this.tableName} ORDER BY consumer ASC`)
+      .toArray()
+      .map((row) => row.consumer as string)
+  }
+}
@@ -2,99 +2,121 @@
  * CDCStream — Change Data Capture for external consumers
  *
  * Provides cursor-based polling and SSE streaming for consuming
- * the event log from external systems.
+ * the event log from external systems. Consumer cursors and
+ * acknowledgements are kept in a CursorStore (in memory by default),
+ * consumer groups share work between members, and pipe() drives sinks.
  */
 
-import type { NounEvent, CDCOptions } from './types.js'
-import type { EventLog } from './event-log.js'
+import type { NounEvent, CDCOptions, CDCBatch, EventStore } from './types.js'
+import { ConsumerGroup, ConsumerStates, MemoryCursorStore, countAfter } from './cdc-consumers.js'
+import type { ConsumerGroupOptions, CursorStore } from './cdc-consumers.js'
+import { CDCSinkRunner } from './sinks.js'
+import type { CDCSink, CDCSinkOptions } from './sinks.js'
 
 /** Named consumer with auto-tracking cursor */
 export interface CDCConsumer {
-  poll(options?: Omit<CDCOptions, 'after'>): Promise<{ events: NounEvent[]; cursor: string; hasMore: boolean }>
+  poll(options?: Omit<CDCOptions, 'after'>): Promise<CDCBatch>
   checkpoint(): Promise<void>
 }
 
+export interface CDCStreamOptions {
+  /** Where consumer cursors and acknowledgements are kept (default: in memory) */
+  cursors?: CursorStore
+}
+
 export class CDCStream {
-  private cursors = new Map<string, string>()
-  private acknowledged = new Map<string, Set<string>>()
+  private states: ConsumerStates
 
-  constructor(private eventLog: EventLog) {}
+  constructor(
+    private eventLog: EventStore,
+    options: CDCStreamOptions = {},
+  ) {
+    this.states = new ConsumerStates(options.cursors ?? new MemoryCursorStore())
+  }
 
   /**
    * Get a batch of events since a cursor (for external consumers).
    * Returns events + a new cursor for the next batch.
    */
-  async poll(options: CDCOptions): Promise<{
-    events: NounEvent[]
-    cursor: string
-    hasMore: boolean
-  }> {
+  async poll(options: CDCOptions): Promise<CDCBatch> {
     return this.eventLog.cdc(options)
   }
 
   /** Persist a consumer cursor position */
   async checkpoint(consumerId: string, cursor: string): Promise<void> {
-    this.cursors.set(consumerId, cursor)
+    await this.states.update(consumerId, (state) => {
+      state.cursor = cursor
+    })
   }
 
   /** Retrieve a consumer's saved cursor */
   async getCursor(consumerId: string): Promise<string | undefined> {
-    return this.cursors.get(consumerId)
+    return (await this.states.get(consumerId)).cursor
   }
 
   /** Mark specific events as processed by a consumer */
   async acknowledge(consumerId: string, eventIds: string[]): Promise<void> {
-    if (!this.acknowledged.has(consumerId)) {
-      this.acknowledged.set(consumerId, new Set())
-    }
-    const acked = this.acknowledged.get(consumerId)!
-    for (const id of eventIds) {
-      acked.add(id)
-    }
+    await this.states.update(consumerId, (state) => {
+      state.acknowledged = Array.from(new Set([...(state.acknowledged ?? []), ...eventIds]))
+    })
   }
 
   /** Get pending (unacknowledged) events for a consumer */
   async pending(consumerId: string): Promise<{ events: NounEvent[] }> {
-    const acked = this.acknowledged.get(consumerId) ?? new Set<string>()
+    const acked = new Set((await this.states.get(consumerId)).acknowledged)
     const all = await this.eventLog.cdc({})
     const events = all.events.filter((e) => !acked.has(e.$id))
     return { events }
   }
 
-  /** Create a named consumer with auto-tracking cursor */
+  /** Create a named consumer with auto-tracking cursor, resuming from its saved cursor */
   createConsumer(name: string): CDCConsumer {
-    let lastCursor: string | undefined = this.cursors.get(name)
+    let lastCursor: Promise<string | undefined> = this.getCursor(name)
 
     return {
       poll: async (options?: Omit<CDCOptions, 'after'>) => {
-        const result = await this.eventLog.cdc({ ...options, after: lastCursor })
+        const result = await this.eventLog.cdc({ ...options, after: await lastCursor })
         if (result.events.length > 0) {
-          lastCursor = result.cursor
+          lastCursor = Promise.resolve(result.cursor)
         }
         return result
       },
       checkpoint: async () => {
-        if (lastCursor) {
-          this.cursors.set(name, lastCursor)
+        const cursor = await lastCursor
+        if (cursor) {
+          await this.checkpoint(name, cursor)
         }
       },
     }
   }
 
-  /** Get the number of unconsumed events for a consumer */
-  async lag(consumerId: string): Promise<number> {
-    let cursor = this.cursors.get(consumerId)
-    let total = 0
-    let hasMore = true
-    while (hasMore) {
-      const result = await this.eventLog.cdc({ after: cursor, batchSize: 1000 })
-      total += result.events.length
-      hasMore = result.hasMore
-      if (result.events.length > 0) {
-        cursor = result.cursor
-      }
-    }
-    return total
+  /**
+   * A consumer group: members share the group's position, each event is leased
+   * to one member at a time, and unacknowledged events are redelivered after
+   * the visibility timeout
+   */
+  group(name: string, options: ConsumerGroupOptions = {}): ConsumerGroup {
+    return new ConsumerGroup(this.eventLog, this.states, name, options)
+  }
+
+  /** Names of all consumers and groups with saved state */
+  async consumers(): Promise<string[]> {
+    return this.states.cursors.list()
+  }
+
+  /** Forget a consumer's cursor, acknowledgements and leases */
+  async removeConsumer(consumerId: string): Promise<void> {
+    await this.states.delete(consumerId)
+  }
+
+  /** Get the number of unconsumed events for a consumer, optionally counting only those matching filters */
+  async lag(consumerId: string, filter: Pick<CDCOptions, 'types' | 'verbs' | 'actors'> = {}): Promise<number> {
+    return countAfter(this.eventLog, { ...filter, after: await this.getCursor(consumerId) })
+  }
+
+  /** Drive a sink from this stream, checkpointing under the sink's name */
+  pipe(sink: CDCSink, options: CDCSinkOptions = {}): CDCSinkRunner {
+    return new CDCSinkRunner(this, sink, options)
   }
 
   /**
@@ -124,11 +146,13 @@ export class CDCStream {
         // 2. Subscribe for new events
         const typeFilter = options.types
         const verbFilter = options.verbs
+        const actorFilter = options.actors
 
         unsubscribe = eventLog.subscribe('*', (event) => {
-          // Apply type and verb filters
+          // Apply type, verb and actor filters
           if (typeFilter?.length && !typeFilter.includes(event.entityType)) return
           if (verbFilter?.length && !verbFilter.includes(event.verb)) return
+          if (actorFilter?.length && (event.actor === undefined || !actorFilter.includes(event.actor))) return
 
           try {
             const sseData = formatSSE(event)
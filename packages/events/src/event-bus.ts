@@ -1,8 +1,9 @@
 /**
- * EventBus — ergonomic pub/sub wrapper around EventLog
+ * EventBus — ergonomic pub/sub wrapper around an event store
  *
  * Provides the classic event bus API (emit, on, once, off, replay)
- * while delegating all storage and sequencing to the underlying EventLog.
+ * while delegating all storage and sequencing to the underlying EventLog
+ * (or any other EventStore, such as SQLiteEventLog).
  *
  * This is the primary entry point for code-mode event handling:
  *
@@ -21,21 +22,21 @@
  * ```
  */
 
-import type { NounEvent, NounEventInput } from './types.js'
+import type { EventStore, NounEvent, NounEventInput } from './types.js'
 import { EventLog, matchesPattern } from './event-log.js'
 
 export type EventBusHandler = (event: NounEvent) => void | Promise<void>
 
 export class EventBus {
-  private log: EventLog
+  private log: EventStore
   private handlerMap = new Map<EventBusHandler, Array<{ pattern: string; unsub: () => void }>>()
 
-  constructor(eventLog?: EventLog) {
+  constructor(eventLog?: EventStore) {
     this.log = eventLog ?? new EventLog()
   }
 
-  /** Access the underlying EventLog for advanced queries */
-  get eventLog(): EventLog {
+  /** Access the underlying event store for advanced queries */
+  get eventLog(): EventStore {
     return this.log
   }
 
@@ -1,11 +1,17 @@
 /**
  * EventLog — the immutable append-only event log
  *
- * Events are never modified or deleted. The log is the source of truth
- * for all state reconstruction and time travel queries.
+ * Events are never modified. The log is the source of truth for all state
+ * reconstruction and time travel queries. Per-entity snapshots bound how far
+ * back a replay has to go, and an optional retention policy drops events that
+ * a snapshot already covers.
  */
 
-import type { NounEvent, NounEventInput, CDCOptions } from './types.js'
+import type { NounEvent, NounEventInput, CDCOptions, CDCBatch, EventQuery, EventStore, TimeQuery } from './types.js'
+import { DEFAULT_SNAPSHOT_EVERY, replay } from './snapshots.js'
+import type { EntitySnapshot, RetentionPolicy } from './snapshots.js'
+import { MemoryEventLogStorage } from './storage.js'
+import type { EventLogStorage } from './storage.js'
 
 // =============================================================================
 // ID Generation
@@ -76,12 +82,33 @@ export function matchesPattern(pattern: string, eventType: string): boolean {
 export interface EventLogOptions {
   /** Maximum events to keep in memory before flushing */
   maxBuffered?: number
+  /** Where events and snapshots are persisted (default: memory only). Existing contents are loaded on construction. */
+  storage?: EventLogStorage
+  /** Snapshot an entity's state every N of its events so time travel replays from the nearest snapshot (default: 100, 0 disables) */
+  snapshotEvery?: number
+  /** Which events applyRetention() drops once a snapshot covers them (default: keep everything) */
+  retention?: RetentionPolicy
 }
 
-export class EventLog {
+export class EventLog implements EventStore {
   private events: NounEvent[] = []
   private entitySequences = new Map<string, number>()
   private subscribers = new Map<string, Set<(event: NounEvent) => void>>()
+  /** Events per entity, in sequence order */
+  private byEntity = new Map<string, NounEvent[]>()
+  /** Snapshots per entity, oldest first */
+  private snapshots = new Map<string, EntitySnapshot[]>()
+  private storage: EventLogStorage
+  private snapshotEvery: number
+  private retention: RetentionPolicy
+
+  constructor(options: EventLogOptions = {}) {
+    this.storage = options.storage ?? new MemoryEventLogStorage()
+    this.snapshotEvery = options.snapshotEvery ?? DEFAULT_SNAPSHOT_EVERY
+    this.retention = options.retention ?? {}
+    for (const event of this.storage.loadEvents()) this.index(event)
+    for (const snapshot of this.storage.loadSnapshots()) this.indexSnapshot(snapshot)
+  }
 
   /** Append an event (immutable — events are never modified) */
   async append(input: NounEventInput): Promise<NounEvent> {
@@ -101,8 +128,11 @@ export class EventLog {
       sequence: nextSeq,
     }
 
-    this.entitySequences.set(entityKey, nextSeq)
-    this.events.push(event)
+    this.storage.appendEvent(event)
+    this.index(event)
+    if (this.snapshotEvery > 0 && nextSeq % this.snapshotEvery === 0) {
+      this.takeSnapshot(entityKey)
+    }
 
     // Notify matching subscribers
     for (const [pattern, handlers] of this.subscribers) {
@@ -126,19 +156,12 @@ export class EventLog {
   }
 
   /** Query events with filters */
-  async query(options: {
-    entityType?: string
-    entityId?: string
-    verb?: string
-    since?: string | Date
-    until?: string | Date
-    limit?: number
-    offset?: number
-  }): Promise<NounEvent[]> {
+  async query(options: EventQuery): Promise<NounEvent[]> {
     let filtered = this.events.filter((event) => {
       if (options.entityType && event.entityType !== options.entityType) return false
       if (options.entityId && event.entityId !== options.entityId) return false
       if (options.verb && event.verb !== options.verb) return false
+      if (options.actor && event.actor !== options.actor) return false
       if (options.since) {
         const sinceTs = typeof options.since === 'string' ? options.since : options.since.toISOString()
         if (event.timestamp < sinceTs) return false
@@ -174,7 +197,7 @@ export class EventLog {
   }
 
   /** CDC stream — get events since a cursor */
-  async cdc(options: CDCOptions): Promise<{ events: NounEvent[]; cursor: string; hasMore: boolean }> {
+  async cdc(options: CDCOptions): Promise<CDCBatch> {
     let startIndex = 0
 
     // Find the start position based on cursor (event ID)
@@ -205,6 +228,10 @@ export class EventLog {
       candidates = candidates.filter((e) => options.verbs!.includes(e.verb))
     }
 
+    if (options.actors?.length) {
+      candidates = candidates.filter((e) => e.actor !== undefined && options.actors!.includes(e.actor))
+    }
+
     // Apply batch size
     const batchSize = options.batchSize ?? candidates.length
     const batch = candidates.slice(0, batchSize)
@@ -218,7 +245,7 @@ export class EventLog {
 
   /** Get all events for an entity (for state reconstruction) */
   async getEntityHistory(entityType: string, entityId: string): Promise<NounEvent[]> {
-    return this.events.filter((e) => e.entityType === entityType && e.entityId === entityId)
+    return [...(this.byEntity.get(entityKey(entityType, entityId)) ?? [])]
   }
 
   /** Total number of events in the log */
@@ -285,28 +312,33 @@ export class EventLog {
 
   /** Clear all events and reset sequences */
   async clear(): Promise<void> {
+    this.storage.clear()
     this.events = []
     this.entitySequences.clear()
+    this.byEntity.clear()
+    this.snapshots.clear()
     this.subscribers.clear()
   }
 
   /** Stream events as an async iterable */
-  async *stream(filter?: { entityType?: string; entityId?: string; verb?: string }): AsyncIterable<NounEvent> {
+  async *stream(filter?: { entityType?: string; entityId?: string; verb?: string; actor?: string }): AsyncIterable<NounEvent> {
     for (const event of this.events) {
       if (filter?.entityType && event.entityType !== filter.entityType) continue
       if (filter?.entityId && event.entityId !== filter.entityId) continue
       if (filter?.verb && event.verb !== filter.verb) continue
+      if (filter?.actor && event.actor !== filter.actor) continue
       yield event
     }
   }
 
   /** Count events matching a filter without loading them all */
-  async count(filter?: { entityType?: string; entityId?: string; verb?: string }): Promise<number> {
+  async count(filter?: { entityType?: string; entityId?: string; verb?: string; actor?: string }): Promise<number> {
     let total = 0
     for (const event of this.events) {
       if (filter?.entityType && event.entityType !== filter.entityType) continue
       if (filter?.entityId && event.entityId !== filter.entityId) continue
       if (filter?.verb && event.verb !== filter.verb) continue
+      if (filter?.actor && event.actor !== filter.actor) continue
       total++
     }
     return total
@@ -334,15 +366,125 @@ export class EventLog {
   /** Reconstruct the log from serialized JSON data */
   fromJSON(json: string): void {
     const parsed: NounEvent[] = JSON.parse(json)
+    this.storage.clear()
     this.events = []
     this.entitySequences.clear()
+    this.byEntity.clear()
+    this.snapshots.clear()
     for (const event of parsed) {
-      const entityKey = `${event.entityType}:${event.entityId}`
-      const currentSeq = this.entitySequences.get(entityKey) ?? 0
-      if (event.sequence > currentSeq) {
-        this.entitySequences.set(entityKey, event.sequence)
+      this.storage.appendEvent(event)
+      this.index(event)
+    }
+  }
+
+  // ===========================================================================
+  // Snapshots & retention
+  // ===========================================================================
+
+  /**
+   * The entity's latest snapshot at or before a point in time (by `atVersion`
+   * or `asOf`), or its latest snapshot when the query names neither.
+   * Returns null if there is none, and for `between` queries.
+   */
+  async snapshotAt(entityType: string, entityId: string, query: TimeQuery = {}): Promise<EntitySnapshot | null> {
+    if (query.between) return null
+    const snapshots = this.snapshots.get(entityKey(entityType, entityId)) ?? []
+    const asOf = query.asOf === undefined ? undefined : typeof query.asOf === 'string' ? query.asOf : query.asOf.toISOString()
+    for (let i = snapshots.length - 1; i >= 0; i--) {
+      const snapshot = snapshots[i]
+      if (query.atVersion !== undefined ? snapshot.sequence <= query.atVersion : asOf === undefined || snapshot.timestamp <= asOf) {
+        return snapshot
       }
-      this.events.push(event)
     }
+    return null
+  }
+
+  /**
+   * Apply the retention policy to every entity: drop events older than
+   * `maxAge`, or beyond each entity's `maxEventsPerEntity` most recent, up to
+   * the latest snapshot that covers them. That snapshot stands in for the
+   * dropped history, so time travel before it returns null; earlier snapshots
+   * are dropped with it. A CDC cursor on a dropped event restarts from the
+   * oldest remaining event.
+   */
+  async applyRetention(now: Date = new Date()): Promise<{ removed: number }> {
+    let removed = 0
+    for (const key of this.snapshots.keys()) {
+      removed += this.retain(key, now)
+    }
+    return { removed }
   }
+
+  private index(event: NounEvent): void {
+    const key = entityKey(event.entityType, event.entityId)
+    if (event.sequence > (this.entitySequences.get(key) ?? 0)) {
+      this.entitySequences.set(key, event.sequence)
+    }
+    this.events.push(event)
+    const history = this.byEntity.get(key)
+    if (history) history.push(event)
+    else this.byEntity.set(key, [event])
+  }
+
+  private indexSnapshot(snapshot: EntitySnapshot): void {
+    const key = entityKey(snapshot.entityType, snapshot.entityId)
+    // A snapshot may outlive the events it covers; sequences continue after it
+    if (snapshot.sequence > (this.entitySequences.get(key) ?? 0)) {
+      this.entitySequences.set(key, snapshot.sequence)
+    }
+    const snapshots = this.snapshots.get(key)
+    if (snapshots) snapshots.push(snapshot)
+    else this.snapshots.set(key, [snapshot])
+  }
+
+  /** Snapshot an entity's current state, replaying only the events since its last snapshot */
+  private takeSnapshot(key: string): void {
+    const history = this.byEntity.get(key) ?? []
+    const last = history[history.length - 1]
+    if (!last) return
+    const snapshots = this.snapshots.get(key) ?? []
+    const previous = snapshots[snapshots.length - 1]
+    const since = previous ? history.filter((e) => e.sequence > previous.sequence) : history
+    const state = replay(since, previous?.state ?? null)
+    if (!state) return
+
+    const snapshot: EntitySnapshot = { entityType: last.entityType, entityId: last.entityId, sequence: last.sequence, timestamp: last.timestamp, state }
+    this.storage.saveSnapshot(snapshot)
+    this.indexSnapshot(snapshot)
+    this.retain(key, new Date())
+  }
+
+  /** Drop one entity's events covered by its latest droppable snapshot. Returns the number dropped. */
+  private retain(key: string, now: Date): number {
+    const { maxAge, maxEventsPerEntity } = this.retention
+    if (maxAge === undefined && maxEventsPerEntity === undefined) return 0
+    const history = this.byEntity.get(key) ?? []
+    const snapshots = this.snapshots.get(key) ?? []
+    const cutoff = maxAge === undefined ? undefined : new Date(now.getTime() - maxAge).toISOString()
+
+    // An event may go if it is too old or outside the most recent maxEventsPerEntity
+    const droppable = (index: number): boolean =>
+      (cutoff !== undefined && history[index].timestamp < cutoff) || (maxEventsPerEntity !== undefined && index < history.length - maxEventsPerEntity)
+
+    let horizon: EntitySnapshot | undefined
+    for (const snapshot of snapshots) {
+      const index = history.findIndex((e) => e.sequence === snapshot.sequence)
+      if (index >= 0 && droppable(index)) horizon = snapshot
+    }
+    if (!horizon) return 0
+
+    const dropped = history.filter((e) => e.sequence <= horizon.sequence)
+    if (dropped.length === 0) return 0
+    const ids = new Set(dropped.map((e) => e.$id))
+    this.byEntity.set(key, history.filter((e) => !ids.has(e.$id)))
+    this.events = this.events.filter((e) => !ids.has(e.$id))
+    this.snapshots.set(key, snapshots.filter((s) => s.sequence >= horizon.sequence))
+    this.storage.removeEvents([...ids])
+    this.storage.removeSnapshots(horizon.entityType, horizon.entityId, horizon.sequence)
+    return dropped.length
+  }
+}
+
+function entityKey(entityType: string, entityId: string): string {
+  return `${entityType}:${entityId}`
 }
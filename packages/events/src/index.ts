@@ -1,12 +1,13 @@
 /**
  * @headlessly/events — Event system with time travel for Digital Objects
  *
- * Six primitives:
- * - EventLog: Immutable append-only event log (storage + sequencing)
+ * Seven primitives, over any EventStore (EventLog in memory, SQLiteEventLog on SQLite):
+ * - EventLog: Immutable append-only event log (storage + sequencing + snapshots)
  * - EventBus: Ergonomic pub/sub wrapper (emit, on, once, off, replay)
  * - TimeTraveler: State reconstruction via event replay
  * - SubscriptionManager: Three-mode event subscriptions (code, websocket, webhook)
- * - CDCStream: Change Data Capture for external consumers
+ * - CDCStream: Change Data Capture for external consumers (durable cursors, consumer groups, sinks)
+ * - AuditLog: Field-level change history (who changed what, and when)
  * - EntityEvent: Discriminated union of all entity events (35 entities, all verbs)
  *
  * @packageDocumentation
@@ -22,6 +23,9 @@ export type {
   Subscription,
   TimeQuery,
   CDCOptions,
+  CDCBatch,
+  EventQuery,
+  EventStore,
   CrudVerb,
   CrudEvent,
 } from './types.js'
@@ -31,6 +35,12 @@ export { EventPatterns, crudEvent, verbEvent } from './types.js'
 export { EventLog, matchesPattern } from './event-log.js'
 export type { EventLogOptions } from './event-log.js'
 
+// Snapshots & storage
+export { DEFAULT_SNAPSHOT_EVERY, applyEvent, replay } from './snapshots.js'
+export type { EntitySnapshot, RetentionPolicy } from './snapshots.js'
+export { MemoryEventLogStorage, SqlEventLogStorage } from './storage.js'
+export type { EventLogStorage, SqlEventLogStorageOptions } from './storage.js'
+
 // Event bus
 export { EventBus } from './event-bus.js'
 export type { EventBusHandler } from './event-bus.js'
@@ -40,10 +50,49 @@ export { TimeTraveler } from './time-travel.js'
 export type { ReconstructedState, DiffResult, RollbackResult } from './time-travel.js'
 
 // Subscriptions
-export { SubscriptionManager } from './subscriptions.js'
+export { SubscriptionManager, MemorySubscriptionStore, SqlSubscriptionStore } from './subscriptions.js'
+export type { SubscriptionManagerOptions, SubscriptionStore, SqlSubscriptionStoreOptions } from './subscriptions.js'
+
+// WebSocket fan-out
+export { WebSocketFanout, BACKPRESSURE_CLOSE_CODE } from './websocket.js'
+export type { WebSocketLike, RealtimeMessage, WebSocketSubscriptions, WebSocketFanoutOptions } from './websocket.js'
+
+// Webhook delivery
+export {
+  WebhookDeliveryQueue,
+  MemoryDeliveryStore,
+  SqlDeliveryStore,
+  DEFAULT_RETRY_POLICY,
+  DEFAULT_DEACTIVATE_AFTER,
+  DEFAULT_SIGNATURE_TOLERANCE,
+  backoffDelay,
+  signWebhook,
+  verifyWebhook,
+} from './webhooks.js'
+export type {
+  RetryPolicy,
+  DeliveryStatus,
+  DeliveryAttempt,
+  WebhookDelivery,
+  DeliveryStore,
+  WebhookSubscriptions,
+  WebhookQueueOptions,
+  ProcessResult,
+  SqlDeliveryStoreOptions,
+  VerifyWebhookOptions,
+} from './webhooks.js'
 
 // CDC
 export { CDCStream } from './cdc.js'
+export type { CDCConsumer, CDCStreamOptions } from './cdc.js'
+export { ConsumerGroup, MemoryCursorStore, SqlCursorStore, DEFAULT_VISIBILITY_TIMEOUT } from './cdc-consumers.js'
+export type { ConsumerGroupOptions, ConsumerState, CursorStore, OutstandingEvent, SqlCursorStoreOptions } from './cdc-consumers.js'
+export { CDCSinkRunner, SqlReplicationSink } from './sinks.js'
+export type { CDCSink, CDCSinkOptions, SinkRunResult, SqlReplicationSinkOptions } from './sinks.js'
+
+// Audit
+export { AuditLog } from './audit.js'
+export type { FieldChange, AuditQuery, AuditSource } from './audit.js'
 
 // SQLite adapter
 export { SQLiteEventLog } from './sqlite-adapter.js'
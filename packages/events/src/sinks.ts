@@ -0,0 +1,220 @@
+/**
+ * CDC sinks — copy the event log into other systems
+ *
+ * A sink receives pages of events read with CDCStream.poll. A CDCSinkRunner
+ * drives one sink: it resumes from the sink's checkpoint, writes each page,
+ * flushes the sink, and only then checkpoints past the page — so a restart
+ * re-sends at most the page that was in flight (at-least-once). Built-in:
+ * SqlReplicationSink here, and rotated NDJSON and columnar file sinks in
+ * @headlessly/node.
+ *
+ *   const cdc = new CDCStream(log, { cursors: new SqlCursorStore(ctx.storage.sql) })
+ *   const replica = cdc.pipe(new SqlReplicationSink(replicaSql), { types: ['Contact', 'Deal'] })
+ *   replica.start()      // catch up every second
+ */
+
+import type { CDCOptions, NounEvent } from './types.js'
+import type { CDCStream } from './cdc.js'
+import type { SqlStorage } from './sqlite-adapter.js'
+import { sanitizeTableName } from './sqlite-adapter.js'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A destination for CDC events */
+export interface CDCSink {
+  /** Names the sink's checkpoint */
+  readonly name: string
+  /** Write a page of events, in log order. Events may repeat after a restart. */
+  write(events: NounEvent[]): void | Promise<void>
+  /** Make written events durable; called before each checkpoint */
+  flush?(): void | Promise<void>
+  /** Release resources; called by CDCSinkRunner.stop() */
+  close?(): void | Promise<void>
+}
+
+export interface CDCSinkOptions extends Pick<CDCOptions, 'types' | 'verbs' | 'actors'> {
+  /** Consumer name the checkpoint is saved under (default: the sink's name) */
+  consumer?: string
+  /** Events per page (default: 1000) */
+  batchSize?: number
+}
+
+/** The outcome of one catch-up run */
+export interface SinkRunResult {
+  /** Events written */
+  events: number
+  /** The checkpoint after the run */
+  cursor?: string
+}
+
+// =============================================================================
+// CDCSinkRunner
+// =============================================================================
+
+export class CDCSinkRunner {
+  private timer: ReturnType<typeof setInterval> | null = null
+  private running: Promise<SinkRunResult> | null = null
+
+  constructor(
+    private cdc: CDCStream,
+    readonly sink: CDCSink,
+    private options: CDCSinkOptions = {},
+  ) {}
+
+  /** The consumer name the sink's checkpoint is saved under */
+  get consumer(): string {
+    return this.options.consumer ?? this.sink.name
+  }
+
+  /** Write every event after the checkpoint to the sink. Concurrent calls share one run. */
+  run(): Promise<SinkRunResult> {
+    if (this.running) return this.running
+    this.running = this.catchUp().finally(() => {
+      this.running = null
+    })
+    return this.running
+  }
+
+  /** Run on an interval until stop() */
+  start(intervalMs = 1000): void {
+    this.stopTimer()
+    this.timer = setInterval(() => {
+      this.run().catch(() => {
+        // A failing sink retries the same page on the next run
+      })
+    }, intervalMs)
+  }
+
+  /** Stop the interval, let a run in progress finish, and close the sink */
+  async stop(): Promise<void> {
+    this.stopTimer()
+    await this.running?.catch(() => undefined)
+    await this.sink.close?.()
+  }
+
+  /** Number of matching events not yet written */
+  async lag(): Promise<number> {
+    return this.cdc.lag(this.consumer, { types: this.options.types, verbs: this.options.verbs, actors: this.options.actors })
+  }
+
+  private async catchUp(): Promise<SinkRunResult> {
+    let cursor = await this.cdc.getCursor(this.consumer)
+    let written = 0
+    let hasMore = true
+    while (hasMore) {
+      const batch = await this.cdc.poll({
+        after: cursor,
+        types: this.options.types,
+        verbs: this.options.verbs,
+        actors: this.options.actors,
+        batchSize: this.options.batchSize ?? 1000,
+      })
+      if (batch.events.length === 0) break
+      await this.sink.write(batch.events)
+      await this.sink.flush?.()
+      await this.cdc.checkpoint(this.consumer, batch.cursor)
+      cursor = batch.cursor
+      written += batch.events.length
+      hasMore = batch.hasMore
+    }
+    return { events: written, cursor }
+  }
+
+  private stopTimer(): void {
+    if (this.timer) clearInterval(this.timer)
+    this.timer = null
+  }
+}
+
+// =============================================================================
+// SqlReplicationSink
+// =============================================================================
+
+export interface SqlReplicationSinkOptions {
+  /** Sink name (default: 'sql-replication') */
+  name?: string
+  /** Table name prefix; each entity type gets its own table (default: 'replica_') */
+  tablePrefix?: string
+}
+
+/**
+ * Replicate entity state into SqlStorage (Durable Object SQLite, better-sqlite3,
+ * or any database behind the interface). Each entity type gets a table of
+ * `(id, version, state, deleted, updated_at, event_id)`, where state is the
+ * entity's `after` state as JSON. Rows only move forward in version, so
+ * re-sent events are harmless.
+ */
+export class SqlReplicationSink implements CDCSink {
+  readonly name: string
+  private tablePrefix: string
+  private tables = new Set<string>()
+
+  constructor(
+    private sql: SqlStorage,
+    options: SqlReplicationSinkOptions = {},
+  ) {
+    this.name = options.name ?? 'sql-replication'
+    this.tablePrefix = options.tablePrefix ?? 'replica_'
+  }
+
+  /** The table an entity type is replicated into */
+  tableName(entityType: string): string {
+    return sanitizeTableName(`${this.tablePrefix}${entityType}`)
+  }
+
+  write(events: NounEvent[]): void {
+    for (const event of events) {
+      const table = this.ensureTable(event.entityType)
+      if (event.conjugation.event === 'deleted') {
+        this.sql.exec(
+          `UPDATE ${table} SET deleted = 1, version = ?, updated_at = ?, event_id = ? WHERE id = ? AND version < ?`,
+          event.sequence,
+          event.timestamp,
+          event.$id,
+          event.entityId,
+          event.sequence,
+        )
+      } else if (event.after) {
+        const state = { $id: event.entityId, $type: event.entityType, $version: event.sequence, ...event.after }
+        this.sql.exec(
+          `INSERT INTO ${table} (id, version, state, deleted, updated_at, event_id) VALUES (?, ?, ?, 0, ?, ?) ON CONFLICT(id) DO UPDATE SET version = excluded.version, state = excluded.state, deleted = 0, updated_at = excluded.updated_at, event_id = excluded.event_id WHERE excluded.version > ${table}.version`,
+          event.entityId,
+          event.sequence,
+          JSON.stringify(state),
+          event.timestamp,
+          event.$id,
+        )
+      } else {
+        // A verb without state changes only moves the version
+        this.sql.exec(
+          `UPDATE ${table} SET version = ?, updated_at = ?, event_id = ? WHERE id = ? AND version < ?`,
+          event.sequence,
+          event.timestamp,
+          event.$id,
+          event.entityId,
+          event.sequence,
+        )
+      }
+    }
+  }
+
+  /** Read a replicated entity's state, or null if it was never replicated or is deleted */
+  get(entityType: string, id: string): Record<string, unknown> | null {
+    const table = this.ensureTable(entityType)
+    const row = this.sql.exec(`SELECT state FROM ${table} WHERE id = ? AND deleted = 0`, id).toArray()[0]
+    return row ? (JSON.parse(row.state as string) as Record<string, unknown>) : null
+  }
+
+  private ensureTable(entityType: string): string {
+    const table = this.tableName(entityType)
+    if (!this.tables.has(table)) {
+      this.sql.exec(
+        `CREATE TABLE IF NOT EXISTS ${table} (id TEXT PRIMARY KEY, version INTEGER NOT NULL, state TEXT NOT NULL, deleted INTEGER NOT NULL DEFAULT 0, updated_at TEXT NOT NULL, event_id TEXT NOT NULL)`,
+      )
+      this.tables.add(table)
+    }
+    return table
+  }
+}
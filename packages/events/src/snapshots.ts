@@ -0,0 +1,75 @@
+/**
+ * Snapshots — per-entity checkpoints of replayed state
+ *
+ * Every `snapshotEvery` events of an entity, the EventLog stores the entity's
+ * replayed state. Time travel then replays only the events after the nearest
+ * snapshot instead of the entity's whole history, and a retention policy can
+ * drop the events a snapshot already covers.
+ */
+
+import type { NounEvent } from './types.js'
+import type { ReconstructedState } from './time-travel.js'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** An entity's replayed state as of one of its events */
+export interface EntitySnapshot {
+  entityType: string
+  entityId: string
+  /** Sequence of the last event folded into the state */
+  sequence: number
+  /** Timestamp of that event */
+  timestamp: string
+  state: ReconstructedState
+}
+
+/**
+ * Which events EventLog.applyRetention() may drop. Events go only once a
+ * snapshot covers them, so current state and time travel after the retention
+ * horizon stay exact.
+ */
+export interface RetentionPolicy {
+  /** Drop events older than this many milliseconds */
+  maxAge?: number
+  /** Keep at most this many of each entity's most recent events */
+  maxEventsPerEntity?: number
+}
+
+/** Events per entity between automatic snapshots */
+export const DEFAULT_SNAPSHOT_EVERY = 100
+
+// =============================================================================
+// Replay
+// =============================================================================
+
+/**
+ * Fold one event into an entity's state:
+ * - deletes mark the state `$deleted` (and are ignored before the entity exists)
+ * - events with an `after` state start or merge into it
+ * - other events only advance `$version`
+ */
+export function applyEvent(state: ReconstructedState | null, event: NounEvent): ReconstructedState | null {
+  if (event.conjugation.event === 'deleted') {
+    return state ? { ...state, $deleted: true, $version: event.sequence } : null
+  }
+  if (event.after) {
+    // The first state takes the event's own meta-fields; later merges keep identity and version
+    if (!state) return { $id: event.entityId, $type: event.entityType, $version: event.sequence, ...event.after }
+    return { ...state, ...event.after, $id: event.entityId, $type: event.entityType, $version: event.sequence }
+  }
+  if (!state) {
+    return { $id: event.entityId, $type: event.entityType, $version: event.sequence }
+  }
+  return { ...state, $version: event.sequence }
+}
+
+/**
+ * Replay events in order, starting from a snapshot's state (or from nothing)
+ */
+export function replay(events: NounEvent[], from: ReconstructedState | null = null): ReconstructedState | null {
+  let state = from
+  for (const event of events) state = applyEvent(state, event)
+  return state
+}
@@ -2,14 +2,14 @@
  * SQLiteEventLog — adapter that bridges SQLite storage to the EventLog interface
  *
  * Provides persistent event storage using Cloudflare Durable Object SQLite (SqlStorage).
- * Implements the same query/append/cdc/getEntityHistory contract as the in-memory EventLog
- * but backed by SQLite tables.
+ * Implements the same EventStore contract as the in-memory EventLog (synchronously),
+ * so TimeTraveler, CDCStream, SubscriptionManager and EventBus work on top of it.
  *
  * The events table schema matches ObjectsDO's existing `events` table with additional
  * columns for the full NounEvent shape (sequence, conjugation, before/after state).
  */
 
-import type { NounEvent, NounEventInput, CDCOptions } from './types.js'
+import type { NounEvent, NounEventInput, CDCOptions, CDCBatch, EventQuery, EventStore } from './types.js'
 import { matchesPattern } from './event-log.js'
 
 // =============================================================================
@@ -39,7 +39,7 @@ const TABLE_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/
  * Only allows alphanumeric characters and underscores, must start with a letter or underscore.
  * Throws if the name is invalid.
  */
-function sanitizeTableName(name: string): string {
+export function sanitizeTableName(name: string): string {
   if (!TABLE_NAME_PATTERN.test(name)) {
     throw new Error(`Invalid table name "${name}": must contain only alphanumeric characters and underscores, and start with a letter or underscore`)
   }
@@ -73,7 +73,7 @@ export interface SQLiteEventLogOptions {
   tableName?: string
 }
 
-export class SQLiteEventLog {
+export class SQLiteEventLog implements EventStore {
   private sql: SqlStorage
   private tableName: string
   private subscribers = new Map<string, Set<(event: NounEvent) => void>>()
@@ -112,6 +112,7 @@ export class SQLiteEventLog {
     this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_${this.tableName}_entity ON ${this.tableName}(entity_type, entity_id)`)
     this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_${this.tableName}_timestamp ON ${this.tableName}(timestamp)`)
     this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_${this.tableName}_verb ON ${this.tableName}(verb)`)
+    this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_${this.tableName}_actor ON ${this.tableName}(actor)`)
     this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_${this.tableName}_type ON ${this.tableName}(type)`)
     this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_${this.tableName}_sequence ON ${this.tableName}(entity_type, entity_id, sequence)`)
   }
@@ -176,15 +177,7 @@ export class SQLiteEventLog {
   /**
    * Query events with filters.
    */
-  query(options: {
-    entityType?: string
-    entityId?: string
-    verb?: string
-    since?: string | Date
-    until?: string | Date
-    limit?: number
-    offset?: number
-  }): NounEvent[] {
+  query(options: EventQuery): NounEvent[] {
     let sql = `SELECT * FROM ${this.tableName}`
     const conditions: string[] = []
     const values: (string | number)[] = []
@@ -201,6 +194,10 @@ export class SQLiteEventLog {
       conditions.push('verb = ?')
       values.push(options.verb)
     }
+    if (options.actor) {
+      conditions.push('actor = ?')
+      values.push(options.actor)
+    }
     if (options.since) {
       const sinceTs = typeof options.since === 'string' ? options.since : options.since.toISOString()
       conditions.push('timestamp >= ?')
@@ -216,7 +213,7 @@ export class SQLiteEventLog {
       sql += ' WHERE ' + conditions.join(' AND ')
     }
 
-    sql += ' ORDER BY timestamp ASC, sequence ASC'
+    sql += ' ORDER BY timestamp ASC, rowid ASC'
 
     const offset = options.offset ?? 0
     const limit = options.limit ?? 1000
@@ -240,17 +237,17 @@ export class SQLiteEventLog {
    * CDC stream — get events since a cursor (event ID) with optional filters.
    * Returns events + new cursor + hasMore flag for polling consumers.
    */
-  cdc(options: CDCOptions): { events: NounEvent[]; cursor: string; hasMore: boolean } {
+  cdc(options: CDCOptions): CDCBatch {
     let sql = `SELECT * FROM ${this.tableName}`
     const conditions: string[] = []
     const values: (string | number)[] = []
 
-    // Position cursor after the given event
+    // Position cursor after the given event (rowid keeps append order within a millisecond)
     if (options.after) {
-      const cursorRow = this.sql.exec(`SELECT timestamp, sequence FROM ${this.tableName} WHERE id = ?`, options.after).toArray()[0]
+      const cursorRow = this.sql.exec(`SELECT timestamp, rowid AS position FROM ${this.tableName} WHERE id = ?`, options.after).toArray()[0]
       if (cursorRow) {
-        conditions.push('(timestamp > ? OR (timestamp = ? AND id > ?))')
-        values.push(cursorRow.timestamp as string, cursorRow.timestamp as string, options.after)
+        conditions.push('(timestamp > ? OR (timestamp = ? AND rowid > ?))')
+        values.push(cursorRow.timestamp as string, cursorRow.timestamp as string, cursorRow.position as number)
       }
     }
 
@@ -275,11 +272,18 @@ export class SQLiteEventLog {
       values.push(...options.verbs)
     }
 
+    // Actor filter
+    if (options.actors?.length) {
+      const placeholders = options.actors.map(() => '?').join(', ')
+      conditions.push(`actor IN (${placeholders})`)
+      values.push(...options.actors)
+    }
+
     if (conditions.length > 0) {
       sql += ' WHERE ' + conditions.join(' AND ')
     }
 
-    sql += ' ORDER BY timestamp ASC, id ASC'
+    sql += ' ORDER BY timestamp ASC, rowid ASC'
 
     const batchSize = options.batchSize ?? 100
     // Fetch one extra to determine hasMore
@@ -296,6 +300,16 @@ export class SQLiteEventLog {
     return { events, cursor, hasMore }
   }
 
+  /**
+   * Every entity with at least one event, in order of first appearance.
+   */
+  uniqueEntities(): Array<{ entityType: string; entityId: string }> {
+    const rows = this.sql
+      .exec(`SELECT entity_type, entity_id FROM ${this.tableName} GROUP BY entity_type, entity_id ORDER BY MIN(timestamp) ASC, MIN(rowid) ASC`)
+      .toArray()
+    return rows.map((r) => ({ entityType: r.entity_type as string, entityId: r.entity_id as string }))
+  }
+
   /**
    * Subscribe to events matching a pattern. Returns unsubscribe function.
    * Subscriptions are notified synchronously on append.
@@ -0,0 +1,149 @@
+/**
+ * EventLogStorage — where an EventLog keeps its events and snapshots
+ *
+ * The EventLog works from memory and writes through to its storage, loading
+ * whatever the storage holds when it is created. Like SQLiteEventLog's
+ * SqlStorage, the interface is small and synchronous so it can sit on Durable
+ * Object SQLite, better-sqlite3, or anything else:
+ *
+ *   const log = new EventLog({ storage: new SqlEventLogStorage(ctx.storage.sql) })
+ */
+
+import type { NounEvent } from './types.js'
+import type { EntitySnapshot } from './snapshots.js'
+import type { SqlStorage } from './sqlite-adapter.js'
+import { sanitizeTableName } from './sqlite-adapter.js'
+
+// =============================================================================
+// Interface
+// =============================================================================
+
+export interface EventLogStorage {
+  /** Every stored event, in append order */
+  loadEvents(): NounEvent[]
+  appendEvent(event: NounEvent): void
+  /** Remove events dropped by the retention policy */
+  removeEvents(ids: string[]): void
+  /** Every stored snapshot, oldest first per entity */
+  loadSnapshots(): EntitySnapshot[]
+  saveSnapshot(snapshot: EntitySnapshot): void
+  /** Remove an entity's snapshots older than `beforeSequence` */
+  removeSnapshots(entityType: string, entityId: string, beforeSequence: number): void
+  /** Remove all events and snapshots */
+  clear(): void
+}
+
+// =============================================================================
+// MemoryEventLogStorage
+// =============================================================================
+
+/**
+ * Default storage: nothing outlives the process
+ */
+export class MemoryEventLogStorage implements EventLogStorage {
+  private events: NounEvent[] = []
+  private snapshots: EntitySnapshot[] = []
+
+  loadEvents(): NounEvent[] {
+    return [...this.events]
+  }
+
+  appendEvent(event: NounEvent): void {
+    this.events.push(event)
+  }
+
+  removeEvents(ids: string[]): void {
+    const removed = new Set(ids)
+    this.events = this.events.filter((e) => !removed.has(e.$id))
+  }
+
+  loadSnapshots(): EntitySnapshot[] {
+    return [...this.snapshots]
+  }
+
+  saveSnapshot(snapshot: EntitySnapshot): void {
+    this.snapshots.push(snapshot)
+  }
+
+  removeSnapshots(entityType: string, entityId: string, beforeSequence: number): void {
+    this.snapshots = this.snapshots.filter((s) => s.entityType !== entityType || s.entityId !== entityId || s.sequence >= beforeSequence)
+  }
+
+  clear(): void {
+    this.events = []
+    this.snapshots = []
+  }
+}
+
+// =============================================================================
+// SqlEventLogStorage
+// =============================================================================
+
+export interface SqlEventLogStorageOptions {
+  /** Table name for events (defaults to 'event_store'); snapshots go in '{tableName}_snapshots' */
+  tableName?: string
+}
+
+/**
+ * Storage over SqlStorage (Durable Object SQLite, better-sqlite3). Events and
+ * snapshots are stored as JSON, in append order.
+ */
+export class SqlEventLogStorage implements EventLogStorage {
+  private tableName: string
+  private snapshotTable: string
+
+  constructor(
+    private sql: SqlStorage,
+    options: SqlEventLogStorageOptions = {},
+  ) {
+    this.tableName = sanitizeTableName(options.tableName ?? 'event_store')
+    this.snapshotTable = `${this.tableName}_snapshots`
+    this.sql.exec(`CREATE TABLE IF NOT EXISTS ${this.tableName} (position INTEGER PRIMARY KEY AUTOINCREMENT, id TEXT NOT NULL UNIQUE, event TEXT NOT NULL)`)
+    this.sql.exec(
+      `CREATE TABLE IF NOT EXISTS ${this.snapshotTable} (entity_type TEXT NOT NULL, entity_id TEXT NOT NULL, sequence INTEGER NOT NULL, snapshot TEXT NOT NULL, PRIMARY KEY (entity_type, entity_id, sequence))`,
+    )
+  }
+
+  loadEvents(): NounEvent[] {
+    return this.sql
+      .exec(`SELECT event FROM ${this.tableName} ORDER BY position ASC`)
+      .toArray()
+      .map((row) => JSON.parse(row.event as string) as NounEvent)
+  }
+
+  appendEvent(event: NounEvent): void {
+    this.sql.exec(`INSERT INTO ${this.tableName} (id, event) VALUES (?, ?)`, event.$id, JSON.stringify(event))
+  }
+
+  removeEvents(ids: string[]): void {
+    for (const id of ids) {
+      this.sql.exec(`DELETE FROM ${this.tableName} WHERE id = ?`, id)
+    }
+  }
+
+  loadSnapshots(): EntitySnapshot[] {
+    return this.sql
+      .exec(`SELECT snapshot FROM ${this.snapshotTable} ORDER BY entity_type, entity_id, sequence ASC`)
+      .toArray()
+      .map((row) => JSON.parse(row.snapshot as string) as EntitySnapshot)
+  }
+
+  saveSnapshot(snapshot: EntitySnapshot): void {
+    this.sql.exec(
+      `INSERT OR REPLACE INTO ${this.snapshotTable} (entity_type, entity_id, sequence, snapshot) VALUES (?, ?, ?, ?)`,
+      snapshot.entityType,
+      snapshot.entityId,
+      snapshot.sequence,
+      JSON.stringify(snapshot),
+    )
+  }
+
+  removeSnapshots(entityType: string, entityId: string, beforeSequence: number): void {
+    this.sql.exec(`DELETE FROM ${this.snapshotTable} WHERE entity_type = ? AND entity_id = ? AND sequence < ?`, entityType, entityId, beforeSequence)
+  }
+
+  clear(): void {
+    this.sql.exec(`DELETE FROM ${this.tableName}`)
+    this.sql.exec(`DELETE FROM ${this.snapshotTable}`)
+  }
+}
@@ -3,12 +3,24 @@
  *
  * Three subscription modes with different latency characteristics:
  * - code: In-process handler execution (~0ms)
- * - websocket: Push to WebSocket connection (~10ms)
- * - webhook: POST to HTTP endpoint with HMAC signing (~100ms)
+ * - websocket: Push to WebSocket connections (~10ms) through a WebSocketFanout
+ * - webhook: POST to HTTP endpoint with HMAC signing (~100ms), retried through
+ *   a WebhookDeliveryQueue with backoff and a dead-letter queue
+ *
+ * WebSocket and webhook subscriptions are kept in a SubscriptionStore, so with
+ * a SqlSubscriptionStore a restarted manager still knows them and resumes
+ * their pending deliveries. Code subscriptions hold a handler and live in
+ * memory only.
  */
 
-import type { Subscription, SubscriptionMode, EventHandler, NounEvent } from './types.js'
-import { matchesPattern, EventLog } from './event-log.js'
+import type { Subscription, SubscriptionMode, EventHandler, EventStore, NounEvent } from './types.js'
+import { matchesPattern } from './event-log.js'
+import type { SqlStorage } from './sqlite-adapter.js'
+import { sanitizeTableName } from './sqlite-adapter.js'
+import { WebhookDeliveryQueue } from './webhooks.js'
+import type { RetryPolicy, WebhookQueueOptions } from './webhooks.js'
+import { WebSocketFanout } from './websocket.js'
+import type { WebSocketFanoutOptions } from './websocket.js'
 
 // =============================================================================
 // ID Generation
@@ -29,31 +41,121 @@ function generateSubscriptionId(): string {
 }
 
 // =============================================================================
-// HMAC Signing (for webhook mode)
+// Subscription Stores
 // =============================================================================
 
 /**
- * Create an HMAC-SHA256 signature for a webhook payload.
- * Uses the Web Crypto API (available in both Node.js 18+ and Cloudflare Workers).
+ * Where WebSocket and webhook subscriptions are kept. Synchronous, like
+ * DeliveryStore.
+ */
+export interface SubscriptionStore {
+  /** Every saved subscription, oldest first */
+  list(): Subscription[]
+  save(subscription: Subscription): void
+  delete(id: string): void
+  clear(): void
+}
+
+/**
+ * Default store: nothing outlives the process
+ */
+export class MemorySubscriptionStore implements SubscriptionStore {
+  private subscriptions = new Map<string, Subscription>()
+
+  list(): Subscription[] {
+    return Array.from(this.subscriptions.values())
+  }
+
+  save(subscription: Subscription): void {
+    this.subscriptions.set(subscription.id, { ...subscription })
+  }
+
+  delete(id: string): void {
+    this.subscriptions.delete(id)
+  }
+
+  clear(): void {
+    this.subscriptions.clear()
+  }
+}
+
+export interface SqlSubscriptionStoreOptions {
+  /** Table name (defaults to 'subscriptions') */
+  tableName?: string
+}
+
+/**
+ * Store over SqlStorage (Durable Object SQLite, better-sqlite3), so
+ * subscriptions survive restarts.
  */
-async function signPayload(payload: string, secret: string): Promise<string> {
-  const encoder = new TextEncoder()
-  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
-  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload))
-  return Array.from(new Uint8Array(signature))
-    .map((b) => b.toString(16).padStart(2, '0'))
-    .join('')
+export class SqlSubscriptionStore implements SubscriptionStore {
+  private tableName: string
+
+  constructor(
+    private sql: SqlStorage,
+    options: SqlSubscriptionStoreOptions = {},
+  ) {
+    this.tableName = sanitizeTableName(options.tableName ?? 'subscriptions')
+    this.sql.exec(`CREATE TABLE IF NOT EXISTS ${this.tableName} (position INTEGER PRIMARY KEY AUTOINCREMENT, id TEXT NOT NULL UNIQUE, subscription TEXT NOT NULL)`)
+  }
+
+  list(): Subscription[] {
+    return this.sql
+      .exec(`SELECT subscription FROM ${this.tableName} ORDER BY position ASC`)
+      .toArray()
+      .map((row) => JSON.parse(row.subscription as string) as Subscription)
+  }
+
+  save(subscription: Subscription): void {
+    this.sql.exec(
+      `INSERT INTO ${this.tableName} (id, subscription) VALUES (?, ?) ON CONFLICT(id) DO UPDATE SET subscription = excluded.subscription`,
+      subscription.id,
+      JSON.stringify(subscription),
+    )
+  }
+
+  delete(id: string): void {
+    this.sql.exec(`DELETE FROM ${this.tableName} WHERE id = ?`, id)
+  }
+
+  clear(): void {
+    this.sql.exec(`DELETE FROM ${this.tableName}`)
+  }
 }
 
 // =============================================================================
 // SubscriptionManager
 // =============================================================================
 
+export interface SubscriptionManagerOptions {
+  /** Where WebSocket and webhook subscriptions are persisted (default: memory only) */
+  store?: SubscriptionStore
+  /** Webhook delivery store, default retry policy, auto-deactivation and HTTP client */
+  webhooks?: WebhookQueueOptions
+  /** WebSocket resume store and backpressure limits */
+  websockets?: WebSocketFanoutOptions
+}
+
+/** Events read per query while replaying */
+const REPLAY_PAGE_SIZE = 1000
+
 export class SubscriptionManager {
   private subscriptions = new Map<string, Subscription>()
   private codeHandlers = new Map<string, EventHandler>()
-  private attachedLog: EventLog | null = null
+  private store: SubscriptionStore
+  private attachedLog: EventStore | null = null
   private detachFn: (() => void) | null = null
+  /** Outbox, attempt log and dead-letter queue of webhook deliveries */
+  readonly webhooks: WebhookDeliveryQueue
+  /** Connections of websocket subscriptions */
+  readonly websockets: WebSocketFanout
+
+  constructor(options: SubscriptionManagerOptions = {}) {
+    this.store = options.store ?? new MemorySubscriptionStore()
+    for (const subscription of this.store.list()) this.subscriptions.set(subscription.id, subscription)
+    this.webhooks = new WebhookDeliveryQueue(this, options.webhooks)
+    this.websockets = new WebSocketFanout(this, options.websockets)
+  }
 
   /**
    * Register a code-as-data subscription (~0ms latency).
@@ -89,14 +191,16 @@ export class SubscriptionManager {
       createdAt: new Date().toISOString(),
     }
     this.subscriptions.set(id, subscription)
+    this.store.save(subscription)
     return id
   }
 
   /**
    * Register a webhook subscription (~100ms latency).
-   * Events are POSTed to the endpoint with optional HMAC signature.
+   * Events are POSTed to the endpoint with optional HMAC signature, and
+   * failed deliveries are retried under the retry policy.
    */
-  registerWebhook(pattern: string, endpoint: string, secret?: string): string {
+  registerWebhook(pattern: string, endpoint: string, secret?: string, options: { retry?: RetryPolicy } = {}): string {
     const id = generateSubscriptionId()
     const subscription: Subscription = {
       id,
@@ -104,17 +208,21 @@ export class SubscriptionManager {
       mode: 'webhook',
       endpoint,
       secret,
+      retry: options.retry,
       active: true,
       createdAt: new Date().toISOString(),
     }
     this.subscriptions.set(id, subscription)
+    this.store.save(subscription)
     return id
   }
 
-  /** Remove a subscription */
+  /** Remove a subscription, dead-lettering its pending webhook deliveries */
   unsubscribe(id: string): boolean {
     const existed = this.subscriptions.delete(id)
     this.codeHandlers.delete(id)
+    this.store.delete(id)
+    if (existed) this.webhooks.abandon(id, 'Subscription removed')
     return existed
   }
 
@@ -123,17 +231,25 @@ export class SubscriptionManager {
     const sub = this.subscriptions.get(id)
     if (!sub) return false
     sub.active = false
+    this.save(sub)
     return true
   }
 
-  /** Activate a previously deactivated subscription */
+  /** Activate a previously deactivated subscription (resetting its failure count) */
   activate(id: string): boolean {
     const sub = this.subscriptions.get(id)
     if (!sub) return false
     sub.active = true
+    if (sub.consecutiveFailures) sub.consecutiveFailures = 0
+    this.save(sub)
     return true
   }
 
+  /** Persist changes made to a subscription (code subscriptions are not persisted) */
+  save(subscription: Subscription): void {
+    if (subscription.mode !== 'code') this.store.save(subscription)
+  }
+
   /** Total number of subscriptions */
   get count(): number {
     return this.subscriptions.size
@@ -143,6 +259,7 @@ export class SubscriptionManager {
   clear(): void {
     this.subscriptions.clear()
     this.codeHandlers.clear()
+    this.store.clear()
   }
 
   /** List all subscriptions */
@@ -167,8 +284,8 @@ export class SubscriptionManager {
     return this.subscriptions.get(id)
   }
 
-  /** Attach to an EventLog for auto-dispatching on append */
-  attach(eventLog: EventLog): void {
+  /** Attach to an EventLog or SQLiteEventLog for auto-dispatching on append */
+  attach(eventLog: EventStore): void {
     this.detach()
     this.attachedLog = eventLog
     const unsub = eventLog.subscribe('*', (event) => {
@@ -177,7 +294,12 @@ export class SubscriptionManager {
     this.detachFn = unsub
   }
 
-  /** Detach from the attached EventLog */
+  /** The attached event store, if any */
+  get eventStore(): EventStore | null {
+    return this.attachedLog
+  }
+
+  /** Detach from the attached event store */
   detach(): void {
     if (this.detachFn) {
       this.detachFn()
@@ -188,17 +310,53 @@ export class SubscriptionManager {
 
   /** Dispatch an event to all matching subscriptions */
   async dispatch(event: NounEvent): Promise<{ delivered: number; failed: number }> {
+    const targets: Subscription[] = []
+    for (const subscription of this.subscriptions.values()) {
+      if (!subscription.active) continue
+      if (!matchesPattern(subscription.pattern, event.$type)) continue
+      targets.push(subscription)
+    }
+    return this.deliverAll(targets, event)
+  }
+
+  /**
+   * Re-send past events matching a subscription's pattern to that subscription
+   * alone, from the attached event store (or another one). Webhook events go
+   * through the delivery queue like new ones.
+   */
+  async replay(
+    id: string,
+    options: { since?: string | Date; until?: string | Date; from?: EventStore } = {},
+  ): Promise<{ delivered: number; failed: number }> {
+    const subscription = this.subscriptions.get(id)
+    if (!subscription) throw new Error(`Subscription not found: ${id}`)
+    const source = options.from ?? this.attachedLog
+    if (!source) throw new Error('No event store to replay from: attach() one or pass `from`')
+
+    const totals = { delivered: 0, failed: 0 }
+    for (let offset = 0; ; offset += REPLAY_PAGE_SIZE) {
+      const page = await source.query({ since: options.since, until: options.until, limit: REPLAY_PAGE_SIZE, offset })
+      for (const event of page) {
+        if (!matchesPattern(subscription.pattern, event.$type)) continue
+        const result = await this.deliverAll([subscription], event)
+        totals.delivered += result.delivered
+        totals.failed += result.failed
+      }
+      if (page.length < REPLAY_PAGE_SIZE) break
+    }
+    return totals
+  }
+
+  /** Deliver an event to each subscription by its mode, counting outcomes */
+  private async deliverAll(targets: Subscription[], event: NounEvent): Promise<{ delivered: number; failed: number }> {
     let delivered = 0
     let failed = 0
     const promises: Promise<void>[] = []
 
-    for (const [id, subscription] of this.subscriptions) {
-      if (!subscription.active) continue
-      if (!matchesPattern(subscription.pattern, event.$type)) continue
-
+    for (const subscription of targets) {
       switch (subscription.mode) {
         case 'code': {
-          const handler = this.codeHandlers.get(id)
+          const handler = this.codeHandlers.get(subscription.id)
           if (handler) {
             promises.push(
               Promise.resolve()
@@ -246,38 +404,22 @@ export class SubscriptionManager {
     return { delivered, failed }
   }
 
-  /** Dispatch to WebSocket (placeholder for runtime integration) */
-  private async dispatchWebSocket(_subscription: Subscription, _event: NounEvent): Promise<void> {
-    // In Cloudflare Workers / Durable Objects, this would send via DO WebSocket.
-    // In Node.js, this would use a ws connection pool.
-    // For now, this is a no-op. Runtime adapters implement the actual transport.
+  /** Push to the subscription's WebSocket connection (a no-op until one is connected) */
+  private async dispatchWebSocket(subscription: Subscription, event: NounEvent): Promise<void> {
+    this.websockets.push(subscription.id, event)
   }
 
-  /** Dispatch to webhook endpoint with HMAC signing */
+  /**
+   * Queue a webhook delivery and make its first attempt. Rejects if that
+   * attempt fails; the queue retries it later.
+   */
   private async dispatchWebhook(subscription: Subscription, event: NounEvent): Promise<void> {
     if (!subscription.endpoint) return
 
-    try {
-      const payload = JSON.stringify(event)
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-        'X-Headlessly-Event': event.$type,
-        'X-Headlessly-Delivery': event.$id,
-      }
-
-      if (subscription.secret) {
-        const signature = await signPayload(payload, subscription.secret)
-        headers['X-Headlessly-Signature'] = `sha256=${signature}`
-      }
-
-      await fetch(subscription.endpoint, {
-        method: 'POST',
-        headers,
-        body: payload,
-      })
-    } catch {
-      // Swallow fetch errors — don't break dispatch
-      // In production, this would go to a DLQ via the EventsStore
+    const delivery = await this.webhooks.enqueue(subscription, event)
+    if (delivery.status !== 'delivered') {
+      const last = delivery.attempts[delivery.attempts.length - 1]
+      throw new Error(`Webhook delivery ${delivery.id} failed: ${last?.error ?? 'unknown error'}`)
     }
   }
 }
@@ -1,13 +1,15 @@
 /**
  * TimeTraveler — state reconstruction from the event log
  *
- * Replays events to reconstruct entity state at any point in time.
+ * Replays events to reconstruct entity state at any point in time, starting
+ * from the entity's nearest snapshot rather than its first event.
  * Supports asOf (timestamp), atVersion (sequence), and between queries.
  * Rollback creates a NEW event — immutability is never violated.
  */
 
-import type { NounEvent, TimeQuery } from './types.js'
-import type { EventLog } from './event-log.js'
+import type { EventStore, NounEvent, TimeQuery } from './types.js'
+import { applyEvent, replay } from './snapshots.js'
+import type { EntitySnapshot } from './snapshots.js'
 
 /** Reconstructed entity state (mirrors NounInstance shape) */
 export interface ReconstructedState {
@@ -32,18 +34,15 @@ export interface RollbackResult {
 }
 
 export class TimeTraveler {
-  constructor(private eventLog: EventLog) {}
+  constructor(private eventLog: EventStore) {}
 
   /**
    * Reconstruct entity state at a specific point in time.
-   * Replays events from the beginning up to the target time/version.
+   * Replays events from the nearest snapshot up to the target time/version.
    */
   async asOf(entityType: string, entityId: string, query: TimeQuery): Promise<ReconstructedState | null> {
     const allEvents = await this.eventLog.getEntityHistory(entityType, entityId)
-    if (allEvents.length === 0) return null
-
-    const filtered = this.filterEventsByQuery(allEvents, query)
-    return this.replayEvents(filtered)
+    return (await this.reconstruct(entityType, entityId, allEvents, query)).state
   }
 
   /**
@@ -52,15 +51,10 @@ export class TimeTraveler {
   async diff(entityType: string, entityId: string, from: TimeQuery, to: TimeQuery): Promise<DiffResult> {
     const allEvents = await this.eventLog.getEntityHistory(entityType, entityId)
 
-    const fromEvents = this.filterEventsByQuery(allEvents, from)
-    const toEvents = this.filterEventsByQuery(allEvents, to)
-
-    const beforeState = this.replayEvents(fromEvents)
-    const afterState = this.replayEvents(toEvents)
+    const { state: beforeState, sequence: fromMaxSeq } = await this.reconstruct(entityType, entityId, allEvents, from)
+    const { state: afterState, sequence: toMaxSeq } = await this.reconstruct(entityType, entityId, allEvents, to)
 
     // Events that happened between the two points
-    const fromMaxSeq = fromEvents.length > 0 ? fromEvents[fromEvents.length - 1].sequence : 0
-    const toMaxSeq = toEvents.length > 0 ? toEvents[toEvents.length - 1].sequence : 0
     const betweenEvents = allEvents.filter((e) => e.sequence > fromMaxSeq && e.sequence <= toMaxSeq)
 
     // Compute field-level changes
@@ -105,6 +99,22 @@ export class TimeTraveler {
     }
   }
 
+  /**
+   * State at a point in time, replayed from the nearest snapshot, and the
+   * sequence of the last event it includes (0 if none)
+   */
+  private async reconstruct(entityType: string, entityId: string, allEvents: NounEvent[], query: TimeQuery): Promise<{ state: ReconstructedState | null; sequence: number }> {
+    const snapshot = await this.nearestSnapshot(entityType, entityId, query)
+    const events = this.filterEventsByQuery(allEvents, query).filter((e) => !snapshot || e.sequence > snapshot.sequence)
+    const sequence = events.length > 0 ? events[events.length - 1].sequence : (snapshot?.sequence ?? 0)
+    return { state: replay(events, snapshot ? { ...snapshot.state } : null), sequence }
+  }
+
+  /** The store's nearest snapshot, if it keeps snapshots */
+  private async nearestSnapshot(entityType: string, entityId: string, query: TimeQuery): Promise<EntitySnapshot | null> {
+    return this.eventLog.snapshotAt ? this.eventLog.snapshotAt(entityType, entityId, query) : null
+  }
+
   /**
    * Filter events based on a TimeQuery (asOf, atVersion, or between).
    */
@@ -128,66 +138,6 @@ export class TimeTraveler {
     return events
   }
 
-  /**
-   * Replay events in order to reconstruct entity state.
-   *
-   * For each event:
-   * - 'created' / 'create' → set initial state from event.after
-   * - 'updated' / 'update' → merge changes from event.after
-   * - 'deleted' / 'delete' → mark as deleted
-   * - 'rolledBack' → replace state with event.after
-   * - custom verbs → apply state changes from event.after
-   */
-  private replayEvents(events: NounEvent[]): ReconstructedState | null {
-    if (events.length === 0) return null
-
-    let state: ReconstructedState | null = null
-
-    for (const event of events) {
-      const verbEvent = event.conjugation.event
-
-      if (verbEvent === 'deleted') {
-        // Mark as deleted but keep state for history
-        if (state) {
-          state = Object.assign({}, state, { $deleted: true, $version: event.sequence })
-        }
-        continue
-      }
-
-      if (event.after) {
-        if (!state) {
-          // First event — initialize state
-          state = {
-            $id: event.entityId,
-            $type: event.entityType,
-            $version: event.sequence,
-            ...event.after,
-          }
-        } else {
-          // Subsequent event — merge after state
-          state = {
-            ...state,
-            ...event.after,
-            $id: event.entityId,
-            $type: event.entityType,
-            $version: event.sequence,
-          }
-        }
-      } else if (!state) {
-        // Event without after data — initialize minimal state
-        state = {
-          $id: event.entityId,
-          $type: event.entityType,
-          $version: event.sequence,
-        }
-      } else {
-        state.$version = event.sequence
-      }
-    }
-
-    return state
-  }
-
   /**
    * Get a timeline of all intermediate states for an entity.
    * Returns one entry per event with the state at that point plus metadata.
@@ -195,16 +145,19 @@ export class TimeTraveler {
   async timeline(entityType: string, entityId: string): Promise<Array<{ version: number; state: ReconstructedState; event: NounEvent; timestamp: string }>> {
     const allEvents = await this.eventLog.getEntityHistory(entityType, entityId)
     const result: Array<{ version: number; state: ReconstructedState; event: NounEvent; timestamp: string }> = []
+    if (allEvents.length === 0) return result
 
-    for (let i = 0; i < allEvents.length; i++) {
-      const eventsUpToHere = allEvents.slice(0, i + 1)
-      const state = this.replayEvents(eventsUpToHere)
+    // Start from the snapshot standing in for history dropped by retention, if any
+    const horizon = await this.nearestSnapshot(entityType, entityId, { atVersion: allEvents[0].sequence - 1 })
+    let state: ReconstructedState | null = horizon ? { ...horizon.state } : null
+    for (const event of allEvents) {
+      state = applyEvent(state, event)
       if (state) {
         result.push({
-          version: allEvents[i].sequence,
+          version: event.sequence,
           state,
-          event: allEvents[i],
-          timestamp: allEvents[i].timestamp,
+          event,
+          timestamp: event.timestamp,
         })
       }
     }
@@ -216,8 +169,7 @@ export class TimeTraveler {
    * Build a projection (custom field view) of an entity at its latest state.
    */
   async projection(entityType: string, entityId: string, fields: string[]): Promise<Record<string, unknown>> {
-    const allEvents = await this.eventLog.getEntityHistory(entityType, entityId)
-    const fullState = this.replayEvents(allEvents)
+    const fullState = await this.asOf(entityType, entityId, {})
     if (!fullState) return {}
 
     const result: Record<string, unknown> = {}
@@ -237,8 +189,7 @@ export class TimeTraveler {
     const result: ReconstructedState[] = []
 
     for (const { entityType, entityId } of entities) {
-      const history = await this.eventLog.getEntityHistory(entityType, entityId)
-      const state = this.replayEvents(history)
+      const state = await this.asOf(entityType, entityId, {})
       if (state) {
         result.push(state)
       }
@@ -5,6 +5,9 @@
  * Every create, update, delete, qualify, close, etc. produces a NounEvent.
  */
 
+import type { EntitySnapshot } from './snapshots.js'
+import type { RetryPolicy } from './webhooks.js'
+
 /**
  * Base event shape shared across the event system.
  *
@@ -28,6 +31,8 @@ export interface NounEventBase {
   timestamp: string
   /** Actor who triggered the event */
   actor?: string
+  /** Tenant context */
+  context?: string
 }
 
 /** Immutable event emitted by verb execution (full event-sourced form) */
@@ -42,8 +47,6 @@ export interface NounEvent extends NounEventBase {
   before?: Record<string, unknown>
   /** Entity state AFTER the verb execution */
   after?: Record<string, unknown>
-  /** Tenant context */
-  context?: string
   /** Sequence number (monotonic within entity) */
   sequence: number
 }
@@ -65,6 +68,8 @@ export interface Subscription {
   handler?: EventHandler // for 'code' mode
   endpoint?: string // for 'websocket' or 'webhook' mode
   secret?: string // for webhook HMAC signing
+  retry?: RetryPolicy // for webhook delivery retries
+  consecutiveFailures?: number // failed webhook attempts since the last success
   active: boolean
   createdAt: string
 }
@@ -89,10 +94,60 @@ export interface CDCOptions {
   types?: string[]
   /** Filter by verbs */
   verbs?: string[]
+  /** Filter by actors (events without an actor are excluded) */
+  actors?: string[]
   /** Maximum events per batch */
   batchSize?: number
 }
 
+/** One CDC batch: the events after the cursor, the cursor to resume from, and whether more are waiting */
+export interface CDCBatch {
+  events: NounEvent[]
+  cursor: string
+  hasMore: boolean
+}
+
+/** Event query filters */
+export interface EventQuery {
+  entityType?: string
+  entityId?: string
+  verb?: string
+  actor?: string
+  since?: string | Date
+  until?: string | Date
+  limit?: number
+  offset?: number
+}
+
+// =============================================================================
+// EventStore
+// =============================================================================
+
+/**
+ * The contract shared by the in-memory EventLog and SQLiteEventLog.
+ *
+ * Methods may answer synchronously (SQLite) or asynchronously (EventLog), so
+ * consumers always await them. TimeTraveler, CDCStream, SubscriptionManager,
+ * EventBus and AuditLog accept any EventStore.
+ */
+export interface EventStore {
+  append(input: NounEventInput): NounEvent | Promise<NounEvent>
+  get(id: string): NounEvent | null | Promise<NounEvent | null>
+  query(options: EventQuery): NounEvent[] | Promise<NounEvent[]>
+  /** All events for an entity, in sequence order */
+  getEntityHistory(entityType: string, entityId: string): NounEvent[] | Promise<NounEvent[]>
+  /** Events after a cursor, for CDC consumers */
+  cdc(options: CDCOptions): CDCBatch | Promise<CDCBatch>
+  /** Every entity with at least one event, in order of first appearance */
+  uniqueEntities(): Array<{ entityType: string; entityId: string }> | Promise<Array<{ entityType: string; entityId: string }>>
+  /** Subscribe to appended events matching a pattern. Returns an unsubscribe function. */
+  subscribe(pattern: string, handler: (event: NounEvent) => void): () => void
+  /** The entity's nearest snapshot at or before a point in time, for stores that keep snapshots */
+  snapshotAt?(entityType: string, entityId: string, query?: TimeQuery): EntitySnapshot | null | Promise<EntitySnapshot | null>
+  /** Total number of events */
+  readonly size: number
+}
+
 // =============================================================================
 // Typed Event Categories
 // =============================================================================
@@ -0,0 +1,539 @@
+/**
+ * WebhookDeliveryQueue — durable, retried webhook delivery
+ *
+ * Every webhook dispatch becomes a delivery in an outbox. A failed attempt
+ * (network error, timeout, or non-2xx response) is retried with exponential
+ * backoff under the subscription's retry policy; when attempts run out the
+ * delivery is dead-lettered. Every attempt is logged on the delivery, dead
+ * deliveries can be redelivered, and a subscription is deactivated after too
+ * many consecutive failed attempts. Payloads are signed with a timestamp
+ * (`t=<unix seconds>,sha256=<hex>`); receivers check them with verifyWebhook().
+ *
+ *   const manager = new SubscriptionManager({
+ *     store: new SqlSubscriptionStore(ctx.storage.sql),
+ *     webhooks: { store: new SqlDeliveryStore(ctx.storage.sql) },
+ *   })
+ *   manager.webhooks.start()               // retry due deliveries every second
+ *   manager.webhooks.list({ status: 'dead' })
+ */
+
+import type { NounEvent, Subscription } from './types.js'
+import type { SqlStorage } from './sqlite-adapter.js'
+import { sanitizeTableName } from './sqlite-adapter.js'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** How a webhook subscription's deliveries are retried */
+export interface RetryPolicy {
+  /** Attempts before a delivery is dead-lettered, including the first (default: 5) */
+  maxAttempts?: number
+  /** Delay before the first retry, in milliseconds (default: 1000) */
+  initialDelay?: number
+  /** Upper bound on the delay between attempts, in milliseconds (default: 1 hour) */
+  maxDelay?: number
+  /** Factor the delay grows by after each failed attempt (default: 2) */
+  multiplier?: number
+  /** Per-attempt request timeout, in milliseconds (default: 10000) */
+  timeout?: number
+}
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 5,
+  initialDelay: 1000,
+  maxDelay: 60 * 60 * 1000,
+  multiplier: 2,
+  timeout: 10_000,
+}
+
+/** Consecutive failed attempts before a subscription is deactivated */
+export const DEFAULT_DEACTIVATE_AFTER = 20
+
+export type DeliveryStatus = 'pending' | 'delivered' | 'dead'
+
+/** One HTTP attempt at a delivery */
+export interface DeliveryAttempt {
+  attempt: number
+  timestamp: string
+  /** HTTP status, if a response arrived */
+  status?: number
+  /** Network error, timeout, or the reason the delivery could not be attempted */
+  error?: string
+  durationMs: number
+}
+
+/** An event on its way to one webhook subscription */
+export interface WebhookDelivery {
+  id: string
+  subscriptionId: string
+  endpoint: string
+  event: NounEvent
+  status: DeliveryStatus
+  attempts: DeliveryAttempt[]
+  /** Attempts made before the latest redelivery; they do not count against the retry policy */
+  redeliveredAfter?: number
+  /** When the next attempt is due (pending deliveries only) */
+  nextAttemptAt?: string
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * Where deliveries are kept: the outbox (pending), the log (delivered) and
+ * the dead-letter queue (dead). Synchronous, like EventLogStorage.
+ */
+export interface DeliveryStore {
+  get(id: string): WebhookDelivery | null
+  save(delivery: WebhookDelivery): void
+  /** Deliveries matching a filter, oldest first */
+  list(filter?: { status?: DeliveryStatus; subscriptionId?: string }): WebhookDelivery[]
+  /** Pending deliveries whose next attempt is due, oldest first */
+  due(now: string): WebhookDelivery[]
+  /** Remove deliveries (all, or one subscription's) */
+  clear(subscriptionId?: string): void
+}
+
+/** The parts of SubscriptionManager the queue uses */
+export interface WebhookSubscriptions {
+  get(id: string): Subscription | undefined
+  deactivate(id: string): boolean
+  /** Persist a subscription's changed failure count */
+  save(subscription: Subscription): void
+}
+
+export interface WebhookQueueOptions {
+  /** Where deliveries are persisted (default: memory only) */
+  store?: DeliveryStore
+  /** Retry policy for subscriptions without their own */
+  retry?: RetryPolicy
+  /** Deactivate a subscription after this many consecutive failed attempts (default: 20, 0 disables) */
+  deactivateAfter?: number
+  /** HTTP client (default: global fetch) */
+  fetch?: typeof fetch
+}
+
+/** Outcome counts of a process() run */
+export interface ProcessResult {
+  delivered: number
+  failed: number
+  dead: number
+}
+
+// =============================================================================
+// ID Generation
+// =============================================================================
+
+const SQID_CHARS = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789'
+
+function generateSqid(length = 12): string {
+  let result = ''
+  for (let i = 0; i < length; i++) {
+    result += SQID_CHARS[Math.floor(Math.random() * SQID_CHARS.length)]
+  }
+  return result
+}
+
+function generateDeliveryId(): string {
+  return `dlv_${generateSqid()}`
+}
+
+// =============================================================================
+// HMAC Signing
+// =============================================================================
+
+/** Default window a signature's timestamp may be off by: 5 minutes */
+export const DEFAULT_SIGNATURE_TOLERANCE = 5 * 60 * 1000
+
+export interface VerifyWebhookOptions {
+  /** How far the signature's timestamp may be from now, in milliseconds (default: 5 minutes) */
+  tolerance?: number
+  /** The time to verify at (default: now) */
+  now?: Date
+}
+
+/**
+ * Create an HMAC-SHA256 signature for a webhook payload.
+ * Uses the Web Crypto API (available in both Node.js 18+ and Cloudflare Workers).
+ */
+async function signPayload(payload: string, secret: string): Promise<string> {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload))
+  return Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/** Compare two strings in time independent of where they differ */
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  return diff === 0
+}
+
+/**
+ * Sign a webhook payload as sent in the X-Headlessly-Signature header:
+ * `t=<unix seconds>,sha256=<hex>`, where the HMAC covers `<t>.<payload>`
+ * so a captured request cannot be replayed later with a fresh timestamp.
+ */
+export async function signWebhook(payload: string, secret: string, timestamp: Date = new Date()): Promise<string> {
+  const t = Math.floor(timestamp.getTime() / 1000)
+  return `t=${t},sha256=${await signPayload(`${t}.${payload}`, secret)}`
+}
+
+/**
+ * Verify an X-Headlessly-Signature header against the raw request body.
+ * False when the signature does not match or its timestamp is outside the tolerance.
+ */
+export async function verifyWebhook(payload: string, signature: string | null | undefined, secret: string, options: VerifyWebhookOptions = {}): Promise<boolean> {
+  if (!signature) return false
+  let timestamp: number | undefined
+  const signatures: string[] = []
+  for (const part of signature.split(',')) {
+    const [key, value] = part.trim().split('=', 2)
+    if (key === 't' && /^\d+$/.test(value ?? '')) timestamp = Number(value)
+    else if (key === 'sha256' && value) signatures.push(value)
+  }
+  if (timestamp === undefined || signatures.length === 0) return false
+
+  const tolerance = options.tolerance ?? DEFAULT_SIGNATURE_TOLERANCE
+  const now = (options.now ?? new Date()).getTime()
+  if (Math.abs(now - timestamp * 1000) > tolerance) return false
+
+  const expected = await signPayload(`${timestamp}.${payload}`, secret)
+  return signatures.some((candidate) => timingSafeEqual(candidate, expected))
+}
+
+// =============================================================================
+// Backoff
+// =============================================================================
+
+/**
+ * Delay before the attempt after `attempt` failed ones:
+ * initialDelay × multiplier^(attempt − 1), capped at maxDelay
+ */
+export function backoffDelay(attempt: number, policy: RetryPolicy = {}): number {
+  const { initialDelay, maxDelay, multiplier } = { ...DEFAULT_RETRY_POLICY, ...policy }
+  return Math.min(maxDelay, initialDelay * Math.pow(multiplier, attempt - 1))
+}
+
+// =============================================================================
+// WebhookDeliveryQueue
+// =============================================================================
+
+export class WebhookDeliveryQueue {
+  private store: DeliveryStore
+  private retry: RetryPolicy
+  private deactivateAfter: number
+  private fetchFn: typeof fetch
+  private timer: ReturnType<typeof setInterval> | null = null
+  private processing: Promise<ProcessResult> | null = null
+
+  constructor(
+    private subscriptions: WebhookSubscriptions,
+    options: WebhookQueueOptions = {},
+  ) {
+    this.store = options.store ?? new MemoryDeliveryStore()
+    this.retry = options.retry ?? {}
+    this.deactivateAfter = options.deactivateAfter ?? DEFAULT_DEACTIVATE_AFTER
+    this.fetchFn = options.fetch ?? ((input, init) => fetch(input, init))
+  }
+
+  /**
+   * Queue an event for a webhook subscription and make the first attempt.
+   * Returns the delivery as it stands after that attempt.
+   */
+  async enqueue(subscription: Subscription, event: NounEvent): Promise<WebhookDelivery> {
+    const now = new Date().toISOString()
+    const delivery: WebhookDelivery = {
+      id: generateDeliveryId(),
+      subscriptionId: subscription.id,
+      endpoint: subscription.endpoint ?? '',
+      event,
+      status: 'pending',
+      attempts: [],
+      createdAt: now,
+      updatedAt: now,
+    }
+    return this.attempt(delivery)
+  }
+
+  /**
+   * Attempt every pending delivery that is due. Deliveries of inactive
+   * subscriptions wait until the subscription is activated again.
+   */
+  async process(now: Date = new Date()): Promise<ProcessResult> {
+    // Overlapping runs would attempt the same deliveries twice
+    if (this.processing) return this.processing
+    this.processing = this.runDue(now).finally(() => {
+      this.processing = null
+    })
+    return this.processing
+  }
+
+  /** Process due deliveries on an interval until stop() */
+  start(intervalMs = 1000): void {
+    this.stop()
+    this.timer = setInterval(() => {
+      this.process().catch(() => {
+        // A failing store must not stop the schedule
+      })
+    }, intervalMs)
+  }
+
+  /** Stop the interval started by start() */
+  stop(): void {
+    if (this.timer) clearInterval(this.timer)
+    this.timer = null
+  }
+
+  /** Get a delivery by ID */
+  get(id: string): WebhookDelivery | null {
+    return this.store.get(id)
+  }
+
+  /** List deliveries, oldest first */
+  list(filter?: { status?: DeliveryStatus; subscriptionId?: string }): WebhookDelivery[] {
+    return this.store.list(filter)
+  }
+
+  /** The attempt log of a delivery */
+  attempts(id: string): DeliveryAttempt[] {
+    return this.store.get(id)?.attempts ?? []
+  }
+
+  /**
+   * Attempt a delivery again now, whatever its status. Its attempt log is
+   * kept and its retry budget starts over.
+   */
+  async redeliver(id: string): Promise<WebhookDelivery> {
+    const delivery = this.store.get(id)
+    if (!delivery) throw new Error(`Delivery not found: ${id}`)
+    return this.attempt({ ...delivery, status: 'pending', redeliveredAfter: delivery.attempts.length, nextAttemptAt: new Date().toISOString() })
+  }
+
+  /** Redeliver every dead-lettered delivery (of one subscription, or all) */
+  async redeliverDead(subscriptionId?: string): Promise<WebhookDelivery[]> {
+    const results: WebhookDelivery[] = []
+    for (const delivery of this.store.list({ status: 'dead', subscriptionId })) {
+      results.push(await this.redeliver(delivery.id))
+    }
+    return results
+  }
+
+  /** Dead-letter a subscription's pending deliveries (when it is removed) */
+  abandon(subscriptionId: string, reason: string): void {
+    const now = new Date().toISOString()
+    for (const delivery of this.store.list({ status: 'pending', subscriptionId })) {
+      const attempts = [...delivery.attempts, { attempt: delivery.attempts.length + 1, timestamp: now, error: reason, durationMs: 0 }]
+      this.store.save({ ...delivery, status: 'dead', attempts, nextAttemptAt: undefined, updatedAt: now })
+    }
+  }
+
+  private async runDue(now: Date): Promise<ProcessResult> {
+    const result: ProcessResult = { delivered: 0, failed: 0, dead: 0 }
+    for (const due of this.store.due(now.toISOString())) {
+      const subscription = this.subscriptions.get(due.subscriptionId)
+      if (subscription && !subscription.active) continue
+      const delivery = await this.attempt(due)
+      if (delivery.status === 'delivered') result.delivered++
+      else if (delivery.status === 'dead') result.dead++
+      else result.failed++
+    }
+    return result
+  }
+
+  /**
+   * Make one attempt, log it, and save the delivery as delivered, pending
+   * (with its next attempt scheduled), or dead. While the attempt is in
+   * flight the delivery is saved as due only once it would have timed out,
+   * so process() does not send it again meanwhile, yet retries it after a crash.
+   */
+  private async attempt(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const subscription = this.subscriptions.get(delivery.subscriptionId)
+    const policy = { ...DEFAULT_RETRY_POLICY, ...this.retry, ...subscription?.retry }
+    const started = Date.now()
+    const number = delivery.attempts.length + 1
+    const record: DeliveryAttempt = { attempt: number, timestamp: new Date(started).toISOString(), durationMs: 0 }
+
+    if (!subscription) {
+      record.error = 'Subscription not found'
+    } else {
+      this.store.save({ ...delivery, status: 'pending', nextAttemptAt: new Date(started + policy.timeout).toISOString() })
+      try {
+        record.status = await this.send(subscription, delivery, number, policy.timeout)
+        if (record.status < 200 || record.status >= 300) record.error = `HTTP ${record.status}`
+      } catch (err) {
+        record.error = err instanceof Error ? err.message : String(err)
+      }
+    }
+    record.durationMs = Date.now() - started
+
+    const attempts = [...delivery.attempts, record]
+    const updatedAt = new Date().toISOString()
+    let next: WebhookDelivery
+    if (!record.error) {
+      next = { ...delivery, status: 'delivered', attempts, nextAttemptAt: undefined, updatedAt }
+    } else {
+      const used = attempts.length - (delivery.redeliveredAfter ?? 0)
+      next =
+        !subscription || used >= policy.maxAttempts
+          ? { ...delivery, status: 'dead', attempts, nextAttemptAt: undefined, updatedAt }
+          : { ...delivery, status: 'pending', attempts, nextAttemptAt: new Date(Date.now() + backoffDelay(used, policy)).toISOString(), updatedAt }
+    }
+    this.store.save(next)
+    if (subscription) this.recordOutcome(subscription, !record.error)
+    return next
+  }
+
+  /** POST the event; resolves to the HTTP status */
+  private async send(subscription: Subscription, delivery: WebhookDelivery, attempt: number, timeout: number): Promise<number> {
+    const payload = JSON.stringify(delivery.event)
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Headlessly-Event': delivery.event.$type,
+      'X-Headlessly-Delivery': delivery.event.$id,
+      'X-Headlessly-Attempt': String(attempt),
+    }
+    if (subscription.secret) {
+      headers['X-Headlessly-Signature'] = await signWebhook(payload, subscription.secret)
+    }
+
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), timeout)
+    try {
+      const response = await this.fetchFn(delivery.endpoint, { method: 'POST', headers, body: payload, signal: controller.signal })
+      return response.status
+    } catch (err) {
+      if (controller.signal.aborted) throw new Error(`Timed out after ${timeout}ms`)
+      throw err
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  /** Track consecutive failed attempts and deactivate the subscription past the limit */
+  private recordOutcome(subscription: Subscription, ok: boolean): void {
+    subscription.consecutiveFailures = ok ? 0 : (subscription.consecutiveFailures ?? 0) + 1
+    if (this.deactivateAfter > 0 && subscription.consecutiveFailures >= this.deactivateAfter) {
+      this.subscriptions.deactivate(subscription.id)
+    } else {
+      this.subscriptions.save(subscription)
+    }
+  }
+}
+
+// =============================================================================
+// MemoryDeliveryStore
+// =============================================================================
+
+/**
+ * Default store: nothing outlives the process
+ */
+export class MemoryDeliveryStore implements DeliveryStore {
+  private deliveries = new Map<string, WebhookDelivery>()
+
+  get(id: string): WebhookDelivery | null {
+    return this.deliveries.get(id) ?? null
+  }
+
+  save(delivery: WebhookDelivery): void {
+    this.deliveries.set(delivery.id, delivery)
+  }
+
+  list(filter: { status?: DeliveryStatus; subscriptionId?: string } = {}): WebhookDelivery[] {
+    return Array.from(this.deliveries.values()).filter(
+      (d) => (!filter.status || d.status === filter.status) && (!filter.subscriptionId || d.subscriptionId === filter.subscriptionId),
+    )
+  }
+
+  due(now: string): WebhookDelivery[] {
+    return this.list({ status: 'pending' }).filter((d) => d.nextAttemptAt !== undefined && d.nextAttemptAt <= now)
+  }
+
+  clear(subscriptionId?: string): void {
+    if (!subscriptionId) {
+      this.deliveries.clear()
+      return
+    }
+    for (const [id, delivery] of this.deliveries) {
+      if (delivery.subscriptionId === subscriptionId) this.deliveries.delete(id)
+    }
+  }
+}
+
+// =============================================================================
+// SqlDeliveryStore
+// =============================================================================
+
+export interface SqlDeliveryStoreOptions {
+  /** Table name (defaults to 'webhook_deliveries') */
+  tableName?: string
+}
+
+/**
+ * Store over SqlStorage (Durable Object SQLite, better-sqlite3), so pending
+ * deliveries survive restarts.
+ */
+export class SqlDeliveryStore implements DeliveryStore {
+  private tableName: string
+
+  constructor(
+    private sql: SqlStorage,
+    options: SqlDeliveryStoreOptions = {},
+  ) {
+    this.tableName = sanitizeTableName(options.tableName ?? 'webhook_deliveries')
+    this.sql.exec(
+      `CREATE TABLE IF NOT EXISTS ${this.tableName} (position INTEGER PRIMARY KEY AUTOINCREMENT, id TEXT NOT NULL UNIQUE, subscription_id TEXT NOT NULL, status TEXT NOT NULL, next_attempt_at TEXT, delivery TEXT NOT NULL)`,
+    )
+    this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_${this.tableName}_due ON ${this.tableName}(status, next_attempt_at)`)
+  }
+
+  get(id: string): WebhookDelivery | null {
+    const row = this.sql.exec(`SELECT delivery FROM ${this.tableName} WHERE id = ?`, id).toArray()[0]
+    return row ? (JSON.parse(row.delivery as string) as WebhookDelivery) : null
+  }
+
+  save(delivery: WebhookDelivery): void {
+    this.sql.exec(
+      `INSERT INTO ${this.tableName} (id, subscription_id, status, next_attempt_at, delivery) VALUES (?, ?, ?, ?, ?) ON CONFLICT(id) DO UPDATE SET status = excluded.status, next_attempt_at = excluded.next_attempt_at, delivery = excluded.delivery`,
+      delivery.id,
+      delivery.subscriptionId,
+      delivery.status,
+      delivery.nextAttemptAt ?? null,
+      JSON.stringify(delivery),
+    )
+  }
+
+  list(filter: { status?: DeliveryStatus; subscriptionId?: string } = {}): WebhookDelivery[] {
+    const conditions: string[] = []
+    const values: string[] = []
+    if (filter.status) {
+      conditions.push('status = ?')
+      values.push(filter.status)
+    }
+    if (filter.subscriptionId) {
+      conditions.push('subscription_id = ?')
+      values.push(filter.subscriptionId)
+    }
+    const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : ''
+    return this.sql
+      .exec(`SELECT delivery FROM ${this.tableName}${where} ORDER BY position ASC`, ...values)
+      .toArray()
+      .map((row) => JSON.parse(row.delivery as string) as WebhookDelivery)
+  }
+
+  due(now: string): WebhookDelivery[] {
+    return this.sql
+      .exec(`SELECT delivery FROM ${this.tableName} WHERE status = 'pending' AND next_attempt_at <= ? ORDER BY position ASC`, now)
+      .toArray()
+      .map((row) => JSON.parse(row.delivery as string) as WebhookDelivery)
+  }
+
+  clear(subscriptionId?: string): void {
+    if (subscriptionId) this.sql.exec(`DELETE FROM ${this.tableName} WHERE subscription_id = ?`, subscriptionId)
+    else this.sql.exec(`DELETE FROM ${this.tableName}`)
+  }
+}
@@ -0,0 +1,302 @@
+/**
+ * WebSocketFanout — push events to WebSocket connections
+ *
+ * Each connection is a websocket-mode subscription whose pattern follows the
+ * entity types the client subscribes to. Events are pushed as they are
+ * dispatched; while a socket's send buffer is over the high-water mark they
+ * queue, and a connection that falls too far behind is closed so the client
+ * reconnects and resumes. Clients acknowledge event IDs, which are kept as
+ * CDCStream cursors: a client subscribing with `after` (or reconnecting under
+ * the same consumer name) first receives everything it missed.
+ *
+ * The host wires its WebSocket server to connect / receive / disconnect:
+ *
+ *   const id = manager.websockets.connect(socket, { consumer: url.searchParams.get('consumer') })
+ *   socket.onmessage = (e) => manager.websockets.receive(id, e.data)
+ *   socket.onclose = () => manager.websockets.disconnect(id)
+ *
+ * Protocol (JSON text frames), matching RealtimeManager in @headlessly/js:
+ * - client → server: `{ action: 'subscribe', entity, after? }`, `{ action: 'unsubscribe', entity }`,
+ *   `{ action: 'ack', cursor }`, `{ type: 'ping' }`
+ * - server → client: `{ type, entity, id, data, ts, cursor }` per event, `{ type: 'pong' }`
+ */
+
+import type { EventStore, NounEvent, Subscription } from './types.js'
+import { CDCStream } from './cdc.js'
+import type { CursorStore } from './cdc-consumers.js'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** The part of a WebSocket (browser, Workers, or the ws package) the fan-out uses */
+export interface WebSocketLike {
+  send(data: string): void
+  close(code?: number, reason?: string): void
+  /** Bytes queued but not yet sent, where the runtime reports it */
+  readonly bufferedAmount?: number
+}
+
+/** An event as pushed to a client */
+export interface RealtimeMessage {
+  /** The event's verb */
+  type: string
+  entity: string
+  /** Entity ID */
+  id: string
+  data: Record<string, unknown>
+  ts: string
+  /** Event ID: acknowledge it, or subscribe `after` it to resume */
+  cursor: string
+}
+
+/** The parts of SubscriptionManager the fan-out uses */
+export interface WebSocketSubscriptions {
+  registerWebSocket(pattern: string, endpoint: string): string
+  unsubscribe(id: string): boolean
+  get(id: string): Subscription | undefined
+  /** The event store the manager is attached to */
+  readonly eventStore: EventStore | null
+}
+
+export interface WebSocketFanoutOptions {
+  /** Event store to resume from (default: the store the manager is attached to) */
+  store?: EventStore
+  /** Where acknowledged cursors are kept, so resumes survive restarts (default: in memory) */
+  cursors?: CursorStore
+  /** Hold pushes while a socket has more than this many bytes buffered (default: 1 MiB) */
+  highWaterMark?: number
+  /** Close a connection with more than this many events held back (default: 1000) */
+  maxQueued?: number
+  /** How often held events are retried, in milliseconds (default: 50) */
+  drainInterval?: number
+}
+
+/** Close code for connections dropped by backpressure (RFC 6455 "Try Again Later") */
+export const BACKPRESSURE_CLOSE_CODE = 1013
+
+/** Events read per CDC poll while resuming */
+const RESUME_BATCH_SIZE = 500
+
+interface Connection {
+  socket: WebSocketLike
+  consumer: string
+  entities: Set<string>
+  /** Events held back by backpressure */
+  queue: NounEvent[]
+  drainTimer: ReturnType<typeof setTimeout> | null
+  /** Resumes in flight; live events wait in `held` until they finish */
+  resuming: number
+  held: NounEvent[]
+  resumed: Set<string>
+}
+
+// =============================================================================
+// WebSocketFanout
+// =============================================================================
+
+export class WebSocketFanout {
+  private connections = new Map<string, Connection>()
+  private highWaterMark: number
+  private maxQueued: number
+  private drainInterval: number
+  private cdcStream: CDCStream | null = null
+
+  constructor(
+    private subscriptions: WebSocketSubscriptions,
+    private options: WebSocketFanoutOptions = {},
+  ) {
+    this.highWaterMark = options.highWaterMark ?? 1024 * 1024
+    this.maxQueued = options.maxQueued ?? 1000
+    this.drainInterval = options.drainInterval ?? 50
+  }
+
+  /**
+   * Register a connection. Returns its subscription ID. The consumer name
+   * keys its acknowledged cursor (default: the subscription ID).
+   */
+  connect(socket: WebSocketLike, options: { consumer?: string | null } = {}): string {
+    const id = this.subscriptions.registerWebSocket('', 'websocket')
+    this.connections.set(id, {
+      socket,
+      consumer: options.consumer || id,
+      entities: new Set(),
+      queue: [],
+      drainTimer: null,
+      resuming: 0,
+      held: [],
+      resumed: new Set(),
+    })
+    return id
+  }
+
+  /** Remove a connection and its subscription. Its acknowledged cursor is kept. */
+  disconnect(id: string): void {
+    const connection = this.connections.get(id)
+    if (!connection) return
+    if (connection.drainTimer) clearTimeout(connection.drainTimer)
+    this.connections.delete(id)
+    this.subscriptions.unsubscribe(id)
+  }
+
+  /** Handle a message from a connection's client */
+  async receive(id: string, raw: string): Promise<void> {
+    const connection = this.connections.get(id)
+    if (!connection) return
+    let message: { action?: string; type?: string; entity?: string; after?: string; cursor?: string }
+    try {
+      message = JSON.parse(raw)
+    } catch {
+      return
+    }
+
+    if (message.type === 'ping') {
+      this.sendRaw(id, connection, JSON.stringify({ type: 'pong' }))
+      return
+    }
+    switch (message.action) {
+      case 'subscribe':
+        if (message.entity) await this.subscribe(id, connection, message.entity, message.after)
+        return
+      case 'unsubscribe':
+        if (message.entity) {
+          connection.entities.delete(message.entity)
+          this.updatePattern(id, connection)
+        }
+        return
+      case 'ack':
+        if (message.cursor) await this.cdc()?.checkpoint(connection.consumer, message.cursor)
+        return
+    }
+  }
+
+  /**
+   * Push an event to a connection, holding it back under backpressure.
+   * Subscriptions without a connection are ignored.
+   */
+  push(id: string, event: NounEvent): void {
+    const connection = this.connections.get(id)
+    if (!connection) return
+    if (connection.resuming > 0) {
+      connection.held.push(event)
+      return
+    }
+    this.send(id, connection, event)
+  }
+
+  /** The acknowledged cursor of a consumer */
+  async cursor(consumer: string): Promise<string | undefined> {
+    return this.cdc()?.getCursor(consumer)
+  }
+
+  /** Number of open connections */
+  get size(): number {
+    return this.connections.size
+  }
+
+  /** Add an entity type, first sending what the client missed after its cursor */
+  private async subscribe(id: string, connection: Connection, entity: string, after?: string): Promise<void> {
+    connection.entities.add(entity)
+    this.updatePattern(id, connection)
+
+    const cdc = this.cdc()
+    const from = after ?? (cdc ? await cdc.getCursor(connection.consumer) : undefined)
+    if (!cdc || !from) return
+
+    connection.resuming++
+    try {
+      let cursor = from
+      let hasMore = true
+      while (hasMore && this.connections.has(id)) {
+        const batch = await cdc.poll({ after: cursor, types: entity === '*' ? undefined : [entity], batchSize: RESUME_BATCH_SIZE })
+        for (const event of batch.events) {
+          connection.resumed.add(event.$id)
+          this.send(id, connection, event)
+        }
+        hasMore = batch.hasMore && batch.events.length > 0
+        cursor = batch.cursor
+      }
+    } finally {
+      connection.resuming--
+      if (connection.resuming === 0) {
+        const held = connection.held
+        const resumed = connection.resumed
+        connection.held = []
+        connection.resumed = new Set()
+        for (const event of held) {
+          if (!resumed.has(event.$id)) this.send(id, connection, event)
+        }
+      }
+    }
+  }
+
+  private updatePattern(id: string, connection: Connection): void {
+    const subscription = this.subscriptions.get(id)
+    if (!subscription) return
+    subscription.pattern = Array.from(connection.entities, (entity) => (entity === '*' ? '*' : `${entity}.*`)).join(',')
+  }
+
+  private send(id: string, connection: Connection, event: NounEvent): void {
+    const message: RealtimeMessage = {
+      type: event.verb,
+      entity: event.entityType,
+      id: event.entityId,
+      data: event.after ?? event.data ?? {},
+      ts: event.timestamp,
+      cursor: event.$id,
+    }
+    if (connection.queue.length > 0 || this.saturated(connection)) {
+      connection.queue.push(event)
+      if (connection.queue.length > this.maxQueued) {
+        this.disconnect(id)
+        try {
+          connection.socket.close(BACKPRESSURE_CLOSE_CODE, 'Backpressure limit exceeded')
+        } catch {
+          // Socket may already be closed
+        }
+        return
+      }
+      this.scheduleDrain(id, connection)
+      return
+    }
+    this.sendRaw(id, connection, JSON.stringify(message))
+  }
+
+  private sendRaw(id: string, connection: Connection, data: string): void {
+    try {
+      connection.socket.send(data)
+    } catch {
+      // A socket that can no longer send is gone
+      this.disconnect(id)
+    }
+  }
+
+  private saturated(connection: Connection): boolean {
+    return (connection.socket.bufferedAmount ?? 0) > this.highWaterMark
+  }
+
+  /** Send held-back events once the socket's buffer drains */
+  private scheduleDrain(id: string, connection: Connection): void {
+    if (connection.drainTimer) return
+    connection.drainTimer = setTimeout(() => {
+      connection.drainTimer = null
+      if (!this.connections.has(id)) return
+      const queue = connection.queue
+      connection.queue = []
+      while (queue.length > 0 && !this.saturated(connection)) {
+        this.send(id, connection, queue.shift()!)
+      }
+      if (queue.length > 0) {
+        connection.queue = [...queue, ...connection.queue]
+        this.scheduleDrain(id, connection)
+      }
+    }, this.drainInterval)
+  }
+
+  private cdc(): CDCStream | null {
+    const store = this.options.store ?? this.subscriptions.eventStore
+    if (!store) return null
+    if (!this.cdcStream) this.cdcStream = new CDCStream(store, { cursors: this.options.cursors })
+    return this.cdcStream
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { EventLog } from '../src/event-log'
+import { AuditLog } from '../src/audit'
+import type { AuditSource } from '../src/audit'
+import type { NounEvent, NounEventInput } from '../src/types'
+
+function eventInput(entityId: string, verb: string, after?: Record<string, unknown>, extra: Partial<NounEventInput> = {}): NounEventInput {
+  return {
+    $type: `Deal.${verb}`,
+    entityType: 'Deal',
+    entityId,
+    verb,
+    conjugation: { action: verb, activity: `${verb}ing`, event: `${verb}d` },
+    after,
+    ...extra,
+  }
+}
+
+describe('@headlessly/events — AuditLog', () => {
+  let log: EventLog
+  let audit: AuditLog
+
+  beforeEach(() => {
+    log = new EventLog()
+    audit = new AuditLog(log)
+  })
+
+  it('records one change per field, with verb, actor and timestamp', async () => {
+    await log.append(eventInput('d1', 'create', { $version: 1, name: 'Big', value: 100 }, { actor: 'user_alice' }))
+    await log.append(eventInput('d1', 'update', { value: 250 }, { actor: 'user_bob' }))
+
+    const changes = await audit.query({ entityType: 'Deal', entityId: 'd1' })
+    expect(changes.map((c) => [c.field, c.from, c.to, c.verb, c.actor])).toEqual([
+      ['name', undefined, 'Big', 'create', 'user_alice'],
+      ['value', undefined, 100, 'create', 'user_alice'],
+      ['value', 100, 250, 'update', 'user_bob'],
+    ])
+    expect(changes[2]!.timestamp).toEqual(expect.any(String))
+    expect(changes[2]!.sequence).toBe(2)
+  })
+
+  it('compares full before/after states, including removed fields', async () => {
+    await log.append(eventInput('d1', 'update', { name: 'Big', $version: 3 }, { before: { name: 'Big', value: 100, $version: 2 } }))
+    expect((await audit.query()).map((c) => [c.field, c.from, c.to])).toEqual([['value', 100, undefined]])
+  })
+
+  it('skips unchanged fields and deletes', async () => {
+    await log.append(eventInput('d1', 'create', { name: 'Big', value: 100 }))
+    await log.append(eventInput('d1', 'update', { value: 100 }))
+    await log.append(eventInput('d1', 'delete', undefined))
+    expect(await audit.size()).toBe(2)
+  })
+
+  it('filters by field, actor, verb, context and time range', async () => {
+    await log.append(eventInput('d1', 'create', { value: 1 }, { actor: 'user_alice', context: 'https://headless.ly/~acme' }))
+    await log.append(eventInput('d2', 'create', { value: 2, stage: 'Open' }, { actor: 'user_bob', context: 'https://headless.ly/~globex' }))
+    const [first] = await audit.query()
+
+    expect((await audit.query({ field: 'stage' })).map((c) => c.entityId)).toEqual(['d2'])
+    expect((await audit.query({ actor: 'user_alice' })).map((c) => c.entityId)).toEqual(['d1'])
+    expect((await audit.query({ context: 'https://headless.ly/~globex', verb: 'create' })).length).toBe(2)
+    expect(await audit.query({ until: '2000-01-01' })).toEqual([])
+    expect((await audit.query({ since: first!.timestamp })).length).toBe(3)
+    expect((await audit.query({ limit: 1, offset: 1 })).map((c) => [c.entityId, c.field])).toEqual([['d2', 'value']])
+  })
+
+  it('indexes events already in the log', async () => {
+    const existing = new EventLog()
+    await existing.append(eventInput('d1', 'create', { value: 100 }))
+    await existing.append(eventInput('d1', 'update', { value: 200 }))
+
+    const late = new AuditLog(existing)
+    await existing.append(eventInput('d1', 'update', { value: 300 }))
+    expect((await late.query({ field: 'value' })).map((c) => [c.from, c.to])).toEqual([
+      [undefined, 100],
+      [100, 200],
+      [200, 300],
+    ])
+  })
+
+  it('reads synchronous sources such as SQLiteEventLog', async () => {
+    const events: NounEvent[] = [{ ...eventInput('d1', 'create', { value: 5 }), $id: 'evt_1', timestamp: '2026-01-01T00:00:00.000Z', sequence: 1 }]
+    const source: AuditSource = {
+      query: ({ offset = 0, limit = events.length }) => events.slice(offset, offset + limit),
+      subscribe: () => () => {},
+    }
+    expect((await new AuditLog(source).query()).map((c) => [c.eventId, c.to])).toEqual([['evt_1', 5]])
+  })
+
+  it('stops indexing once closed', async () => {
+    audit.close()
+    await log.append(eventInput('d1', 'create', { value: 1 }))
+    expect(await audit.size()).toBe(0)
+  })
+})
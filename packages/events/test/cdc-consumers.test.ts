@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import Database from 'better-sqlite3'
+import { EventLog } from '../src/event-log'
+import { CDCStream } from '../src/cdc'
+import { SqlCursorStore } from '../src/cdc-consumers'
+import type { SqlStorage } from '../src/sqlite-adapter'
+
+function eventInput(entityType: string, entityId: string, verb: string) {
+  const eventForm = verb.endsWith('e') ? `${verb}d` : `${verb}ed`
+  return {
+    $type: `${entityType}.${eventForm}`,
+    entityType,
+    entityId,
+    verb,
+    conjugation: { action: verb, activity: `${verb}ing`, event: eventForm },
+  }
+}
+
+/** better-sqlite3 stand-in for Durable Object SqlStorage */
+function createSqlStorage(): SqlStorage {
+  const db = new Database(':memory:')
+  return {
+    exec(query: string, ...bindings: unknown[]) {
+      const stmt = db.prepare(query)
+      const rows = stmt.reader ? (stmt.all(...bindings) as Record<string, unknown>[]) : (stmt.run(...bindings), [])
+      return { toArray: () => rows }
+    },
+  }
+}
+
+const secondsLater = (seconds: number) => new Date(Date.now() + seconds * 1000)
+
+describe('@headlessly/events — durable CDC consumers', () => {
+  let log: EventLog
+  let sql: SqlStorage
+
+  beforeEach(async () => {
+    log = new EventLog()
+    sql = createSqlStorage()
+    for (let i = 1; i <= 5; i++) await log.append(eventInput('Contact', `c${i}`, 'create'))
+  })
+
+  it('resumes a named consumer and its lag after a restart', async () => {
+    const cdc = new CDCStream(log, { cursors: new SqlCursorStore(sql) })
+    const consumer = cdc.createConsumer('warehouse')
+    await consumer.poll({ batchSize: 3 })
+    await consumer.checkpoint()
+    await cdc.acknowledge('warehouse', ['evt_a'])
+
+    const restarted = new CDCStream(log, { cursors: new SqlCursorStore(sql) })
+    expect(await restarted.lag('warehouse')).toBe(2)
+    const batch = await restarted.createConsumer('warehouse').poll()
+    expect(batch.events.map((e) => e.entityId)).toEqual(['c4', 'c5'])
+    expect(await restarted.consumers()).toEqual(['warehouse'])
+
+    await restarted.removeConsumer('warehouse')
+    expect(await restarted.getCursor('warehouse')).toBeUndefined()
+  })
+
+  it('shares work between the members of a group', async () => {
+    const group = new CDCStream(log).group('indexer', { batchSize: 2 })
+    const first = await group.receive('worker-1')
+    const second = await group.receive('worker-2')
+    const third = await group.receive('worker-1')
+
+    expect(first.map((e) => e.entityId)).toEqual(['c1', 'c2'])
+    expect(second.map((e) => e.entityId)).toEqual(['c3', 'c4'])
+    expect(third.map((e) => e.entityId)).toEqual(['c5'])
+    expect(await group.receive('worker-2')).toEqual([])
+    expect((await group.inFlight()).map((entry) => entry.member)).toEqual(['worker-1', 'worker-1', 'worker-2', 'worker-2', 'worker-1'])
+  })
+
+  it('advances the group cursor only past contiguously acknowledged events', async () => {
+    const group = new CDCStream(log).group('indexer', { batchSize: 2 })
+    const [c1, c2] = await group.receive('worker-1')
+    const [c3, c4] = await group.receive('worker-2')
+
+    await group.ack([c3.$id, c4.$id])
+    expect(await group.cursor()).toBeUndefined()
+    expect(await group.lag()).toBe(3)
+
+    await group.ack([c1.$id, c2.$id])
+    expect(await group.cursor()).toBe(c4.$id)
+    expect(await group.lag()).toBe(1)
+    expect(await group.inFlight()).toEqual([])
+  })
+
+  it('redelivers events not acknowledged within the visibility timeout', async () => {
+    const group = new CDCStream(log).group('indexer', { visibilityTimeout: 10_000, batchSize: 2 })
+    const [c1, c2] = await group.receive('worker-1')
+    await group.ack([c2.$id])
+
+    // Still hidden: the next member gets new events
+    expect((await group.receive('worker-2', { now: secondsLater(5) })).map((e) => e.entityId)).toEqual(['c3', 'c4'])
+
+    // worker-1 never acknowledged c1; once its lease expires another member receives it (c3 and c4 are still leased)
+    const redelivered = await group.receive('worker-2', { now: secondsLater(11) })
+    expect(redelivered.map((e) => e.entityId)).toEqual(['c1', 'c5'])
+    expect((await group.inFlight()).find((entry) => entry.id === c1.$id)).toMatchObject({ member: 'worker-2', deliveries: 2 })
+  })
+
+  it('hands nacked events back immediately', async () => {
+    const group = new CDCStream(log).group('indexer', { batchSize: 1 })
+    const [c1] = await group.receive('worker-1')
+    await group.nack([c1.$id])
+    expect((await group.receive('worker-2')).map((e) => e.$id)).toEqual([c1.$id])
+  })
+
+  it('keeps leases and the group position in SqlStorage across restarts', async () => {
+    const group = new CDCStream(log, { cursors: new SqlCursorStore(sql) }).group('indexer', { types: ['Contact'], batchSize: 2 })
+    const [c1, c2] = await group.receive('worker-1')
+    await group.ack([c1.$id])
+    await log.append(eventInput('Deal', 'd1', 'create'))
+
+    const restarted = new CDCStream(log, { cursors: new SqlCursorStore(sql) }).group('indexer', { types: ['Contact'], batchSize: 2 })
+    expect(await restarted.cursor()).toBe(c1.$id)
+    expect(await restarted.lag()).toBe(4)
+    expect((await restarted.receive('worker-2')).map((e) => e.entityId)).toEqual(['c3', 'c4'])
+    // c2's lease from before the restart still runs out
+    expect((await restarted.receive('worker-2', { now: secondsLater(31) })).map((e) => e.$id)).toEqual([c2.$id, expect.any(String)])
+    expect((await restarted.inFlight()).map((entry) => entry.deliveries)).toEqual([2, 2, 1])
+  })
+
+  it('serializes concurrent receives so no event is handed to two members', async () => {
+    const group = new CDCStream(log).group('indexer', { batchSize: 1 })
+    const batches = await Promise.all(['w1', 'w2', 'w3', 'w4', 'w5'].map((member) => group.receive(member)))
+    expect(batches.flat().map((e) => e.entityId)).toEqual(['c1', 'c2', 'c3', 'c4', 'c5'])
+  })
+
+  it('keeps group leases consistent between stores sharing one SQL database', async () => {
+    const first = new CDCStream(log, { cursors: new SqlCursorStore(sql) }).group('indexer', { batchSize: 2 })
+    const second = new CDCStream(log, { cursors: new SqlCursorStore(sql) }).group('indexer', { batchSize: 2 })
+
+    const [a, b] = await Promise.all([first.receive('worker-1'), second.receive('worker-2')])
+    expect([...a, ...b].map((e) => e.entityId).sort()).toEqual(['c1', 'c2', 'c3', 'c4'])
+    await Promise.all([first.ack(a.map((e) => e.$id)), second.ack(b.map((e) => e.$id))])
+    expect(await first.inFlight()).toEqual([])
+    expect(await second.cursor()).toBe([...a, ...b].find((e) => e.entityId === 'c4')!.$id)
+  })
+})
@@ -71,6 +71,29 @@ describe('@headlessly/events — EventLog', () => {
       expect(results.length).toBe(2)
     })
 
+    it('queries, counts and streams by actor', async () => {
+      await log.append({ ...eventInput('Contact', 'c1', 'created'), actor: 'agent_mR4nVkTw' })
+      await log.append({ ...eventInput('Contact', 'c1', 'updated'), actor: 'user_fX9bL5nR' })
+      await log.append(eventInput('Deal', 'd1', 'created'))
+
+      const results = await log.query({ actor: 'agent_mR4nVkTw' })
+      expect(results.map((e) => e.verb)).toEqual(['created'])
+      expect(await log.count({ actor: 'user_fX9bL5nR' })).toBe(1)
+
+      const streamed = []
+      for await (const event of log.stream({ actor: 'user_fX9bL5nR' })) streamed.push(event)
+      expect(streamed.map((e) => e.verb)).toEqual(['updated'])
+    })
+
+    it('filters CDC batches by actor', async () => {
+      await log.append({ ...eventInput('Contact', 'c1', 'created'), actor: 'agent_mR4nVkTw' })
+      await log.append({ ...eventInput('Contact', 'c2', 'created'), actor: 'user_fX9bL5nR' })
+      await log.append(eventInput('Contact', 'c3', 'created'))
+
+      const { events } = await log.cdc({ actors: ['agent_mR4nVkTw', 'user_fX9bL5nR'] })
+      expect(events.map((e) => e.entityId)).toEqual(['c1', 'c2'])
+    })
+
     it('returns all events when no filters provided', async () => {
       await log.append(eventInput('Contact', 'c1', 'created'))
       await log.append(eventInput('Deal', 'd1', 'created'))
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import Database from 'better-sqlite3'
+import { EventLog } from '../src/event-log'
+import { SQLiteEventLog } from '../src/sqlite-adapter'
+import type { SqlStorage } from '../src/sqlite-adapter'
+import { TimeTraveler } from '../src/time-travel'
+import { CDCStream } from '../src/cdc'
+import { SubscriptionManager } from '../src/subscriptions'
+import { EventBus } from '../src/event-bus'
+import { AuditLog } from '../src/audit'
+import type { EventStore, NounEvent } from '../src/types'
+
+function eventInput(entityType: string, entityId: string, verb: string, after?: Record<string, unknown>) {
+  const eventForm = verb.endsWith('e') ? `${verb}d` : `${verb}ed`
+  return {
+    $type: `${entityType}.${eventForm}`,
+    entityType,
+    entityId,
+    verb,
+    conjugation: { action: verb, activity: `${verb}ing`, event: eventForm },
+    after,
+  }
+}
+
+/** better-sqlite3 stand-in for Durable Object SqlStorage */
+function createSqlStorage(): SqlStorage {
+  const db = new Database(':memory:')
+  return {
+    exec(query: string, ...bindings: unknown[]) {
+      const stmt = db.prepare(query)
+      const rows = stmt.reader ? (stmt.all(...bindings) as Record<string, unknown>[]) : (stmt.run(...bindings), [])
+      return { toArray: () => rows }
+    },
+  }
+}
+
+const backends: Array<[string, () => EventStore]> = [
+  ['EventLog', () => new EventLog()],
+  ['SQLiteEventLog', () => new SQLiteEventLog(createSqlStorage())],
+]
+
+describe.each(backends)('@headlessly/events — primitives over %s', (_name, createStore) => {
+  let store: EventStore
+
+  beforeEach(() => {
+    store = createStore()
+  })
+
+  it('TimeTraveler reconstructs, diffs, rolls back and lists entities', async () => {
+    const traveler = new TimeTraveler(store)
+    await store.append(eventInput('Contact', 'c1', 'create', { name: 'Alice', stage: 'Lead' }))
+    await store.append(eventInput('Contact', 'c1', 'update', { stage: 'Qualified' }))
+    await store.append(eventInput('Deal', 'd1', 'create', { name: 'Big' }))
+
+    expect(await traveler.asOf('Contact', 'c1', { atVersion: 1 })).toMatchObject({ name: 'Alice', stage: 'Lead', $version: 1 })
+    expect((await traveler.diff('Contact', 'c1', { atVersion: 1 }, { atVersion: 2 })).changes).toEqual([{ field: 'stage', from: 'Lead', to: 'Qualified' }])
+
+    const { rollbackEvent } = await traveler.rollback('Contact', 'c1', { atVersion: 1 })
+    expect(rollbackEvent.sequence).toBe(3)
+    expect((await traveler.timeline('Contact', 'c1')).map((t) => t.state.stage)).toEqual(['Lead', 'Qualified', 'Lead'])
+    expect((await traveler.snapshotAll()).map((s) => s.$id)).toEqual(['c1', 'd1'])
+  })
+
+  it('CDCStream polls with cursors and named consumers', async () => {
+    const cdc = new CDCStream(store)
+    for (let i = 0; i < 3; i++) await store.append(eventInput('Contact', `c${i}`, 'create'))
+
+    const first = await cdc.poll({ batchSize: 2 })
+    expect(first.events.map((e) => e.entityId)).toEqual(['c0', 'c1'])
+    expect(first.hasMore).toBe(true)
+    expect((await cdc.poll({ after: first.cursor })).events.map((e) => e.entityId)).toEqual(['c2'])
+
+    const consumer = cdc.createConsumer('warehouse')
+    await consumer.poll({ batchSize: 2 })
+    await consumer.checkpoint()
+    expect(await cdc.lag('warehouse')).toBe(1)
+  })
+
+  it('SubscriptionManager dispatches appended events', async () => {
+    const manager = new SubscriptionManager()
+    const received: NounEvent[] = []
+    manager.registerCode('Contact.*', (event) => {
+      received.push(event)
+    })
+    manager.attach(store)
+
+    await store.append(eventInput('Contact', 'c1', 'create'))
+    await store.append(eventInput('Deal', 'd1', 'create'))
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    manager.detach()
+
+    expect(received.map((e) => e.entityId)).toEqual(['c1'])
+  })
+
+  it('EventBus emits, subscribes and replays', async () => {
+    const bus = new EventBus(store)
+    const seen: string[] = []
+    bus.on('*.created', (event) => {
+      seen.push(event.entityId)
+    })
+
+    await bus.emit(eventInput('Contact', 'c1', 'create'))
+    await bus.emit(eventInput('Contact', 'c1', 'update'))
+    expect(seen).toEqual(['c1'])
+    expect(bus.size).toBe(2)
+    expect(await bus.replay({ pattern: 'Contact.updated' }, () => {})).toBe(1)
+  })
+
+  it('AuditLog indexes field changes', async () => {
+    await store.append(eventInput('Contact', 'c1', 'create', { stage: 'Lead' }))
+    const audit = new AuditLog(store)
+    await store.append(eventInput('Contact', 'c1', 'update', { stage: 'Customer' }))
+
+    expect((await audit.query({ field: 'stage' })).map((c) => c.to)).toEqual(['Lead', 'Customer'])
+    audit.close()
+  })
+})
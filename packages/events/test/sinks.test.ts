@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import Database from 'better-sqlite3'
+import { EventLog } from '../src/event-log'
+import { CDCStream } from '../src/cdc'
+import { SqlCursorStore } from '../src/cdc-consumers'
+import { SqlReplicationSink } from '../src/sinks'
+import type { CDCSink } from '../src/sinks'
+import type { SqlStorage } from '../src/sqlite-adapter'
+import type { NounEvent } from '../src/types'
+
+function eventInput(entityType: string, entityId: string, verb: string, after?: Record<string, unknown>) {
+  const eventForm = verb.endsWith('e') ? `${verb}d` : `${verb}ed`
+  return {
+    $type: `${entityType}.${eventForm}`,
+    entityType,
+    entityId,
+    verb,
+    conjugation: { action: verb, activity: `${verb}ing`, event: eventForm },
+    after,
+  }
+}
+
+/** better-sqlite3 stand-in for Durable Object SqlStorage */
+function createSqlStorage(): SqlStorage {
+  const db = new Database(':memory:')
+  return {
+    exec(query: string, ...bindings: unknown[]) {
+      const stmt = db.prepare(query)
+      const rows = stmt.reader ? (stmt.all(...bindings) as Record<string, unknown>[]) : (stmt.run(...bindings), [])
+      return { toArray: () => rows }
+    },
+  }
+}
+
+/** A sink that records what it is given, and can be made to fail */
+function createRecordingSink(name = 'recording') {
+  const pages: string[][] = []
+  const sink = {
+    name,
+    failures: 0,
+    write(events: NounEvent[]) {
+      if (sink.failures > 0) {
+        sink.failures--
+        throw new Error('Sink unavailable')
+      }
+      pages.push(events.map((e) => e.entityId))
+    },
+  }
+  return { sink: sink as CDCSink & typeof sink, pages }
+}
+
+describe('@headlessly/events — CDC sinks', () => {
+  let log: EventLog
+  let sql: SqlStorage
+
+  beforeEach(() => {
+    log = new EventLog()
+    sql = createSqlStorage()
+  })
+
+  it('writes pages after the checkpoint and resumes from it after a restart', async () => {
+    for (let i = 1; i <= 5; i++) await log.append(eventInput('Contact', `c${i}`, 'create'))
+    const { sink, pages } = createRecordingSink()
+
+    const runner = new CDCStream(log, { cursors: new SqlCursorStore(sql) }).pipe(sink, { batchSize: 2 })
+    expect(await runner.run()).toMatchObject({ events: 5 })
+    expect(pages).toEqual([['c1', 'c2'], ['c3', 'c4'], ['c5']])
+
+    await log.append(eventInput('Contact', 'c6', 'create'))
+    const restarted = new CDCStream(log, { cursors: new SqlCursorStore(sql) }).pipe(sink, { batchSize: 2 })
+    expect(await restarted.lag()).toBe(1)
+    expect(await restarted.run()).toMatchObject({ events: 1 })
+    expect(pages.at(-1)).toEqual(['c6'])
+    expect(await restarted.lag()).toBe(0)
+  })
+
+  it('retries a failed page without checkpointing past it', async () => {
+    for (let i = 1; i <= 3; i++) await log.append(eventInput('Contact', `c${i}`, 'create'))
+    const { sink, pages } = createRecordingSink()
+    sink.failures = 1
+    const runner = new CDCStream(log).pipe(sink, { batchSize: 2 })
+
+    await expect(runner.run()).rejects.toThrow('Sink unavailable')
+    expect(await runner.lag()).toBe(3)
+    await runner.run()
+    expect(pages).toEqual([['c1', 'c2'], ['c3']])
+  })
+
+  it('filters the events a sink receives and keeps one checkpoint per sink', async () => {
+    await log.append(eventInput('Contact', 'c1', 'create'))
+    await log.append(eventInput('Deal', 'd1', 'create'))
+    const cdc = new CDCStream(log)
+    const contacts = createRecordingSink('contacts')
+    const everything = createRecordingSink('everything')
+
+    await cdc.pipe(contacts.sink, { types: ['Contact'] }).run()
+    await cdc.pipe(everything.sink).run()
+
+    expect(contacts.pages).toEqual([['c1']])
+    expect(everything.pages).toEqual([['c1', 'd1']])
+    expect((await cdc.consumers()).sort()).toEqual(['contacts', 'everything'])
+  })
+
+  it('replicates the latest after state of each entity into SqlStorage', async () => {
+    const replica = createSqlStorage()
+    const sink = new SqlReplicationSink(replica)
+    await log.append(eventInput('Contact', 'c1', 'create', { name: 'Alice', stage: 'Lead' }))
+    await log.append(eventInput('Contact', 'c1', 'qualify', { name: 'Alice', stage: 'Qualified' }))
+    await log.append(eventInput('Contact', 'c2', 'create', { name: 'Bob' }))
+    await log.append(eventInput('Deal', 'd1', 'create', { value: 5000 }))
+    await log.append(eventInput('Contact', 'c2', 'delete'))
+
+    const runner = new CDCStream(log).pipe(sink)
+    await runner.run()
+
+    expect(sink.get('Contact', 'c1')).toEqual({ $id: 'c1', $type: 'Contact', $version: 2, name: 'Alice', stage: 'Qualified' })
+    expect(sink.get('Deal', 'd1')).toMatchObject({ value: 5000 })
+    expect(sink.get('Contact', 'c2')).toBeNull()
+    expect(replica.exec(`SELECT id, version, deleted FROM replica_Contact ORDER BY id`).toArray()).toEqual([
+      { id: 'c1', version: 2, deleted: 0 },
+      { id: 'c2', version: 2, deleted: 1 },
+    ])
+
+    // Re-sent older events never roll a row back
+    const [created] = await log.getEntityHistory('Contact', 'c1')
+    sink.write([created])
+    expect(sink.get('Contact', 'c1')).toMatchObject({ stage: 'Qualified' })
+  })
+})
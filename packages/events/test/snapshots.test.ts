@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import Database from 'better-sqlite3'
+import { EventLog } from '../src/event-log'
+import { TimeTraveler } from '../src/time-travel'
+import { MemoryEventLogStorage, SqlEventLogStorage } from '../src/storage'
+import type { SqlStorage } from '../src/sqlite-adapter'
+
+function eventInput(entityType: string, entityId: string, verb: string, after?: Record<string, unknown>) {
+  const eventForm = verb.endsWith('e') ? `${verb}d` : `${verb}ed`
+  return {
+    $type: `${entityType}.${eventForm}`,
+    entityType,
+    entityId,
+    verb,
+    conjugation: { action: verb, activity: `${verb}ing`, event: eventForm },
+    after,
+  }
+}
+
+/** Create a contact and update its score `updates` times (score = version - 1) */
+async function seed(log: EventLog, updates: number, entityId = 'c1') {
+  await log.append(eventInput('Contact', entityId, 'create', { name: 'Alice', score: 0 }))
+  for (let i = 1; i <= updates; i++) {
+    await log.append(eventInput('Contact', entityId, 'update', { score: i }))
+  }
+}
+
+/** better-sqlite3 stand-in for Durable Object SqlStorage */
+function createSqlStorage(): SqlStorage {
+  const db = new Database(':memory:')
+  return {
+    exec(query: string, ...bindings: unknown[]) {
+      const stmt = db.prepare(query)
+      const rows = stmt.reader ? (stmt.all(...bindings) as Record<string, unknown>[]) : (stmt.run(...bindings), [])
+      return { toArray: () => rows }
+    },
+  }
+}
+
+describe('@headlessly/events — snapshots', () => {
+  let log: EventLog
+  let traveler: TimeTraveler
+
+  beforeEach(() => {
+    log = new EventLog({ snapshotEvery: 10 })
+    traveler = new TimeTraveler(log)
+  })
+
+  it('snapshots every N events of an entity', async () => {
+    await seed(log, 24)
+    await seed(log, 3, 'c2')
+
+    const latest = await log.snapshotAt('Contact', 'c1')
+    expect(latest?.sequence).toBe(20)
+    expect(latest?.state).toMatchObject({ $id: 'c1', $version: 20, name: 'Alice', score: 19 })
+    expect((await log.snapshotAt('Contact', 'c1', { atVersion: 15 }))?.sequence).toBe(10)
+    expect(await log.snapshotAt('Contact', 'c1', { atVersion: 9 })).toBeNull()
+    expect(await log.snapshotAt('Contact', 'c2')).toBeNull()
+  })
+
+  it('reconstructs the same state as a full replay', async () => {
+    const unsnapshotted = new EventLog({ snapshotEvery: 0 })
+    await seed(log, 34)
+    await seed(unsnapshotted, 34)
+    const full = new TimeTraveler(unsnapshotted)
+
+    for (const atVersion of [1, 9, 10, 11, 20, 35]) {
+      expect(await traveler.asOf('Contact', 'c1', { atVersion })).toEqual(await full.asOf('Contact', 'c1', { atVersion }))
+    }
+    expect(await traveler.asOf('Contact', 'c1', {})).toEqual(await full.asOf('Contact', 'c1', {}))
+    expect((await traveler.diff('Contact', 'c1', { atVersion: 5 }, { atVersion: 25 })).events).toHaveLength(20)
+    expect((await traveler.timeline('Contact', 'c1')).map((t) => t.state.score)).toEqual((await full.timeline('Contact', 'c1')).map((t) => t.state.score))
+  })
+
+  it('does not let callers mutate a snapshot through reconstructed state', async () => {
+    await seed(log, 9)
+    const state = await traveler.asOf('Contact', 'c1', {})
+    state!.score = 999
+    expect((await traveler.asOf('Contact', 'c1', {}))?.score).toBe(9)
+  })
+
+  it('survives deletes inside a snapshot window', async () => {
+    await seed(log, 5)
+    await log.append(eventInput('Contact', 'c1', 'delete'))
+    await seed(log, 3)
+
+    const snapshot = await log.snapshotAt('Contact', 'c1')
+    expect(snapshot?.sequence).toBe(10)
+    expect(await traveler.asOf('Contact', 'c1', {})).toMatchObject({ score: 3, $version: 11 })
+  })
+})
+
+describe('@headlessly/events — retention', () => {
+  it('drops events beyond maxEventsPerEntity once a snapshot covers them', async () => {
+    const log = new EventLog({ snapshotEvery: 10, retention: { maxEventsPerEntity: 5 } })
+    const traveler = new TimeTraveler(log)
+    await seed(log, 24)
+
+    // When snapshot 20 was taken only 1–15 were beyond the limit, so snapshot 10 became the horizon
+    expect((await log.getEntityHistory('Contact', 'c1'))[0].sequence).toBe(11)
+    expect(await log.applyRetention()).toEqual({ removed: 10 })
+    expect((await log.getEntityHistory('Contact', 'c1')).map((e) => e.sequence)).toEqual([21, 22, 23, 24, 25])
+    expect(await traveler.asOf('Contact', 'c1', {})).toMatchObject({ name: 'Alice', score: 24, $version: 25 })
+    expect(await traveler.asOf('Contact', 'c1', { atVersion: 22 })).toMatchObject({ score: 21 })
+    expect(await traveler.asOf('Contact', 'c1', { atVersion: 20 })).toMatchObject({ score: 19 })
+    expect(await traveler.asOf('Contact', 'c1', { atVersion: 15 })).toBeNull()
+    expect((await traveler.timeline('Contact', 'c1'))[0].state).toMatchObject({ name: 'Alice', score: 20 })
+
+    const next = await log.append(eventInput('Contact', 'c1', 'update', { score: 25 }))
+    expect(next.sequence).toBe(26)
+  })
+
+  it('drops events older than maxAge on applyRetention', async () => {
+    const log = new EventLog({ snapshotEvery: 10, retention: { maxAge: 60_000 } })
+    await seed(log, 14)
+    expect(log.size).toBe(15)
+
+    expect(await log.applyRetention()).toEqual({ removed: 0 })
+    expect(await log.applyRetention(new Date(Date.now() + 120_000))).toEqual({ removed: 10 })
+    expect(log.size).toBe(5)
+    expect(await new TimeTraveler(log).asOf('Contact', 'c1', {})).toMatchObject({ score: 14, $version: 15 })
+  })
+
+  it('keeps everything without a retention policy', async () => {
+    const log = new EventLog({ snapshotEvery: 10 })
+    await seed(log, 29)
+    expect(await log.applyRetention(new Date(Date.now() + 1e12))).toEqual({ removed: 0 })
+    expect(log.size).toBe(30)
+  })
+})
+
+describe('@headlessly/events — EventLogStorage', () => {
+  it('writes through to the storage and reloads from it', async () => {
+    const storage = new MemoryEventLogStorage()
+    await seed(new EventLog({ storage, snapshotEvery: 10 }), 11)
+
+    const reloaded = new EventLog({ storage, snapshotEvery: 10 })
+    expect(reloaded.size).toBe(12)
+    expect((await reloaded.snapshotAt('Contact', 'c1'))?.sequence).toBe(10)
+    expect((await reloaded.append(eventInput('Contact', 'c1', 'update', { score: 12 }))).sequence).toBe(13)
+  })
+
+  it('persists events, snapshots and retention through SqlStorage', async () => {
+    const sql = createSqlStorage()
+    const log = new EventLog({ storage: new SqlEventLogStorage(sql, { tableName: 'events' }), snapshotEvery: 10, retention: { maxEventsPerEntity: 5 } })
+    await seed(log, 24)
+    await seed(log, 2, 'c2')
+    await log.applyRetention()
+
+    const reloaded = new EventLog({ storage: new SqlEventLogStorage(sql, { tableName: 'events' }), snapshotEvery: 10 })
+    expect(reloaded.size).toBe(8)
+    expect((await reloaded.getEntityHistory('Contact', 'c1')).map((e) => e.sequence)).toEqual([21, 22, 23, 24, 25])
+    expect(await new TimeTraveler(reloaded).asOf('Contact', 'c1', {})).toMatchObject({ name: 'Alice', score: 24 })
+    expect(sql.exec('SELECT sequence FROM events_snapshots').toArray()).toEqual([{ sequence: 20 }])
+
+    // Sequences continue after the reload
+    expect((await reloaded.append(eventInput('Contact', 'c1', 'update', { score: 25 }))).sequence).toBe(26)
+  })
+
+  it('clears storage with the log', async () => {
+    const sql = createSqlStorage()
+    const log = new EventLog({ storage: new SqlEventLogStorage(sql), snapshotEvery: 5 })
+    await seed(log, 9)
+    await log.clear()
+
+    const reloaded = new EventLog({ storage: new SqlEventLogStorage(sql) })
+    expect(reloaded.size).toBe(0)
+    expect(await reloaded.snapshotAt('Contact', 'c1')).toBeNull()
+  })
+})
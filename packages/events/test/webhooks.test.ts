@@ -0,0 +1,281 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { createServer } from 'node:http'
+import type { Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import Database from 'better-sqlite3'
+import { EventLog } from '../src/event-log'
+import { SqlSubscriptionStore, SubscriptionManager } from '../src/subscriptions'
+import { SqlDeliveryStore, backoffDelay, signWebhook, verifyWebhook } from '../src/webhooks'
+import type { SqlStorage } from '../src/sqlite-adapter'
+import type { NounEvent } from '../src/types'
+
+/** A received webhook request */
+interface Received {
+  headers: Record<string, string | string[] | undefined>
+  body: NounEvent
+}
+
+/**
+ * Local HTTP stand-in for a webhook receiver: answers with the queued
+ * statuses in order, then 200 (or hangs when the status is 0)
+ */
+function createReceiver() {
+  const received: Received[] = []
+  const statuses: number[] = []
+  const server: Server = createServer((req, res) => {
+    let body = ''
+    req.on('data', (chunk) => (body += chunk))
+    req.on('end', () => {
+      received.push({ headers: req.headers, body: JSON.parse(body) })
+      const status = statuses.shift() ?? 200
+      if (status === 0) return
+      res.writeHead(status).end()
+    })
+  })
+  return {
+    received,
+    statuses,
+    start: () =>
+      new Promise<string>((resolve) => {
+        server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`))
+      }),
+    stop: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections()
+        server.close(() => resolve())
+      }),
+  }
+}
+
+function eventInput(entityType: string, entityId: string, verb: string) {
+  const eventForm = verb.endsWith('e') ? `${verb}d` : `${verb}ed`
+  return {
+    $type: `${entityType}.${eventForm}`,
+    entityType,
+    entityId,
+    verb,
+    conjugation: { action: verb, activity: `${verb}ing`, event: eventForm },
+  }
+}
+
+/** better-sqlite3 stand-in for Durable Object SqlStorage */
+function createSqlStorage(): SqlStorage {
+  const db = new Database(':memory:')
+  return {
+    exec(query: string, ...bindings: unknown[]) {
+      const stmt = db.prepare(query)
+      const rows = stmt.reader ? (stmt.all(...bindings) as Record<string, unknown>[]) : (stmt.run(...bindings), [])
+      return { toArray: () => rows }
+    },
+  }
+}
+
+/** A time far enough ahead that every retry is due */
+const later = () => new Date(Date.now() + 24 * 60 * 60 * 1000)
+
+describe('@headlessly/events — webhook delivery', () => {
+  let receiver: ReturnType<typeof createReceiver>
+  let endpoint: string
+  let log: EventLog
+  let manager: SubscriptionManager
+
+  beforeEach(async () => {
+    receiver = createReceiver()
+    endpoint = await receiver.start()
+    log = new EventLog()
+    manager = new SubscriptionManager({ webhooks: { retry: { initialDelay: 10, timeout: 500 } } })
+  })
+
+  afterEach(async () => {
+    manager.webhooks.stop()
+    await receiver.stop()
+  })
+
+  it('delivers signed events and logs the attempt', async () => {
+    const id = manager.registerWebhook('Contact.*', endpoint, 'whsec_test')
+    const event = await log.append(eventInput('Contact', 'c1', 'create'))
+
+    expect(await manager.dispatch(event)).toEqual({ delivered: 1, failed: 0 })
+    expect(receiver.received[0].body.$id).toBe(event.$id)
+    const signature = receiver.received[0].headers['x-headlessly-signature'] as string
+    expect(signature).toMatch(/^t=\d+,sha256=[0-9a-f]{64}$/)
+    expect(await verifyWebhook(JSON.stringify(receiver.received[0].body), signature, 'whsec_test')).toBe(true)
+    expect(receiver.received[0].headers['x-headlessly-attempt']).toBe('1')
+
+    const [delivery] = manager.webhooks.list({ subscriptionId: id })
+    expect(delivery.status).toBe('delivered')
+    expect(manager.webhooks.attempts(delivery.id)).toMatchObject([{ attempt: 1, status: 200 }])
+  })
+
+  it('retries failed deliveries with backoff until they succeed', async () => {
+    manager.registerWebhook('Contact.*', endpoint)
+    receiver.statuses.push(500, 503)
+    const event = await log.append(eventInput('Contact', 'c1', 'create'))
+
+    expect(await manager.dispatch(event)).toEqual({ delivered: 0, failed: 1 })
+    const [pending] = manager.webhooks.list({ status: 'pending' })
+    expect(pending.attempts).toMatchObject([{ attempt: 1, status: 500, error: 'HTTP 500' }])
+
+    // Not due yet
+    expect(await manager.webhooks.process(new Date(Date.now() - 1000))).toEqual({ delivered: 0, failed: 0, dead: 0 })
+    expect(await manager.webhooks.process(later())).toEqual({ delivered: 0, failed: 1, dead: 0 })
+    expect(await manager.webhooks.process(later())).toEqual({ delivered: 1, failed: 0, dead: 0 })
+
+    const delivery = manager.webhooks.get(pending.id)!
+    expect(delivery.status).toBe('delivered')
+    expect(delivery.attempts.map((a) => a.status)).toEqual([500, 503, 200])
+    expect(receiver.received.map((r) => r.headers['x-headlessly-attempt'])).toEqual(['1', '2', '3'])
+  })
+
+  it('backs off exponentially up to the maximum delay', () => {
+    const policy = { initialDelay: 1000, multiplier: 2, maxDelay: 5000 }
+    expect([1, 2, 3, 4].map((attempt) => backoffDelay(attempt, policy))).toEqual([1000, 2000, 4000, 5000])
+  })
+
+  it('dead-letters deliveries after the subscription retry policy runs out, and redelivers them', async () => {
+    const id = manager.registerWebhook('Contact.*', endpoint, undefined, { retry: { maxAttempts: 2, initialDelay: 10 } })
+    receiver.statuses.push(500, 500)
+    await manager.dispatch(await log.append(eventInput('Contact', 'c1', 'create')))
+    expect(await manager.webhooks.process(later())).toEqual({ delivered: 0, failed: 0, dead: 1 })
+
+    const [dead] = manager.webhooks.list({ status: 'dead', subscriptionId: id })
+    expect(dead.attempts).toHaveLength(2)
+    expect(await manager.webhooks.process(later())).toEqual({ delivered: 0, failed: 0, dead: 0 })
+
+    const [redelivered] = await manager.webhooks.redeliverDead(id)
+    expect(redelivered.status).toBe('delivered')
+    expect(redelivered.attempts.map((a) => a.status)).toEqual([500, 500, 200])
+  })
+
+  it('times out slow endpoints', async () => {
+    manager.registerWebhook('Contact.*', endpoint, undefined, { retry: { timeout: 50 } })
+    receiver.statuses.push(0)
+    await manager.dispatch(await log.append(eventInput('Contact', 'c1', 'create')))
+
+    const [delivery] = manager.webhooks.list({ status: 'pending' })
+    expect(delivery.attempts[0].error).toBe('Timed out after 50ms')
+  })
+
+  it('records network errors', async () => {
+    manager.registerWebhook('Contact.*', 'http://127.0.0.1:1/unreachable')
+    expect(await manager.dispatch(await log.append(eventInput('Contact', 'c1', 'create')))).toEqual({ delivered: 0, failed: 1 })
+    expect(manager.webhooks.list()[0].attempts[0].error).toBeDefined()
+  })
+
+  it('deactivates a subscription after consecutive failures and resumes when activated', async () => {
+    manager = new SubscriptionManager({ webhooks: { deactivateAfter: 3, retry: { initialDelay: 10 } } })
+    const id = manager.registerWebhook('Contact.*', endpoint)
+    receiver.statuses.push(500, 500, 500)
+
+    await manager.dispatch(await log.append(eventInput('Contact', 'c1', 'create')))
+    await manager.dispatch(await log.append(eventInput('Contact', 'c2', 'create')))
+    await manager.webhooks.process(later())
+    expect(manager.get(id)!.active).toBe(false)
+    expect(manager.get(id)!.consecutiveFailures).toBe(3)
+
+    // Pending deliveries wait while the subscription is inactive
+    expect(await manager.webhooks.process(later())).toEqual({ delivered: 0, failed: 0, dead: 0 })
+    manager.activate(id)
+    expect(await manager.webhooks.process(later())).toEqual({ delivered: 2, failed: 0, dead: 0 })
+    expect(manager.get(id)!.consecutiveFailures).toBe(0)
+  })
+
+  it('dead-letters pending deliveries when the subscription is removed', async () => {
+    const id = manager.registerWebhook('Contact.*', endpoint)
+    receiver.statuses.push(500)
+    await manager.dispatch(await log.append(eventInput('Contact', 'c1', 'create')))
+    manager.unsubscribe(id)
+
+    const [dead] = manager.webhooks.list({ status: 'dead' })
+    expect(dead.attempts[1].error).toBe('Subscription removed')
+  })
+
+  it('replays past events to one subscription', async () => {
+    manager.attach(log)
+    await log.append(eventInput('Contact', 'c1', 'create'))
+    await log.append(eventInput('Deal', 'd1', 'create'))
+    await log.append(eventInput('Contact', 'c2', 'create'))
+    await new Promise((resolve) => setTimeout(resolve, 0))
+
+    const id = manager.registerWebhook('Contact.*', endpoint)
+    expect(await manager.replay(id)).toEqual({ delivered: 2, failed: 0 })
+    expect(receiver.received.map((r) => r.body.entityId)).toEqual(['c1', 'c2'])
+    await expect(manager.replay('sub_missing')).rejects.toThrow('Subscription not found')
+  })
+
+  it('does not send a delivery again while its first attempt is in flight', async () => {
+    manager.registerWebhook('Contact.*', endpoint)
+    const dispatched = manager.dispatch(await log.append(eventInput('Contact', 'c1', 'create')))
+
+    expect(await manager.webhooks.process()).toEqual({ delivered: 0, failed: 0, dead: 0 })
+    expect(await dispatched).toEqual({ delivered: 1, failed: 0 })
+    expect(receiver.received).toHaveLength(1)
+  })
+
+  it('keeps the outbox and subscriptions in SqlStorage across restarts', async () => {
+    const sql = createSqlStorage()
+    manager = new SubscriptionManager({ store: new SqlSubscriptionStore(sql), webhooks: { store: new SqlDeliveryStore(sql), retry: { initialDelay: 10 } } })
+    const id = manager.registerWebhook('Contact.*', endpoint, 'whsec_test')
+    manager.registerCode('Contact.*', () => {})
+    receiver.statuses.push(500)
+    await manager.dispatch(await log.append(eventInput('Contact', 'c1', 'create')))
+
+    const restarted = new SubscriptionManager({ store: new SqlSubscriptionStore(sql), webhooks: { store: new SqlDeliveryStore(sql) } })
+    expect(restarted.list()).toMatchObject([{ id, endpoint, secret: 'whsec_test', consecutiveFailures: 1 }])
+    const [pending] = restarted.webhooks.list({ status: 'pending', subscriptionId: id })
+    expect(pending.attempts).toMatchObject([{ status: 500 }])
+
+    // The pending delivery resumes, signed with the persisted secret
+    expect(await restarted.webhooks.process(later())).toEqual({ delivered: 1, failed: 0, dead: 0 })
+    expect(receiver.received[1].headers['x-headlessly-attempt']).toBe('2')
+    expect(await verifyWebhook(JSON.stringify(receiver.received[1].body), receiver.received[1].headers['x-headlessly-signature'] as string, 'whsec_test')).toBe(true)
+    expect(restarted.get(id)!.consecutiveFailures).toBe(0)
+
+    restarted.unsubscribe(id)
+    expect(new SubscriptionManager({ store: new SqlSubscriptionStore(sql) }).count).toBe(0)
+  })
+
+  it('dead-letters deliveries whose subscription is unknown', async () => {
+    const sql = createSqlStorage()
+    manager = new SubscriptionManager({ webhooks: { store: new SqlDeliveryStore(sql), retry: { initialDelay: 10 } } })
+    const id = manager.registerWebhook('Contact.*', endpoint)
+    receiver.statuses.push(500)
+    await manager.dispatch(await log.append(eventInput('Contact', 'c1', 'create')))
+
+    // Without a subscription store the restarted manager no longer knows the subscription
+    const restarted = new SubscriptionManager({ webhooks: { store: new SqlDeliveryStore(sql) } })
+    const [pending] = restarted.webhooks.list({ status: 'pending', subscriptionId: id })
+    expect(await restarted.webhooks.process(later())).toEqual({ delivered: 0, failed: 0, dead: 1 })
+    expect(restarted.webhooks.get(pending.id)!.attempts[1].error).toBe('Subscription not found')
+  })
+})
+
+describe('@headlessly/events — webhook signatures', () => {
+  const payload = JSON.stringify({ $id: 'evt_1', $type: 'Contact.created' })
+  const signedAt = new Date('2025-06-01T12:00:00Z')
+
+  it('verifies a signature made with the same secret and payload', async () => {
+    const signature = await signWebhook(payload, 'whsec_test', signedAt)
+    expect(signature).toMatch(/^t=1748779200,sha256=[0-9a-f]{64}$/)
+    expect(await verifyWebhook(payload, signature, 'whsec_test', { now: signedAt })).toBe(true)
+    expect(await verifyWebhook(payload, signature, 'whsec_other', { now: signedAt })).toBe(false)
+    expect(await verifyWebhook(payload.replace('evt_1', 'evt_2'), signature, 'whsec_test', { now: signedAt })).toBe(false)
+  })
+
+  it('rejects signatures outside the tolerance, and re-stamped replays', async () => {
+    const signature = await signWebhook(payload, 'whsec_test', signedAt)
+    const tenMinutesLater = new Date(signedAt.getTime() + 10 * 60 * 1000)
+    expect(await verifyWebhook(payload, signature, 'whsec_test', { now: tenMinutesLater })).toBe(false)
+    expect(await verifyWebhook(payload, signature, 'whsec_test', { now: tenMinutesLater, tolerance: 15 * 60 * 1000 })).toBe(true)
+
+    const restamped = signature.replace(/^t=\d+/, `t=${Math.floor(tenMinutesLater.getTime() / 1000)}`)
+    expect(await verifyWebhook(payload, restamped, 'whsec_test', { now: tenMinutesLater })).toBe(false)
+  })
+
+  it('rejects missing or malformed signatures', async () => {
+    const [, hex] = (await signWebhook(payload, 'whsec_test', signedAt)).split(',')
+    expect(await verifyWebhook(payload, undefined, 'whsec_test')).toBe(false)
+    expect(await verifyWebhook(payload, hex, 'whsec_test', { now: signedAt })).toBe(false)
+    expect(await verifyWebhook(payload, 't=abc,' + hex, 'whsec_test', { now: signedAt })).toBe(false)
+  })
+})
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { EventLog } from '../src/event-log'
+import { SubscriptionManager } from '../src/subscriptions'
+import { BACKPRESSURE_CLOSE_CODE } from '../src/websocket'
+import type { RealtimeMessage, WebSocketLike } from '../src/websocket'
+
+function eventInput(entityType: string, entityId: string, verb: string, after?: Record<string, unknown>) {
+  const eventForm = verb.endsWith('e') ? `${verb}d` : `${verb}ed`
+  return {
+    $type: `${entityType}.${eventForm}`,
+    entityType,
+    entityId,
+    verb,
+    conjugation: { action: verb, activity: `${verb}ing`, event: eventForm },
+    after,
+  }
+}
+
+/** Server side of a connection, recording what is sent */
+function createSocket() {
+  const sent: unknown[] = []
+  const socket = {
+    bufferedAmount: 0,
+    closed: undefined as { code?: number; reason?: string } | undefined,
+    send(data: string) {
+      sent.push(JSON.parse(data))
+    },
+    close(code?: number, reason?: string) {
+      socket.closed = { code, reason }
+    },
+  }
+  const messages = () => sent.filter((m): m is RealtimeMessage => typeof m === 'object' && m !== null && 'cursor' in m)
+  return { socket: socket as WebSocketLike & typeof socket, sent, messages }
+}
+
+const tick = (ms = 0) => new Promise((resolve) => setTimeout(resolve, ms))
+
+describe('@headlessly/events — WebSocket fan-out', () => {
+  let log: EventLog
+  let manager: SubscriptionManager
+
+  beforeEach(() => {
+    log = new EventLog()
+    manager = new SubscriptionManager({ websockets: { drainInterval: 5 } })
+    manager.attach(log)
+  })
+
+  it('pushes events of subscribed entity types only', async () => {
+    const { socket, messages } = createSocket()
+    const id = manager.websockets.connect(socket)
+    await manager.websockets.receive(id, JSON.stringify({ action: 'subscribe', entity: 'Contact' }))
+
+    const event = await log.append(eventInput('Contact', 'contact_1', 'create', { name: 'Alice' }))
+    await log.append(eventInput('Deal', 'deal_1', 'create'))
+    await tick()
+
+    expect(messages()).toEqual([{ type: 'create', entity: 'Contact', id: 'contact_1', data: { name: 'Alice' }, ts: event.timestamp, cursor: event.$id }])
+    expect(manager.get(id)).toMatchObject({ mode: 'websocket', pattern: 'Contact.*' })
+
+    await manager.websockets.receive(id, JSON.stringify({ action: 'unsubscribe', entity: 'Contact' }))
+    await log.append(eventInput('Contact', 'contact_2', 'create'))
+    await tick()
+    expect(messages()).toHaveLength(1)
+  })
+
+  it('answers pings and removes the subscription on disconnect', async () => {
+    const { socket, sent } = createSocket()
+    const id = manager.websockets.connect(socket)
+    await manager.websockets.receive(id, JSON.stringify({ type: 'ping' }))
+    await manager.websockets.receive(id, 'not json')
+    expect(sent).toEqual([{ type: 'pong' }])
+
+    manager.websockets.disconnect(id)
+    expect(manager.get(id)).toBeUndefined()
+    expect(manager.websockets.size).toBe(0)
+  })
+
+  it('resumes a consumer after its last acknowledged event', async () => {
+    const first = createSocket()
+    const id = manager.websockets.connect(first.socket, { consumer: 'dashboard' })
+    await manager.websockets.receive(id, JSON.stringify({ action: 'subscribe', entity: 'Contact' }))
+    const acked = await log.append(eventInput('Contact', 'contact_1', 'create'))
+    await tick()
+    await manager.websockets.receive(id, JSON.stringify({ action: 'ack', cursor: acked.$id }))
+    manager.websockets.disconnect(id)
+
+    // Missed while disconnected
+    await log.append(eventInput('Contact', 'contact_2', 'create'))
+    await log.append(eventInput('Deal', 'deal_1', 'create'))
+    await log.append(eventInput('Contact', 'contact_3', 'create'))
+
+    const second = createSocket()
+    const resumedId = manager.websockets.connect(second.socket, { consumer: 'dashboard' })
+    await manager.websockets.receive(resumedId, JSON.stringify({ action: 'subscribe', entity: 'Contact' }))
+    expect(second.messages().map((m) => m.id)).toEqual(['contact_2', 'contact_3'])
+    expect(await manager.websockets.cursor('dashboard')).toBe(acked.$id)
+  })
+
+  it('resumes after an explicit cursor without duplicating live events', async () => {
+    const first = await log.append(eventInput('Contact', 'contact_1', 'create'))
+    for (let i = 2; i <= 4; i++) await log.append(eventInput('Contact', `contact_${i}`, 'create'))
+
+    const { socket, messages } = createSocket()
+    const id = manager.websockets.connect(socket)
+    const subscribing = manager.websockets.receive(id, JSON.stringify({ action: 'subscribe', entity: 'Contact', after: first.$id }))
+    await log.append(eventInput('Contact', 'contact_5', 'create'))
+    await subscribing
+    await tick()
+
+    expect(messages().map((m) => m.id)).toEqual(['contact_2', 'contact_3', 'contact_4', 'contact_5'])
+  })
+
+  it('holds events back while the socket is saturated and sends them once it drains', async () => {
+    const { socket, messages } = createSocket()
+    const id = manager.websockets.connect(socket)
+    await manager.websockets.receive(id, JSON.stringify({ action: 'subscribe', entity: '*' }))
+
+    socket.bufferedAmount = 2 * 1024 * 1024
+    await log.append(eventInput('Contact', 'contact_1', 'create'))
+    await log.append(eventInput('Contact', 'contact_2', 'create'))
+    await tick(20)
+    expect(messages()).toHaveLength(0)
+
+    socket.bufferedAmount = 0
+    await log.append(eventInput('Contact', 'contact_3', 'create'))
+    await tick(20)
+    expect(messages().map((m) => m.id)).toEqual(['contact_1', 'contact_2', 'contact_3'])
+  })
+
+  it('closes connections that fall too far behind', async () => {
+    manager = new SubscriptionManager({ websockets: { maxQueued: 2 } })
+    manager.attach(log)
+    const { socket } = createSocket()
+    const id = manager.websockets.connect(socket)
+    await manager.websockets.receive(id, JSON.stringify({ action: 'subscribe', entity: 'Contact' }))
+
+    socket.bufferedAmount = 2 * 1024 * 1024
+    for (let i = 0; i < 3; i++) await log.append(eventInput('Contact', `contact_${i}`, 'create'))
+    await tick()
+
+    expect(socket.closed).toEqual({ code: BACKPRESSURE_CLOSE_CODE, reason: 'Backpressure limit exceeded' })
+    expect(manager.get(id)).toBeUndefined()
+  })
+
+  it('still treats websocket subscriptions without a connection as delivered', async () => {
+    manager.registerWebSocket('Contact.*', 'wss://example.com/events')
+    const event = await log.append(eventInput('Contact', 'contact_1', 'create'))
+    expect(await manager.dispatch(event)).toEqual({ delivered: 1, failed: 0 })
+  })
+})
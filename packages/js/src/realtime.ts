@@ -2,7 +2,9 @@
  * @headlessly/js - Real-time Subscriptions
  *
  * WebSocket-based live entity update subscriptions
- * with auto-reconnect and exponential backoff.
+ * with auto-reconnect and exponential backoff. Received events are
+ * acknowledged, and a reconnect resumes after the last acknowledged one
+ * (served by WebSocketFanout in @headlessly/events).
  */
 
 // =============================================================================
@@ -15,6 +17,8 @@ export interface SubscriptionMessage {
   id: string
   data: Record<string, unknown>
   ts: string
+  /** Event ID, acknowledged once handlers have run */
+  cursor?: string
 }
 
 export type SubscriptionHandler = (message: SubscriptionMessage) => void
@@ -32,6 +36,10 @@ export interface RealtimeConfig {
   maxReconnectDelay?: number
   /** Heartbeat interval in ms (default: 30000) */
   heartbeatInterval?: number
+  /** Name the server keeps this client's acknowledged cursor under, so a new session resumes too */
+  consumer?: string
+  /** Resume after the last acknowledged event on reconnect (default: true) */
+  resume?: boolean
 }
 
 export type RealtimeState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting'
@@ -51,6 +59,7 @@ export class RealtimeManager {
   private _state: RealtimeState = 'disconnected'
   private stateListeners = new Set<(state: RealtimeState) => void>()
   private pendingSubscriptions: string[] = []
+  private lastCursor?: string
 
   constructor(config: RealtimeConfig = {}) {
     this.config = {
@@ -58,6 +67,7 @@ export class RealtimeManager {
       reconnectDelay: 1000,
       maxReconnectDelay: 30000,
       heartbeatInterval: 30000,
+      resume: true,
       ...config,
     }
   }
@@ -93,7 +103,10 @@ export class RealtimeManager {
     if (this.ws && (this.ws.readyState === WebSocket.OPEN || this.ws.readyState === WebSocket.CONNECTING)) return
 
     const endpoint = this.config.endpoint ?? 'wss://db.headless.ly/ws'
-    const url = this.config.apiKey ? `${endpoint}?token=${encodeURIComponent(this.config.apiKey)}` : endpoint
+    const params: string[] = []
+    if (this.config.apiKey) params.push(`token=${encodeURIComponent(this.config.apiKey)}`)
+    if (this.config.consumer) params.push(`consumer=${encodeURIComponent(this.config.consumer)}`)
+    const url = params.length > 0 ? `${endpoint}${endpoint.includes('?') ? '&' : '?'}${params.join('&')}` : endpoint
 
     this.setState('connecting')
 
@@ -105,14 +118,11 @@ export class RealtimeManager {
         this.reconnectAttempts = 0
         this.startHeartbeat()
 
-        // Re-subscribe to all active subscriptions
-        for (const entityType of this.subscriptions.keys()) {
-          this.sendSubscribe(entityType)
-        }
-
-        // Send pending subscriptions
-        for (const entityType of this.pendingSubscriptions) {
-          this.sendSubscribe(entityType)
+        // Re-subscribe to all active and pending subscriptions, once each,
+        // resuming after the last acknowledged event
+        const entityTypes = new Set([...this.subscriptions.keys(), ...this.pendingSubscriptions])
+        for (const entityType of entityTypes) {
+          this.sendSubscribe(entityType, this.config.resume ? this.lastCursor : undefined)
         }
         this.pendingSubscriptions = []
       }
@@ -196,9 +206,15 @@ export class RealtimeManager {
     }
   }
 
-  private sendSubscribe(entityType: string): void {
+  private sendSubscribe(entityType: string, after?: string): void {
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(after ? { action: 'subscribe', entity: entityType, after } : { action: 'subscribe', entity: entityType }))
+    }
+  }
+
+  private sendAck(cursor: string): void {
     if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify({ action: 'subscribe', entity: entityType }))
+      this.ws.send(JSON.stringify({ action: 'ack', cursor }))
     }
   }
 
@@ -225,6 +241,11 @@ export class RealtimeManager {
         handler(message)
       } catch {}
     }
+
+    if (message.cursor) {
+      this.lastCursor = message.cursor
+      this.sendAck(message.cursor)
+    }
   }
 
   // ===========================================================================
@@ -288,6 +309,11 @@ export class RealtimeManager {
     this.pendingSubscriptions = []
   }
 
+  /** ID of the last event received and acknowledged */
+  get cursor(): string | undefined {
+    return this.lastCursor
+  }
+
   get subscribedEntities(): string[] {
     return [...this.subscriptions.keys()]
   }
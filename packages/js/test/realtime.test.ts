@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { EventLog, SubscriptionManager } from '@headlessly/events'
+import { RealtimeManager } from '../src/realtime.js'
+import type { SubscriptionMessage } from '../src/realtime.js'
+
+// ---------------------------------------------------------------------------
+// Local realtime server: an EventLog and SubscriptionManager behind an
+// in-process WebSocket that delivers frames asynchronously, like a network
+// ---------------------------------------------------------------------------
+
+function createLocalServer() {
+  const log = new EventLog()
+  const manager = new SubscriptionManager()
+  manager.attach(log)
+  const urls: string[] = []
+  const open = new Set<LocalWebSocket>()
+
+  class LocalWebSocket {
+    static CONNECTING = 0
+    static OPEN = 1
+    static CLOSED = 3
+    readyState = LocalWebSocket.CONNECTING
+    onopen: (() => void) | null = null
+    onmessage: ((event: { data: string }) => void) | null = null
+    onclose: (() => void) | null = null
+    onerror: (() => void) | null = null
+    private connectionId = ''
+
+    constructor(url: string) {
+      urls.push(url)
+      const consumer = new URL(url).searchParams.get('consumer')
+      setTimeout(() => {
+        this.connectionId = manager.websockets.connect(
+          {
+            send: (data: string) => setTimeout(() => this.onmessage?.({ data }), 0),
+            close: () => this.drop(),
+          },
+          { consumer },
+        )
+        this.readyState = LocalWebSocket.OPEN
+        open.add(this)
+        this.onopen?.()
+      }, 0)
+    }
+
+    send(data: string): void {
+      void manager.websockets.receive(this.connectionId, data)
+    }
+
+    close(): void {
+      this.drop()
+    }
+
+    /** Connection lost: the server forgets it and the client sees a close */
+    drop(): void {
+      if (this.readyState === LocalWebSocket.CLOSED) return
+      this.readyState = LocalWebSocket.CLOSED
+      open.delete(this)
+      manager.websockets.disconnect(this.connectionId)
+      setTimeout(() => this.onclose?.(), 0)
+    }
+  }
+
+  return { log, manager, urls, open, LocalWebSocket }
+}
+
+function eventInput(entityType: string, entityId: string, verb: string, after?: Record<string, unknown>) {
+  return {
+    $type: `${entityType}.${verb}d`,
+    entityType,
+    entityId,
+    verb,
+    conjugation: { action: verb, activity: `${verb}ing`, event: `${verb}d` },
+    after,
+  }
+}
+
+const settle = (ms = 20) => new Promise((resolve) => setTimeout(resolve, ms))
+
+describe('@headlessly/js — realtime against a local server', () => {
+  let server: ReturnType<typeof createLocalServer>
+  let rt: RealtimeManager
+
+  beforeEach(() => {
+    server = createLocalServer()
+    vi.stubGlobal('WebSocket', server.LocalWebSocket)
+    rt = new RealtimeManager({ endpoint: 'ws://localhost:8787/ws', consumer: 'dashboard', reconnectDelay: 1 })
+  })
+
+  afterEach(() => {
+    rt.shutdown()
+    vi.unstubAllGlobals()
+  })
+
+  it('receives pushed events for subscribed entity types and acknowledges them', async () => {
+    const received: SubscriptionMessage[] = []
+    rt.subscribe('Contact', (message) => received.push(message))
+    await settle()
+
+    const event = await server.log.append(eventInput('Contact', 'contact_1', 'create', { name: 'Alice' }))
+    await server.log.append(eventInput('Deal', 'deal_1', 'create'))
+    await settle()
+
+    expect(server.urls).toEqual(['ws://localhost:8787/ws?consumer=dashboard'])
+    expect(received).toEqual([{ type: 'create', entity: 'Contact', id: 'contact_1', data: { name: 'Alice' }, ts: event.timestamp, cursor: event.$id }])
+    expect(rt.cursor).toBe(event.$id)
+    expect(await server.manager.websockets.cursor('dashboard')).toBe(event.$id)
+  })
+
+  it('reconnects and resumes after the last acknowledged event', async () => {
+    const received: string[] = []
+    rt.subscribe('Contact', (message) => received.push(message.id))
+    await settle()
+    await server.log.append(eventInput('Contact', 'contact_1', 'create'))
+    await settle()
+
+    // Drop the connection and miss two events
+    for (const socket of server.open) socket.drop()
+    await server.log.append(eventInput('Contact', 'contact_2', 'create'))
+    await server.log.append(eventInput('Contact', 'contact_3', 'create'))
+    await settle(50)
+
+    expect(rt.state).toBe('connected')
+    await server.log.append(eventInput('Contact', 'contact_4', 'create'))
+    await settle()
+    expect(received).toEqual(['contact_1', 'contact_2', 'contact_3', 'contact_4'])
+  })
+})
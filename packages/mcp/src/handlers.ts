@@ -1,12 +1,16 @@
 import type { SearchArgs, FetchArgs, DoArgs, MCPToolResult, MCPContext } from './types.js'
 import type { NounProvider, NounInstance } from 'digital-objects'
 import { getNounSchema, getAllNouns } from 'digital-objects'
+import { compareBy, findMatching, isBasicFilter, project, EntityValidationError, InvalidTransitionError, ConflictError, getStateMachine, availableVerbs, isRestorable, isAuditable, upsert, actingAs } from '@headlessly/objects'
+import type { FindOptions, FindPage, WriteOptions } from '@headlessly/objects'
 
 export interface MCPHandlerOptions {
   provider: NounProvider
   context?: MCPContext
   /** Optional code evaluator for 'do' with code */
   evaluate?: (code: string, context: Record<string, unknown>) => Promise<unknown>
+  /** The user, agent or API key making the current call; its writes and events are attributed to it */
+  actor?: () => string | undefined
 }
 
 /**
@@ -67,6 +71,28 @@ function getIndexedFields(typeName: string): Set<string> {
   return indexed
 }
 
+/** Provider that can sort and paginate natively (e.g. LocalNounProvider, DONounProvider) */
+interface PageableProvider extends NounProvider {
+  findPage?(type: string, where: Record<string, unknown>, options: FindOptions): Promise<FindPage>
+}
+
+/** Provider whose writes accept `ifVersion` preconditions (e.g. LocalNounProvider, DONounProvider) */
+interface VersionedProvider extends NounProvider {
+  update(type: string, id: string, data: Record<string, unknown>, options?: WriteOptions): Promise<NounInstance>
+  delete(type: string, id: string, options?: WriteOptions): Promise<boolean>
+  perform(type: string, verb: string, id: string, data?: Record<string, unknown>, options?: WriteOptions): Promise<NounInstance>
+}
+
+/**
+ * Tool result for data that failed schema validation, with field-level errors
+ */
+function validationErrorResult(err: EntityValidationError): MCPToolResult {
+  return {
+    content: [{ type: 'text', text: JSON.stringify({ error: { message: err.message, errors: err.errors } }, null, 2) }],
+    isError: true,
+  }
+}
+
 /** Event log entry */
 interface EventEntry {
   type: string
@@ -79,7 +105,8 @@ interface EventEntry {
 }
 
 export function createHandlers(options: MCPHandlerOptions) {
-  const { provider: rawProvider, context, evaluate } = options
+  const { context, evaluate } = options
+  const rawProvider = options.provider as VersionedProvider
 
   // Event log for time-travel support — shared between tracked provider and handlers
   const eventLog: EventEntry[] = []
@@ -88,14 +115,15 @@ export function createHandlers(options: MCPHandlerOptions) {
   let eventSeq = 0
 
   // Intercept the raw provider's mutation methods to record events
-  // This captures events even when the provider is called directly (not through handlers)
-  const origCreate = rawProvider.create.bind(rawProvider)
-  const origUpdate = rawProvider.update.bind(rawProvider)
-  const origDelete = rawProvider.delete.bind(rawProvider)
-  const origPerform = rawProvider.perform.bind(rawProvider)
-
-  rawProvider.create = async (type: string, data: Record<string, unknown>): Promise<NounInstance> => {
-    const result = await origCreate(type, data)
+  // This captures events even when the provider is called directly (not through handlers).
+  // The originals are called on `this`, so actor views inheriting these methods keep their actor.
+  const origCreate = rawProvider.create
+  const origUpdate = rawProvider.update
+  const origDelete = rawProvider.delete
+  const origPerform = rawProvider.perform
+
+  rawProvider.create = async function (this: VersionedProvider, type: string, data: Record<string, unknown>): Promise<NounInstance> {
+    const result = await origCreate.call(this, type, data)
     eventLog.push({
       type,
       id: result.$id,
@@ -108,8 +136,8 @@ export function createHandlers(options: MCPHandlerOptions) {
     return result
   }
 
-  rawProvider.update = async (type: string, id: string, data: Record<string, unknown>): Promise<NounInstance> => {
-    const result = await origUpdate(type, id, data)
+  rawProvider.update = async function (this: VersionedProvider, type: string, id: string, data: Record<string, unknown>, writeOptions?: WriteOptions): Promise<NounInstance> {
+    const result = await origUpdate.call(this, type, id, data, writeOptions)
     eventLog.push({
       type,
       id,
@@ -122,8 +150,8 @@ export function createHandlers(options: MCPHandlerOptions) {
     return result
   }
 
-  rawProvider.delete = async (type: string, id: string): Promise<boolean> => {
-    const result = await origDelete(type, id)
+  rawProvider.delete = async function (this: VersionedProvider, type: string, id: string, writeOptions?: WriteOptions): Promise<boolean> {
+    const result = await origDelete.call(this, type, id, writeOptions)
     eventLog.push({
       type,
       id,
@@ -136,8 +164,8 @@ export function createHandlers(options: MCPHandlerOptions) {
     return result
   }
 
-  rawProvider.perform = async (type: string, verb: string, id: string, data?: Record<string, unknown>): Promise<NounInstance> => {
-    const result = await origPerform(type, verb, id, data)
+  rawProvider.perform = async function (this: VersionedProvider, type: string, verb: string, id: string, data?: Record<string, unknown>, writeOptions?: WriteOptions): Promise<NounInstance> {
+    const result = await origPerform.call(this, type, verb, id, data, writeOptions)
     eventLog.push({
       type,
       id,
@@ -150,12 +178,30 @@ export function createHandlers(options: MCPHandlerOptions) {
     return result
   }
 
-  // Use the raw provider directly (now instrumented)
-  const provider = rawProvider
+  if (isRestorable(rawProvider)) {
+    const origRestore = rawProvider.restore
+    rawProvider.restore = async function (this: typeof rawProvider, type: string, id: string): Promise<NounInstance> {
+      const result = await origRestore.call(this, type, id)
+      eventLog.push({
+        type,
+        id,
+        action: 'restore',
+        data: {},
+        snapshot: { ...result },
+        timestamp: new Date().toISOString(),
+        seq: eventSeq++,
+      })
+      return result
+    }
+  }
+
+  /** The (instrumented) provider, acting as the current actor for writes */
+  const acting = (): VersionedProvider => actingAs(rawProvider, options.actor?.()) as VersionedProvider
 
   return {
     async search(args: SearchArgs): Promise<MCPToolResult> {
-      const { type, filter, query, limit = 20, sort } = args
+      const { type, filter, query, limit = 20, sort, select, includeDeleted } = args
+      const findOptions: FindOptions | undefined = includeDeleted ? { includeDeleted } : undefined
       const countOnly = (args as Record<string, unknown>).countOnly as boolean | undefined
       const offset = (args as Record<string, unknown>).offset as number | undefined
       const cursor = (args as Record<string, unknown>).cursor as string | undefined
@@ -174,25 +220,43 @@ export function createHandlers(options: MCPHandlerOptions) {
 
       if (type) {
         // Search specific entity type
-        let results = await rawProvider.find(type, filter ?? {})
+        let results: NounInstance[]
+        let totalCount: number
+
+        // Push sort/offset/limit/select down to providers that paginate natively,
+        // so large collections are not loaded just to show one page. Filters beyond
+        // the basic operators go through the shared filter engine instead.
+        const pageable = rawProvider as PageableProvider
+        if (typeof pageable.findPage === 'function' && !query && isBasicFilter(filter)) {
+          const page = await pageable.findPage(type, filter ?? {}, {
+            sort,
+            offset: effectiveOffset,
+            limit: countOnly ? 0 : clampedLimit,
+            select,
+            ...findOptions,
+          })
+          results = page.items
+          totalCount = page.total
+        } else {
+          results = await findMatching(rawProvider, type, filter, findOptions)
 
-        // Apply text search if query provided
-        if (query) {
-          const q = query.toLowerCase()
-          results = results.filter((r) => Object.values(r).some((v) => typeof v === 'string' && v.toLowerCase().includes(q)))
-        }
+          // Apply text search if query provided
+          if (query) {
+            const q = query.toLowerCase()
+            results = results.filter((r) => Object.values(r).some((v) => typeof v === 'string' && v.toLowerCase().includes(q)))
+          }
 
-        // Apply sort
-        if (sort) {
-          const entries = Object.entries(sort)
-          if (entries.length > 0) {
-            const [key, dir] = entries[0]
-            results.sort((a, b) => {
-              const av = (a as Record<string, unknown>)[key]
-              const bv = (b as Record<string, unknown>)[key]
-              const cmp = av! < bv! ? -1 : av! > bv! ? 1 : 0
-              return dir === 'desc' ? -cmp : cmp
-            })
+          // Apply sort
+          if (sort && Object.keys(sort).length > 0) {
+            results = [...results].sort(compareBy(sort))
+          }
+
+          totalCount = results.length
+
+          // Apply offset, limit, and projection
+          results = results.slice(effectiveOffset, effectiveOffset + clampedLimit)
+          if (select) {
+            results = results.map((r) => project(r, select))
           }
         }
 
@@ -206,8 +270,6 @@ export function createHandlers(options: MCPHandlerOptions) {
           })
         }
 
-        const totalCount = results.length
-
         // Count-only mode
         if (countOnly) {
           return {
@@ -220,13 +282,15 @@ export function createHandlers(options: MCPHandlerOptions) {
           }
         }
 
-        // Apply offset and limit
-        const paged = results.slice(effectiveOffset, effectiveOffset + clampedLimit)
-
-        // Load relationships for each entity
+        // Load relationships for each entity (only selected ones when projecting)
         const enriched = await Promise.all(
-          paged.map(async (entity) => {
+          results.map(async (entity) => {
             const rels = await loadRelationships(rawProvider, entity)
+            if (select) {
+              for (const key of Object.keys(rels)) {
+                if (!select.includes(key)) delete rels[key]
+              }
+            }
             return Object.keys(rels).length > 0 ? { ...entity, ...rels } : entity
           }),
         )
@@ -260,7 +324,7 @@ export function createHandlers(options: MCPHandlerOptions) {
       const allNouns = getAllNouns()
       const allResults: unknown[] = []
       for (const [name] of allNouns) {
-        const results = await rawProvider.find(name, filter ?? {})
+        const results = await findMatching(rawProvider, name, filter, findOptions)
 
         if (query) {
           const q = query.toLowerCase()
@@ -333,6 +397,25 @@ export function createHandlers(options: MCPHandlerOptions) {
           if (args.noun) {
             const schema = getNounSchema(args.noun)
             if (!schema) return { content: [{ type: 'text', text: `Schema not found: ${args.noun}` }], isError: true }
+
+            // State machine, plus the verbs valid right now when an entity id is given
+            const machine = getStateMachine(args.noun)
+            let stateMachine: Record<string, unknown> | undefined
+            if (machine) {
+              stateMachine = {
+                field: machine.field,
+                states: machine.states,
+                transitions: Object.entries(machine.transitions).map(([verb, t]) => ({ verb, from: Array.isArray(t.from) ? t.from : [t.from], to: t.to })),
+              }
+              if (args.id) {
+                const entity = await rawProvider.get(args.noun, args.id)
+                if (entity) {
+                  stateMachine.currentState = entity[machine.field] ?? null
+                  stateMachine.availableVerbs = availableVerbs(machine, entity)
+                }
+              }
+            }
+
             return {
               content: [
                 {
@@ -346,6 +429,7 @@ export function createHandlers(options: MCPHandlerOptions) {
                       relationships: [...schema.relationships.entries()].map(([k, v]) => ({ key: k, ...v })),
                       verbs: [...schema.verbs.entries()].map(([k, v]) => ({ key: k, ...v })),
                       disabledVerbs: [...schema.disabledVerbs],
+                      ...(stateMachine ? { stateMachine } : {}),
                     },
                     null,
                     2,
@@ -389,6 +473,26 @@ export function createHandlers(options: MCPHandlerOptions) {
           return { content: [{ type: 'text', text: 'events fetch not yet implemented' }] }
         }
 
+        case 'audit': {
+          if (!isAuditable(rawProvider)) {
+            return { content: [{ type: 'text', text: 'Audit history is not available for this provider' }], isError: true }
+          }
+          try {
+            const changes = await rawProvider.audit({
+              entityType: args.type,
+              entityId: args.id,
+              field: args.field,
+              actor: args.actor,
+              since: args.since,
+              until: args.until,
+              limit: args.limit,
+            })
+            return { content: [{ type: 'text', text: JSON.stringify(changes, null, 2) }] }
+          } catch (err) {
+            return { content: [{ type: 'text', text: `Audit failed: ${err instanceof Error ? err.message : String(err)}` }], isError: true }
+          }
+        }
+
         case 'metrics':
         case 'state':
           return { content: [{ type: 'text', text: `${args.resource} fetch not yet implemented` }] }
@@ -399,7 +503,9 @@ export function createHandlers(options: MCPHandlerOptions) {
     },
 
     async doAction(args: DoArgs): Promise<MCPToolResult> {
-      const { action, type, id, data, code } = args
+      const { action, type, id, data, code, ifVersion, match } = args
+      const writeOptions: WriteOptions | undefined = ifVersion !== undefined ? { ifVersion } : undefined
+      const provider = acting()
 
       // Code evaluation
       if (action === 'eval' && code) {
@@ -407,7 +513,7 @@ export function createHandlers(options: MCPHandlerOptions) {
           return { content: [{ type: 'text', text: 'Code evaluation not available' }], isError: true }
         }
         try {
-          const result = await evaluate(code, { provider: rawProvider })
+          const result = await evaluate(code, { provider })
           return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] }
         } catch (err: unknown) {
           const message = err instanceof Error ? err.message : String(err)
@@ -424,123 +530,156 @@ export function createHandlers(options: MCPHandlerOptions) {
         return { content: [{ type: 'text', text: 'Error: type required for entity actions' }], isError: true }
       }
 
-      switch (action) {
-        case 'create': {
-          const entity = await provider.create(type, data ?? {})
-          return { content: [{ type: 'text', text: JSON.stringify(entity, null, 2) }] }
-        }
-        case 'update': {
-          if (!id) return { content: [{ type: 'text', text: 'Error: id required for update' }], isError: true }
-          const entity = await provider.update(type, id, data ?? {})
-          return { content: [{ type: 'text', text: JSON.stringify(entity, null, 2) }] }
-        }
-        case 'delete': {
-          if (!id) return { content: [{ type: 'text', text: 'Error: id required for delete' }], isError: true }
-          const result = await provider.delete(type, id)
-          return { content: [{ type: 'text', text: JSON.stringify({ deleted: result }) }] }
-        }
-        case 'batch': {
-          const operations = (data as Record<string, unknown>)?.operations as Array<{
-            action: string
-            id?: string
-            data?: Record<string, unknown>
-          }>
-          if (!operations || !Array.isArray(operations)) {
-            return { content: [{ type: 'text', text: 'Error: batch requires data.operations array' }], isError: true }
+      try {
+        switch (action) {
+          case 'create': {
+            const entity = await provider.create(type, data ?? {})
+            return { content: [{ type: 'text', text: JSON.stringify(entity, null, 2) }] }
           }
-          const results: Array<Record<string, unknown>> = []
-          for (const op of operations) {
-            try {
-              switch (op.action) {
-                case 'create': {
-                  const entity = await provider.create(type, op.data ?? {})
-                  results.push({ ...entity, success: true })
-                  break
-                }
-                case 'update': {
-                  if (!op.id) throw new Error('id required for update')
-                  const entity = await provider.update(type, op.id, op.data ?? {})
-                  results.push({ ...entity, success: true })
-                  break
-                }
-                case 'delete': {
-                  if (!op.id) throw new Error('id required for delete')
-                  const deleted = await provider.delete(type, op.id)
-                  results.push({ deleted, success: true })
-                  break
+          case 'update': {
+            if (!id) return { content: [{ type: 'text', text: 'Error: id required for update' }], isError: true }
+            const entity = await provider.update(type, id, data ?? {}, writeOptions)
+            return { content: [{ type: 'text', text: JSON.stringify(entity, null, 2) }] }
+          }
+          case 'delete': {
+            if (!id) return { content: [{ type: 'text', text: 'Error: id required for delete' }], isError: true }
+            const result = await provider.delete(type, id, writeOptions)
+            return { content: [{ type: 'text', text: JSON.stringify({ deleted: result }) }] }
+          }
+          case 'restore': {
+            if (!id) return { content: [{ type: 'text', text: 'Error: id required for restore' }], isError: true }
+            if (!isRestorable(provider)) return { content: [{ type: 'text', text: 'Error: restore not supported by this provider' }], isError: true }
+            const entity = await provider.restore(type, id)
+            return { content: [{ type: 'text', text: JSON.stringify(entity, null, 2) }] }
+          }
+          case 'batch': {
+            const operations = (data as Record<string, unknown>)?.operations as Array<{
+              action: string
+              id?: string
+              data?: Record<string, unknown>
+              ifVersion?: number
+            }>
+            if (!operations || !Array.isArray(operations)) {
+              return { content: [{ type: 'text', text: 'Error: batch requires data.operations array' }], isError: true }
+            }
+            const results: Array<Record<string, unknown>> = []
+            for (const op of operations) {
+              try {
+                switch (op.action) {
+                  case 'create': {
+                    const entity = await provider.create(type, op.data ?? {})
+                    results.push({ ...entity, success: true })
+                    break
+                  }
+                  case 'update': {
+                    if (!op.id) throw new Error('id required for update')
+                    const entity = await provider.update(type, op.id, op.data ?? {}, op.ifVersion !== undefined ? { ifVersion: op.ifVersion } : undefined)
+                    results.push({ ...entity, success: true })
+                    break
+                  }
+                  case 'delete': {
+                    if (!op.id) throw new Error('id required for delete')
+                    const deleted = await provider.delete(type, op.id, op.ifVersion !== undefined ? { ifVersion: op.ifVersion } : undefined)
+                    results.push({ deleted, success: true })
+                    break
+                  }
+                  default:
+                    results.push({ success: false, error: `Unknown batch action: ${op.action}` })
                 }
-                default:
-                  results.push({ success: false, error: `Unknown batch action: ${op.action}` })
+              } catch (err: unknown) {
+                const message = err instanceof Error ? err.message : String(err)
+                if (err instanceof EntityValidationError) results.push({ success: false, error: message, errors: err.errors })
+                else if (err instanceof ConflictError) results.push({ success: false, error: message, current: err.current })
+                else results.push({ success: false, error: message })
               }
-            } catch (err: unknown) {
-              const message = err instanceof Error ? err.message : String(err)
-              results.push({ success: false, error: message })
             }
+            return { content: [{ type: 'text', text: JSON.stringify({ results }, null, 2) }] }
           }
-          return { content: [{ type: 'text', text: JSON.stringify({ results }, null, 2) }] }
-        }
-        case 'upsert': {
-          const matchData = data ?? {}
-          const existingResults = await rawProvider.find(type, {})
-          let found: NounInstance | undefined
-
-          // Get indexed fields from schema for matching
-          const indexedFields = getIndexedFields(type)
-
-          // Strategy: match on indexed fields that appear in the data
-          const matchFields = Object.keys(matchData).filter((k) => !k.startsWith('$') && indexedFields.has(k))
-
-          if (matchFields.length > 0) {
-            // Match on indexed fields only
-            for (const entity of existingResults) {
-              let match = true
-              for (const field of matchFields) {
-                if (entity[field] !== matchData[field]) {
-                  match = false
+          case 'upsert': {
+            // Keyed upsert: match names unique (##) fields
+            if (match) {
+              const { instance } = await upsert(provider, type, match, data ?? {})
+              return { content: [{ type: 'text', text: JSON.stringify(instance, null, 2) }] }
+            }
+
+            // Without a match, infer the key from indexed fields in the data
+            const matchData = data ?? {}
+            const existingResults = await rawProvider.find(type, {})
+            let found: NounInstance | undefined
+
+            // Get indexed fields from schema for matching
+            const indexedFields = getIndexedFields(type)
+
+            // Strategy: match on indexed fields that appear in the data
+            const matchFields = Object.keys(matchData).filter((k) => !k.startsWith('$') && indexedFields.has(k))
+
+            if (matchFields.length > 0) {
+              // Match on indexed fields only
+              for (const entity of existingResults) {
+                let match = true
+                for (const field of matchFields) {
+                  if (entity[field] !== matchData[field]) {
+                    match = false
+                    break
+                  }
+                }
+                if (match) {
+                  found = entity
                   break
                 }
               }
-              if (match) {
-                found = entity
-                break
-              }
-            }
-          } else {
-            // Fallback: match on all non-$ fields in data that the entity already has with the same value
-            for (const entity of existingResults) {
-              let match = true
-              let matchCount = 0
-              for (const [key, value] of Object.entries(matchData)) {
-                if (key.startsWith('$')) continue
-                if (entity[key] !== undefined && entity[key] === value) {
-                  matchCount++
+            } else {
+              // Fallback: match on all non-$ fields in data that the entity already has with the same value
+              for (const entity of existingResults) {
+                let match = true
+                let matchCount = 0
+                for (const [key, value] of Object.entries(matchData)) {
+                  if (key.startsWith('$')) continue
+                  if (entity[key] !== undefined && entity[key] === value) {
+                    matchCount++
+                  }
+                  if (entity[key] !== undefined && entity[key] !== value) {
+                    match = false
+                    break
+                  }
                 }
-                if (entity[key] !== undefined && entity[key] !== value) {
-                  match = false
+                if (match && matchCount > 0) {
+                  found = entity
                   break
                 }
               }
-              if (match && matchCount > 0) {
-                found = entity
-                break
-              }
             }
-          }
 
-          if (found) {
-            const updated = await provider.update(type, found.$id, matchData)
-            return { content: [{ type: 'text', text: JSON.stringify(updated, null, 2) }] }
-          } else {
-            const created = await provider.create(type, matchData)
-            return { content: [{ type: 'text', text: JSON.stringify(created, null, 2) }] }
+            if (found) {
+              const updated = await provider.update(type, found.$id, matchData)
+              return { content: [{ type: 'text', text: JSON.stringify(updated, null, 2) }] }
+            } else {
+              const created = await provider.create(type, matchData)
+              return { content: [{ type: 'text', text: JSON.stringify(created, null, 2) }] }
+            }
+          }
+          default: {
+            // Custom verb execution
+            if (!id) return { content: [{ type: 'text', text: `Error: id required for verb ${action}` }], isError: true }
+            const result = await provider.perform(type, action, id, data, writeOptions)
+            return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] }
           }
         }
-        default: {
-          // Custom verb execution
-          if (!id) return { content: [{ type: 'text', text: `Error: id required for verb ${action}` }], isError: true }
-          const result = await provider.perform(type, action, id, data)
-          return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] }
+      } catch (err: unknown) {
+        if (err instanceof EntityValidationError) return validationErrorResult(err)
+        if (err instanceof ConflictError) {
+          return {
+            content: [{ type: 'text', text: JSON.stringify({ error: { message: err.message, expectedVersion: err.expectedVersion, current: err.current } }, null, 2) }],
+            isError: true,
+          }
+        }
+        if (err instanceof InvalidTransitionError) {
+          return {
+            content: [{ type: 'text', text: JSON.stringify({ error: { message: err.message, state: err.state ?? null, allowed: err.allowed } }, null, 2) }],
+            isError: true,
+          }
         }
+        throw err
       }
     },
   }
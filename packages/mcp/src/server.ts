@@ -40,7 +40,8 @@ export class MCPServer {
   private authContext: AuthContext = ANONYMOUS_CONTEXT
 
   constructor(options: MCPServerOptions) {
-    this.handlers = createHandlers(options)
+    // Writes are attributed to whoever is authenticated at the time of the call
+    this.handlers = createHandlers({ ...options, actor: () => actorOf(this.authContext) })
     this.context = options.context
 
     this._server = new McpServer({
@@ -70,7 +71,10 @@ export class MCPServer {
     await this._server.connect(transport)
   }
 
-  /** Set the current auth context (e.g. after id.org.ai-backed device-flow login) */
+  /**
+   * Set the current auth context (e.g. after id.org.ai-backed device-flow login).
+   * Subsequent writes and their events carry its id as the actor.
+   */
   setAuthContext(ctx: AuthContext): void {
     this.authContext = ctx
   }
@@ -272,3 +276,8 @@ function toSdkResult(result: MCPToolResult) {
     isError: result.isError,
   }
 }
+
+/** The actor recorded for writes made under an auth context (none when anonymous) */
+function actorOf(ctx: AuthContext): string | undefined {
+  return ctx.type === 'anon' ? undefined : ctx.id
+}
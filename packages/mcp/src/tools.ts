@@ -31,7 +31,8 @@ export function getTools(context?: MCPContext): MCPTool[] {
           },
           filter: {
             type: 'object',
-            description: 'Filter criteria. Keys are field names, values are exact matches. Use $gt, $lt, $gte, $lte, $ne, $in for comparisons.',
+            description:
+              'Filter criteria. Keys are field names or dot-paths into json fields (e.g. "metadata.source"), values are exact matches. Use $gt, $lt, $gte, $lte (numbers and ISO dates), $ne, $in, $nin, $exists, $regex for comparisons, $contains/$size for arrays, $not to negate, and $and/$or/$nor/$not to combine filters.',
           },
           limit: {
             type: 'number',
@@ -39,21 +40,38 @@ export function getTools(context?: MCPContext): MCPTool[] {
           },
           sort: {
             type: 'object',
-            description: 'Sort specification. Keys are field names, values are "asc" or "desc".',
+            description: 'Sort specification. Keys are field names, values are "asc" or "desc". Multiple keys are applied in order.',
+          },
+          offset: {
+            type: 'number',
+            description: 'Number of results to skip',
+          },
+          cursor: {
+            type: 'string',
+            description: 'Opaque cursor from a previous paginated result (nextCursor)',
+          },
+          select: {
+            type: 'array',
+            description: 'Fields to return. $id and $type are always included.',
+            items: { type: 'string', description: 'Field name' },
+          },
+          includeDeleted: {
+            type: 'boolean',
+            description: 'Also return soft-deleted entities from the trash (they carry $deletedAt)',
           },
         },
       },
     },
     {
       name: 'fetch',
-      description: `Fetch a specific entity, schema definition, events, or metrics from headless.ly. Use for precise lookups.${contextSuffix}`,
+      description: `Fetch a specific entity, schema definition, events, metrics, or field-level audit history from headless.ly. Use for precise lookups.${contextSuffix}`,
       inputSchema: {
         type: 'object',
         properties: {
           resource: {
             type: 'string',
             description: 'What to fetch',
-            enum: ['entity', 'schema', 'events', 'metrics', 'state'],
+            enum: ['entity', 'schema', 'events', 'metrics', 'state', 'audit'],
           },
           type: {
             type: 'string',
@@ -62,7 +80,7 @@ export function getTools(context?: MCPContext): MCPTool[] {
           },
           id: {
             type: 'string',
-            description: 'Entity ID (for entity/events/state resources)',
+            description: 'Entity ID (for entity/events/state/audit resources, or with noun to get the verbs valid from its current state)',
           },
           asOf: {
             type: 'string',
@@ -70,7 +88,27 @@ export function getTools(context?: MCPContext): MCPTool[] {
           },
           noun: {
             type: 'string',
-            description: 'Noun name for schema fetch. Omit to get all schemas.',
+            description: 'Noun name for schema fetch, including its state machine if declared. Omit to get all schemas.',
+          },
+          field: {
+            type: 'string',
+            description: 'Audit: only changes to this field (e.g. "value")',
+          },
+          actor: {
+            type: 'string',
+            description: 'Audit: only changes made by this actor',
+          },
+          since: {
+            type: 'string',
+            description: 'Audit: only changes at or after this ISO timestamp',
+          },
+          until: {
+            type: 'string',
+            description: 'Audit: only changes at or before this ISO timestamp',
+          },
+          limit: {
+            type: 'number',
+            description: 'Audit: maximum number of changes to return',
           },
         },
         required: ['resource'],
@@ -84,7 +122,7 @@ export function getTools(context?: MCPContext): MCPTool[] {
         properties: {
           action: {
             type: 'string',
-            description: 'Action to execute: "create", "update", "delete", a verb name (e.g., "qualify", "close", "pause"), or "eval" for code execution',
+            description: 'Action to execute: "create", "update", "delete", "restore" (bring a deleted entity back from the trash), "upsert" (create or update keyed on match), a verb name (e.g., "qualify", "close", "pause"), or "eval" for code execution',
           },
           type: {
             type: 'string',
@@ -93,16 +131,24 @@ export function getTools(context?: MCPContext): MCPTool[] {
           },
           id: {
             type: 'string',
-            description: 'Entity ID (required for update/delete/verb execution)',
+            description: 'Entity ID (required for update/delete/restore/verb execution)',
           },
           data: {
             type: 'object',
             description: 'Data payload for the action',
           },
+          match: {
+            type: 'object',
+            description: 'For upsert: unique (##) fields identifying the entity, e.g. { "email": "alice@acme.co" }. Updates it with data if found, otherwise creates it.',
+          },
           code: {
             type: 'string',
             description: 'TypeScript code to evaluate (when action is "eval"). Has access to $ context with all entities.',
           },
+          ifVersion: {
+            type: 'number',
+            description: 'Optimistic concurrency: apply update/delete/verb only if the entity is still at this $version. On mismatch the error includes the current entity.',
+          },
         },
         required: ['action'],
       },
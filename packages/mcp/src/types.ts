@@ -51,8 +51,10 @@ export interface SearchArgs {
   query?: string
   /** Maximum results */
   limit?: number
-  /** Sort specification */
+  /** Sort specification — multiple keys are applied in order */
   sort?: Record<string, 'asc' | 'desc'>
+  /** Fields to return ($id and $type are always included) */
+  select?: string[]
   /** Offset for pagination */
   offset?: number
   /** Cursor for cursor-based pagination */
@@ -61,12 +63,14 @@ export interface SearchArgs {
   countOnly?: boolean
   /** Related entity types to include */
   include?: string[]
+  /** If true, also return soft-deleted (trashed) entities */
+  includeDeleted?: boolean
 }
 
 /** Fetch arguments */
 export interface FetchArgs {
-  /** What to fetch: 'entity', 'schema', 'events', 'metrics' */
-  resource: 'entity' | 'schema' | 'events' | 'metrics' | 'state'
+  /** What to fetch: 'entity', 'schema', 'events', 'metrics', 'audit' */
+  resource: 'entity' | 'schema' | 'events' | 'metrics' | 'state' | 'audit'
   /** Entity type */
   type?: string
   /** Entity ID */
@@ -77,6 +81,16 @@ export interface FetchArgs {
   noun?: string
   /** Related entity types to include */
   include?: string[]
+  /** Audit: only changes to this field */
+  field?: string
+  /** Audit: only changes made by this actor */
+  actor?: string
+  /** Audit: only changes at or after this ISO timestamp */
+  since?: string
+  /** Audit: only changes at or before this ISO timestamp */
+  until?: string
+  /** Audit: maximum number of changes to return */
+  limit?: number
 }
 
 /** Do arguments */
@@ -91,6 +105,8 @@ export interface DoArgs {
   data?: Record<string, unknown>
   /** TypeScript code to evaluate (for complex operations) */
   code?: string
-  /** Match criteria for upsert */
+  /** Unique (`##`) fields to key an upsert on, e.g. `{ email: 'alice@acme.co' }` */
   match?: Record<string, unknown>
+  /** Apply update/delete/verb only if the entity is still at this $version */
+  ifVersion?: number
 }
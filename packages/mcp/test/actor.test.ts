@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { clearRegistry, Noun } from 'digital-objects'
+import { EventLog } from '@headlessly/events'
+import { LocalNounProvider } from '@headlessly/objects'
+import { createHandlers } from '../src/handlers'
+
+function parse(result: { content: Array<{ text?: string }> }) {
+  return JSON.parse(result.content[0]!.text!)
+}
+
+describe('@headlessly/mcp — actors', () => {
+  let eventLog: EventLog
+  let provider: LocalNounProvider
+
+  beforeEach(() => {
+    clearRegistry()
+    Noun('Deal', { name: 'string!', value: 'number', stage: 'Open | Won | Lost', close: 'Won' })
+    eventLog = new EventLog()
+    provider = new LocalNounProvider({ context: 'https://headless.ly/~acme', eventLog })
+  })
+
+  it('attributes writes to the current actor', async () => {
+    let actor: string | undefined = 'agent_mR4nVkTw'
+    const handlers = createHandlers({ provider, actor: () => actor })
+
+    const deal = parse(await handlers.doAction({ action: 'create', type: 'Deal', data: { name: 'Big', value: 100, stage: 'Open' } }))
+    await handlers.doAction({ action: 'close', type: 'Deal', id: deal.$id })
+    actor = undefined
+    await handlers.doAction({ action: 'update', type: 'Deal', id: deal.$id, data: { value: 200 } })
+
+    expect((await eventLog.query({})).map((e) => [e.verb, e.actor])).toEqual([
+      ['create', 'agent_mR4nVkTw'],
+      ['close', 'agent_mR4nVkTw'],
+      ['update', undefined],
+    ])
+  })
+
+  it('keeps time travel working for actor writes', async () => {
+    const handlers = createHandlers({ provider, actor: () => 'agent_mR4nVkTw' })
+    const deal = parse(await handlers.doAction({ action: 'create', type: 'Deal', data: { name: 'Big', value: 100 } }))
+    await handlers.doAction({ action: 'update', type: 'Deal', id: deal.$id, data: { value: 200 } })
+
+    const later = new Date(Date.now() + 60_000).toISOString()
+    expect(parse(await handlers.fetch({ resource: 'entity', type: 'Deal', id: deal.$id, asOf: later })).value).toBe(200)
+    expect(parse(await handlers.fetch({ resource: 'audit', type: 'Deal', id: deal.$id, actor: 'agent_mR4nVkTw', field: 'value' })).map((c: { to: unknown }) => c.to)).toEqual([100, 200])
+  })
+})
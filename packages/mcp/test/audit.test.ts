@@ -0,0 +1,37 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { clearRegistry, Noun } from 'digital-objects'
+import { EventLog } from '@headlessly/events'
+import { LocalNounProvider } from '@headlessly/objects'
+import { createHandlers } from '../src/handlers'
+
+function parse(result: { content: Array<{ text?: string }> }) {
+  return JSON.parse(result.content[0]!.text!)
+}
+
+describe('@headlessly/mcp — audit', () => {
+  beforeEach(() => {
+    clearRegistry()
+    Noun('Deal', { name: 'string!', value: 'number', stage: 'Open | Won | Lost' })
+  })
+
+  it("fetches an entity's field-level changes", async () => {
+    const handlers = createHandlers({ provider: new LocalNounProvider({ context: 'https://headless.ly/~acme', eventLog: new EventLog() }) })
+    const deal = parse(await handlers.doAction({ action: 'create', type: 'Deal', data: { name: 'Big', value: 100, stage: 'Open' } }))
+    await handlers.doAction({ action: 'update', type: 'Deal', id: deal.$id, data: { value: 250 } })
+    await handlers.doAction({ action: 'update', type: 'Deal', id: deal.$id, data: { stage: 'Won' } })
+
+    const result = await handlers.fetch({ resource: 'audit', type: 'Deal', id: deal.$id, field: 'value' })
+    expect(result.isError).toBeUndefined()
+    expect(parse(result).map((c: { from: unknown; to: unknown; verb: string }) => [c.verb, c.from, c.to])).toEqual([
+      ['create', undefined, 100],
+      ['update', 100, 250],
+    ])
+  })
+
+  it('reports providers without event history', async () => {
+    const handlers = createHandlers({ provider: new LocalNounProvider() })
+    const result = await handlers.fetch({ resource: 'audit', type: 'Deal' })
+    expect(result.isError).toBe(true)
+    expect(result.content[0]!.text).toContain('without event history')
+  })
+})
@@ -0,0 +1,37 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { clearRegistry, Noun } from 'digital-objects'
+import { LocalNounProvider } from '@headlessly/objects'
+import { createHandlers } from '../src/handlers'
+
+function parse(result: { content: Array<{ text?: string }> }) {
+  return JSON.parse(result.content[0]!.text!)
+}
+
+describe('@headlessly/mcp — optimistic concurrency', () => {
+  let provider: LocalNounProvider
+
+  beforeEach(() => {
+    clearRegistry()
+    Noun('Deal', { name: 'string!', stage: 'Open | Won | Lost' })
+    provider = new LocalNounProvider({ context: 'https://headless.ly/~test' })
+  })
+
+  it('applies updates whose ifVersion matches', async () => {
+    const deal = await provider.create('Deal', { name: 'Big', stage: 'Open' })
+    const handlers = createHandlers({ provider })
+    const result = await handlers.doAction({ action: 'update', type: 'Deal', id: deal.$id, data: { stage: 'Won' }, ifVersion: 1 })
+
+    expect(result.isError).toBeUndefined()
+    expect(parse(result).$version).toBe(2)
+  })
+
+  it('returns the current entity on a version conflict', async () => {
+    const deal = await provider.create('Deal', { name: 'Big', stage: 'Open' })
+    await provider.update('Deal', deal.$id, { stage: 'Lost' })
+    const handlers = createHandlers({ provider })
+    const result = await handlers.doAction({ action: 'update', type: 'Deal', id: deal.$id, data: { stage: 'Won' }, ifVersion: 1 })
+
+    expect(result.isError).toBe(true)
+    expect(parse(result).error).toMatchObject({ expectedVersion: 1, current: { stage: 'Lost', $version: 2 } })
+  })
+})
@@ -83,7 +83,7 @@ describe('@headlessly/mcp — deep v2 tests', () => {
       const tools = getTools()
       const fetchTool = tools.find((t) => t.name === 'fetch')!
       const resourceProp = fetchTool.inputSchema.properties.resource
-      expect(resourceProp.enum).toEqual(['entity', 'schema', 'events', 'metrics', 'state'])
+      expect(resourceProp.enum).toEqual(['entity', 'schema', 'events', 'metrics', 'state', 'audit'])
     })
 
     it('do tool requires action field', () => {
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { clearRegistry, MemoryNounProvider, Noun } from 'digital-objects'
+import type { NounInstance } from 'digital-objects'
+import { createHandlers } from '../src/handlers'
+
+function parse(result: { content: Array<{ text?: string }> }) {
+  return JSON.parse(result.content[0]!.text!)
+}
+
+describe('@headlessly/mcp — search sort, pagination, and projection', () => {
+  let provider: MemoryNounProvider
+
+  beforeEach(async () => {
+    clearRegistry()
+    provider = new MemoryNounProvider()
+    Noun('Deal', {
+      title: 'string!',
+      value: 'number?',
+      stage: 'Open | Won | Lost',
+    })
+    await provider.create('Deal', { title: 'A', stage: 'Open', value: 300 })
+    await provider.create('Deal', { title: 'B', stage: 'Won', value: 100 })
+    await provider.create('Deal', { title: 'C', stage: 'Open', value: 100 })
+    await provider.create('Deal', { title: 'D', stage: 'Won', value: 500 })
+  })
+
+  describe('in-memory fallback', () => {
+    it('sorts by multiple keys', async () => {
+      const handlers = createHandlers({ provider })
+      const result = parse(await handlers.search({ type: 'Deal', sort: { value: 'asc', title: 'desc' } }))
+      expect(result.map((d: NounInstance) => d.title)).toEqual(['C', 'B', 'A', 'D'])
+    })
+
+    it('projects selected fields', async () => {
+      const handlers = createHandlers({ provider })
+      const result = parse(await handlers.search({ type: 'Deal', select: ['title'] }))
+      expect(Object.keys(result[0]).sort()).toEqual(['$id', '$type', 'title'])
+    })
+
+    it('applies logical and negated filters with the shared filter engine', async () => {
+      const handlers = createHandlers({ provider })
+      const result = parse(await handlers.search({ type: 'Deal', filter: { $or: [{ stage: 'Won' }, { value: { $gt: 200 } }], $not: { title: 'D' } } }))
+      expect(result.map((d: NounInstance) => d.title)).toEqual(['A', 'B'])
+    })
+  })
+
+  describe('providers with findPage', () => {
+    function pageable() {
+      const findPage = vi.fn(async (type: string, where: Record<string, unknown>, options: { offset?: number; limit?: number }) => {
+        const all = await provider.find(type, where)
+        const start = options.offset ?? 0
+        return { items: all.slice(start, start + (options.limit ?? all.length)), total: all.length }
+      })
+      return { wrapped: Object.assign(provider, { findPage }), findPage }
+    }
+
+    it('pushes sort, offset, limit, and select down to the provider', async () => {
+      const { wrapped, findPage } = pageable()
+      const handlers = createHandlers({ provider: wrapped })
+      const result = parse(await handlers.search({ type: 'Deal', filter: { stage: 'Open' }, sort: { value: 'desc' }, limit: 1, offset: 1, select: ['title'] }))
+
+      expect(findPage).toHaveBeenCalledWith('Deal', { stage: 'Open' }, { sort: { value: 'desc' }, offset: 1, limit: 1, select: ['title'] })
+      expect(result.total).toBe(2)
+      expect(result.items).toHaveLength(1)
+      expect(result.nextCursor).toBeUndefined()
+    })
+
+    it('uses the provider total for countOnly without loading items', async () => {
+      const { wrapped, findPage } = pageable()
+      const handlers = createHandlers({ provider: wrapped })
+      const result = parse(await handlers.search({ type: 'Deal', countOnly: true }))
+
+      expect(result).toEqual({ count: 4 })
+      expect(findPage.mock.calls[0]![2]).toMatchObject({ limit: 0 })
+    })
+
+    it('follows cursors across pages', async () => {
+      const { wrapped } = pageable()
+      const handlers = createHandlers({ provider: wrapped })
+      const first = parse(await handlers.search({ type: 'Deal', limit: 3 }))
+      expect(first.items).toHaveLength(3)
+      const second = parse(await handlers.search({ type: 'Deal', limit: 3, cursor: first.nextCursor }))
+      expect(second.items.map((d: NounInstance) => d.title)).toEqual(['D'])
+      expect(second.nextCursor).toBeUndefined()
+    })
+
+    it('falls back to in-memory search for full-text queries', async () => {
+      const { wrapped, findPage } = pageable()
+      const handlers = createHandlers({ provider: wrapped })
+      const result = parse(await handlers.search({ type: 'Deal', query: 'won' }))
+
+      expect(findPage).not.toHaveBeenCalled()
+      expect(result.map((d: NounInstance) => d.title)).toEqual(['B', 'D'])
+    })
+
+    it('evaluates engine-only filters in memory', async () => {
+      const { wrapped, findPage } = pageable()
+      const handlers = createHandlers({ provider: wrapped })
+      const result = parse(await handlers.search({ type: 'Deal', filter: { stage: { $not: { $in: ['Won'] } } } }))
+
+      expect(findPage).not.toHaveBeenCalled()
+      expect(result.map((d: NounInstance) => d.title)).toEqual(['A', 'C'])
+    })
+  })
+})
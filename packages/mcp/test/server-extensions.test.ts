@@ -1,5 +1,9 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { clearRegistry, setProvider, MemoryNounProvider, Noun } from 'digital-objects'
+import { EventLog } from '@headlessly/events'
+import { LocalNounProvider } from '@headlessly/objects'
+import { ANONYMOUS_CONTEXT } from '@dotdo/mcp'
+import type { AuthContext } from '@dotdo/mcp'
 import { MCPServer } from '../src/server'
 import type { MCPToolResult, MCPTool } from '../src/types'
 
@@ -447,4 +451,22 @@ describe('@headlessly/mcp — Server Extensions', () => {
       expect(fetchResult.isError).toBeFalsy()
     })
   })
+
+  // ===========================================================================
+  // 5. Auth context — actor attribution
+  // ===========================================================================
+
+  describe('setAuthContext() actor attribution', () => {
+    it('records the authenticated id as the actor of writes', async () => {
+      const eventLog = new EventLog()
+      const server = new MCPServer({ provider: new LocalNounProvider({ eventLog }) })
+
+      server.setAuthContext({ type: 'oauth', id: 'user_fX9bL5nR' } as AuthContext)
+      await server.handleRequest({ method: 'tools/call', id: 1, params: { name: 'do', arguments: { action: 'create', type: 'Contact', data: { name: 'Alice' } } } })
+      server.setAuthContext(ANONYMOUS_CONTEXT)
+      await server.handleRequest({ method: 'tools/call', id: 2, params: { name: 'do', arguments: { action: 'create', type: 'Contact', data: { name: 'Bob' } } } })
+
+      expect((await eventLog.query({})).map((e) => e.actor)).toEqual(['user_fX9bL5nR', undefined])
+    })
+  })
 })
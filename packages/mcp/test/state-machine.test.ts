@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { clearRegistry, Noun } from 'digital-objects'
+import { LocalNounProvider, clearStateMachines, defineStateMachine } from '@headlessly/objects'
+import { createHandlers } from '../src/handlers'
+
+function parse(result: { content: Array<{ text?: string }> }) {
+  return JSON.parse(result.content[0]!.text!)
+}
+
+describe('@headlessly/mcp — state machines', () => {
+  let provider: LocalNounProvider
+
+  beforeEach(() => {
+    clearRegistry()
+    clearStateMachines()
+    Noun('Ticket', {
+      subject: 'string!',
+      status: 'Open | InProgress | Resolved | Closed',
+      start: 'Started',
+      resolve: 'Resolved',
+      reopen: 'Reopened',
+    })
+    defineStateMachine('Ticket', {
+      field: 'status',
+      transitions: {
+        start: { from: 'Open', to: 'InProgress' },
+        resolve: { from: 'InProgress', to: 'Resolved' },
+        reopen: { from: 'Resolved', to: 'Open' },
+      },
+    })
+    provider = new LocalNounProvider({ context: 'https://headless.ly/~test' })
+  })
+
+  it('includes the state machine in schema fetches', async () => {
+    const handlers = createHandlers({ provider })
+    const schema = parse(await handlers.fetch({ resource: 'schema', noun: 'Ticket' }))
+
+    expect(schema.stateMachine.field).toBe('status')
+    expect(schema.stateMachine.transitions).toContainEqual({ verb: 'reopen', from: ['Resolved'], to: 'Open' })
+  })
+
+  it('lists the verbs valid from an entity’s current state', async () => {
+    const ticket = await provider.create('Ticket', { subject: 'Help', status: 'Open' })
+    const handlers = createHandlers({ provider })
+    const schema = parse(await handlers.fetch({ resource: 'schema', noun: 'Ticket', id: ticket.$id }))
+
+    expect(schema.stateMachine.currentState).toBe('Open')
+    expect(schema.stateMachine.availableVerbs).toEqual(['start'])
+  })
+
+  it('returns the allowed verbs when a transition is rejected', async () => {
+    const ticket = await provider.create('Ticket', { subject: 'Help', status: 'Open' })
+    const handlers = createHandlers({ provider })
+    const result = await handlers.doAction({ action: 'resolve', type: 'Ticket', id: ticket.$id })
+
+    expect(result.isError).toBe(true)
+    expect(parse(result).error).toMatchObject({ state: 'Open', allowed: ['start'] })
+  })
+})
@@ -0,0 +1,33 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { clearRegistry, Noun } from 'digital-objects'
+import { LocalNounProvider } from '@headlessly/objects'
+import { createHandlers } from '../src/handlers'
+
+function parse(result: { content: Array<{ text?: string }> }) {
+  return JSON.parse(result.content[0]!.text!)
+}
+
+describe('@headlessly/mcp — tenant views', () => {
+  let provider: LocalNounProvider
+
+  beforeEach(() => {
+    clearRegistry()
+    Noun('Deal', { name: 'string!', stage: 'Open | Won | Lost' })
+    provider = new LocalNounProvider({ context: 'https://headless.ly/~gateway' })
+  })
+
+  it('serves each tenant from its own view of shared storage', async () => {
+    const acme = createHandlers({ provider: provider.forTenant('acme') })
+    const globex = createHandlers({ provider: provider.forTenant('globex') })
+
+    const deal = parse(await acme.doAction({ action: 'create', type: 'Deal', data: { name: 'Big', stage: 'Open' } }))
+    await globex.doAction({ action: 'create', type: 'Deal', data: { name: 'Small', stage: 'Open' } })
+
+    expect(parse(await acme.search({ type: 'Deal' })).map((d: { name: string }) => d.name)).toEqual(['Big'])
+    const fetched = await globex.fetch({ resource: 'entity', type: 'Deal', id: deal.$id })
+    expect(fetched.isError).toBe(true)
+    expect(fetched.content[0]!.text).toContain('Entity not found')
+    await expect(globex.doAction({ action: 'update', type: 'Deal', id: deal.$id, data: { stage: 'Lost' } })).rejects.toThrow(`Deal not found: ${deal.$id}`)
+    expect(provider.size).toBe(2)
+  })
+})
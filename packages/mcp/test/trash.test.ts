@@ -0,0 +1,40 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { clearRegistry, Noun } from 'digital-objects'
+import { LocalNounProvider } from '@headlessly/objects'
+import { createHandlers } from '../src/handlers'
+
+function parse(result: { content: Array<{ text?: string }> }) {
+  return JSON.parse(result.content[0]!.text!)
+}
+
+describe('@headlessly/mcp — soft delete', () => {
+  let provider: LocalNounProvider
+
+  beforeEach(() => {
+    clearRegistry()
+    Noun('Deal', { name: 'string!', stage: 'Open | Won | Lost' })
+    provider = new LocalNounProvider({ context: 'https://headless.ly/~test' })
+  })
+
+  it('searches the trash with includeDeleted', async () => {
+    const deal = await provider.create('Deal', { name: 'Big', stage: 'Open' })
+    await provider.create('Deal', { name: 'Small', stage: 'Open' })
+    const handlers = createHandlers({ provider })
+    await handlers.doAction({ action: 'delete', type: 'Deal', id: deal.$id })
+
+    expect(parse(await handlers.search({ type: 'Deal' })).map((d: { name: string }) => d.name)).toEqual(['Small'])
+    const trashed = parse(await handlers.search({ type: 'Deal', filter: { $deletedAt: { $exists: true } }, includeDeleted: true }))
+    expect(trashed.map((d: { $id: string }) => d.$id)).toEqual([deal.$id])
+  })
+
+  it('restores a deleted entity', async () => {
+    const deal = await provider.create('Deal', { name: 'Big', stage: 'Open' })
+    const handlers = createHandlers({ provider })
+    await handlers.doAction({ action: 'delete', type: 'Deal', id: deal.$id })
+
+    const result = await handlers.doAction({ action: 'restore', type: 'Deal', id: deal.$id })
+    expect(result.isError).toBeUndefined()
+    expect(parse(result)).toMatchObject({ $id: deal.$id, name: 'Big', $version: 3 })
+    expect(await provider.get('Deal', deal.$id)).not.toBeNull()
+  })
+})
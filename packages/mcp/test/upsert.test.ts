@@ -0,0 +1,34 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { clearRegistry, Noun } from 'digital-objects'
+import { LocalNounProvider } from '@headlessly/objects'
+import { createHandlers } from '../src/handlers'
+
+function parse(result: { content: Array<{ text?: string }> }) {
+  return JSON.parse(result.content[0]!.text!)
+}
+
+describe('@headlessly/mcp — keyed upsert', () => {
+  let provider: LocalNounProvider
+
+  beforeEach(() => {
+    clearRegistry()
+    Noun('Contact', { name: 'string!', email: 'string##', stage: 'Lead | Qualified | Customer' })
+    provider = new LocalNounProvider({ context: 'https://headless.ly/~test' })
+  })
+
+  it('updates the entity matched on a unique field, or creates it', async () => {
+    const handlers = createHandlers({ provider })
+    const created = parse(await handlers.doAction({ action: 'upsert', type: 'Contact', match: { email: 'alice@acme.co' }, data: { name: 'Alice', stage: 'Lead' } }))
+    const updated = parse(await handlers.doAction({ action: 'upsert', type: 'Contact', match: { email: 'alice@acme.co' }, data: { stage: 'Customer' } }))
+
+    expect(updated).toMatchObject({ $id: created.$id, name: 'Alice', stage: 'Customer', $version: 2 })
+    expect(await provider.count('Contact')).toBe(1)
+  })
+
+  it('reports a match on a non-unique field as a validation error', async () => {
+    const handlers = createHandlers({ provider })
+    const result = await handlers.doAction({ action: 'upsert', type: 'Contact', match: { name: 'Alice' }, data: {} })
+    expect(result.isError).toBe(true)
+    expect(result.content[0]!.text).toContain('Name is not a unique field of Contact')
+  })
+})
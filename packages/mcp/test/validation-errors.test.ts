@@ -0,0 +1,46 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { clearRegistry, Noun } from 'digital-objects'
+import { LocalNounProvider } from '@headlessly/objects'
+import { createHandlers } from '../src/handlers'
+
+function parse(result: { content: Array<{ text?: string }> }) {
+  return JSON.parse(result.content[0]!.text!)
+}
+
+describe('@headlessly/mcp — schema validation errors', () => {
+  let provider: LocalNounProvider
+
+  beforeEach(() => {
+    clearRegistry()
+    Noun('Contact', {
+      name: 'string!',
+      stage: 'Lead | Qualified | Customer',
+    })
+    provider = new LocalNounProvider({ context: 'https://headless.ly/~test' })
+  })
+
+  it('returns field-level errors for invalid create data', async () => {
+    const handlers = createHandlers({ provider })
+    const result = await handlers.doAction({ action: 'create', type: 'Contact', data: { stage: 'Churned' } })
+
+    expect(result.isError).toBe(true)
+    expect(parse(result).error.errors).toEqual({
+      name: 'Name is required',
+      stage: 'Stage must be one of: Lead, Qualified, Customer',
+    })
+  })
+
+  it('reports errors per operation in a batch', async () => {
+    const handlers = createHandlers({ provider })
+    const result = parse(
+      await handlers.doAction({
+        action: 'batch',
+        type: 'Contact',
+        data: { operations: [{ action: 'create', data: { name: 'Alice' } }, { action: 'create', data: {} }] },
+      }),
+    )
+
+    expect(result.results[0].success).toBe(true)
+    expect(result.results[1]).toMatchObject({ success: false, errors: { name: 'Name is required' } })
+  })
+})
@@ -0,0 +1,86 @@
+/**
+ * FileCursorStore — CDC consumer state in a JSON file
+ *
+ * Keeps the cursors, acknowledgements and consumer group leases of a
+ * @headlessly/events CDCStream on disk, so consumers resume after a restart.
+ * The whole file is rewritten on each change, through a temporary file and
+ * a rename so a crash never leaves it half written.
+ *
+ * The file is read once and then served from memory, and there is no
+ * compare-and-set (CursorStore.replace): use one FileCursorStore per file,
+ * in a single process. Consumers spread over several processes need a
+ * shared store such as SqlCursorStore.
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises'
+import { existsSync } from 'node:fs'
+import { dirname } from 'node:path'
+import type { ConsumerState, CursorStore } from '@headlessly/events'
+
+/**
+ * Options for creating a FileCursorStore
+ */
+export interface FileCursorStoreOptions {
+  /** Path to the JSON file (default: .headlessly/cdc-consumers.json) */
+  path?: string
+}
+
+export class FileCursorStore implements CursorStore {
+  readonly path: string
+  private _states: Map<string, ConsumerState> | null = null
+  /** File rewrites, chained so a later state never lands before an earlier one */
+  private _writes: Promise<void> = Promise.resolve()
+
+  constructor(options: FileCursorStoreOptions = {}) {
+    this.path = options.path ?? '.headlessly/cdc-consumers.json'
+  }
+
+  async get(consumer: string): Promise<ConsumerState | undefined> {
+    const state = (await this.load()).get(consumer)
+    return state && structuredClone(state)
+  }
+
+  async set(consumer: string, state: ConsumerState): Promise<void> {
+    ;(await this.load()).set(consumer, structuredClone(state))
+    await this.save()
+  }
+
+  async delete(consumer: string): Promise<void> {
+    if ((await this.load()).delete(consumer)) await this.save()
+  }
+
+  async list(): Promise<string[]> {
+    return Array.from((await this.load()).keys())
+  }
+
+  /**
+   * Read the file once; later reads are served from memory, so changes made
+   * to the file by anything else are not seen
+   */
+  private async load(): Promise<Map<string, ConsumerState>> {
+    if (this._states) return this._states
+    const states = new Map<string, ConsumerState>()
+    if (existsSync(this.path)) {
+      const content = await readFile(this.path, 'utf-8')
+      if (content.trim()) {
+        for (const [consumer, state] of Object.entries(JSON.parse(content) as Record<string, ConsumerState>)) {
+          states.set(consumer, state)
+        }
+      }
+    }
+    this._states ??= states
+    return this._states
+  }
+
+  private save(): Promise<void> {
+    const content = JSON.stringify(Object.fromEntries(this._states ?? []), null, 2) + '\n'
+    const write = this._writes.then(async () => {
+      await mkdir(dirname(this.path), { recursive: true })
+      const temporary = `${this.path}.tmp`
+      await writeFile(temporary, content, 'utf-8')
+      await rename(temporary, this.path)
+    })
+    this._writes = write.catch(() => undefined)
+    return write
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * File sinks for @headlessly/events CDC
+ *
+ * Drive them with `cdc.pipe(sink)`, which checkpoints after each page so a
+ * restarted sink resumes where it stopped:
+ *
+ * - NDJSONFileSink: events as newline-delimited JSON, rotated by size and age
+ * - ColumnarFileSink: per-entity-type column segments for analytics
+ *
+ * A restart can re-send the page that was in flight: NDJSON readers should
+ * dedupe by $id, while a re-sent columnar segment overwrites itself.
+ */
+
+import { appendFile, mkdir, readdir, rename, writeFile } from 'node:fs/promises'
+import { existsSync } from 'node:fs'
+import { join } from 'node:path'
+import type { CDCSink, NounEvent } from '@headlessly/events'
+
+/** A timestamp usable in file names */
+function fileStamp(date: Date | string): string {
+  return new Date(date).toISOString().replace(/[:.]/g, '-')
+}
+
+// =============================================================================
+// NDJSONFileSink
+// =============================================================================
+
+/**
+ * Options for creating an NDJSONFileSink
+ */
+export interface NDJSONFileSinkOptions {
+  /** Directory the files are written to (default: .headlessly/cdc) */
+  directory?: string
+  /** Sink name, which names its checkpoint (default: 'ndjson') */
+  name?: string
+  /** File name prefix (default: 'events') */
+  prefix?: string
+  /** Start a new file once the current one reaches this many bytes (default: 64 MiB) */
+  maxBytes?: number
+  /** Start a new file once the current one is this old, in milliseconds (default: 1 hour) */
+  maxAge?: number
+}
+
+/**
+ * Append events to `<prefix>-<timestamp>-<n>.ndjson` files, starting a new file
+ * when the current one is too large or too old, and on every restart.
+ */
+export class NDJSONFileSink implements CDCSink {
+  readonly name: string
+  readonly directory: string
+  private prefix: string
+  private maxBytes: number
+  private maxAge: number
+  private current: { path: string; bytes: number; openedAt: number } | null = null
+
+  constructor(options: NDJSONFileSinkOptions = {}) {
+    this.name = options.name ?? 'ndjson'
+    this.directory = options.directory ?? '.headlessly/cdc'
+    this.prefix = options.prefix ?? 'events'
+    this.maxBytes = options.maxBytes ?? 64 * 1024 * 1024
+    this.maxAge = options.maxAge ?? 60 * 60 * 1000
+  }
+
+  async write(events: NounEvent[]): Promise<void> {
+    if (events.length === 0) return
+    await mkdir(this.directory, { recursive: true })
+    let lines = ''
+    for (const event of events) {
+      const line = JSON.stringify(event) + '\n'
+      if (this.shouldRotate()) {
+        await this.appendLines(lines)
+        lines = ''
+        this.current = { path: this.nextPath(), bytes: 0, openedAt: Date.now() }
+      }
+      lines += line
+      this.current!.bytes += Buffer.byteLength(line)
+    }
+    await this.appendLines(lines)
+  }
+
+  /** The files written so far, oldest first */
+  async files(): Promise<string[]> {
+    if (!existsSync(this.directory)) return []
+    const names = await readdir(this.directory)
+    return names
+      .filter((name) => name.startsWith(`${this.prefix}-`) && name.endsWith('.ndjson'))
+      .sort()
+      .map((name) => join(this.directory, name))
+  }
+
+  /** The file events are currently appended to */
+  get currentFile(): string | undefined {
+    return this.current?.path
+  }
+
+  close(): void {
+    this.current = null
+  }
+
+  private shouldRotate(): boolean {
+    if (!this.current) return true
+    return this.current.bytes >= this.maxBytes || Date.now() - this.current.openedAt >= this.maxAge
+  }
+
+  private async appendLines(lines: string): Promise<void> {
+    if (lines && this.current) await appendFile(this.current.path, lines, 'utf-8')
+  }
+
+  /** A new file name, never reusing an existing file; names sort in the order files were started */
+  private nextPath(): string {
+    const stamp = fileStamp(new Date())
+    let path = ''
+    for (let n = 0; !path || existsSync(path) || path === this.current?.path; n++) {
+      path = join(this.directory, `${this.prefix}-${stamp}-${String(n).padStart(3, '0')}.ndjson`)
+    }
+    return path
+  }
+}
+
+// =============================================================================
+// ColumnarFileSink
+// =============================================================================
+
+/** Value type of a state column: the JSON type of its values, or 'json' for objects, arrays and mixed types */
+export type ColumnType = 'string' | 'number' | 'boolean' | 'json' | 'null'
+
+/**
+ * One columnar file: a page of one entity type's events, stored column by
+ * column. Event columns hold event metadata; state columns hold the fields
+ * of each event's `after` state (null where an event does not set them).
+ */
+export interface ColumnarSegment {
+  entityType: string
+  rows: number
+  events: {
+    $id: string[]
+    $type: string[]
+    entityId: string[]
+    verb: string[]
+    timestamp: string[]
+    sequence: number[]
+    actor: Array<string | null>
+  }
+  schema: Record<string, ColumnType>
+  state: Record<string, unknown[]>
+}
+
+/**
+ * Options for creating a ColumnarFileSink
+ */
+export interface ColumnarFileSinkOptions {
+  /** Directory the per-type directories are written to (default: .headlessly/columnar) */
+  directory?: string
+  /** Sink name, which names its checkpoint (default: 'columnar') */
+  name?: string
+}
+
+/** The column type of a value */
+function columnTypeOf(value: unknown): ColumnType {
+  if (value === null || value === undefined) return 'null'
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return typeof value as ColumnType
+  return 'json'
+}
+
+/** Build a segment from one entity type's events */
+function toSegment(entityType: string, events: NounEvent[]): ColumnarSegment {
+  const fields = new Set<string>()
+  for (const event of events) {
+    for (const field of Object.keys(event.after ?? {})) fields.add(field)
+  }
+
+  const schema: Record<string, ColumnType> = {}
+  const state: Record<string, unknown[]> = {}
+  for (const field of fields) {
+    const values = events.map((event) => event.after?.[field] ?? null)
+    const types = new Set(values.map(columnTypeOf).filter((type) => type !== 'null'))
+    schema[field] = types.size === 0 ? 'null' : types.size === 1 ? [...types][0] : 'json'
+    state[field] = values
+  }
+
+  return {
+    entityType,
+    rows: events.length,
+    events: {
+      $id: events.map((e) => e.$id),
+      $type: events.map((e) => e.$type),
+      entityId: events.map((e) => e.entityId),
+      verb: events.map((e) => e.verb),
+      timestamp: events.map((e) => e.timestamp),
+      sequence: events.map((e) => e.sequence),
+      actor: events.map((e) => e.actor ?? null),
+    },
+    schema,
+    state,
+  }
+}
+
+/**
+ * Write each page of events as one columnar JSON segment per entity type:
+ * `<directory>/<EntityType>/part-<first event timestamp>-<first event ID>.json`.
+ * Segments are written through a temporary file, and a re-sent page
+ * overwrites the segment it wrote before.
+ */
+export class ColumnarFileSink implements CDCSink {
+  readonly name: string
+  readonly directory: string
+
+  constructor(options: ColumnarFileSinkOptions = {}) {
+    this.name = options.name ?? 'columnar'
+    this.directory = options.directory ?? '.headlessly/columnar'
+  }
+
+  async write(events: NounEvent[]): Promise<void> {
+    const byType = new Map<string, NounEvent[]>()
+    for (const event of events) {
+      const group = byType.get(event.entityType)
+      if (group) group.push(event)
+      else byType.set(event.entityType, [event])
+    }
+
+    for (const [entityType, group] of byType) {
+      const dir = join(this.directory, entityType)
+      await mkdir(dir, { recursive: true })
+      const path = join(dir, `part-${fileStamp(group[0].timestamp)}-${group[0].$id}.json`)
+      await writeFile(`${path}.tmp`, JSON.stringify(toSegment(entityType, group)), 'utf-8')
+      await rename(`${path}.tmp`, path)
+    }
+  }
+
+  /** The segment files of an entity type, oldest first */
+  async segments(entityType: string): Promise<string[]> {
+    const dir = join(this.directory, entityType)
+    if (!existsSync(dir)) return []
+    const names = await readdir(dir)
+    const files = names.filter((name) => name.startsWith('part-') && name.endsWith('.json')).sort()
+    return files.map((name) => join(dir, name))
+  }
+}
@@ -3,12 +3,17 @@
  *
  * Wraps @headlessly/sdk with Node.js-specific features:
  * - Auto-reads HEADLESSLY_ENDPOINT, HEADLESSLY_API_KEY, HEADLESSLY_TENANT env vars
- * - Supports mode: 'local' (file-based via LocalNounProvider)
+ * - Supports mode: 'local' (file-based via FileNounProvider)
  * - Supports mode: 'remote' (via RemoteNounProvider / rpc.do)
  * - Supports mode: 'memory' (default in-memory for testing)
  * - Auto-detect: env vars present with endpoint+apiKey → remote, otherwise → memory
  */
 
+import type { NounProvider } from 'digital-objects'
+import { setProvider } from 'digital-objects'
+import { tenantContext } from '@headlessly/objects'
+import { FileNounProvider } from '@headlessly/objects/file'
+
 /**
  * Options for the headlessly() Node.js initialization
  */
@@ -21,7 +26,7 @@ export interface HeadlesslyNodeOptions {
   tenant?: string
   /**
    * Provider mode:
-   * - 'local': File-based storage with LocalNounProvider
+   * - 'local': File-based storage with FileNounProvider
    * - 'remote': Remote via RemoteNounProvider (rpc.do)
    * - 'memory': In-memory (default when no env vars)
    * - undefined: Auto-detect from env vars
@@ -45,6 +50,10 @@ export interface HeadlesslyNodeResult {
   tenant?: string
   /** The resolved API key (if remote) */
   apiKey?: string
+  /** The resolved storage directory (if local) */
+  localPath?: string
+  /** The provider registered with setProvider() (if local) */
+  provider?: NounProvider
 }
 
 /**
@@ -80,7 +89,9 @@ function resolveMode(options: HeadlesslyNodeOptions): 'local' | 'remote' | 'memo
  * - HEADLESSLY_TENANT — Tenant identifier
  *
  * Auto-detects mode: if endpoint + apiKey are available, uses remote.
- * Otherwise defaults to in-memory.
+ * Otherwise defaults to in-memory. In local mode a FileNounProvider at
+ * localPath is registered as the global provider, so entities persist
+ * across processes.
  *
  * @example
  * ```typescript
@@ -107,6 +118,16 @@ export function headlessly(options: HeadlesslyNodeOptions = {}): HeadlesslyNodeR
   const tenant = options.tenant ?? readEnv('HEADLESSLY_TENANT')
   const mode = resolveMode(options)
 
+  if (mode === 'local') {
+    const localPath = options.localPath ?? '.headlessly/'
+    const provider = new FileNounProvider({
+      path: localPath,
+      context: tenant ? tenantContext(tenant) : undefined,
+    })
+    setProvider(provider)
+    return { mode, tenant, localPath, provider }
+  }
+
   return {
     mode,
     endpoint: mode === 'remote' ? endpoint : undefined,
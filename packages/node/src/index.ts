@@ -521,10 +521,19 @@ export { headlessly } from './headlessly.js'
 export type { HeadlesslyNodeOptions, HeadlesslyNodeResult } from './headlessly.js'
 
 export { NDJSONEventPersistence } from './ndjson-events.js'
-export type { PersistedEvent, NDJSONEventPersistenceOptions } from './ndjson-events.js'
+export type { PersistedEvent, NDJSONEventPersistenceOptions, PersistableEventStore, PersistedEventBatch } from './ndjson-events.js'
+
+export { FileCursorStore } from './file-cursor-store.js'
+export type { FileCursorStoreOptions } from './file-cursor-store.js'
+
+export { NDJSONFileSink, ColumnarFileSink } from './file-sinks.js'
+export type { NDJSONFileSinkOptions, ColumnarFileSinkOptions, ColumnarSegment, ColumnType } from './file-sinks.js'
 
 export { createServer } from './server.js'
-export type { CreateServerOptions, ServerEntity } from './server.js'
+export type { CreateServerOptions, ServerEntity, UpsertOutcome } from './server.js'
+
+export { createWebhookReceiver } from './webhook-receiver.js'
+export type { WebhookReceiver, WebhookReceiverOptions, WebhookReceiveResult } from './webhook-receiver.js'
 
 export { sync } from './sync.js'
 export type { SyncOptions, SyncResult, SyncProvider } from './sync.js'
@@ -3,7 +3,8 @@
  *
  * Appends NounEvents to an NDJSON (newline-delimited JSON) file.
  * Each line is a complete JSON object representing one event.
- * Supports reading events back for replay or sync.
+ * Supports reading events back for replay or sync, and persisting the events
+ * of any @headlessly/events EventStore (EventLog or SQLiteEventLog).
  */
 
 import { appendFile, readFile, writeFile } from 'node:fs/promises'
@@ -24,6 +25,26 @@ export interface PersistedEvent {
   before?: Record<string, unknown>
   after?: Record<string, unknown>
   context?: string
+  actor?: string
+  sequence?: number
+}
+
+/**
+ * The parts of an @headlessly/events EventStore (EventLog or SQLiteEventLog)
+ * that persistence reads. Either backend satisfies it structurally.
+ */
+export interface PersistableEventStore {
+  subscribe(pattern: string, handler: (event: PersistedEvent) => void): () => void
+  cdc(options: { after?: string; batchSize?: number }): PersistedEventBatch | Promise<PersistedEventBatch>
+}
+
+/**
+ * One page of events read from an EventStore
+ */
+export interface PersistedEventBatch {
+  events: PersistedEvent[]
+  cursor: string
+  hasMore: boolean
 }
 
 /**
@@ -45,6 +66,9 @@ export interface NDJSONEventPersistenceOptions {
 export class NDJSONEventPersistence {
   readonly path: string
   private _initialized = false
+  /** Appends of attached stores, chained to keep file order */
+  private _writes: Promise<void> = Promise.resolve()
+  private _writeError: unknown
 
   constructor(options: NDJSONEventPersistenceOptions = {}) {
     this.path = options.path ?? '.headlessly/events.ndjson'
@@ -145,4 +169,46 @@ export class NDJSONEventPersistence {
     if (all.length === 0) return undefined
     return all[all.length - 1].timestamp
   }
+
+  /**
+   * Persist every event appended to an EventStore from now on.
+   * Returns a detach function; call flush() to wait for pending writes.
+   */
+  attach(store: PersistableEventStore): () => void {
+    return store.subscribe('*', (event) => {
+      this._writes = this._writes
+        .then(() => this.append(event))
+        .catch((err: unknown) => {
+          this._writeError ??= err
+        })
+    })
+  }
+
+  /**
+   * Wait for the writes of attached stores. Throws the first write error since the last flush.
+   */
+  async flush(): Promise<void> {
+    await this._writes
+    const err = this._writeError
+    this._writeError = undefined
+    if (err !== undefined) throw err
+  }
+
+  /**
+   * Copy an EventStore's events after a CDC cursor (all of them by default) into the file.
+   * Returns the number copied and the cursor to resume from.
+   */
+  async backfill(store: PersistableEventStore, options: { after?: string; batchSize?: number } = {}): Promise<{ count: number; cursor: string }> {
+    let cursor = options.after ?? ''
+    let count = 0
+    let hasMore = true
+    while (hasMore) {
+      const batch = await store.cdc({ after: cursor || undefined, batchSize: options.batchSize ?? 1000 })
+      await this.appendBatch(batch.events)
+      count += batch.events.length
+      hasMore = batch.hasMore && batch.events.length > 0
+      if (batch.events.length > 0) cursor = batch.cursor
+    }
+    return { count, cursor }
+  }
 }
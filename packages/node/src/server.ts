@@ -7,10 +7,22 @@
  *   GET    /api/:type/:id   → get
  *   POST   /api/:type       → create
  *   PUT    /api/:type/:id   → update
+ *   PUT    /api/:type?key=value → upsert keyed on a unique field (201 created, 200 updated)
+ *                                 (400 if the key is not a unique field or matches several entities)
  *   DELETE /api/:type/:id   → delete
  *   POST   /api/:type/:id/:verb → perform custom verb
+ *
+ * Single-entity responses carry an `ETag` of the entity's $version. Sending it
+ * back as `If-Match` on PUT, DELETE or a verb makes the write conditional: if
+ * the entity has changed since, the server answers 412 with the current entity.
+ *
+ * With an `actor` resolver, the request's bearer token is mapped to the user,
+ * agent or API key it belongs to, and writes go through `entity.asActor(actor)`
+ * so their events record who made them.
  */
 
+import { checkUpsertKey, EntityValidationError, formatLabel } from '@headlessly/objects'
+
 /**
  * Entity-like interface for server operations
  * Matches the NounEntity shape from digital-objects
@@ -19,12 +31,32 @@ export interface ServerEntity {
   find(filter?: Record<string, unknown>): Promise<unknown[]>
   get(id: string): Promise<unknown | null>
   create(data: Record<string, unknown>): Promise<unknown>
-  update(id: string, data: Record<string, unknown>): Promise<unknown>
-  delete(id: string): Promise<boolean>
-  perform?(verb: string, id: string, data?: Record<string, unknown>): Promise<unknown>
+  update(id: string, data: Record<string, unknown>, options?: WriteOptions): Promise<unknown>
+  delete(id: string, options?: WriteOptions): Promise<boolean>
+  perform?(verb: string, id: string, data?: Record<string, unknown>, options?: WriteOptions): Promise<unknown>
+  upsert?(match: Record<string, unknown>, data: Record<string, unknown>): Promise<UpsertOutcome>
+  /** A view of this entity whose writes are attributed to `actor` */
+  asActor?(actor: string): ServerEntity
   $type?: string
 }
 
+/**
+ * Result of ServerEntity.upsert
+ */
+export interface UpsertOutcome {
+  instance: unknown
+  /** true if the entity was created, false if an existing one was updated */
+  created: boolean
+}
+
+/**
+ * Write preconditions passed to update, delete and perform when the request has an If-Match header
+ */
+export interface WriteOptions {
+  /** Apply the write only if the entity is still at this $version */
+  ifVersion?: number
+}
+
 /**
  * Options for createServer
  */
@@ -35,6 +67,12 @@ export interface CreateServerOptions {
   basePath?: string
   /** Optional API key for authentication */
   apiKey?: string
+  /**
+   * Resolve a request's bearer token to the actor (user, agent or API key ID)
+   * its writes are attributed to. Requests without a token, or whose token
+   * resolves to undefined, write anonymously.
+   */
+  actor?: (token: string) => string | undefined | Promise<string | undefined>
   /** CORS origin (default: '*') */
   cors?: string | boolean
 }
@@ -47,6 +85,10 @@ interface ParsedRequest {
   pathname: string
   searchParams: URLSearchParams
   body?: Record<string, unknown>
+  /** Raw If-Match header */
+  ifMatch?: string
+  /** Actor resolved from the bearer token */
+  actor?: string
 }
 
 /**
@@ -66,6 +108,66 @@ function parseRoute(pathname: string, basePath: string): string[] {
   return relative.split('/').filter(Boolean)
 }
 
+/**
+ * Parse an If-Match header (`"3"`, `W/"3"` or `3`) into a $version.
+ * Returns undefined for a missing header or `*`, and NaN if it is not a version.
+ */
+function parseIfMatch(header: string | undefined): number | undefined {
+  if (!header || header.trim() === '*') return undefined
+  const tag = header.trim().replace(/^W\//, '').replace(/^"(.*)"$/, '$1')
+  return /^\d+$/.test(tag) ? Number(tag) : NaN
+}
+
+/**
+ * Add an ETag of the entity's $version to the response headers
+ */
+function withETag(headers: Record<string, string>, entity: unknown): Record<string, string> {
+  const version = (entity as { $version?: unknown } | null)?.$version
+  return typeof version === 'number' ? { ...headers, ETag: `"${version}"` } : headers
+}
+
+/**
+ * 412 response for a write whose If-Match no longer matches, with the current entity
+ */
+function preconditionFailed(headers: Record<string, string>, typeName: string, id: string, ifVersion: number, current: unknown): ServerResponse {
+  const version = (current as { $version?: unknown }).$version
+  return {
+    status: 412,
+    headers: withETag(headers, current),
+    body: JSON.stringify({ error: `Version conflict on ${typeName}/${id}: expected version ${ifVersion}, current version is ${version}`, current }),
+  }
+}
+
+/**
+ * Query parameters as a filter, skipping internal `_` params
+ */
+function queryFilter(searchParams: URLSearchParams): Record<string, unknown> {
+  const filter: Record<string, unknown> = {}
+  for (const [key, value] of searchParams) {
+    if (key.startsWith('_')) continue // skip internal params
+    filter[key] = value
+  }
+  return filter
+}
+
+/**
+ * Upsert for entities without their own upsert(): the match must be keyed on
+ * unique (`##`) fields and hit at most one entity, which is updated; otherwise
+ * the entity is created from match + data. Throws EntityValidationError (400)
+ * for any other match.
+ */
+async function upsertByFind(entity: ServerEntity, typeName: string, match: Record<string, unknown>, data: Record<string, unknown>): Promise<UpsertOutcome> {
+  checkUpsertKey(typeName, match)
+  const matches = (await entity.find(match)) as Array<{ $id: string }>
+  if (matches.length > 1) {
+    const errors = Object.fromEntries(Object.keys(match).map((field) => [field, `${formatLabel(field)} matches ${matches.length} ${typeName} entities`]))
+    throw new EntityValidationError(typeName, errors)
+  }
+  const [existing] = matches
+  if (existing) return { instance: await entity.update(existing.$id, data), created: false }
+  return { instance: await entity.create({ ...data, ...match }), created: true }
+}
+
 /**
  * Handle a single REST request against the entity registry
  */
@@ -84,7 +186,8 @@ async function handleRequest(req: ParsedRequest, options: CreateServerOptions):
   if (options.cors) {
     headers['Access-Control-Allow-Origin'] = typeof options.cors === 'string' ? options.cors : '*'
     headers['Access-Control-Allow-Methods'] = 'GET, POST, PUT, DELETE, OPTIONS'
-    headers['Access-Control-Allow-Headers'] = 'Content-Type, Authorization'
+    headers['Access-Control-Allow-Headers'] = 'Content-Type, Authorization, If-Match'
+    headers['Access-Control-Expose-Headers'] = 'ETag'
   }
 
   if (segments.length === 0) {
@@ -97,9 +200,9 @@ async function handleRequest(req: ParsedRequest, options: CreateServerOptions):
   }
 
   const typeName = segments[0]
-  const entity = options.entities[typeName]
+  const registered = options.entities[typeName]
 
-  if (!entity) {
+  if (!registered) {
     return {
       status: 404,
       headers,
@@ -107,26 +210,41 @@ async function handleRequest(req: ParsedRequest, options: CreateServerOptions):
     }
   }
 
+  const entity = req.actor && registered.asActor ? registered.asActor(req.actor) : registered
   const id = segments[1]
   const verb = segments[2]
 
+  const ifVersion = parseIfMatch(req.ifMatch)
+  if (ifVersion !== undefined && Number.isNaN(ifVersion)) {
+    return { status: 400, headers, body: JSON.stringify({ error: `Invalid If-Match header: ${req.ifMatch}` }) }
+  }
+  const writeOptions: WriteOptions | undefined = ifVersion !== undefined ? { ifVersion } : undefined
+
   try {
+    // If-Match: check the precondition before writing. Entities that accept
+    // WriteOptions also re-check it atomically with the write.
+    if (ifVersion !== undefined && id && req.method !== 'GET') {
+      const current = await entity.get(id)
+      if (!current) {
+        return { status: 404, headers, body: JSON.stringify({ error: `${typeName} not found: ${id}` }) }
+      }
+      if ((current as { $version?: unknown }).$version !== ifVersion) {
+        return preconditionFailed(headers, typeName, id, ifVersion, current)
+      }
+    }
+
     // POST /api/:type/:id/:verb → perform custom verb
     if (req.method === 'POST' && id && verb) {
       if (!entity.perform) {
         return { status: 405, headers, body: JSON.stringify({ error: 'Custom verbs not supported' }) }
       }
-      const result = await entity.perform(verb, id, req.body)
-      return { status: 200, headers, body: JSON.stringify(result) }
+      const result = writeOptions ? await entity.perform(verb, id, req.body, writeOptions) : await entity.perform(verb, id, req.body)
+      return { status: 200, headers: withETag(headers, result), body: JSON.stringify(result) }
     }
 
     // GET /api/:type → find
     if (req.method === 'GET' && !id) {
-      const filter: Record<string, unknown> = {}
-      for (const [key, value] of req.searchParams) {
-        if (key.startsWith('_')) continue // skip internal params
-        filter[key] = value
-      }
+      const filter = queryFilter(req.searchParams)
       const results = await entity.find(Object.keys(filter).length > 0 ? filter : undefined)
       return { status: 200, headers, body: JSON.stringify(results) }
     }
@@ -137,7 +255,7 @@ async function handleRequest(req: ParsedRequest, options: CreateServerOptions):
       if (!result) {
         return { status: 404, headers, body: JSON.stringify({ error: `${typeName} not found: ${id}` }) }
       }
-      return { status: 200, headers, body: JSON.stringify(result) }
+      return { status: 200, headers: withETag(headers, result), body: JSON.stringify(result) }
     }
 
     // POST /api/:type → create
@@ -146,7 +264,20 @@ async function handleRequest(req: ParsedRequest, options: CreateServerOptions):
         return { status: 400, headers, body: JSON.stringify({ error: 'Request body required' }) }
       }
       const result = await entity.create(req.body)
-      return { status: 201, headers, body: JSON.stringify(result) }
+      return { status: 201, headers: withETag(headers, result), body: JSON.stringify(result) }
+    }
+
+    // PUT /api/:type?key=value → upsert. Entities without upsert() fall back to find + update/create.
+    if (req.method === 'PUT' && !id) {
+      if (!req.body) {
+        return { status: 400, headers, body: JSON.stringify({ error: 'Request body required' }) }
+      }
+      const match = queryFilter(req.searchParams)
+      if (Object.keys(match).length === 0) {
+        return { status: 400, headers, body: JSON.stringify({ error: 'Upsert requires a match, e.g. ?email=alice@acme.co' }) }
+      }
+      const { instance, created } = entity.upsert ? await entity.upsert(match, req.body) : await upsertByFind(entity, entity.$type ?? typeName, match, req.body)
+      return { status: created ? 201 : 200, headers: withETag(headers, instance), body: JSON.stringify(instance) }
     }
 
     // PUT /api/:type/:id → update
@@ -154,13 +285,13 @@ async function handleRequest(req: ParsedRequest, options: CreateServerOptions):
       if (!req.body) {
         return { status: 400, headers, body: JSON.stringify({ error: 'Request body required' }) }
       }
-      const result = await entity.update(id, req.body)
-      return { status: 200, headers, body: JSON.stringify(result) }
+      const result = writeOptions ? await entity.update(id, req.body, writeOptions) : await entity.update(id, req.body)
+      return { status: 200, headers: withETag(headers, result), body: JSON.stringify(result) }
     }
 
     // DELETE /api/:type/:id → delete
     if (req.method === 'DELETE' && id) {
-      const success = await entity.delete(id)
+      const success = writeOptions ? await entity.delete(id, writeOptions) : await entity.delete(id)
       if (!success) {
         return { status: 404, headers, body: JSON.stringify({ error: `${typeName} not found: ${id}` }) }
       }
@@ -169,6 +300,13 @@ async function handleRequest(req: ParsedRequest, options: CreateServerOptions):
 
     return { status: 405, headers, body: JSON.stringify({ error: 'Method not allowed' }) }
   } catch (err) {
+    // ConflictError from a provider that checked the precondition itself
+    if (ifVersion !== undefined && id && err instanceof Error && err.name === 'ConflictError' && 'current' in err) {
+      return preconditionFailed(headers, typeName, id, ifVersion, err.current)
+    }
+    if (err instanceof EntityValidationError) {
+      return { status: 400, headers, body: JSON.stringify({ error: err.message, errors: err.errors }) }
+    }
     const message = err instanceof Error ? err.message : String(err)
     return { status: 500, headers, body: JSON.stringify({ error: message }) }
   }
@@ -226,7 +364,7 @@ export function createServer(options: CreateServerOptions) {
         if (options.cors) {
           headers['Access-Control-Allow-Origin'] = typeof options.cors === 'string' ? options.cors : '*'
           headers['Access-Control-Allow-Methods'] = 'GET, POST, PUT, DELETE, OPTIONS'
-          headers['Access-Control-Allow-Headers'] = 'Content-Type, Authorization'
+          headers['Access-Control-Allow-Headers'] = 'Content-Type, Authorization, If-Match'
         }
         res.writeHead(204, headers)
         res.end()
@@ -235,9 +373,9 @@ export function createServer(options: CreateServerOptions) {
     }
 
     // Auth check
+    const authHeader = (req.headers as Record<string, string>)?.authorization || (req.headers as Record<string, string>)?.Authorization || ''
+    const token = authHeader.replace('Bearer ', '')
     if (options.apiKey) {
-      const authHeader = (req.headers as Record<string, string>)?.authorization || (req.headers as Record<string, string>)?.Authorization || ''
-      const token = authHeader.replace('Bearer ', '')
       if (token !== options.apiKey) {
         if (res.writeHead && res.end) {
           res.writeHead(401, { 'Content-Type': 'application/json' })
@@ -256,6 +394,8 @@ export function createServer(options: CreateServerOptions) {
       pathname,
       searchParams: url.searchParams,
       body: req.body as Record<string, unknown> | undefined,
+      ifMatch: (req.headers as Record<string, string> | undefined)?.['if-match'] ?? (req.headers as Record<string, string> | undefined)?.['If-Match'],
+      actor: token && options.actor ? await options.actor(token) : undefined,
     }
 
     const response = await handleRequest(parsed, options)
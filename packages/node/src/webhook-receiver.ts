@@ -0,0 +1,179 @@
+/**
+ * createWebhookReceiver — receive @headlessly/events webhooks
+ *
+ * Verifies the timestamped X-Headlessly-Signature against the raw body,
+ * parses the payload into the typed EntityEvent union, drops events already
+ * received (webhooks are delivered at least once, so retries can repeat an
+ * event), and routes each event to the handlers whose pattern matches its
+ * $type. A handler error answers 500 so the sender retries the delivery.
+ *
+ *   const receiver = createWebhookReceiver({ secret: process.env.WEBHOOK_SECRET })
+ *   receiver.on('Deal.closed', async (event) => { ... })
+ *   app.post('/hooks', receiver.express())      // Express
+ *   app.post('/hooks', receiver.hono())         // Hono
+ */
+
+import { matchesPattern, verifyWebhook } from '@headlessly/events'
+import type { AnyEventHandler, EntityEvent, TypedSubscribe } from '@headlessly/events'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface WebhookReceiverOptions {
+  /** The subscription's signing secret */
+  secret: string
+  /** How far a signature's timestamp may be from now, in milliseconds (default: 5 minutes) */
+  tolerance?: number
+  /** Handlers by event pattern (`'Contact.*'`, `'*.created'`, `'Deal.closed'`) */
+  handlers?: Record<string, AnyEventHandler>
+  /** How many recent event IDs are remembered to drop duplicates (default: 10000) */
+  dedupeSize?: number
+}
+
+/** The outcome of receiving one webhook request */
+export interface WebhookReceiveResult {
+  status: number
+  body: {
+    received: boolean
+    /** The event was already received and was not handled again */
+    duplicate?: boolean
+    /** Number of handlers the event was routed to */
+    handled?: number
+    error?: string
+  }
+}
+
+export interface WebhookReceiver {
+  /** Route events matching a pattern to a handler. Returns an unsubscribe function. */
+  on: TypedSubscribe
+  /** Verify, parse, dedupe and route a raw request body */
+  handle(payload: string, signature: string | null | undefined): Promise<WebhookReceiveResult>
+  /** Express request handler. Mount after `express.raw()` or `express.text()`, or before any body parser. */
+  express(): (req: ExpressWebhookRequest, res: ExpressWebhookResponse, next?: () => void | Promise<void>) => Promise<void>
+  /** Hono request handler */
+  hono(): (c: { req: { text(): Promise<string>; header(name: string): string | undefined } }) => Promise<Response>
+}
+
+interface ExpressWebhookRequest {
+  headers: Record<string, string | string[] | undefined>
+  /** Raw body (Buffer or string), or the parsed JSON when a JSON body parser ran first */
+  body?: unknown
+  rawBody?: unknown
+}
+
+interface ExpressWebhookResponse {
+  status?: (code: number) => { json: (data: unknown) => void }
+  writeHead?: (status: number, headers?: Record<string, string>) => void
+  end?: (body?: string) => void
+}
+
+/** Header carrying the delivery's signature */
+const SIGNATURE_HEADER = 'x-headlessly-signature'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Whether a parsed payload has the fields every entity event carries */
+function isEntityEvent(value: unknown): value is EntityEvent {
+  if (!value || typeof value !== 'object') return false
+  const event = value as Record<string, unknown>
+  return ['$id', '$type', 'entityType', 'verb', 'timestamp'].every((field) => typeof event[field] === 'string')
+}
+
+/** The raw body of an Express request: a raw/text parser's output, or the unread stream */
+async function readExpressBody(req: ExpressWebhookRequest): Promise<string> {
+  const body = req.rawBody ?? req.body
+  if (typeof body === 'string') return body
+  if (body instanceof Uint8Array) return new TextDecoder().decode(body)
+  // Parsed by express.json(): re-serialize, which matches what the sender signed
+  if (body && typeof body === 'object' && Object.keys(body).length > 0) return JSON.stringify(body)
+  if (Symbol.asyncIterator in req) {
+    const chunks: Uint8Array[] = []
+    for await (const chunk of req as unknown as AsyncIterable<Uint8Array | string>) {
+      chunks.push(typeof chunk === 'string' ? new TextEncoder().encode(chunk) : chunk)
+    }
+    return Buffer.concat(chunks).toString('utf-8')
+  }
+  return ''
+}
+
+// =============================================================================
+// createWebhookReceiver
+// =============================================================================
+
+/**
+ * Create a webhook receiver for deliveries signed with `secret`
+ */
+export function createWebhookReceiver(options: WebhookReceiverOptions): WebhookReceiver {
+  const routes: Array<{ pattern: string; handler: AnyEventHandler }> = Object.entries(options.handlers ?? {}).map(([pattern, handler]) => ({ pattern, handler }))
+  const dedupeSize = options.dedupeSize ?? 10000
+  /** Recently received event IDs, oldest first */
+  const seen = new Set<string>()
+
+  function on(pattern: string, handler: AnyEventHandler): () => void {
+    const route = { pattern, handler }
+    routes.push(route)
+    return () => {
+      const index = routes.indexOf(route)
+      if (index !== -1) routes.splice(index, 1)
+    }
+  }
+
+  async function handle(payload: string, signature: string | null | undefined): Promise<WebhookReceiveResult> {
+    if (!(await verifyWebhook(payload, signature, options.secret, { tolerance: options.tolerance }))) {
+      return { status: 401, body: { received: false, error: 'Invalid signature' } }
+    }
+
+    let event: unknown
+    try {
+      event = JSON.parse(payload)
+    } catch {
+      return { status: 400, body: { received: false, error: 'Invalid JSON' } }
+    }
+    if (!isEntityEvent(event)) {
+      return { status: 400, body: { received: false, error: 'Invalid event' } }
+    }
+
+    if (seen.has(event.$id)) return { status: 200, body: { received: true, duplicate: true } }
+    seen.add(event.$id)
+    if (seen.size > dedupeSize) seen.delete(seen.values().next().value!)
+
+    const matching = routes.filter((route) => matchesPattern(route.pattern, event.$type))
+    try {
+      for (const route of matching) await route.handler(event)
+    } catch (err) {
+      // Forget the event so the sender's retry is handled again
+      seen.delete(event.$id)
+      return { status: 500, body: { received: false, error: err instanceof Error ? err.message : String(err) } }
+    }
+    return { status: 200, body: { received: true, handled: matching.length } }
+  }
+
+  return {
+    on: on as TypedSubscribe,
+    handle,
+
+    express() {
+      return async function webhookReceiver(req, res) {
+        const header = req.headers[SIGNATURE_HEADER]
+        const result = await handle(await readExpressBody(req), Array.isArray(header) ? header[0] : header)
+
+        if (res.writeHead && res.end) {
+          res.writeHead(result.status, { 'Content-Type': 'application/json' })
+          res.end(JSON.stringify(result.body))
+        } else if (res.status) {
+          res.status(result.status).json(result.body)
+        }
+      }
+    },
+
+    hono() {
+      return async function webhookReceiver(c) {
+        const result = await handle(await c.req.text(), c.req.header(SIGNATURE_HEADER))
+        return new Response(JSON.stringify(result.body), { status: result.status, headers: { 'Content-Type': 'application/json' } })
+      }
+    },
+  }
+}
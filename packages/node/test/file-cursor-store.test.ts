@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, existsSync } from 'node:fs'
+import { readFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { CDCStream, EventLog } from '@headlessly/events'
+import { FileCursorStore } from '../src/file-cursor-store.js'
+
+function eventInput(entityId: string) {
+  return {
+    $type: 'Contact.created',
+    entityType: 'Contact',
+    entityId,
+    verb: 'create',
+    conjugation: { action: 'create', activity: 'creating', event: 'created' },
+  }
+}
+
+describe('FileCursorStore', () => {
+  let tempDir: string
+  let path: string
+  let log: EventLog
+
+  beforeEach(async () => {
+    tempDir = mkdtempSync(join(tmpdir(), 'headlessly-test-'))
+    path = join(tempDir, 'state', 'cdc-consumers.json')
+    log = new EventLog()
+    for (let i = 1; i <= 4; i++) await log.append(eventInput(`c${i}`))
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  it('persists consumer cursors so lag survives a restart', async () => {
+    const cdc = new CDCStream(log, { cursors: new FileCursorStore({ path }) })
+    const consumer = cdc.createConsumer('warehouse')
+    await consumer.poll({ batchSize: 3 })
+    await consumer.checkpoint()
+
+    expect(JSON.parse(await readFile(path, 'utf-8'))).toEqual({ warehouse: { cursor: expect.stringMatching(/^evt_/) } })
+    expect(existsSync(`${path}.tmp`)).toBe(false)
+
+    const restarted = new CDCStream(log, { cursors: new FileCursorStore({ path }) })
+    expect(await restarted.lag('warehouse')).toBe(1)
+  })
+
+  it('persists consumer group leases', async () => {
+    const group = new CDCStream(log, { cursors: new FileCursorStore({ path }) }).group('indexer', { batchSize: 2 })
+    const [c1] = await group.receive('worker-1')
+    await group.ack([c1.$id])
+
+    const restarted = new CDCStream(log, { cursors: new FileCursorStore({ path }) }).group('indexer', { batchSize: 2 })
+    expect(await restarted.cursor()).toBe(c1.$id)
+    expect((await restarted.inFlight()).map((entry) => entry.member)).toEqual(['worker-1'])
+    expect((await restarted.receive('worker-2')).map((e) => e.entityId)).toEqual(['c3', 'c4'])
+
+    await new CDCStream(log, { cursors: new FileCursorStore({ path }) }).removeConsumer('indexer')
+    expect(JSON.parse(await readFile(path, 'utf-8'))).toEqual({})
+  })
+})
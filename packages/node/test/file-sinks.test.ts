@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { readFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { CDCStream, EventLog } from '@headlessly/events'
+import { FileCursorStore } from '../src/file-cursor-store.js'
+import { ColumnarFileSink, NDJSONFileSink } from '../src/file-sinks.js'
+import type { ColumnarSegment } from '../src/file-sinks.js'
+
+function eventInput(entityType: string, entityId: string, verb: string, after?: Record<string, unknown>) {
+  const eventForm = verb.endsWith('e') ? `${verb}d` : `${verb}ed`
+  return {
+    $type: `${entityType}.${eventForm}`,
+    entityType,
+    entityId,
+    verb,
+    conjugation: { action: verb, activity: `${verb}ing`, event: eventForm },
+    after,
+  }
+}
+
+async function readLines(path: string): Promise<Array<{ entityId: string }>> {
+  const content = await readFile(path, 'utf-8')
+  return content
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => JSON.parse(line))
+}
+
+describe('CDC file sinks', () => {
+  let tempDir: string
+  let log: EventLog
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'headlessly-test-'))
+    log = new EventLog()
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  it('NDJSONFileSink rotates files by size and resumes after a restart', async () => {
+    for (let i = 1; i <= 5; i++) await log.append(eventInput('Contact', `c${i}`, 'create', { name: `Contact ${i}` }))
+    const directory = join(tempDir, 'cdc')
+    const cursors = join(tempDir, 'cdc-consumers.json')
+    const sink = new NDJSONFileSink({ directory, maxBytes: 600 })
+
+    await new CDCStream(log, { cursors: new FileCursorStore({ path: cursors }) }).pipe(sink).run()
+    const files = await sink.files()
+    expect(files.length).toBeGreaterThan(1)
+    const written = (await Promise.all(files.map(readLines))).flat()
+    expect(written.map((e) => e.entityId)).toEqual(['c1', 'c2', 'c3', 'c4', 'c5'])
+
+    // A restarted sink starts a new file with only the new events
+    await log.append(eventInput('Contact', 'c6', 'create'))
+    const restarted = new NDJSONFileSink({ directory, maxBytes: 600 })
+    await new CDCStream(log, { cursors: new FileCursorStore({ path: cursors }) }).pipe(restarted).run()
+    expect(await readLines(restarted.currentFile!)).toMatchObject([{ entityId: 'c6' }])
+    expect((await restarted.files()).length).toBe(files.length + 1)
+  })
+
+  it('NDJSONFileSink rotates files by age', async () => {
+    const sink = new NDJSONFileSink({ directory: join(tempDir, 'cdc'), maxAge: 0 })
+    const cdc = new CDCStream(log)
+    await log.append(eventInput('Contact', 'c1', 'create'))
+    await cdc.pipe(sink).run()
+    await log.append(eventInput('Contact', 'c2', 'create'))
+    await cdc.pipe(sink).run()
+    expect((await sink.files()).length).toBe(2)
+  })
+
+  it('ColumnarFileSink writes one columnar segment per entity type and page', async () => {
+    await log.append(eventInput('Contact', 'c1', 'create', { name: 'Alice', score: 10 }))
+    await log.append(eventInput('Deal', 'd1', 'create', { value: 5000 }))
+    await log.append(eventInput('Contact', 'c2', 'create', { name: 'Bob', tags: ['vip'] }))
+    await log.append(eventInput('Contact', 'c1', 'delete'))
+    const sink = new ColumnarFileSink({ directory: join(tempDir, 'columnar') })
+
+    await new CDCStream(log).pipe(sink).run()
+    const [contactFile] = await sink.segments('Contact')
+    const segment = JSON.parse(await readFile(contactFile, 'utf-8')) as ColumnarSegment
+
+    expect(segment.rows).toBe(3)
+    expect(segment.events.entityId).toEqual(['c1', 'c2', 'c1'])
+    expect(segment.events.verb).toEqual(['create', 'create', 'delete'])
+    expect(segment.schema).toEqual({ name: 'string', score: 'number', tags: 'json' })
+    expect(segment.state).toEqual({ name: ['Alice', 'Bob', null], score: [10, null, null], tags: [null, ['vip'], null] })
+    expect(await sink.segments('Deal')).toHaveLength(1)
+  })
+
+  it('ColumnarFileSink overwrites the segment of a re-sent page', async () => {
+    await log.append(eventInput('Contact', 'c1', 'create', { name: 'Alice' }))
+    const sink = new ColumnarFileSink({ directory: join(tempDir, 'columnar') })
+    const events = await log.query({})
+
+    await sink.write(events)
+    await sink.write(events)
+    expect(await sink.segments('Contact')).toHaveLength(1)
+  })
+})
@@ -1,11 +1,17 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { getProvider } from 'digital-objects'
 import { headlessly } from '../src/headlessly.js'
 import type { HeadlesslyNodeOptions } from '../src/headlessly.js'
 
 describe('headlessly() — Node-specific initialization', () => {
   const originalEnv = { ...process.env }
+  let localPath: string
 
   beforeEach(() => {
+    localPath = mkdtempSync(join(tmpdir(), 'headlessly-test-'))
     // Clean env vars before each test
     delete process.env.HEADLESSLY_ENDPOINT
     delete process.env.HEADLESSLY_API_KEY
@@ -15,6 +21,7 @@ describe('headlessly() — Node-specific initialization', () => {
   afterEach(() => {
     // Restore original env
     process.env = { ...originalEnv }
+    rmSync(localPath, { recursive: true, force: true })
   })
 
   // =========================================================================
@@ -63,7 +70,7 @@ describe('headlessly() — Node-specific initialization', () => {
     })
 
     it('uses local mode when explicitly specified', () => {
-      const result = headlessly({ mode: 'local' })
+      const result = headlessly({ mode: 'local', localPath })
       expect(result.mode).toBe('local')
     })
 
@@ -90,7 +97,7 @@ describe('headlessly() — Node-specific initialization', () => {
       process.env.HEADLESSLY_ENDPOINT = 'https://db.headless.ly'
       process.env.HEADLESSLY_API_KEY = 'hly_sk_test123'
 
-      const result = headlessly({ mode: 'local' })
+      const result = headlessly({ mode: 'local', localPath })
       expect(result.mode).toBe('local')
     })
   })
@@ -162,7 +169,7 @@ describe('headlessly() — Node-specific initialization', () => {
     })
 
     it('local mode result has no endpoint or apiKey', () => {
-      const result = headlessly({ mode: 'local', tenant: 'test' })
+      const result = headlessly({ mode: 'local', tenant: 'test', localPath })
       expect(result.endpoint).toBeUndefined()
       expect(result.apiKey).toBeUndefined()
     })
@@ -178,6 +185,42 @@ describe('headlessly() — Node-specific initialization', () => {
     })
   })
 
+  // =========================================================================
+  // Local mode
+  // =========================================================================
+
+  describe('local mode', () => {
+    it('registers a FileNounProvider at localPath as the global provider', () => {
+      const result = headlessly({ mode: 'local', localPath })
+      expect(result.localPath).toBe(localPath)
+      expect(result.provider).toBeDefined()
+      expect(getProvider()).toBe(result.provider)
+    })
+
+    it('persists entities across instances', async () => {
+      const first = headlessly({ mode: 'local', localPath })
+      const created = await first.provider!.create('Contact', { name: 'Alice' })
+
+      const second = headlessly({ mode: 'local', localPath })
+      expect(second.provider).not.toBe(first.provider)
+      expect(await second.provider!.get('Contact', created.$id)).toMatchObject({ name: 'Alice' })
+    })
+
+    it('scopes local entities to the tenant', async () => {
+      const acme = headlessly({ mode: 'local', tenant: 'acme', localPath })
+      const created = await acme.provider!.create('Contact', { name: 'Alice' })
+
+      const other = headlessly({ mode: 'local', tenant: 'other', localPath })
+      expect(await other.provider!.get('Contact', created.$id)).toBeNull()
+    })
+
+    it('accepts a tenant given as a full context URL', async () => {
+      const result = headlessly({ mode: 'local', tenant: 'https://crm.acme.co/~sales', localPath })
+      const created = await result.provider!.create('Contact', { name: 'Alice' })
+      expect(created.$context).toBe('https://crm.acme.co/~sales')
+    })
+  })
+
   // =========================================================================
   // No-arg call
   // =========================================================================
@@ -5,6 +5,7 @@ import { mkdtempSync, rmSync, existsSync } from 'node:fs'
 import { join } from 'node:path'
 import { tmpdir } from 'node:os'
 import { readFile } from 'node:fs/promises'
+import { EventLog } from '@headlessly/events'
 
 describe('NDJSONEventPersistence', () => {
   let tempDir: string
@@ -311,4 +312,44 @@ describe('NDJSONEventPersistence', () => {
       expect(p.path).toBe('/tmp/custom.ndjson')
     })
   })
+
+  // =========================================================================
+  // Event stores
+  // =========================================================================
+
+  describe('event stores', () => {
+    function input(entityId: string, verb: string, after?: Record<string, unknown>) {
+      return { $type: `Contact.${verb}d`, entityType: 'Contact', entityId, verb, conjugation: { action: verb, activity: `${verb}ing`, event: `${verb}d` }, after }
+    }
+
+    it('attach() persists events appended to the store', async () => {
+      const log = new EventLog()
+      const detach = persistence.attach(log)
+      await log.append(input('contact_1', 'create', { name: 'Alice' }))
+      await log.append(input('contact_1', 'update', { name: 'Alicia' }))
+      await persistence.flush()
+      detach()
+      await log.append(input('contact_2', 'create'))
+      await persistence.flush()
+
+      const events = await persistence.readAll()
+      expect(events.map((e) => [e.entityId, e.sequence, e.after])).toEqual([
+        ['contact_1', 1, { name: 'Alice' }],
+        ['contact_1', 2, { name: 'Alicia' }],
+      ])
+    })
+
+    it('backfill() copies existing events in pages and resumes from the cursor', async () => {
+      const log = new EventLog()
+      for (let i = 0; i < 5; i++) await log.append(input(`contact_${i}`, 'create'))
+
+      const first = await persistence.backfill(log, { batchSize: 2 })
+      expect(first.count).toBe(5)
+      await log.append(input('contact_5', 'create'))
+      const second = await persistence.backfill(log, { after: first.cursor })
+      expect(second.count).toBe(1)
+
+      expect((await persistence.readAll()).map((e) => e.entityId)).toEqual(['contact_0', 'contact_1', 'contact_2', 'contact_3', 'contact_4', 'contact_5'])
+    })
+  })
 })
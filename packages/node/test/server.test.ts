@@ -1,4 +1,5 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Noun } from 'digital-objects'
 import { createServer } from '../src/server.js'
 import type { ServerEntity, CreateServerOptions } from '../src/server.js'
 
@@ -243,6 +244,58 @@ describe('createServer — REST API middleware', () => {
     })
   })
 
+  describe('PUT /api/:type?key=value — upsert', () => {
+    Noun('Contact', { name: 'string', email: 'string##', stage: 'Lead | Qualified' })
+
+    it('creates with 201, then updates the matching entity with 200', async () => {
+      const create = createMockRes()
+      await middleware({ method: 'PUT', url: '/api/Contact?email=alice@acme.co', path: '/api/Contact', body: { name: 'Alice' } }, create)
+      expect(create.getStatus()).toBe(201)
+      expect(create.getParsedBody()).toMatchObject({ email: 'alice@acme.co', name: 'Alice' })
+
+      const update = createMockRes()
+      await middleware({ method: 'PUT', url: '/api/Contact?email=alice@acme.co', path: '/api/Contact', body: { stage: 'Lead' } }, update)
+      expect(update.getStatus()).toBe(200)
+      expect(update.getParsedBody()).toMatchObject({ $id: create.getParsedBody().$id, name: 'Alice', stage: 'Lead' })
+      expect(contactEntity._store.size).toBe(1)
+    })
+
+    it("uses the entity's own upsert when it has one", async () => {
+      contactEntity.upsert = vi.fn(async (match: Record<string, unknown>, data: Record<string, unknown>) => ({ instance: { $id: 'contact_9', ...match, ...data }, created: false }))
+
+      const res = createMockRes()
+      await middleware({ method: 'PUT', url: '/api/Contact?email=alice@acme.co', path: '/api/Contact', body: { stage: 'Lead' } }, res)
+      expect(res.getStatus()).toBe(200)
+      expect(contactEntity.upsert).toHaveBeenCalledWith({ email: 'alice@acme.co' }, { stage: 'Lead' })
+    })
+
+    it('returns 400 for a match on a field that is not unique', async () => {
+      const res = createMockRes()
+      await middleware({ method: 'PUT', url: '/api/Contact?name=Alice', path: '/api/Contact', body: { stage: 'Lead' } }, res)
+      expect(res.getStatus()).toBe(400)
+      expect(res.getParsedBody().errors).toEqual({ name: 'Name is not a unique field of Contact' })
+      expect(contactEntity._store.size).toBe(0)
+    })
+
+    it('returns 400 when the match hits several entities', async () => {
+      await contactEntity.create({ email: 'alice@acme.co', name: 'Alice' })
+      await contactEntity.create({ email: 'alice@acme.co', name: 'Alice B.' })
+
+      const res = createMockRes()
+      await middleware({ method: 'PUT', url: '/api/Contact?email=alice@acme.co', path: '/api/Contact', body: { stage: 'Lead' } }, res)
+      expect(res.getStatus()).toBe(400)
+      expect(res.getParsedBody().error).toContain('matches 2 Contact entities')
+      expect([...contactEntity._store.values()].map((c) => c.stage)).toEqual([undefined, undefined])
+    })
+
+    it('returns 400 without a match', async () => {
+      const res = createMockRes()
+      await middleware({ method: 'PUT', url: '/api/Contact', path: '/api/Contact', body: { name: 'Alice' } }, res)
+      expect(res.getStatus()).toBe(400)
+      expect(res.getParsedBody().error).toContain('match')
+    })
+  })
+
   describe('DELETE /api/:type/:id — delete', () => {
     it('deletes an entity and returns 200', async () => {
       const created = (await contactEntity.create({ name: 'Alice' })) as { $id: string }
@@ -427,6 +480,30 @@ describe('createServer — REST API middleware', () => {
 
       expect(res.getStatus()).toBe(401)
     })
+
+    it('writes as the actor resolved from the Bearer token', async () => {
+      const actors: string[] = []
+      const mw = createServer({
+        entities: {
+          Contact: {
+            ...contactEntity,
+            asActor: (actor: string) => {
+              actors.push(actor)
+              return contactEntity
+            },
+          },
+        },
+        actor: async (token) => (token === 'hly_sk_agent' ? 'agent_mR4nVkTw' : undefined),
+      })
+
+      const body = { name: 'Alice' }
+      await mw({ method: 'POST', url: '/api/Contact', path: '/api/Contact', body, headers: { authorization: 'Bearer hly_sk_agent' } }, createMockRes())
+      await mw({ method: 'POST', url: '/api/Contact', path: '/api/Contact', body, headers: { authorization: 'Bearer hly_sk_other' } }, createMockRes())
+      await mw({ method: 'POST', url: '/api/Contact', path: '/api/Contact', body, headers: {} }, createMockRes())
+
+      expect(actors).toEqual(['agent_mR4nVkTw'])
+      expect(contactEntity._store.size).toBe(3)
+    })
   })
 
   // =========================================================================
@@ -476,4 +553,91 @@ describe('createServer — REST API middleware', () => {
       expect(res.getStatus()).toBe(405)
     })
   })
+
+  // =========================================================================
+  // Optimistic concurrency
+  // =========================================================================
+
+  describe('If-Match', () => {
+    let versioned: ServerEntity & { _store: Map<string, Record<string, unknown>> }
+
+    beforeEach(() => {
+      const base = createMockEntity('Deal')
+      versioned = {
+        ...base,
+        async create(data: Record<string, unknown>) {
+          return base.create({ ...data, $version: 1 })
+        },
+        async update(id: string, data: Record<string, unknown>) {
+          const existing = base._store.get(id)!
+          return base.update(id, { ...data, $version: (existing.$version as number) + 1 })
+        },
+      }
+      middleware = createServer({ entities: { Deal: versioned } })
+    })
+
+    it('returns the $version as an ETag', async () => {
+      const deal = (await versioned.create({ name: 'Big' })) as { $id: string }
+      const res = createMockRes()
+      await middleware({ method: 'GET', url: `/api/Deal/${deal.$id}`, path: `/api/Deal/${deal.$id}` }, res)
+
+      expect(res.getHeaders().ETag).toBe('"1"')
+    })
+
+    it('applies the write when the version matches', async () => {
+      const deal = (await versioned.create({ name: 'Big' })) as { $id: string }
+      const req = { method: 'PUT', url: `/api/Deal/${deal.$id}`, path: `/api/Deal/${deal.$id}`, body: { stage: 'Won' }, headers: { 'if-match': '"1"' } }
+      const res = createMockRes()
+      await middleware(req, res)
+
+      expect(res.getStatus()).toBe(200)
+      expect(res.getHeaders().ETag).toBe('"2"')
+    })
+
+    it('returns 412 with the current entity when the version is stale', async () => {
+      const deal = (await versioned.create({ name: 'Big' })) as { $id: string }
+      await versioned.update(deal.$id, { stage: 'Open' })
+
+      const req = { method: 'PUT', url: `/api/Deal/${deal.$id}`, path: `/api/Deal/${deal.$id}`, body: { stage: 'Won' }, headers: { 'if-match': 'W/"1"' } }
+      const res = createMockRes()
+      await middleware(req, res)
+
+      expect(res.getStatus()).toBe(412)
+      expect(res.getParsedBody().current).toMatchObject({ stage: 'Open', $version: 2 })
+      expect(versioned._store.get(deal.$id)!.stage).toBe('Open')
+    })
+
+    it('guards deletes', async () => {
+      const deal = (await versioned.create({ name: 'Big' })) as { $id: string }
+      await versioned.update(deal.$id, { stage: 'Open' })
+
+      const res = createMockRes()
+      await middleware({ method: 'DELETE', url: `/api/Deal/${deal.$id}`, path: `/api/Deal/${deal.$id}`, headers: { 'if-match': '1' } }, res)
+
+      expect(res.getStatus()).toBe(412)
+      expect(versioned._store.has(deal.$id)).toBe(true)
+    })
+
+    it('maps a ConflictError from the entity to 412', async () => {
+      const deal = (await versioned.create({ name: 'Big' })) as { $id: string }
+      versioned.update = async () => {
+        const current = { ...versioned._store.get(deal.$id), $version: 5 }
+        throw Object.assign(new Error('Version conflict'), { name: 'ConflictError', current })
+      }
+
+      const req = { method: 'PUT', url: `/api/Deal/${deal.$id}`, path: `/api/Deal/${deal.$id}`, body: { stage: 'Won' }, headers: { 'if-match': '"1"' } }
+      const res = createMockRes()
+      await middleware(req, res)
+
+      expect(res.getStatus()).toBe(412)
+      expect(res.getParsedBody().current.$version).toBe(5)
+    })
+
+    it('rejects malformed If-Match headers', async () => {
+      const res = createMockRes()
+      await middleware({ method: 'DELETE', url: '/api/Deal/deal_1', path: '/api/Deal/deal_1', headers: { 'if-match': '"abc"' } }, res)
+
+      expect(res.getStatus()).toBe(400)
+    })
+  })
 })
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { createServer } from 'node:http'
+import type { Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { EventLog, SubscriptionManager, signWebhook } from '@headlessly/events'
+import type { EntityEvent } from '@headlessly/events'
+import { createWebhookReceiver } from '../src/webhook-receiver.js'
+import type { WebhookReceiver } from '../src/webhook-receiver.js'
+
+const SECRET = 'whsec_test'
+
+function eventInput(entityType: string, entityId: string, verb: string) {
+  const eventForm = verb.endsWith('e') ? `${verb}d` : `${verb}ed`
+  return {
+    $type: `${entityType}.${eventForm}`,
+    entityType,
+    entityId,
+    verb,
+    conjugation: { action: verb, activity: `${verb}ing`, event: eventForm },
+  }
+}
+
+/** A Hono context over a Fetch API Request */
+function honoContext(request: Request) {
+  return { req: { text: () => request.text(), header: (name: string) => request.headers.get(name) ?? undefined } }
+}
+
+describe('@headlessly/node — webhook receiver', () => {
+  let log: EventLog
+  let receiver: WebhookReceiver
+  let received: EntityEvent[]
+
+  beforeEach(() => {
+    log = new EventLog()
+    received = []
+    receiver = createWebhookReceiver({ secret: SECRET, handlers: { 'Contact.*': (event) => void received.push(event) } })
+  })
+
+  it('verifies, parses and routes events by pattern', async () => {
+    const deals: string[] = []
+    receiver.on('Deal.closed', (event) => void deals.push(event.$type))
+    const contact = await log.append(eventInput('Contact', 'contact_1', 'create'))
+    const deal = await log.append(eventInput('Deal', 'deal_1', 'close'))
+
+    for (const event of [contact, deal]) {
+      const payload = JSON.stringify(event)
+      expect(await receiver.handle(payload, await signWebhook(payload, SECRET))).toEqual({ status: 200, body: { received: true, handled: 1 } })
+    }
+    expect(received.map((e) => e.$id)).toEqual([contact.$id])
+    expect(deals).toEqual(['Deal.closed'])
+  })
+
+  it('rejects bad signatures, stale timestamps and malformed payloads', async () => {
+    const payload = JSON.stringify(await log.append(eventInput('Contact', 'contact_1', 'create')))
+    const stale = await signWebhook(payload, SECRET, new Date(Date.now() - 10 * 60 * 1000))
+
+    expect((await receiver.handle(payload, await signWebhook(payload, 'whsec_other'))).status).toBe(401)
+    expect((await receiver.handle(payload, stale)).status).toBe(401)
+    expect((await receiver.handle(payload, undefined)).status).toBe(401)
+    expect(await receiver.handle('{"hello":1}', await signWebhook('{"hello":1}', SECRET))).toEqual({ status: 400, body: { received: false, error: 'Invalid event' } })
+    expect(received).toHaveLength(0)
+  })
+
+  it('drops duplicate deliveries, but handles a retry after a handler failed', async () => {
+    let failures = 1
+    receiver.on('Contact.*', () => {
+      if (failures-- > 0) throw new Error('Database unavailable')
+    })
+    const payload = JSON.stringify(await log.append(eventInput('Contact', 'contact_1', 'create')))
+
+    expect(await receiver.handle(payload, await signWebhook(payload, SECRET))).toEqual({ status: 500, body: { received: false, error: 'Database unavailable' } })
+    expect(await receiver.handle(payload, await signWebhook(payload, SECRET))).toEqual({ status: 200, body: { received: true, handled: 2 } })
+    expect(await receiver.handle(payload, await signWebhook(payload, SECRET))).toEqual({ status: 200, body: { received: true, duplicate: true } })
+    expect(received).toHaveLength(2)
+  })
+
+  it('serves as a Hono handler', async () => {
+    const payload = JSON.stringify(await log.append(eventInput('Contact', 'contact_1', 'create')))
+    const request = new Request('http://localhost/hooks', { method: 'POST', body: payload, headers: { 'X-Headlessly-Signature': await signWebhook(payload, SECRET) } })
+
+    const response = await receiver.hono()(honoContext(request))
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ received: true, handled: 1 })
+  })
+
+  describe('as Express-style middleware behind SubscriptionManager', () => {
+    let server: Server
+    let endpoint: string
+
+    beforeEach(async () => {
+      const handler = receiver.express()
+      server = createServer((req, res) => void handler(req as never, res))
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+      endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`
+    })
+
+    afterEach(async () => {
+      server.closeAllConnections()
+      await new Promise<void>((resolve) => server.close(() => resolve()))
+    })
+
+    it('receives signed deliveries end to end', async () => {
+      const manager = new SubscriptionManager()
+      manager.registerWebhook('*', endpoint, SECRET)
+      const event = await log.append(eventInput('Contact', 'contact_1', 'create'))
+
+      expect(await manager.dispatch(event)).toEqual({ delivered: 1, failed: 0 })
+      expect(await manager.dispatch(event)).toEqual({ delivered: 1, failed: 0 })
+      expect(received.map((e) => e.$id)).toEqual([event.$id]) // redelivery deduped
+
+      manager.registerWebhook('*', endpoint, 'whsec_wrong', { retry: { maxAttempts: 1 } })
+      expect(await manager.dispatch(await log.append(eventInput('Contact', 'contact_2', 'create')))).toEqual({ delivered: 1, failed: 1 })
+      expect(manager.webhooks.list({ status: 'dead' })[0].attempts[0].error).toBe('HTTP 401')
+    })
+  })
+})
@@ -0,0 +1,39 @@
+/**
+ * Actors — who performed a write
+ *
+ * Every NounEvent can name the user, agent or API key that caused it. Providers
+ * that record actors hand out views bound to one actor; every write through
+ * the view, and every event it emits, carries that actor:
+ *
+ *   const agent = provider.asActor('agent_mR4nVkTw')
+ *   await agent.update('Deal', deal.$id, { stage: 'Won' }) // event.actor === 'agent_mR4nVkTw'
+ */
+
+import type { NounProvider } from 'digital-objects'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A NounProvider that can attribute writes to an actor
+ */
+export interface ActorScopedProvider extends NounProvider {
+  /** A view of this provider whose writes and events carry `actor` */
+  asActor(actor: string): NounProvider
+}
+
+/**
+ * Whether a provider supports asActor()
+ */
+export function isActorScoped(provider: NounProvider): provider is ActorScopedProvider {
+  return typeof (provider as Partial<ActorScopedProvider>).asActor === 'function'
+}
+
+/**
+ * The provider acting as `actor`, or the provider itself when there is no
+ * actor or it cannot attribute writes
+ */
+export function actingAs(provider: NounProvider, actor: string | undefined): NounProvider {
+  return actor && isActorScoped(provider) ? provider.asActor(actor) : provider
+}
@@ -0,0 +1,53 @@
+/**
+ * Audit — field-level change history through a NounProvider
+ *
+ * Providers backed by an event log answer "who changed Deal.value, and when"
+ * with audit(): one FieldChange per changed field, with actor, verb and
+ * timestamp, filtered by entity, field, actor and time range.
+ *
+ *   await provider.audit({ entityType: 'Deal', entityId: deal.$id, field: 'value' })
+ *
+ * LocalNounProvider indexes its EventLog with an AuditLog from
+ * @headlessly/events; DONounProvider asks the Durable Object.
+ */
+
+import type { NounProvider } from 'digital-objects'
+import { AuditLog } from '@headlessly/events'
+import type { AuditQuery, AuditSource, FieldChange } from '@headlessly/events'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A NounProvider that can answer audit queries
+ */
+export interface AuditableProvider extends NounProvider {
+  audit(query: AuditQuery): Promise<FieldChange[]>
+}
+
+/**
+ * Whether a provider supports audit()
+ */
+export function isAuditable(provider: NounProvider): provider is AuditableProvider {
+  return typeof (provider as Partial<AuditableProvider>).audit === 'function'
+}
+
+// =============================================================================
+// Shared indexes
+// =============================================================================
+
+const audits = new WeakMap<AuditSource, AuditLog>()
+
+/**
+ * The AuditLog indexing an event log, created on first use and shared by every
+ * provider (and tenant view) writing to that log
+ */
+export function auditLogFor(source: AuditSource): AuditLog {
+  let audit = audits.get(source)
+  if (!audit) {
+    audit = new AuditLog(source)
+    audits.set(source, audit)
+  }
+  return audit
+}
@@ -0,0 +1,168 @@
+/**
+ * Bulk writes — createMany, updateMany and deleteMany
+ *
+ * Bulk operations are not atomic: each item is written on its own, emits its
+ * own event, and may fail without affecting the others. Failures are reported
+ * per item in `BulkResult.errors`:
+ *
+ *   const { items, errors } = await createMany(provider, 'Contact', rows)
+ *   for (const { index, message } of errors) console.warn(`row ${index}: ${message}`)
+ *
+ * Providers that implement BulkProvider (LocalNounProvider, DONounProvider)
+ * handle bulk calls natively — DONounProvider sends items to the DO in chunks
+ * rather than one round trip per item. Any other NounProvider falls back to
+ * one call per item.
+ */
+
+import type { NounProvider, NounInstance } from 'digital-objects'
+import { EntityValidationError } from './validation.js'
+import type { ValidationErrors } from './validation.js'
+import { findMatching } from './filter.js'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A bulk item that failed
+ */
+export interface BulkItemError {
+  /** Position in the input (createMany) or in the matched entities (updateMany, deleteMany) */
+  index: number
+  /** Entity id, when the item had one */
+  id?: string
+  /** Why the item failed */
+  message: string
+  /** Field-level errors when the item failed validation */
+  errors?: ValidationErrors
+}
+
+/**
+ * Outcome of a bulk operation
+ */
+export interface BulkResult<T = NounInstance> {
+  /** Items that succeeded, in input order */
+  items: T[]
+  /** Items that failed */
+  errors: BulkItemError[]
+}
+
+/**
+ * A NounProvider with native bulk writes
+ */
+export interface BulkProvider extends NounProvider {
+  createMany(type: string, items: Record<string, unknown>[]): Promise<BulkResult>
+  updateMany(type: string, filter: Record<string, unknown>, patch: Record<string, unknown>): Promise<BulkResult>
+  /** Resolves with the ids of the deleted entities */
+  deleteMany(type: string, filter: Record<string, unknown>): Promise<BulkResult<string>>
+}
+
+/** Default number of items sent per RPC call by remote providers */
+export const DEFAULT_BULK_CHUNK_SIZE = 100
+
+/**
+ * Whether a provider implements bulk writes natively
+ */
+export function isBulkProvider(provider: NounProvider): provider is BulkProvider {
+  const bulk = provider as Partial<BulkProvider>
+  return typeof bulk.createMany === 'function' && typeof bulk.updateMany === 'function' && typeof bulk.deleteMany === 'function'
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Describe a failed item, keeping field-level errors from EntityValidationError
+ */
+export function toBulkItemError(err: unknown, index: number, id?: string): BulkItemError {
+  const error: BulkItemError = { index, message: err instanceof Error ? err.message : String(err) }
+  if (id !== undefined) error.id = id
+  if (err instanceof EntityValidationError) error.errors = err.errors
+  return error
+}
+
+/**
+ * Run `write` for each input in order, collecting results and per-item failures
+ */
+export async function eachItem<T, R>(inputs: T[], write: (input: T) => Promise<R>, idOf?: (input: T) => string | undefined): Promise<BulkResult<R>> {
+  const result: BulkResult<R> = { items: [], errors: [] }
+  for (const [index, input] of inputs.entries()) {
+    try {
+      result.items.push(await write(input))
+    } catch (err) {
+      result.errors.push(toBulkItemError(err, index, idOf?.(input)))
+    }
+  }
+  return result
+}
+
+/**
+ * Send items to a remote bulk endpoint `size` at a time. Error indexes from
+ * each chunk are shifted to input positions; a chunk whose call fails outright
+ * reports every one of its items as failed.
+ */
+export async function sendInChunks<T, R>(inputs: T[], size: number, send: (chunk: T[]) => Promise<BulkResult<R>>): Promise<BulkResult<R>> {
+  const result: BulkResult<R> = { items: [], errors: [] }
+  const step = Math.max(1, Math.floor(size))
+  for (let start = 0; start < inputs.length; start += step) {
+    const chunk = inputs.slice(start, start + step)
+    try {
+      const sent = await send(chunk)
+      result.items.push(...sent.items)
+      result.errors.push(...sent.errors.map((error) => ({ ...error, index: error.index + start })))
+    } catch (err) {
+      result.errors.push(...chunk.map((_, offset) => toBulkItemError(err, start + offset)))
+    }
+  }
+  return result
+}
+
+// =============================================================================
+// Provider integration
+// =============================================================================
+
+/**
+ * Create many entities on any NounProvider
+ */
+export async function createMany(provider: NounProvider, type: string, items: Record<string, unknown>[]): Promise<BulkResult> {
+  if (isBulkProvider(provider)) return provider.createMany(type, items)
+  return eachItem(items, (data) => provider.create(type, data))
+}
+
+/**
+ * Apply the same patch to every entity matching a filter, on any NounProvider
+ */
+export async function updateMany(provider: NounProvider, type: string, filter: Record<string, unknown>, patch: Record<string, unknown>): Promise<BulkResult> {
+  if (isBulkProvider(provider)) return provider.updateMany(type, filter, patch)
+  const matches = await findMatching(provider, type, filter)
+  return eachItem(
+    matches,
+    (instance) => provider.update(type, instance.$id, patch),
+    (instance) => instance.$id,
+  )
+}
+
+/**
+ * Delete every entity matching a filter, on any NounProvider. Resolves with the deleted ids.
+ */
+export async function deleteMany(provider: NounProvider, type: string, filter: Record<string, unknown>): Promise<BulkResult<string>> {
+  if (isBulkProvider(provider)) return provider.deleteMany(type, filter)
+  const matches = await findMatching(provider, type, filter)
+  return deleteEach(matches, (id) => provider.delete(type, id))
+}
+
+/**
+ * Delete matched entities one by one. An entity already gone (deleted by an
+ * earlier cascade, or concurrently) is reported as a failure.
+ */
+export async function deleteEach(matches: NounInstance[], remove: (id: string) => Promise<boolean>): Promise<BulkResult<string>> {
+  return eachItem(
+    matches,
+    async (instance) => {
+      if (!(await remove(instance.$id))) throw new Error(`${instance.$type} not found: ${instance.$id}`)
+      return instance.$id
+    },
+    (instance) => instance.$id,
+  )
+}
@@ -0,0 +1,257 @@
+/**
+ * Computed fields — formulas and rollups that the provider keeps current
+ *
+ * A Noun can declare fields whose values are derived rather than written:
+ *
+ *   defineComputed('Organization', {
+ *     lifetimeValue: rollup({ via: 'deals', field: 'value', where: { stage: 'Won' }, aggregate: 'sum' }),
+ *     dealCount: rollup({ via: 'deals' }),
+ *   })
+ *   defineComputed('Deal', {
+ *     weightedValue: formula((deal) => ((deal.value as number) ?? 0) * ((deal.probability as number) ?? 0) / 100),
+ *   })
+ *
+ * - formula: a function of the entity's own fields, recomputed on every write
+ * - rollup: an aggregate over the entities that reference this one. `via` names a
+ *   back-reference (`deals: '<- Deal.organization[]'`) or a forward relationship
+ *   given as '{Type}.{field}' (e.g. 'Lead.campaign')
+ *
+ * LocalNounProvider recomputes rollups when a referencing entity is created,
+ * updated, deleted or restored, and rejects writes that set a computed field.
+ */
+
+import type { NounInstance } from 'digital-objects'
+import { getNounSchema } from 'digital-objects'
+import type { Filter } from './filter.js'
+import { EntityValidationError, formatLabel } from './validation.js'
+import type { ValidationErrors } from './validation.js'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** How a rollup combines the values of the referencing entities */
+export type RollupAggregate = 'count' | 'sum' | 'avg' | 'min' | 'max'
+
+/**
+ * A field computed from the entity's own fields
+ */
+export interface FormulaField {
+  kind: 'formula'
+  compute: (entity: Record<string, unknown>) => unknown
+}
+
+/**
+ * A field aggregated over the entities that reference this one
+ */
+export interface RollupField {
+  kind: 'rollup'
+  /** Back-reference field on this type, or '{Type}.{field}' of a forward relationship pointing here */
+  via: string
+  /** Field of the referencing entities to aggregate (not needed for count) */
+  field?: string
+  /** Only aggregate referencing entities matching this filter */
+  where?: Filter
+  aggregate: RollupAggregate
+}
+
+export type ComputedField = FormulaField | RollupField
+
+/**
+ * A rollup with its relationship resolved
+ */
+export interface ResolvedRollup extends RollupField {
+  /** Type holding the rollup */
+  type: string
+  /** Name of the rollup field */
+  name: string
+  /** Type of the referencing entities */
+  sourceType: string
+  /** Forward relationship field on the referencing entities */
+  sourceField: string
+  /** Whether the forward relationship stores an array of IDs */
+  isArray: boolean
+}
+
+/** Looks up entities of a type matching a filter, in the caller's storage and tenant */
+export type ComputedLookup = (type: string, where: Record<string, unknown>) => Promise<NounInstance[]>
+
+// =============================================================================
+// Declarations
+// =============================================================================
+
+/**
+ * A formula over the entity's own fields
+ */
+export function formula(compute: (entity: Record<string, unknown>) => unknown): FormulaField {
+  return { kind: 'formula', compute }
+}
+
+/**
+ * An aggregate over referencing entities (default aggregate: count)
+ */
+export function rollup(options: { via: string; field?: string; where?: Filter; aggregate?: RollupAggregate }): RollupField {
+  const aggregate = options.aggregate ?? 'count'
+  if (aggregate !== 'count' && !options.field) {
+    throw new Error(`A ${aggregate} rollup over '${options.via}' needs a field to aggregate`)
+  }
+  return { kind: 'rollup', via: options.via, field: options.field, where: options.where, aggregate }
+}
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+const computed = new Map<string, Record<string, ComputedField>>()
+
+/**
+ * Declare the computed fields of a Noun type, replacing any previous declaration
+ */
+export function defineComputed(type: string, fields: Record<string, ComputedField>): Record<string, ComputedField> {
+  const declared = { ...fields }
+  computed.set(type, declared)
+  return declared
+}
+
+/**
+ * Get the computed fields declared for a Noun type
+ */
+export function getComputedFields(type: string): Record<string, ComputedField> | undefined {
+  return computed.get(type)
+}
+
+/**
+ * Whether a field of a Noun type is computed
+ */
+export function isComputedField(type: string, field: string): boolean {
+  return computed.get(type)?.[field] !== undefined
+}
+
+/**
+ * Remove all computed field declarations (for tests)
+ */
+export function clearComputedFields(): void {
+  computed.clear()
+}
+
+// =============================================================================
+// Relationships
+// =============================================================================
+
+/**
+ * Resolve which entities a rollup aggregates. Schemas are read at call time,
+ * so rollups can be declared before the Nouns they reference.
+ */
+export function resolveRollup(type: string, name: string, field: RollupField): ResolvedRollup {
+  let sourceType: string | undefined
+  let sourceField: string | undefined
+  const dot = field.via.indexOf('.')
+  if (dot > 0) {
+    sourceType = field.via.slice(0, dot)
+    sourceField = field.via.slice(dot + 1)
+  } else {
+    const rel = getNounSchema(type)?.relationships.get(field.via)
+    if (rel?.operator === '<-') {
+      sourceType = rel.targetType
+      sourceField = rel.backref
+    }
+  }
+  if (!sourceType || !sourceField) {
+    throw new Error(`${type}.${name}: '${field.via}' is not a back-reference of ${type}`)
+  }
+  const isArray = getNounSchema(sourceType)?.relationships.get(sourceField)?.isArray ?? false
+  return { ...field, type, name, sourceType, sourceField, isArray }
+}
+
+/**
+ * Every rollup, on any type, that aggregates entities of `sourceType`.
+ * Rollups whose relationship cannot be resolved yet are skipped.
+ */
+export function rollupsOver(sourceType: string): ResolvedRollup[] {
+  const rollups: ResolvedRollup[] = []
+  for (const [type, fields] of computed) {
+    for (const [name, field] of Object.entries(fields)) {
+      if (field.kind !== 'rollup') continue
+      try {
+        const resolved = resolveRollup(type, name, field)
+        if (resolved.sourceType === sourceType) rollups.push(resolved)
+      } catch {
+        // Reported when the rollup's own entity is computed
+      }
+    }
+  }
+  return rollups
+}
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+/**
+ * Reject data that sets computed fields. Throws EntityValidationError naming each one.
+ */
+export function checkComputedWrite(type: string, data: Record<string, unknown> | undefined): void {
+  const fields = computed.get(type)
+  if (!fields || !data) return
+  const errors: ValidationErrors = {}
+  for (const key of Object.keys(data)) {
+    if (fields[key]) errors[key] = `${formatLabel(key)} is computed and cannot be set`
+  }
+  if (Object.keys(errors).length > 0) {
+    throw new EntityValidationError(type, errors)
+  }
+}
+
+/**
+ * Combine rollup values. Non-numeric values are skipped; empty sum is 0, empty avg/min/max is null.
+ */
+export function aggregateValues(aggregate: RollupAggregate, values: unknown[]): number | null {
+  if (aggregate === 'count') return values.length
+  const numbers = values.filter((v): v is number => typeof v === 'number' && !Number.isNaN(v))
+  switch (aggregate) {
+    case 'sum':
+      return numbers.reduce((total, n) => total + n, 0)
+    case 'avg':
+      return numbers.length > 0 ? numbers.reduce((total, n) => total + n, 0) / numbers.length : null
+    case 'min':
+      return numbers.length > 0 ? Math.min(...numbers) : null
+    case 'max':
+      return numbers.length > 0 ? Math.max(...numbers) : null
+  }
+}
+
+/**
+ * Values of an entity's formula fields, in declaration order (so a formula can
+ * use an earlier one). Formulas see the entity's stored rollup values.
+ */
+export function computeFormulas(instance: NounInstance): Record<string, unknown> {
+  const fields = computed.get(instance.$type)
+  if (!fields) return {}
+
+  const entity: Record<string, unknown> = { ...instance }
+  const values: Record<string, unknown> = {}
+  for (const [name, field] of Object.entries(fields)) {
+    if (field.kind !== 'formula') continue
+    entity[name] = values[name] = field.compute(entity)
+  }
+  return values
+}
+
+/**
+ * Current values of all an entity's computed fields: rollups first, then
+ * formulas over the result. Returns an empty object for types without computed fields.
+ */
+export async function computeFields(instance: NounInstance, lookup: ComputedLookup): Promise<Record<string, unknown>> {
+  const fields = computed.get(instance.$type)
+  if (!fields) return {}
+
+  const values: Record<string, unknown> = {}
+  for (const [name, field] of Object.entries(fields)) {
+    if (field.kind !== 'rollup') continue
+    const rollup = resolveRollup(instance.$type, name, field)
+    const reference = { [rollup.sourceField]: rollup.isArray ? { $contains: instance.$id } : instance.$id }
+    const sources = await lookup(rollup.sourceType, rollup.where ? { $and: [reference, rollup.where] } : reference)
+    values[name] = aggregateValues(rollup.aggregate, rollup.aggregate === 'count' ? sources : sources.map((s) => s[rollup.field!]))
+  }
+  return { ...values, ...computeFormulas({ ...instance, ...values }) }
+}
@@ -0,0 +1,52 @@
+/**
+ * Optimistic concurrency — $version preconditions for writes
+ *
+ * update(), perform() and delete() accept a trailing WriteOptions. When
+ * `ifVersion` is set, the write only applies if the entity's current
+ * `$version` matches; otherwise a ConflictError carrying the current entity is
+ * thrown, so the caller can merge and retry:
+ *
+ *   const deal = await provider.get('Deal', id)
+ *   await provider.update('Deal', id, { stage: 'Won' }, { ifVersion: deal.$version })
+ */
+
+import type { NounInstance } from 'digital-objects'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Preconditions for update, perform and delete
+ */
+export interface WriteOptions {
+  /** Apply the write only if the entity is still at this $version */
+  ifVersion?: number
+}
+
+/**
+ * Error thrown when a write's `ifVersion` does not match the entity's current $version
+ */
+export class ConflictError extends Error {
+  constructor(
+    public readonly type: string,
+    public readonly id: string,
+    public readonly expectedVersion: number,
+    public readonly current: NounInstance,
+  ) {
+    super(`Version conflict on ${type}/${id}: expected version ${expectedVersion}, current version is ${current.$version}`)
+    this.name = 'ConflictError'
+  }
+}
+
+// =============================================================================
+// Checks
+// =============================================================================
+
+/**
+ * Throw a ConflictError if `options.ifVersion` is set and differs from the entity's $version
+ */
+export function checkVersion(existing: NounInstance, options?: WriteOptions): void {
+  if (options?.ifVersion === undefined || existing.$version === options.ifVersion) return
+  throw new ConflictError(existing.$type, existing.$id, options.ifVersion, { ...existing })
+}
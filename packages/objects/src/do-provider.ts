@@ -9,6 +9,18 @@
 import type { NounProvider, NounInstance } from 'digital-objects'
 import { RPC } from 'rpc.do'
 import type { RPCProxy, RPCOptions } from 'rpc.do'
+import { hasFindOptions, paginate } from './query.js'
+import type { FindOptions, FindPage } from './query.js'
+import { TransactionBuffer } from './transaction.js'
+import { ConflictError } from './concurrency.js'
+import type { WriteOptions } from './concurrency.js'
+import type { DeleteOptions, GetOptions, RestorableProvider } from './trash.js'
+import { DEFAULT_BULK_CHUNK_SIZE, sendInChunks } from './bulk.js'
+import type { BulkItemError, BulkProvider, BulkResult } from './bulk.js'
+import type { TransactionalProvider, TransactionRpc } from './transaction.js'
+import type { UpsertProvider, UpsertResult } from './upsert.js'
+import type { AuditableProvider } from './audit.js'
+import type { AuditQuery, FieldChange } from '@headlessly/events'
 
 /**
  * Pluralize a word (matches @dotdo/api convention)
@@ -61,6 +73,8 @@ export interface DONounProviderOptions {
    * by capnweb's microtask-level session sharing.
    */
   batching?: { windowMs?: number; maxBatchSize?: number }
+  /** Items sent per RPC call by createMany() (defaults to 100) */
+  bulkChunkSize?: number
 }
 
 /**
@@ -77,6 +91,15 @@ export class DOProviderError extends Error {
   }
 }
 
+/**
+ * Normalize a raw bulk response. A bare array means every item succeeded.
+ */
+function toBulkResult<T>(raw: unknown, map: (item: unknown) => T): BulkResult<T> {
+  if (Array.isArray(raw)) return { items: raw.map(map), errors: [] }
+  const { items, errors } = (raw ?? {}) as { items?: unknown[]; errors?: BulkItemError[] }
+  return { items: (items ?? []).map(map), errors: errors ?? [] }
+}
+
 /**
  * Normalize a raw object into a NounInstance shape
  */
@@ -102,16 +125,18 @@ function toNounInstance(raw: unknown): NounInstance {
  * - $.contacts.get('contact_abc')
  * - $.contacts.update('contact_abc', { ... })
  */
-export class DONounProvider implements NounProvider {
+export class DONounProvider implements TransactionalProvider, RestorableProvider, BulkProvider, UpsertProvider, AuditableProvider {
   private context: string
   private rpcUrl: string
   private rpcOptions: RPCOptions
-  private _rpc: RPCProxy<Record<string, unknown>>
+  private _rpc: RPCProxy<Record<string, unknown> & TransactionRpc>
+  private bulkChunkSize: number
   public readonly endpoint: string
 
   constructor(options: DONounProviderOptions) {
     this.context = options.context ?? 'https://headless.ly'
     this.endpoint = options.endpoint
+    this.bulkChunkSize = options.bulkChunkSize ?? DEFAULT_BULK_CHUNK_SIZE
 
     // Build capnweb URL and options
     const rpcOptions: RPCOptions = {}
@@ -141,7 +166,7 @@ export class DONounProvider implements NounProvider {
     // session (enabling automatic batching); sequential callers get fresh
     // sessions automatically. Creating separate RPC() instances per call
     // defeated this batching entirely.
-    this._rpc = RPC(this.rpcUrl, this.rpcOptions) as RPCProxy<Record<string, unknown>>
+    this._rpc = RPC(this.rpcUrl, this.rpcOptions) as RPCProxy<Record<string, unknown> & TransactionRpc>
 
     // If timer-based batching is requested, upgrade the transport asynchronously.
     // This wraps the transport with withBatching middleware to collect
@@ -175,7 +200,7 @@ export class DONounProvider implements NounProvider {
         windowMs: batchOpts.windowMs ?? 10,
         maxBatchSize: batchOpts.maxBatchSize ?? 100,
       })
-      this._rpc = RPC(batchedTransport, this.rpcOptions) as RPCProxy<Record<string, unknown>>
+      this._rpc = RPC(batchedTransport, this.rpcOptions) as RPCProxy<Record<string, unknown> & TransactionRpc>
     } catch {
       // rpc.do/middleware not available — fall back to default session sharing
     }
@@ -199,7 +224,7 @@ export class DONounProvider implements NounProvider {
    * while sequential awaits get fresh sessions via the transport's
    * sessionPromise reset in its `finally` block.
    */
-  private rpc(): RPCProxy<Record<string, unknown>> {
+  private rpc(): RPCProxy<Record<string, unknown> & TransactionRpc> {
     return this._rpc
   }
 
@@ -211,43 +236,72 @@ export class DONounProvider implements NounProvider {
     return toNounInstance(result)
   }
 
-  async get(type: string, id: string): Promise<NounInstance | null> {
+  async get(type: string, id: string, options?: GetOptions): Promise<NounInstance | null> {
     await this.ensureReady()
     const collection = toCollectionName(type)
     const ns = this.rpc()[collection] as Record<string, (...args: unknown[]) => Promise<unknown>>
-    const result = await ns.get(id)
+    const result = options?.includeDeleted ? await ns.get(id, options) : await ns.get(id)
     if (!result) return null
     return toNounInstance(result)
   }
 
-  async find(type: string, where?: Record<string, unknown>): Promise<NounInstance[]> {
+  async find(type: string, where?: Record<string, unknown>, options?: FindOptions): Promise<NounInstance[]> {
+    return (await this.findPage(type, where, options)).items
+  }
+
+  /**
+   * Find one page of matches. Sort, limit, offset, cursor, and select are sent
+   * to the DO; if it answers with a bare array (no pagination support), they
+   * are applied locally instead.
+   */
+  async findPage(type: string, where?: Record<string, unknown>, options?: FindOptions): Promise<FindPage> {
     await this.ensureReady()
     const collection = toCollectionName(type)
     const ns = this.rpc()[collection] as Record<string, (...args: unknown[]) => Promise<unknown>>
-    const result = await ns.find(where ?? {})
+    const result = hasFindOptions(options) ? await ns.find(where ?? {}, options) : await ns.find(where ?? {})
     // Capnweb returns { data: [...], meta: {...} } — extract the data array
     if (result && typeof result === 'object' && 'data' in (result as Record<string, unknown>)) {
-      const items = (result as Record<string, unknown>).data as unknown[]
-      return Array.isArray(items) ? items.map(toNounInstance) : []
+      const data = (result as Record<string, unknown>).data as unknown[]
+      const meta = ((result as Record<string, unknown>).meta ?? {}) as { total?: unknown; nextCursor?: unknown }
+      const items = Array.isArray(data) ? data.map(toNounInstance) : []
+      return {
+        items,
+        total: typeof meta.total === 'number' ? meta.total : items.length,
+        nextCursor: typeof meta.nextCursor === 'string' ? meta.nextCursor : undefined,
+      }
+    }
+    if (Array.isArray(result)) {
+      return paginate((result as unknown[]).map(toNounInstance), options)
     }
-    if (Array.isArray(result)) return (result as unknown[]).map(toNounInstance)
-    return []
+    return { items: [], total: 0 }
   }
 
-  async update(type: string, id: string, data: Record<string, unknown>): Promise<NounInstance> {
+  /**
+   * Update an entity. With `options.ifVersion`, the precondition is sent to the
+   * DO and a version mismatch is raised as a ConflictError.
+   */
+  async update(type: string, id: string, data: Record<string, unknown>, options?: WriteOptions): Promise<NounInstance> {
     await this.ensureReady()
     const collection = toCollectionName(type)
     const ns = this.rpc()[collection] as Record<string, (...args: unknown[]) => Promise<unknown>>
-    const result = await ns.update(id, data)
-    return toNounInstance(result)
+    try {
+      const result = options?.ifVersion !== undefined ? await ns.update(id, data, options) : await ns.update(id, data)
+      return toNounInstance(result)
+    } catch (err) {
+      throw await this.toConflictError(err, type, id, options)
+    }
   }
 
-  async delete(type: string, id: string): Promise<boolean> {
+  async delete(type: string, id: string, options?: DeleteOptions): Promise<boolean> {
     await this.ensureReady()
     const collection = toCollectionName(type)
     const ns = this.rpc()[collection] as Record<string, (...args: unknown[]) => Promise<unknown>>
-    const result = await ns.delete(id)
-    return result !== false
+    try {
+      const result = options?.ifVersion !== undefined || options?.permanent ? await ns.delete(id, options) : await ns.delete(id)
+      return result !== false
+    } catch (err) {
+      throw await this.toConflictError(err, type, id, options)
+    }
   }
 
   async findOne(type: string, where?: Record<string, unknown>): Promise<NounInstance | null> {
@@ -255,6 +309,80 @@ export class DONounProvider implements NounProvider {
     return results[0] ?? null
   }
 
+  /**
+   * Create many entities, sent to the DO `bulkChunkSize` at a time instead of
+   * one call per item. The DO reports failures per item; a chunk whose call
+   * fails outright reports all of its items as failed.
+   */
+  async createMany(type: string, items: Record<string, unknown>[]): Promise<BulkResult> {
+    await this.ensureReady()
+    const collection = toCollectionName(type)
+    const ns = this.rpc()[collection] as Record<string, (...args: unknown[]) => Promise<unknown>>
+    return sendInChunks(items, this.bulkChunkSize, async (chunk) => toBulkResult(await ns.createMany(chunk), toNounInstance))
+  }
+
+  /**
+   * Apply the same patch to every entity matching a filter, in one call evaluated by the DO
+   */
+  async updateMany(type: string, filter: Record<string, unknown>, patch: Record<string, unknown>): Promise<BulkResult> {
+    await this.ensureReady()
+    const collection = toCollectionName(type)
+    const ns = this.rpc()[collection] as Record<string, (...args: unknown[]) => Promise<unknown>>
+    return toBulkResult(await ns.updateMany(filter, patch), toNounInstance)
+  }
+
+  /**
+   * Delete every entity matching a filter, in one call evaluated by the DO. Resolves with the deleted ids.
+   */
+  async deleteMany(type: string, filter: Record<string, unknown>): Promise<BulkResult<string>> {
+    await this.ensureReady()
+    const collection = toCollectionName(type)
+    const ns = this.rpc()[collection] as Record<string, (...args: unknown[]) => Promise<unknown>>
+    return toBulkResult(await ns.deleteMany(filter), String)
+  }
+
+  /**
+   * Create or update an entity keyed on unique fields. The DO checks the key
+   * against its schema and resolves the match in one call.
+   */
+  async upsert(type: string, match: Record<string, unknown>, data: Record<string, unknown>): Promise<UpsertResult> {
+    await this.ensureReady()
+    const collection = toCollectionName(type)
+    const ns = this.rpc()[collection] as Record<string, (...args: unknown[]) => Promise<unknown>>
+    const result = (await ns.upsert(match, data)) as { instance?: unknown; created?: unknown }
+    return { instance: toNounInstance(result.instance), created: result.created === true }
+  }
+
+  /**
+   * Bring an entity back from the trash
+   */
+  async restore(type: string, id: string): Promise<NounInstance> {
+    await this.ensureReady()
+    const collection = toCollectionName(type)
+    const ns = this.rpc()[collection] as Record<string, (...args: unknown[]) => Promise<unknown>>
+    const result = await ns.restore(id)
+    return toNounInstance(result)
+  }
+
+  /**
+   * Field-level change history, answered by the DO of the query's entity type
+   */
+  async audit(query: AuditQuery): Promise<FieldChange[]> {
+    if (!query.entityType) {
+      throw new Error('DONounProvider.audit requires an entityType')
+    }
+    await this.ensureReady()
+    const collection = toCollectionName(query.entityType)
+    const ns = this.rpc()[collection] as Record<string, (...args: unknown[]) => Promise<unknown>>
+    const { since, until, ...rest } = query
+    const result = await ns.audit({
+      ...rest,
+      ...(since !== undefined ? { since: since instanceof Date ? since.toISOString() : since } : {}),
+      ...(until !== undefined ? { until: until instanceof Date ? until.toISOString() : until } : {}),
+    })
+    return Array.isArray(result) ? (result as FieldChange[]) : []
+  }
+
   async rollback(type: string, id: string, toVersion: number): Promise<NounInstance> {
     await this.ensureReady()
     const collection = toCollectionName(type)
@@ -263,14 +391,47 @@ export class DONounProvider implements NounProvider {
     return toNounInstance(result)
   }
 
-  async perform(type: string, verb: string, id: string, data?: Record<string, unknown>): Promise<NounInstance> {
+  async perform(type: string, verb: string, id: string, data?: Record<string, unknown>, options?: WriteOptions): Promise<NounInstance> {
     await this.ensureReady()
     // Verbs route through the collection's perform() method on the capnweb target
     const collection = toCollectionName(type)
     const ns = this.rpc()[collection] as Record<string, (...args: unknown[]) => Promise<unknown>>
     // Try collection.perform(id, verb, data) first (capnweb CollectionTarget),
     // fall back to collection[verb](id, data) for direct verb methods
-    const result = typeof ns.perform === 'function' ? await ns.perform(id, verb, data ?? {}) : await ns[verb](id, data ?? {})
-    return toNounInstance(result)
+    const args: unknown[] = options?.ifVersion !== undefined ? [data ?? {}, options] : [data ?? {}]
+    try {
+      const result = typeof ns.perform === 'function' ? await ns.perform(id, verb, ...args) : await ns[verb](id, ...args)
+      return toNounInstance(result)
+    } catch (err) {
+      throw await this.toConflictError(err, type, id, options)
+    }
+  }
+
+  /**
+   * Translate a DO version-conflict rejection (409 / ConflictError) into a
+   * ConflictError carrying the current entity. Other errors pass through.
+   */
+  private async toConflictError(err: unknown, type: string, id: string, options?: WriteOptions): Promise<unknown> {
+    if (options?.ifVersion === undefined || !err || typeof err !== 'object') return err
+    const { name, status, current } = err as { name?: unknown; status?: unknown; current?: unknown }
+    if (name !== 'ConflictError' && status !== 409) return err
+    const latest = current ? toNounInstance(current) : await this.get(type, id)
+    return latest ? new ConflictError(type, id, options.ifVersion, latest) : err
+  }
+
+  /**
+   * Run a group of writes atomically. Writes made through `tx` are buffered
+   * (reads see them) and sent to the DO as one `transaction(ops)` call once
+   * `fn` resolves; the DO applies them all-or-nothing and emits their events.
+   * If `fn` throws, nothing is sent.
+   */
+  async transaction<T>(fn: (tx: NounProvider) => Promise<T>): Promise<T> {
+    const tx = new TransactionBuffer(this, this.context)
+    const result = await fn(tx)
+    if (tx.ops.length > 0) {
+      await this.ensureReady()
+      await this.rpc().transaction(tx.ops)
+    }
+    return result
   }
 }
@@ -42,6 +42,7 @@ export interface EventQueryOptions {
   entityType?: string
   entityId?: string
   verb?: string
+  actor?: string
   since?: string
 }
 
@@ -113,6 +114,7 @@ export function createEventBridge(): EventEmitter {
         if (options.entityType && event.entityType !== options.entityType) return false
         if (options.entityId && event.entityId !== options.entityId) return false
         if (options.verb && event.verb !== options.verb) return false
+        if (options.actor && event.actor !== options.actor) return false
         if (options.since && event.timestamp < options.since) return false
         return true
       })
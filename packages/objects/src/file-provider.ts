@@ -0,0 +1,229 @@
+/**
+ * FileNounProvider — LocalNounProvider persisted to the local filesystem
+ *
+ * Keeps the in-process Map of LocalNounProvider as the read path and makes
+ * every write durable on disk, so `headlessly` local mode survives restarts
+ * without a Durable Object worker.
+ *
+ * On-disk layout (default directory: `.headlessly/`):
+ * - entities.json — snapshot of all entities, replaced atomically (write tmp → fsync → rename)
+ * - entities.log  — NDJSON append log of writes since the last snapshot, fsynced per write;
+ *   a committed transaction is a single line holding all of its writes
+ *
+ * On startup the snapshot is loaded and the log is replayed on top of it.
+ * A torn trailing line (crash mid-append) is discarded, so a transaction is
+ * replayed whole or not at all. Once the log grows
+ * past `compactThreshold` entries it is folded into a fresh snapshot.
+ *
+ * Node.js only — exported from `@headlessly/objects/file` so the main entry
+ * stays free of `node:fs` for Workers and browsers.
+ */
+
+import { closeSync, existsSync, fsyncSync, mkdirSync, openSync, readFileSync, renameSync, writeSync } from 'node:fs'
+import { join, resolve } from 'node:path'
+import type { NounInstance } from 'digital-objects'
+import { LocalNounProvider } from './local-provider.js'
+import type { BatchWrite, LocalNounProviderOptions } from './local-provider.js'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for creating a FileNounProvider
+ */
+export interface FileNounProviderOptions extends LocalNounProviderOptions {
+  /** Directory holding the snapshot and log (defaults to '.headlessly') */
+  path?: string
+  /** Number of log entries after which the log is compacted into the snapshot (defaults to 1000) */
+  compactThreshold?: number
+}
+
+/** A single write in the append log */
+type LogWrite = { op: 'put'; entity: NounInstance } | { op: 'delete'; id: string }
+
+/** A single line of the append log: one write, or a committed transaction's writes */
+type LogEntry = LogWrite | { op: 'batch'; writes: LogWrite[] }
+
+/** Shape of entities.json */
+interface Snapshot {
+  version: 1
+  entities: NounInstance[]
+}
+
+const SNAPSHOT_FILE = 'entities.json'
+const LOG_FILE = 'entities.log'
+const DEFAULT_COMPACT_THRESHOLD = 1000
+
+// =============================================================================
+// File helpers
+// =============================================================================
+
+/**
+ * Write a file atomically: write a temp file, fsync it, then rename over the target.
+ * A crash leaves either the old file or the new one — never a partial write.
+ */
+function writeFileAtomic(file: string, content: string): void {
+  const tmp = `${file}.tmp`
+  const fd = openSync(tmp, 'w')
+  try {
+    writeSync(fd, content)
+    fsyncSync(fd)
+  } finally {
+    closeSync(fd)
+  }
+  renameSync(tmp, file)
+}
+
+/**
+ * Append a line to a file and fsync before returning.
+ */
+function appendLineSync(file: string, line: string): void {
+  const fd = openSync(file, 'a')
+  try {
+    writeSync(fd, line + '\n')
+    fsyncSync(fd)
+  } finally {
+    closeSync(fd)
+  }
+}
+
+// =============================================================================
+// FileNounProvider
+// =============================================================================
+
+/**
+ * FileNounProvider — durable local NounProvider
+ *
+ * @example
+ * ```typescript
+ * import { setProvider } from 'digital-objects'
+ * import { FileNounProvider } from '@headlessly/objects/file'
+ *
+ * setProvider(new FileNounProvider({ path: '.headlessly' }))
+ * ```
+ */
+export class FileNounProvider extends LocalNounProvider {
+  readonly path: string
+  private snapshotFile: string
+  private logFile: string
+  private compactThreshold: number
+  /** Appends since the last compaction — an object so tenant views (see forTenant) share the count */
+  private log = { entries: 0 }
+
+  constructor(options: FileNounProviderOptions = {}) {
+    super(options)
+    this.path = resolve(options.path ?? '.headlessly')
+    this.snapshotFile = join(this.path, SNAPSHOT_FILE)
+    this.logFile = join(this.path, LOG_FILE)
+    this.compactThreshold = options.compactThreshold ?? DEFAULT_COMPACT_THRESHOLD
+
+    mkdirSync(this.path, { recursive: true })
+    this.load()
+  }
+
+  /**
+   * Fold the append log into a fresh snapshot and truncate the log.
+   *
+   * Safe against crashes: the snapshot is replaced atomically before the log
+   * is truncated, and replaying a log over a snapshot that already contains
+   * its writes yields the same state.
+   */
+  compact(): void {
+    const snapshot: Snapshot = { version: 1, entities: [...this.store.values()] }
+    writeFileAtomic(this.snapshotFile, JSON.stringify(snapshot))
+    writeFileAtomic(this.logFile, '')
+    this.log.entries = 0
+  }
+
+  /**
+   * Clear all data, in memory and on disk
+   */
+  override clear(): void {
+    super.clear()
+    this.compact()
+  }
+
+  // =========================================================================
+  // Persistence hooks
+  // =========================================================================
+
+  protected override writeEntity(instance: NounInstance): void {
+    super.writeEntity(instance)
+    this.append({ op: 'put', entity: instance })
+  }
+
+  protected override removeEntity(instance: NounInstance): boolean {
+    const removed = super.removeEntity(instance)
+    if (removed) this.append({ op: 'delete', id: instance.$id })
+    return removed
+  }
+
+  protected override writeBatch(batch: BatchWrite[]): void {
+    const writes: LogWrite[] = []
+    for (const write of batch) {
+      if (write.op === 'put') {
+        super.writeEntity(write.instance)
+        writes.push({ op: 'put', entity: write.instance })
+      } else if (super.removeEntity(write.instance)) {
+        writes.push({ op: 'delete', id: write.instance.$id })
+      }
+    }
+    if (writes.length > 0) this.append({ op: 'batch', writes })
+  }
+
+  // =========================================================================
+  // Internal
+  // =========================================================================
+
+  private append(entry: LogEntry): void {
+    appendLineSync(this.logFile, JSON.stringify(entry))
+    this.log.entries++
+    if (this.log.entries >= this.compactThreshold) {
+      this.compact()
+    }
+  }
+
+  /**
+   * Load the snapshot and replay the append log on top of it
+   */
+  private load(): void {
+    if (existsSync(this.snapshotFile)) {
+      const snapshot = JSON.parse(readFileSync(this.snapshotFile, 'utf-8')) as Snapshot
+      for (const entity of snapshot.entities) {
+        this.store.set(entity.$id, entity)
+      }
+    }
+
+    if (!existsSync(this.logFile)) return
+
+    const lines = readFileSync(this.logFile, 'utf-8').split('\n')
+    let torn = false
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i]!
+      if (!line) continue
+      let entry: LogEntry
+      try {
+        entry = JSON.parse(line) as LogEntry
+      } catch {
+        // Only the final, unterminated line can be torn by a crash mid-append
+        if (i === lines.length - 1) {
+          torn = true
+          break
+        }
+        throw new Error(`Corrupt entry in ${this.logFile} at line ${i + 1}`)
+      }
+      for (const write of entry.op === 'batch' ? entry.writes : [entry]) {
+        if (write.op === 'put') {
+          this.store.set(write.entity.$id, write.entity)
+        } else if (write.op === 'delete') {
+          this.store.delete(write.id)
+        }
+      }
+      this.log.entries++
+    }
+
+    // Rewrite without the torn line so later appends start on a clean line
+    if (torn) this.compact()
+  }
+}
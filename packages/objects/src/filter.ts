@@ -0,0 +1,299 @@
+/**
+ * Filter engine — MongoDB-style filter matching shared by providers, CLI, MCP, and SDK
+ *
+ * Field operators:
+ *   $eq, $ne, $gt, $gte, $lt, $lte, $in, $nin, $exists, $regex,
+ *   $not (negates an operator object), $contains (array element or substring), $size (array length)
+ *
+ * Logical operators (top level or nested):
+ *   $and, $or, $nor (arrays of filters), $not (a filter)
+ *
+ * Keys may be dot-paths into json fields (`variants.0.weight`, `stages.name`).
+ * Traversing an array with a non-numeric segment matches if any element matches.
+ *
+ * $gt/$gte/$lt/$lte compare numbers, or dates when both sides are Date objects
+ * or ISO 8601 strings (datetime fields).
+ */
+
+import type { NounProvider, NounInstance } from 'digital-objects'
+import type { FindOptions } from './query.js'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A MongoDB-style filter */
+export type Filter = Record<string, unknown>
+
+/** NounProvider.find() extended with FindOptions, as LocalNounProvider and DONounProvider implement it */
+type FindWithOptions = (type: string, where?: Record<string, unknown>, options?: FindOptions) => Promise<NounInstance[]>
+
+/**
+ * A NounProvider whose find() evaluates the whole filter language itself,
+ * as LocalNounProvider does (SQLiteNounProvider pushing what it can to SQL)
+ */
+export interface FilteringProvider extends NounProvider {
+  readonly filters: 'full'
+}
+
+/** Operators every NounProvider is expected to understand natively */
+const BASIC_OPERATORS = new Set(['$eq', '$ne', '$gt', '$gte', '$lt', '$lte', '$in', '$nin', '$exists', '$regex'])
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Check if a value is an object of operators (keys start with '$').
+ */
+export function isOperatorObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof RegExp) && !(value instanceof Date) && Object.keys(value).some((k) => k.startsWith('$'))
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date) && !(value instanceof RegExp)
+}
+
+/**
+ * Convert a value to epoch milliseconds if it is a Date or ISO 8601 string
+ */
+function toTime(value: unknown): number | undefined {
+  if (value instanceof Date) return value.getTime()
+  if (typeof value === 'string' && ISO_DATE_PATTERN.test(value)) {
+    const time = Date.parse(value)
+    return Number.isNaN(time) ? undefined : time
+  }
+  return undefined
+}
+
+/**
+ * Compare two values for range operators. Returns undefined when they are not
+ * comparable (only number/number and date/date pairs are).
+ */
+function compareRange(fieldValue: unknown, filterValue: unknown): number | undefined {
+  if (typeof fieldValue === 'number' && typeof filterValue === 'number') return fieldValue - filterValue
+  const a = toTime(fieldValue)
+  const b = toTime(filterValue)
+  if (a === undefined || b === undefined) return undefined
+  return a - b
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Resolve a dot-path against a value. Returns every candidate value — more than
+ * one when the path fans out across array elements. JSON strings are parsed so
+ * paths reach into serialized json fields.
+ */
+export function resolvePath(value: unknown, path: string): unknown[] {
+  let candidates: unknown[] = [value]
+  for (const segment of path.split('.')) {
+    const next: unknown[] = []
+    for (let current of candidates) {
+      if (typeof current === 'string' && (current.startsWith('{') || current.startsWith('['))) {
+        try {
+          current = JSON.parse(current)
+        } catch {
+          // Not JSON — fall through and resolve to undefined
+        }
+      }
+      if (Array.isArray(current) && !/^\d+$/.test(segment)) {
+        for (const element of current) {
+          next.push(isPlainObject(element) ? element[segment] : undefined)
+        }
+      } else if (current !== null && typeof current === 'object') {
+        next.push((current as Record<string, unknown>)[segment])
+      } else {
+        next.push(undefined)
+      }
+    }
+    candidates = next.length > 0 ? next : [undefined]
+  }
+  return candidates
+}
+
+// =============================================================================
+// Matching
+// =============================================================================
+
+/**
+ * Match a single field value against a filter value — an exact value or an
+ * object of field operators.
+ */
+export function matchFilterValue(fieldValue: unknown, filterValue: unknown): boolean {
+  if (!isOperatorObject(filterValue)) {
+    return fieldValue === filterValue
+  }
+
+  for (const [op, opVal] of Object.entries(filterValue)) {
+    switch (op) {
+      case '$eq':
+        if (fieldValue !== opVal) return false
+        break
+      case '$ne':
+        if (fieldValue === opVal) return false
+        break
+      case '$gt': {
+        const cmp = compareRange(fieldValue, opVal)
+        if (cmp === undefined || cmp <= 0) return false
+        break
+      }
+      case '$gte': {
+        const cmp = compareRange(fieldValue, opVal)
+        if (cmp === undefined || cmp < 0) return false
+        break
+      }
+      case '$lt': {
+        const cmp = compareRange(fieldValue, opVal)
+        if (cmp === undefined || cmp >= 0) return false
+        break
+      }
+      case '$lte': {
+        const cmp = compareRange(fieldValue, opVal)
+        if (cmp === undefined || cmp > 0) return false
+        break
+      }
+      case '$in':
+        if (!Array.isArray(opVal) || !opVal.includes(fieldValue)) return false
+        break
+      case '$nin':
+        if (!Array.isArray(opVal) || opVal.includes(fieldValue)) return false
+        break
+      case '$exists':
+        if (opVal && fieldValue === undefined) return false
+        if (!opVal && fieldValue !== undefined) return false
+        break
+      case '$regex': {
+        const re = opVal instanceof RegExp ? opVal : new RegExp(opVal as string)
+        if (typeof fieldValue !== 'string' || !re.test(fieldValue)) return false
+        break
+      }
+      case '$not': {
+        const negated = opVal instanceof RegExp ? { $regex: opVal } : isOperatorObject(opVal) ? opVal : { $eq: opVal }
+        if (matchFilterValue(fieldValue, negated)) return false
+        break
+      }
+      case '$contains':
+        if (Array.isArray(fieldValue)) {
+          const found = fieldValue.some((element) => deepEqual(element, opVal) || (isPlainObject(opVal) && isPlainObject(element) && matchesFilter(element, opVal)))
+          if (!found) return false
+        } else if (typeof fieldValue === 'string') {
+          if (!fieldValue.includes(String(opVal))) return false
+        } else {
+          return false
+        }
+        break
+      case '$size':
+        if (!Array.isArray(fieldValue) || fieldValue.length !== opVal) return false
+        break
+      default:
+        return false
+    }
+  }
+  return true
+}
+
+/**
+ * Match an entity (or any object) against a filter, including logical operators
+ * and dot-path keys.
+ */
+export function matchesFilter(entity: Record<string, unknown>, filter: Filter | undefined): boolean {
+  if (!filter) return true
+
+  for (const [key, condition] of Object.entries(filter)) {
+    switch (key) {
+      case '$and':
+        if (!Array.isArray(condition) || !condition.every((f) => matchesFilter(entity, f as Filter))) return false
+        continue
+      case '$or':
+        if (!Array.isArray(condition) || !condition.some((f) => matchesFilter(entity, f as Filter))) return false
+        continue
+      case '$nor':
+        if (!Array.isArray(condition) || condition.some((f) => matchesFilter(entity, f as Filter))) return false
+        continue
+      case '$not':
+        if (!isPlainObject(condition) || matchesFilter(entity, condition)) return false
+        continue
+    }
+
+    if (key.includes('.') && !(key in entity)) {
+      if (!resolvePath(entity, key).some((value) => matchFilterValue(value, condition))) return false
+    } else if (!matchFilterValue(entity[key], condition)) {
+      return false
+    }
+  }
+  return true
+}
+
+// =============================================================================
+// Provider integration
+// =============================================================================
+
+/**
+ * Whether a filter only uses what every NounProvider handles natively:
+ * flat field names, the basic comparison operators, and $and/$or.
+ */
+export function isBasicFilter(filter: Filter | undefined): boolean {
+  if (!filter) return true
+  for (const [key, condition] of Object.entries(filter)) {
+    if (key === '$and' || key === '$or') {
+      if (!Array.isArray(condition) || !condition.every((f) => isBasicFilter(f as Filter))) return false
+      continue
+    }
+    if (key.startsWith('$') || key.includes('.')) return false
+    if (isOperatorObject(condition)) {
+      for (const [op, value] of Object.entries(condition)) {
+        if (!BASIC_OPERATORS.has(op)) return false
+        if ((op === '$gt' || op === '$gte' || op === '$lt' || op === '$lte') && typeof value !== 'number') return false
+      }
+    }
+  }
+  return true
+}
+
+/**
+ * Whether a provider's find() takes any filter
+ */
+export function isFilteringProvider(provider: NounProvider): provider is FilteringProvider {
+  return (provider as Partial<FilteringProvider>).filters === 'full'
+}
+
+/**
+ * Split a filter's top-level conditions (which all have to hold) into the
+ * basic ones a provider handles natively and the rest
+ */
+function splitFilter(filter: Filter): { basic: Filter; residual: Filter } {
+  const basic: Filter = {}
+  const residual: Filter = {}
+  for (const [key, condition] of Object.entries(filter)) {
+    if (isBasicFilter({ [key]: condition })) basic[key] = condition
+    else residual[key] = condition
+  }
+  return { basic, residual }
+}
+
+/**
+ * Find entities matching a filter on any NounProvider.
+ *
+ * Providers that evaluate the whole filter language get the filter as is.
+ * Elsewhere the basic top-level conditions are passed to the provider, and
+ * logical, dot-path, array, or date conditions are evaluated with this engine
+ * over what it returns, so they behave the same on every backend.
+ * `options` (e.g. `includeDeleted`) are passed to providers that accept FindOptions.
+ */
+export async function findMatching(provider: NounProvider, type: string, filter?: Filter, options?: FindOptions): Promise<NounInstance[]> {
+  const find = (where: Filter) => {
+    const condition = Object.keys(where).length > 0 ? where : undefined
+    return options ? (provider.find as FindWithOptions).call(provider, type, condition, options) : provider.find(type, condition)
+  }
+  if (!filter || isBasicFilter(filter) || isFilteringProvider(provider)) return find(filter ?? {})
+  const { basic, residual } = splitFilter(filter)
+  const candidates = await find(basic)
+  return candidates.filter((entity) => matchesFilter(entity, residual))
+}
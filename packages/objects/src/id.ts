@@ -4,10 +4,37 @@
  * Generates short, URL-safe random IDs in the format:
  * - Entity IDs: {type}_{sqid}  (e.g., 'contact_aBc12XyZ')
  * - Event IDs:  evt_{sqid}     (e.g., 'evt_aBc12XyZ4321')
+ *
+ * The sqid part of entity IDs comes from a pluggable IdStrategy:
+ * - 'random':   8 characters from Math.random() (default)
+ * - 'sortable': ULID-style — a millisecond timestamp prefix, so IDs sort by creation time
+ * - 'crypto':   12 characters from crypto.getRandomValues()
+ * - a function: e.g. seededIds(42) for reproducible IDs in tests and fixtures
  */
 
 const SQID_CHARS = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789'
 
+/** Base62 in ASCII order, so sortable sqids compare correctly as plain strings */
+const SORTABLE_CHARS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz'
+
+/** Timestamp width of sortable sqids: 62^8 ms lasts until the year 8900 */
+const TIME_LENGTH = 8
+const SORTABLE_RANDOM_LENGTH = 8
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Produces the sqid part of an entity ID */
+export type IdGenerator = () => string
+
+/** How entity IDs are generated: a built-in strategy name or a custom generator */
+export type IdStrategy = 'random' | 'sortable' | 'crypto' | IdGenerator
+
+// =============================================================================
+// Generators
+// =============================================================================
+
 export function generateSqid(length = 8): string {
   let result = ''
   for (let i = 0; i < length; i++) {
@@ -16,8 +43,117 @@ export function generateSqid(length = 8): string {
   return result
 }
 
-export function generateEntityId(type: string): string {
-  return `${type.toLowerCase()}_${generateSqid()}`
+/**
+ * A sqid from crypto.getRandomValues(), without modulo bias
+ */
+export function cryptoSqid(length = 12): string {
+  // Bytes >= 248 are rejected so every character is equally likely (248 = 4 × 62)
+  const limit = 256 - (256 % SQID_CHARS.length)
+  let result = ''
+  while (result.length < length) {
+    const bytes = globalThis.crypto.getRandomValues(new Uint8Array(length * 2))
+    for (const byte of bytes) {
+      if (byte >= limit) continue
+      result += SQID_CHARS[byte % SQID_CHARS.length]
+      if (result.length === length) break
+    }
+  }
+  return result
+}
+
+let lastTime = -1
+let lastRandom: number[] = []
+
+/**
+ * A time-sortable sqid: 8 characters of millisecond timestamp followed by 8
+ * random ones. IDs made in the same millisecond increment the random part, so
+ * they still sort in creation order.
+ */
+export function sortableSqid(now = Date.now()): string {
+  if (now <= lastTime) {
+    lastRandom = increment(lastRandom)
+  } else {
+    lastTime = now
+    const bytes = globalThis.crypto.getRandomValues(new Uint8Array(SORTABLE_RANDOM_LENGTH))
+    // Leave headroom in the top digit so increments within a millisecond don't overflow
+    lastRandom = Array.from(bytes, (byte, i) => (i === 0 ? byte % 31 : byte % 62))
+  }
+
+  let time = ''
+  for (let t = lastTime, i = 0; i < TIME_LENGTH; i++, t = Math.floor(t / 62)) {
+    time = SORTABLE_CHARS[t % 62] + time
+  }
+  return time + lastRandom.map((digit) => SORTABLE_CHARS[digit]).join('')
+}
+
+/** Add one to a base62 digit array */
+function increment(digits: number[]): number[] {
+  const next = [...digits]
+  for (let i = next.length - 1; i >= 0; i--) {
+    if (next[i]! < 61) {
+      next[i]!++
+      return next
+    }
+    next[i] = 0
+  }
+  throw new Error('Sortable ID space exhausted for this millisecond')
+}
+
+/**
+ * A deterministic generator: the same seed always yields the same sequence of
+ * sqids. For tests and fixtures only — the IDs are predictable.
+ */
+export function seededIds(seed: number | string, length = 8): IdGenerator {
+  let state = typeof seed === 'number' ? seed >>> 0 : hashSeed(seed)
+  // mulberry32
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+  return () => {
+    let result = ''
+    for (let i = 0; i < length; i++) {
+      result += SQID_CHARS[Math.floor(next() * SQID_CHARS.length)]
+    }
+    return result
+  }
+}
+
+/** FNV-1a hash of a string seed */
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < seed.length; i++) {
+    hash = Math.imul(hash ^ seed.charCodeAt(i), 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * The sqid generator for a strategy
+ */
+export function resolveIdStrategy(strategy: IdStrategy = 'random'): IdGenerator {
+  if (typeof strategy === 'function') return strategy
+  switch (strategy) {
+    case 'random':
+      return () => generateSqid()
+    case 'sortable':
+      return () => sortableSqid()
+    case 'crypto':
+      return () => cryptoSqid()
+    default:
+      throw new Error(`Unknown ID strategy: ${String(strategy)}`)
+  }
+}
+
+// =============================================================================
+// IDs
+// =============================================================================
+
+export function generateEntityId(type: string, generate: IdGenerator = generateSqid): string {
+  return `${type.toLowerCase()}_${generate()}`
 }
 
 export function generateEventId(): string {
@@ -5,9 +5,25 @@
  *
  * Providers:
  * - DONounProvider: Routes operations via HTTP fetch to a DO endpoint
- * - LocalNounProvider: In-process storage with event emission (for local dev)
+ * - LocalNounProvider: In-process storage with event emission (for local dev), with forTenant() views
+ * - SQLiteNounProvider: Per-type SQL tables over SqlStorage (Durable Object SQL, better-sqlite3)
+ * - FileNounProvider: LocalNounProvider persisted to disk (Node.js, from '@headlessly/objects/file')
  *
  * Utilities:
+ * - paginate / FindOptions: Sorting, pagination, and projection for find()
+ * - matchesFilter / findMatching: Shared filter engine ($and/$or/$not, dot-paths, arrays, dates)
+ * - validateEntity: Schema validation with field-level errors (required, enum, types)
+ * - ReferentialIntegrityError / OnDeleteAction: Relationship checks and on-delete rules
+ * - defineStateMachine: Declarative verb transitions for status fields
+ * - defineComputed: Formula and rollup fields kept current by the provider
+ * - TransactionalProvider / TransactionBuffer: All-or-nothing groups of writes
+ * - ConflictError / WriteOptions: Optimistic concurrency via `ifVersion` preconditions
+ * - isDeleted / DeleteOptions: Soft delete with trash, restore, and purge
+ * - createMany / updateMany / deleteMany: Bulk writes with per-item errors
+ * - upsert: Create or update keyed on unique (`##`) fields
+ * - AuditableProvider / isAuditable: Field-level change history by entity, field, actor and time
+ * - ActorScopedProvider / actingAs: Attribute writes and their events to a user, agent or API key
+ * - IdStrategy: Random, time-sortable, crypto, or seeded entity IDs
  * - createEventBridge: In-memory event emitter for verb lifecycle events
  * - executeVerb: Verb execution with event emission
  *
@@ -18,8 +34,55 @@
 export { DONounProvider, DOProviderError } from './do-provider.js'
 export type { DONounProviderOptions } from './do-provider.js'
 
-export { LocalNounProvider } from './local-provider.js'
-export type { LocalNounProviderOptions } from './local-provider.js'
+export { LocalNounProvider, tenantContext } from './local-provider.js'
+export type { LocalNounProviderOptions, TenantViewOptions, BatchWrite } from './local-provider.js'
+export { SQLiteNounProvider } from './sqlite-provider.js'
+export type { SQLiteNounProviderOptions } from './sqlite-provider.js'
+
+// Query options
+export { encodeCursor, decodeCursor, compareBy, project, paginate, hasFindOptions } from './query.js'
+export type { FindOptions, FindPage, SortSpec, SortDirection } from './query.js'
+
+// Filter engine
+export { matchesFilter, matchFilterValue, resolvePath, isBasicFilter, isFilteringProvider, findMatching } from './filter.js'
+export type { Filter } from './filter.js'
+
+// Schema validation
+export { validateEntity, uniqueFields, formatLabel, EntityValidationError } from './validation.js'
+export type { ValidationErrors, ValidateOptions } from './validation.js'
+
+// Referential integrity
+export { ReferentialIntegrityError, forwardRelationships, incomingRelationships } from './integrity.js'
+export type { OnDeleteAction, RelationshipField, Reference } from './integrity.js'
+
+// Transactions
+export { TransactionBuffer, isTransactional } from './transaction.js'
+export type { TransactionalProvider, TransactionOp, TransactionRpc } from './transaction.js'
+
+// Optimistic concurrency
+export { ConflictError, checkVersion } from './concurrency.js'
+export type { WriteOptions } from './concurrency.js'
+
+// Soft delete
+export { DEFAULT_PURGE_AFTER, isDeleted, isRestorable, toTrashed } from './trash.js'
+export type { DeleteOptions, GetOptions, RestorableProvider } from './trash.js'
+
+// Bulk writes
+export { createMany, updateMany, deleteMany, isBulkProvider, sendInChunks, DEFAULT_BULK_CHUNK_SIZE } from './bulk.js'
+export type { BulkProvider, BulkResult, BulkItemError } from './bulk.js'
+
+// Upsert
+export { upsert, isUpsertProvider, checkUpsertKey } from './upsert.js'
+export type { UpsertProvider, UpsertResult } from './upsert.js'
+
+// Audit
+export { isAuditable, auditLogFor } from './audit.js'
+export type { AuditableProvider } from './audit.js'
+export type { AuditQuery, FieldChange } from '@headlessly/events'
+
+// Actors
+export { isActorScoped, actingAs } from './actor.js'
+export type { ActorScopedProvider } from './actor.js'
 
 // Event bridge
 export { createEventBridge } from './event-bridge.js'
@@ -29,5 +92,27 @@ export type { NounEvent, EventHandler, EventEmitter, EventQueryOptions } from '.
 export { executeVerb } from './verb-executor.js'
 export type { VerbExecution, VerbExecutorOptions } from './verb-executor.js'
 
+// State machines
+export { defineStateMachine, getStateMachine, clearStateMachines, availableVerbs, applyTransition, InvalidTransitionError } from './state-machine.js'
+export type { StateMachine, StateMachineDefinition, Transition } from './state-machine.js'
+
+// Computed fields
+export {
+  defineComputed,
+  getComputedFields,
+  isComputedField,
+  clearComputedFields,
+  formula,
+  rollup,
+  resolveRollup,
+  rollupsOver,
+  checkComputedWrite,
+  aggregateValues,
+  computeFormulas,
+  computeFields,
+} from './computed.js'
+export type { ComputedField, FormulaField, RollupField, RollupAggregate, ResolvedRollup, ComputedLookup } from './computed.js'
+
 // ID generation utilities
-export { generateSqid, generateEntityId, generateEventId } from './id.js'
+export { generateSqid, generateEntityId, generateEventId, cryptoSqid, sortableSqid, seededIds, resolveIdStrategy } from './id.js'
+export type { IdGenerator, IdStrategy } from './id.js'
@@ -0,0 +1,96 @@
+/**
+ * Referential integrity — relationship lookups and on-delete rules
+ *
+ * Forward relationships (`->`) store target IDs as plain strings (or arrays of
+ * IDs for `[]` relationships). LocalNounProvider uses these helpers to reject
+ * writes that reference missing entities and to apply each relationship's
+ * on-delete rule when a target is deleted:
+ *
+ * - restrict: refuse the delete while references exist (default)
+ * - cascade: delete the referencing entities too
+ * - set-null: clear the reference (or remove the ID from an array)
+ */
+
+import type { NounSchema } from 'digital-objects'
+import { getAllNouns } from 'digital-objects'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type OnDeleteAction = 'restrict' | 'cascade' | 'set-null'
+
+/**
+ * A forward relationship field, e.g. `Contact.organization -> Organization`
+ */
+export interface RelationshipField {
+  /** Type that holds the reference */
+  sourceType: string
+  /** Field on the source type that stores the target ID(s) */
+  field: string
+  /** Referenced type */
+  targetType: string
+  /** Whether the field stores an array of IDs */
+  isArray: boolean
+}
+
+/**
+ * An entity that references another, found when planning a delete
+ */
+export interface Reference {
+  type: string
+  id: string
+  field: string
+}
+
+/**
+ * Error thrown when a delete is blocked by a `restrict` relationship
+ */
+export class ReferentialIntegrityError extends Error {
+  constructor(
+    public readonly type: string,
+    public readonly id: string,
+    public readonly references: Reference[],
+  ) {
+    const fields = [...new Set(references.map((r) => `${r.type}.${r.field}`))].join(', ')
+    super(`Cannot delete ${type}/${id}: still referenced by ${references.length} ${references.length === 1 ? 'entity' : 'entities'} (${fields})`)
+    this.name = 'ReferentialIntegrityError'
+  }
+}
+
+// =============================================================================
+// Lookups
+// =============================================================================
+
+/**
+ * Forward relationship fields declared on a schema
+ */
+export function forwardRelationships(sourceType: string, schema: NounSchema): RelationshipField[] {
+  const fields: RelationshipField[] = []
+  for (const [field, rel] of schema.relationships) {
+    if (rel.operator === '->' && rel.targetType) {
+      fields.push({ sourceType, field, targetType: rel.targetType, isArray: rel.isArray ?? false })
+    }
+  }
+  return fields
+}
+
+/**
+ * Forward relationship fields on any registered type that point at `targetType`
+ */
+export function incomingRelationships(targetType: string): RelationshipField[] {
+  const fields: RelationshipField[] = []
+  for (const [sourceType, schema] of getAllNouns()) {
+    fields.push(...forwardRelationships(sourceType, schema).filter((rel) => rel.targetType === targetType))
+  }
+  return fields
+}
+
+/**
+ * IDs stored in a relationship value (a single ID, an array of IDs, or nothing)
+ */
+export function referencedIds(value: unknown): string[] {
+  if (typeof value === 'string') return value ? [value] : []
+  if (Array.isArray(value)) return value.filter((v): v is string => typeof v === 'string' && v !== '')
+  return []
+}
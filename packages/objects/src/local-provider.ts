@@ -13,75 +13,43 @@
  */
 
 import type { NounProvider, NounInstance } from 'digital-objects'
+import { getAllNouns, getNounSchema } from 'digital-objects'
 import type { EventEmitter, NounEvent } from './event-bridge.js'
-import { generateEntityId, generateEventId } from './id.js'
+import { generateEntityId, generateEventId, resolveIdStrategy } from './id.js'
+import type { IdGenerator, IdStrategy } from './id.js'
 import { conjugateVerb } from './conjugation.js'
-
-// Conditionally import EventLog type — avoid hard coupling
-import type { EventLog, NounEventInput } from '@headlessly/events'
+import { hasFindOptions, paginate } from './query.js'
+import type { FindOptions, FindPage } from './query.js'
+import { matchesFilter } from './filter.js'
+import type { FilteringProvider } from './filter.js'
+import { EntityValidationError, formatLabel, uniqueFields, validateEntity } from './validation.js'
+import { ReferentialIntegrityError, forwardRelationships, incomingRelationships, referencedIds } from './integrity.js'
+import type { OnDeleteAction, Reference, RelationshipField } from './integrity.js'
+import { applyTransition } from './state-machine.js'
+import type { TransactionalProvider } from './transaction.js'
+import { ConflictError, checkVersion } from './concurrency.js'
+import type { WriteOptions } from './concurrency.js'
+import { DEFAULT_PURGE_AFTER, isDeleted, toTrashed } from './trash.js'
+import type { DeleteOptions, GetOptions, RestorableProvider } from './trash.js'
+import { deleteEach, eachItem } from './bulk.js'
+import type { BulkProvider, BulkResult } from './bulk.js'
+import { checkUpsertKey } from './upsert.js'
+import { auditLogFor } from './audit.js'
+import type { AuditableProvider } from './audit.js'
+import type { ActorScopedProvider } from './actor.js'
+import { checkComputedWrite, computeFields, computeFormulas, getComputedFields, rollupsOver } from './computed.js'
+import type { UpsertProvider, UpsertResult } from './upsert.js'
+
+// EventLog is optional — only TimeTraveler is needed at runtime (for rollback)
+import { TimeTraveler } from '@headlessly/events'
+import type { AuditQuery, EventLog, FieldChange, NounEventInput } from '@headlessly/events'
 
 // =============================================================================
-// MongoDB-style filter matching
+// Rollback
 // =============================================================================
 
-/**
- * Check if an operator object contains MongoDB-style query operators.
- * Operator keys start with '$' (e.g. $gt, $gte, $lt, $lte, $in, $nin, $exists, $regex).
- */
-function isOperatorObject(value: unknown): value is Record<string, unknown> {
-  return typeof value === 'object' && value !== null && !Array.isArray(value) && Object.keys(value).some((k) => k.startsWith('$'))
-}
-
-/**
- * Match a single field value against a filter value.
- * Supports both exact equality and MongoDB-style operators:
- * $gt, $gte, $lt, $lte, $in, $nin, $exists, $regex, $eq, $ne
- */
-function matchFilterValue(fieldValue: unknown, filterValue: unknown): boolean {
-  if (isOperatorObject(filterValue)) {
-    for (const [op, opVal] of Object.entries(filterValue)) {
-      switch (op) {
-        case '$eq':
-          if (fieldValue !== opVal) return false
-          break
-        case '$ne':
-          if (fieldValue === opVal) return false
-          break
-        case '$gt':
-          if (typeof fieldValue !== 'number' || typeof opVal !== 'number' || fieldValue <= opVal) return false
-          break
-        case '$gte':
-          if (typeof fieldValue !== 'number' || typeof opVal !== 'number' || fieldValue < opVal) return false
-          break
-        case '$lt':
-          if (typeof fieldValue !== 'number' || typeof opVal !== 'number' || fieldValue >= opVal) return false
-          break
-        case '$lte':
-          if (typeof fieldValue !== 'number' || typeof opVal !== 'number' || fieldValue > opVal) return false
-          break
-        case '$in':
-          if (!Array.isArray(opVal) || !opVal.includes(fieldValue)) return false
-          break
-        case '$nin':
-          if (!Array.isArray(opVal) || opVal.includes(fieldValue)) return false
-          break
-        case '$exists':
-          if (opVal && fieldValue === undefined) return false
-          if (!opVal && fieldValue !== undefined) return false
-          break
-        case '$regex': {
-          const re = opVal instanceof RegExp ? opVal : new RegExp(opVal as string)
-          if (typeof fieldValue !== 'string' || !re.test(fieldValue)) return false
-          break
-        }
-        default:
-          return false
-      }
-    }
-    return true
-  }
-  return fieldValue === filterValue
-}
+/** Conjugation for rollback events — matches TimeTraveler.rollback */
+const ROLLBACK_CONJUGATION = { action: 'rollback', activity: 'rollingBack', event: 'rolledBack' }
 
 // =============================================================================
 // Tenant Context
@@ -89,7 +57,14 @@ function matchFilterValue(fieldValue: unknown, filterValue: unknown): boolean {
 
 function getDefaultContext(): string {
   const tenant = (typeof process !== 'undefined' && process.env?.['HEADLESSLY_TENANT']) || 'default'
-  return `https://headless.ly/~${tenant}`
+  return tenantContext(tenant)
+}
+
+/**
+ * The $context URL for a tenant: 'acme' → 'https://headless.ly/~acme'. Full URLs pass through.
+ */
+export function tenantContext(tenant: string): string {
+  return /^https?:\/\//.test(tenant) ? tenant : `https://headless.ly/~${tenant}`
 }
 
 // =============================================================================
@@ -106,8 +81,67 @@ export interface LocalNounProviderOptions {
   events?: EventEmitter
   /** Optional EventLog for full event-sourced operations with time travel */
   eventLog?: EventLog
+  /**
+   * Validate create/update data against the type's NounSchema (default: true).
+   * Invalid data throws EntityValidationError with field-level errors.
+   */
+  validate?: boolean
+  /**
+   * On-delete rule per relationship, keyed by '{Type}.{field}'
+   * (e.g. `{ 'Contact.organization': 'cascade' }`). Unlisted relationships restrict.
+   */
+  onDelete?: Record<string, OnDeleteAction>
+  /**
+   * Move deleted entities to the trash instead of removing them (default: true).
+   * Trashed entities keep a `$deletedAt` timestamp and can be restored.
+   */
+  softDelete?: boolean
+  /** How long (ms) trashed entities are kept before purge() removes them (default: 30 days) */
+  purgeAfter?: number
+  /**
+   * How entity IDs are generated (default: 'random'). Use 'sortable' for
+   * time-ordered IDs, 'crypto' for stronger randomness, or seededIds(seed)
+   * for reproducible IDs in tests.
+   */
+  idStrategy?: IdStrategy
+  /** User, agent or API key recorded on every event this provider emits (see asActor()) */
+  actor?: string
+}
+
+/**
+ * Options for LocalNounProvider.forTenant()
+ */
+export interface TenantViewOptions {
+  /** Event emitter for this tenant only (default: the provider's) */
+  events?: EventEmitter
+  /** EventLog for this tenant only (default: the provider's) */
+  eventLog?: EventLog
 }
 
+/** Attempts at a fresh ID before create() gives up on collisions */
+const MAX_ID_ATTEMPTS = 5
+
+/** Mutations needed to delete an entity under its relationships' on-delete rules */
+interface DeletePlan {
+  /** Entities to delete along with the target, in discovery order */
+  cascade: NounInstance[]
+  /** References to clear on entities that survive */
+  clear: Array<{ instance: NounInstance; relationship: RelationshipField; targetId: string }>
+}
+
+/** State of an open transaction */
+interface Transaction {
+  /** Entities written in the transaction by id; null marks a permanent delete */
+  writes: Map<string, NounInstance | null>
+  /** Stored $version of each written entity when the transaction first wrote it (undefined = did not exist) */
+  base: Map<string, { type: string; version: number | undefined }>
+  /** Events held back until commit */
+  events: Array<() => Promise<void>>
+}
+
+/** A write in a committed transaction's batch: an entity to store, or one to remove */
+export type BatchWrite = { op: 'put'; instance: NounInstance } | { op: 'remove'; instance: NounInstance }
+
 // =============================================================================
 // LocalNounProvider
 // =============================================================================
@@ -123,68 +157,90 @@ export interface LocalNounProviderOptions {
  * When an EventLog is provided, full NounEvents with conjugation, before/after
  * state, and sequence tracking are emitted — enabling time travel and CDC.
  */
-export class LocalNounProvider implements NounProvider {
-  private store = new Map<string, NounInstance>()
-  private context: string
+export class LocalNounProvider implements TransactionalProvider, RestorableProvider, BulkProvider, UpsertProvider, AuditableProvider, ActorScopedProvider, FilteringProvider {
+  /** find() evaluates the whole filter language */
+  readonly filters = 'full' as const
+  protected store = new Map<string, NounInstance>()
+  protected context: string
+  protected actor?: string
   private events?: EventEmitter
   private eventLog?: EventLog
+  private validate: boolean
+  private onDelete: Record<string, OnDeleteAction>
+  private softDelete: boolean
+  private purgeAfter: number
+  private generateSqid: IdGenerator
+  private tx?: Transaction
 
   constructor(options: LocalNounProviderOptions = {}) {
     this.context = options.context ?? getDefaultContext()
+    this.actor = options.actor
     this.events = options.events
     this.eventLog = options.eventLog
+    this.validate = options.validate ?? true
+    this.onDelete = options.onDelete ?? {}
+    this.softDelete = options.softDelete ?? true
+    this.purgeAfter = options.purgeAfter ?? DEFAULT_PURGE_AFTER
+    this.generateSqid = resolveIdStrategy(options.idStrategy)
   }
 
   async create(type: string, data: Record<string, unknown>): Promise<NounInstance> {
+    checkComputedWrite(type, data)
+    await this.validateData(type, data)
+    // A supplied $id must be free in every type and tenant; the error is the same either way
+    if (typeof data.$id === 'string' && this.hasId(data.$id)) {
+      throw new Error(`${type} id already in use: ${data.$id}`)
+    }
+
     const now = new Date().toISOString()
     const instance: NounInstance = {
-      $id: generateEntityId(type),
+      $id: this.newId(type),
       $type: type,
-      $context: this.context,
       $version: 1,
       $createdAt: now,
       $updatedAt: now,
       ...data,
+      $context: this.context,
     }
-    this.store.set(instance.$id, instance)
+    Object.assign(instance, await this.computeFields(instance))
+    this.save(instance)
 
     await this.emitEvent(type, 'create', instance.$id, data, null, { ...instance })
+    await this.refreshRollups(type, instance)
 
     return instance
   }
 
-  async get(type: string, id: string): Promise<NounInstance | null> {
-    const instance = this.store.get(id)
-    if (!instance || instance.$type !== type) return null
+  /**
+   * Get an entity by id. Trashed entities are hidden unless `includeDeleted` is set.
+   */
+  async get(type: string, id: string, options?: GetOptions): Promise<NounInstance | null> {
+    const instance = this.readOwn(type, id)
+    if (!instance || (isDeleted(instance) && !options?.includeDeleted)) return null
     return instance
   }
 
-  async find(type: string, where?: Record<string, unknown>): Promise<NounInstance[]> {
-    const results: NounInstance[] = []
-    for (const instance of this.store.values()) {
-      if (instance.$type !== type) continue
-      if (instance.$context !== this.context) continue
-      if (where) {
-        let match = true
-        for (const [key, value] of Object.entries(where)) {
-          if (!matchFilterValue(instance[key], value)) {
-            match = false
-            break
-          }
-        }
-        if (!match) continue
-      }
-      results.push(instance)
-    }
-    return results
+  async find(type: string, where?: Record<string, unknown>, options?: FindOptions): Promise<NounInstance[]> {
+    const results = this.match(type, where, options?.includeDeleted)
+    return hasFindOptions(options) ? paginate(results, options).items : results
   }
 
-  async update(type: string, id: string, data: Record<string, unknown>): Promise<NounInstance> {
-    const existing = this.store.get(id)
-    if (!existing || existing.$type !== type) {
-      throw new Error(`${type} not found: ${id}`)
-    }
+  /**
+   * Find one page of matches, with the total count and a cursor for the next page
+   */
+  async findPage(type: string, where?: Record<string, unknown>, options?: FindOptions): Promise<FindPage> {
+    return paginate(this.match(type, where, options?.includeDeleted), options)
+  }
+
+  async update(type: string, id: string, data: Record<string, unknown>, options?: WriteOptions): Promise<NounInstance> {
+    this.require(type, id)
+    checkComputedWrite(type, data)
+    await this.validateData(type, data, id)
 
+    // Re-read after validating: the version check and the write run without an
+    // await in between, so a concurrent writer cannot slip in
+    const existing = this.require(type, id)
+    checkVersion(existing, options)
     const before = { ...existing }
 
     const updated: NounInstance = {
@@ -197,31 +253,65 @@ export class LocalNounProvider implements NounProvider {
       $createdAt: existing.$createdAt,
       $updatedAt: new Date().toISOString(),
     }
-    this.store.set(id, updated)
+    Object.assign(updated, computeFormulas(updated))
+    this.save(updated)
 
     await this.emitEvent(type, 'update', id, data, before, { ...updated })
+    await this.refreshRollups(type, before, updated)
 
     return updated
   }
 
-  async delete(type: string, id: string): Promise<boolean> {
-    const existing = this.store.get(id)
-    if (!existing || existing.$type !== type) return false
+  /**
+   * Delete an entity under its relationships' on-delete rules. With soft delete
+   * on (the default) the entity and any cascaded dependents move to the trash;
+   * `permanent` removes them outright, including entities already in the trash.
+   */
+  async delete(type: string, id: string, options?: DeleteOptions): Promise<boolean> {
+    const existing = this.readOwn(type, id)
+    if (!existing || (isDeleted(existing) && !options?.permanent)) return false
+    checkVersion(existing, options)
+    const permanent = !this.softDelete || options?.permanent === true
+
+    // Plan the whole cascade first so a restrict anywhere aborts before any change
+    const plan = await this.planDelete(existing)
+    checkVersion(this.lookup(type, id) ?? existing, options)
+
+    for (const { instance, relationship, targetId } of plan.clear) {
+      if (plan.cascade.some((c) => c.$id === instance.$id)) continue
+      const current = this.lookup(instance.$type, instance.$id)
+      if (!current) continue
+      const value = relationship.isArray ? referencedIds(current[relationship.field]).filter((ref) => ref !== targetId) : null
+      await this.update(instance.$type, instance.$id, { [relationship.field]: value })
+    }
+
+    // Dependents are removed deepest-first, each with its own delete event
+    for (const instance of [...plan.cascade].reverse()) {
+      if (this.remove(instance, permanent)) {
+        await this.emitEvent(instance.$type, 'delete', instance.$id, undefined, { ...instance }, null)
+        await this.refreshRollups(instance.$type, instance)
+      }
+    }
 
     const before = { ...existing }
-    const deleted = this.store.delete(id)
+    const deleted = this.remove(existing, permanent)
     if (deleted) {
       await this.emitEvent(type, 'delete', id, undefined, before, null)
+      await this.refreshRollups(type, before)
     }
     return deleted
   }
 
-  async perform(type: string, verb: string, id: string, data?: Record<string, unknown>): Promise<NounInstance> {
-    const existing = this.store.get(id)
-    if (!existing || existing.$type !== type) {
-      throw new Error(`${type} not found: ${id}`)
-    }
+  async perform(type: string, verb: string, id: string, verbData?: Record<string, unknown>, options?: WriteOptions): Promise<NounInstance> {
+    // Declared state machines set the target state and reject illegal transitions
+    checkComputedWrite(type, verbData)
+    const pending = applyTransition(this.require(type, id), verb, verbData)
+    if (pending) await this.validateData(type, pending, id)
 
+    // Re-read after validating so the transition, version check and write see the latest state
+    const existing = this.require(type, id)
+    checkVersion(existing, options)
+    const data = applyTransition(existing, verb, verbData)
     const before = { ...existing }
 
     // Apply data changes if provided
@@ -237,23 +327,135 @@ export class LocalNounProvider implements NounProvider {
         $createdAt: existing.$createdAt,
         $updatedAt: new Date().toISOString(),
       }
-      this.store.set(id, updated)
+      Object.assign(updated, computeFormulas(updated))
+      this.save(updated)
     } else {
       updated = existing
     }
 
     await this.emitEvent(type, verb, id, data, before, { ...updated })
+    if (data) await this.refreshRollups(type, before, updated)
 
     return updated
   }
 
+  /**
+   * Create many entities. Each is validated and written on its own with its
+   * own create event; failures are reported per item.
+   */
+  async createMany(type: string, items: Record<string, unknown>[]): Promise<BulkResult> {
+    return eachItem(items, (data) => this.create(type, data))
+  }
+
+  /**
+   * Apply the same patch to every entity matching a filter, one update event per entity
+   */
+  async updateMany(type: string, filter: Record<string, unknown>, patch: Record<string, unknown>): Promise<BulkResult> {
+    return eachItem(
+      await this.find(type, filter),
+      (instance) => this.update(type, instance.$id, patch),
+      (instance) => instance.$id,
+    )
+  }
+
+  /**
+   * Delete every entity matching a filter under the usual on-delete rules. Resolves with the deleted ids.
+   */
+  async deleteMany(type: string, filter: Record<string, unknown>): Promise<BulkResult<string>> {
+    return deleteEach(await this.find(type, filter), (id) => this.delete(type, id))
+  }
+
+  /**
+   * Update the entity whose unique (`##`) fields equal `match`, or create one
+   * from the match and the data. Emits a create or update event accordingly.
+   */
+  async upsert(type: string, match: Record<string, unknown>, data: Record<string, unknown>): Promise<UpsertResult> {
+    checkUpsertKey(type, match)
+    const existing = await this.findOne(type, match)
+    if (existing) return { instance: await this.update(type, existing.$id, data), created: false }
+    return { instance: await this.create(type, { ...data, ...match }), created: true }
+  }
+
+  /**
+   * Bring an entity back from the trash. It is re-validated (unique fields may
+   * have been taken meanwhile) and stored as a new $version. Entities deleted
+   * along with it by a cascade stay in the trash.
+   */
+  async restore(type: string, id: string): Promise<NounInstance> {
+    const trashed = this.readOwn(type, id)
+    if (!trashed || !isDeleted(trashed)) {
+      throw new Error(`${type} not found in trash: ${id}`)
+    }
+    const { $deletedAt: _deletedAt, ...rest } = trashed
+    await this.validateData(type, Object.fromEntries(Object.entries(rest).filter(([key]) => !key.startsWith('$'))), id)
+
+    const restored: NounInstance = {
+      ...rest,
+      $id: trashed.$id,
+      $type: trashed.$type,
+      $context: trashed.$context,
+      $version: trashed.$version + 1,
+      $createdAt: trashed.$createdAt,
+      $updatedAt: new Date().toISOString(),
+    }
+    Object.assign(restored, await this.computeFields(restored))
+    this.save(restored)
+
+    await this.emitEvent(type, 'restore', id, undefined, null, { ...restored })
+    await this.refreshRollups(type, restored)
+
+    return restored
+  }
+
+  /**
+   * Permanently remove trashed entities older than the `purgeAfter` policy.
+   * Purges every registered type unless one is given. Returns the number removed.
+   */
+  async purge(type?: string): Promise<number> {
+    const cutoff = new Date(Date.now() - this.purgeAfter)
+    const types = type ? [type] : [...getAllNouns().keys()]
+    let purged = 0
+    for (const name of types) {
+      for (const instance of await this.find(name, { $deletedAt: { $lte: cutoff } }, { includeDeleted: true })) {
+        if (this.discard(instance)) {
+          purged++
+          await this.emitEvent(name, 'purge', instance.$id, undefined, { ...instance }, null)
+        }
+      }
+    }
+    return purged
+  }
+
+  /**
+   * Run a group of writes atomically.
+   *
+   * `fn` receives a view of this provider whose writes are buffered: reads
+   * through the view see them, but storage and other callers only do once `fn`
+   * resolves, when they are applied together and their events are emitted. If
+   * `fn` throws, the buffer is dropped and no events are emitted. Commit fails
+   * with a ConflictError if an entity the transaction wrote was changed
+   * meanwhile. Calling transaction() on the view joins the open transaction.
+   */
+  async transaction<T>(fn: (tx: NounProvider) => Promise<T>): Promise<T> {
+    if (this.tx) return fn(this)
+
+    const tx: Transaction = { writes: new Map(), base: new Map(), events: [] }
+    const view = Object.create(this) as this
+    view.tx = tx
+    const result = await fn(view)
+
+    this.commit(tx)
+    for (const emit of tx.events) await emit()
+    return result
+  }
+
   /**
    * Count entities of a given type
    */
   async count(type: string): Promise<number> {
     let count = 0
-    for (const instance of this.store.values()) {
-      if (instance.$type === type && instance.$context === this.context) {
+    for (const instance of this.withPending(type, this.store.values())) {
+      if (instance.$context === this.context && !isDeleted(instance)) {
         count++
       }
     }
@@ -264,39 +466,125 @@ export class LocalNounProvider implements NounProvider {
    * Find the first entity matching the filter, or null if none match
    */
   async findOne(type: string, where?: Record<string, unknown>): Promise<NounInstance | null> {
-    for (const instance of this.store.values()) {
-      if (instance.$type !== type) continue
+    for (const instance of this.withPending(type, this.store.values())) {
       if (instance.$context !== this.context) continue
-      if (where) {
-        let match = true
-        for (const [key, value] of Object.entries(where)) {
-          if (!matchFilterValue(instance[key], value)) {
-            match = false
-            break
-          }
-        }
-        if (!match) continue
-      }
+      if (isDeleted(instance)) continue
+      if (!matchesFilter(instance, where)) continue
       return instance
     }
     return null
   }
 
+  /**
+   * Roll an entity back to a previous $version by replaying the attached EventLog.
+   *
+   * The restored state is stored as a new version (history is never rewritten)
+   * and a `{Type}.rolled_back` event is emitted. Deleted entities can be restored.
+   * Requires an EventLog — without one there is no history to replay.
+   */
   async rollback(type: string, id: string, toVersion: number): Promise<NounInstance> {
-    // LocalNounProvider doesn't maintain event history, so rollback is not supported
-    // in lightweight mode. If an EventLog is attached, delegate to it.
-    throw new Error(`rollback not supported in LocalNounProvider without event history. Entity: ${type}/${id}, target version: ${toVersion}`)
+    if (!this.eventLog) {
+      throw new Error(`rollback not supported in LocalNounProvider without event history. Entity: ${type}/${id}, target version: ${toVersion}`)
+    }
+
+    const history = await this.eventLog.getEntityHistory(type, id)
+    const existing = this.lookup(type, id)
+    const owner = existing?.$context ?? history[0]?.context ?? this.context
+    if (history.length === 0 || owner !== this.context) {
+      throw new Error(`${type} not found: ${id}`)
+    }
+
+    // Event sequence and $version diverge when verbs run without data,
+    // so locate the last event that produced the requested $version
+    const target = history.filter((e) => e.after?.['$version'] === toVersion).pop()
+    if (!target) {
+      throw new Error(`Cannot rollback ${type}/${id}: version ${toVersion} not found in event history`)
+    }
+
+    const state = await new TimeTraveler(this.eventLog).asOf(type, id, { atVersion: target.sequence })
+    if (!state) {
+      throw new Error(`Cannot rollback ${type}/${id}: no state at version ${toVersion}`)
+    }
+
+    const latestVersion = Math.max(existing?.$version ?? 0, ...history.map((e) => (e.after?.['$version'] as number | undefined) ?? 0))
+    const { $version: _version, $deleted: _deleted, $deletedAt: _deletedAt, ...fields } = state
+
+    const restored: NounInstance = {
+      ...fields,
+      $id: id,
+      $type: type,
+      $context: existing?.$context ?? (state.$context as string | undefined) ?? this.context,
+      $version: latestVersion + 1,
+      $createdAt: existing?.$createdAt ?? (state.$createdAt as string),
+      $updatedAt: new Date().toISOString(),
+    }
+    Object.assign(restored, await this.computeFields(restored))
+    this.save(restored)
+
+    await this.emitEvent(type, 'rollback', id, { toVersion }, existing ? { ...existing } : null, { ...restored }, {
+      $type: `${type}.rolled_back`,
+      conjugation: ROLLBACK_CONJUGATION,
+    })
+    await this.refreshRollups(type, existing, restored)
+
+    return restored
   }
 
   /**
-   * Clear all data (for testing)
+   * Field-level change history of this tenant's entities, indexed from the
+   * attached EventLog. Requires an EventLog — without one there is no history.
+   */
+  async audit(query: AuditQuery = {}): Promise<FieldChange[]> {
+    if (!this.eventLog) {
+      throw new Error('audit not supported in LocalNounProvider without event history')
+    }
+    return auditLogFor(this.eventLog).query({ ...query, context: this.context })
+  }
+
+  /**
+   * A view of this provider scoped to another tenant. Views share storage (and
+   * the ID strategy, validation and on-delete settings) but each sees only its
+   * own `$context`: reads, writes, counts, uniqueness and events are isolated.
+   * Events carry the view's context; pass `events` / `eventLog` to give the
+   * tenant its own sinks. Transactions are per view.
+   *
+   *   const acme = provider.forTenant('acme')
+   *   await acme.create('Contact', { name: 'Alice' }) // $context: 'https://headless.ly/~acme'
+   */
+  forTenant(tenant: string, options: TenantViewOptions = {}): this {
+    // Prototype-linked: the view inherits storage and settings, and overrides only its own state
+    const view = Object.create(this) as this
+    view.context = tenantContext(tenant)
+    view.tx = undefined
+    view.events = options.events ?? this.events
+    view.eventLog = options.eventLog ?? this.eventLog
+    return view
+  }
+
+  /**
+   * A view of this provider acting as a user, agent or API key. The view shares
+   * storage, tenant and event sinks; every event it emits — including cascades
+   * and rollup refreshes — carries `actor`. Transactions are per view.
+   *
+   *   const agent = provider.asActor('agent_mR4nVkTw')
+   *   await agent.perform('Deal', 'close', deal.$id) // event.actor: 'agent_mR4nVkTw'
+   */
+  asActor(actor: string): this {
+    const view = Object.create(this) as this
+    view.actor = actor
+    view.tx = undefined
+    return view
+  }
+
+  /**
+   * Clear all data (for testing). Covers the shared storage of every tenant view.
    */
   clear(): void {
     this.store.clear()
   }
 
   /**
-   * Get the total number of stored entities (for testing/debugging)
+   * Get the total number of stored entities across all tenants (for testing/debugging)
    */
   get size(): number {
     return this.store.size
@@ -306,6 +594,326 @@ export class LocalNounProvider implements NounProvider {
   // Internal
   // =========================================================================
 
+  /**
+   * Validate data against the type's schema, including unique (`##`) fields
+   * across this tenant and the targets of forward (`->`) relationships. Updates pass the entity id and are validated as partial.
+   * Throws EntityValidationError; types without a schema are not validated.
+   */
+  private async validateData(type: string, data: Record<string, unknown>, id?: string): Promise<void> {
+    if (!this.validate) return
+    const schema = getNounSchema(type)
+    if (!schema) return
+
+    const errors = validateEntity(schema, data, { partial: id !== undefined })
+    for (const relationship of forwardRelationships(type, schema)) {
+      const missing = referencedIds(data[relationship.field]).filter((refId) => !this.exists(relationship.targetType, refId))
+      if (missing.length > 0) {
+        errors[relationship.field] = `${formatLabel(relationship.field)} references a missing ${relationship.targetType}: ${missing.join(', ')}`
+      }
+    }
+    for (const key of uniqueFields(schema)) {
+      const value = data[key]
+      if (errors[key] || value === undefined || value === null || value === '') continue
+      const conflict = await this.findOne(type, { [key]: value })
+      if (conflict && conflict.$id !== id) {
+        errors[key] = `${formatLabel(key)} must be unique`
+      }
+    }
+
+    if (Object.keys(errors).length > 0) {
+      throw new EntityValidationError(type, errors)
+    }
+  }
+
+  /**
+   * A fresh entity ID from the ID strategy. IDs already in storage (including
+   * the trash) are regenerated; repeated collisions mean a broken generator.
+   */
+  private newId(type: string): string {
+    for (let attempt = 0; attempt < MAX_ID_ATTEMPTS; attempt++) {
+      const id = generateEntityId(type, this.generateSqid)
+      if (!this.lookup(type, id)) return id
+    }
+    throw new Error(`Could not generate a unique ${type} id after ${MAX_ID_ATTEMPTS} attempts — check the idStrategy`)
+  }
+
+  /**
+   * Look up an entity by id, only if it belongs to this tenant
+   */
+  private readOwn(type: string, id: string): NounInstance | undefined {
+    const instance = this.lookup(type, id)
+    return instance?.$context === this.context ? instance : undefined
+  }
+
+  /**
+   * Read an entity of this tenant that must exist and not be in the trash
+   */
+  private require(type: string, id: string): NounInstance {
+    const existing = this.readOwn(type, id)
+    if (!existing || isDeleted(existing)) {
+      throw new Error(`${type} not found: ${id}`)
+    }
+    return existing
+  }
+
+  /**
+   * All entities of a type in this context matching a filter, in insertion order
+   */
+  private match(type: string, where?: Record<string, unknown>, includeDeleted = false): NounInstance[] {
+    const results: NounInstance[] = []
+    for (const instance of this.withPending(type, this.store.values())) {
+      if (instance.$context !== this.context) continue
+      if (!includeDeleted && isDeleted(instance)) continue
+      if (!matchesFilter(instance, where)) continue
+      results.push(instance)
+    }
+    return results
+  }
+
+  /**
+   * Whether an entity exists in this tenant and is not in the trash
+   */
+  private exists(type: string, id: string): boolean {
+    const instance = this.readOwn(type, id)
+    return instance !== undefined && !isDeleted(instance)
+  }
+
+  /**
+   * Walk incoming relationships from an entity being deleted, applying each
+   * relationship's on-delete rule. Returns the entities to cascade-delete and
+   * the references to clear; throws ReferentialIntegrityError if any restrict.
+   */
+  private async planDelete(root: NounInstance): Promise<DeletePlan> {
+    const cascade = new Map<string, NounInstance>()
+    const clear: DeletePlan['clear'] = []
+    const blocked: Reference[] = []
+    const queue = [root]
+
+    while (queue.length > 0) {
+      const target = queue.shift()!
+      for (const relationship of incomingRelationships(target.$type)) {
+        const action = this.onDelete[`${relationship.sourceType}.${relationship.field}`] ?? 'restrict'
+        const where = { [relationship.field]: relationship.isArray ? { $contains: target.$id } : target.$id }
+        for (const instance of await this.find(relationship.sourceType, where)) {
+          if (instance.$id === root.$id || cascade.has(instance.$id)) continue
+          if (action === 'cascade') {
+            cascade.set(instance.$id, instance)
+            queue.push(instance)
+          } else if (action === 'set-null') {
+            clear.push({ instance, relationship, targetId: target.$id })
+          } else {
+            blocked.push({ type: instance.$type, id: instance.$id, field: relationship.field })
+          }
+        }
+      }
+    }
+
+    if (blocked.length > 0) {
+      throw new ReferentialIntegrityError(root.$type, root.$id, blocked)
+    }
+    return { cascade: [...cascade.values()], clear }
+  }
+
+  /**
+   * Current values of an entity's computed fields, aggregating over this tenant's entities
+   */
+  private computeFields(instance: NounInstance): Promise<Record<string, unknown>> {
+    return computeFields(instance, (type, where) => this.find(type, where))
+  }
+
+  /**
+   * Recompute the rollups of every entity referenced by a written entity's
+   * before and after states
+   */
+  private async refreshRollups(type: string, ...states: Array<NounInstance | null | undefined>): Promise<void> {
+    for (const rollup of rollupsOver(type)) {
+      const targets = new Set(states.flatMap((state) => (state ? referencedIds(state[rollup.sourceField]) : [])))
+      for (const targetId of targets) await this.refreshComputed(rollup.type, targetId)
+    }
+  }
+
+  /**
+   * Store an entity's recomputed fields as a new $version with an update
+   * event, if any changed. Rollups over the entity are refreshed in turn.
+   */
+  private async refreshComputed(type: string, id: string): Promise<void> {
+    const current = this.readOwn(type, id)
+    if (!current || isDeleted(current)) return
+    const values = await this.computeFields(current)
+
+    const existing = this.readOwn(type, id)
+    if (!existing || isDeleted(existing)) return
+    const fields = getComputedFields(type) ?? {}
+    const changed = Object.fromEntries(
+      Object.entries({ ...values, ...computeFormulas({ ...existing, ...values }) }).filter(
+        ([key, value]) => key in fields && JSON.stringify(value) !== JSON.stringify(existing[key]),
+      ),
+    )
+    if (Object.keys(changed).length === 0) return
+
+    const before = { ...existing }
+    const updated: NounInstance = {
+      ...existing,
+      ...changed,
+      $version: existing.$version + 1,
+      $updatedAt: new Date().toISOString(),
+    }
+    this.save(updated)
+
+    await this.emitEvent(type, 'update', id, changed, before, { ...updated })
+    await this.refreshRollups(type, before, updated)
+  }
+
+  /**
+   * Write through writeEntity(), or into the buffer if a transaction is open
+   */
+  private save(instance: NounInstance): void {
+    if (this.tx) this.buffer(instance, instance)
+    else this.writeEntity(instance)
+  }
+
+  /**
+   * Remove through removeEntity(), or from the buffer if a transaction is open
+   */
+  private discard(instance: NounInstance): boolean {
+    if (!this.tx) return this.removeEntity(instance)
+    if (!this.lookup(instance.$type, instance.$id)) return false
+    this.buffer(instance, null)
+    return true
+  }
+
+  /**
+   * Delete an entity: permanently, or by saving its trashed form
+   */
+  private remove(instance: NounInstance, permanent: boolean): boolean {
+    if (permanent) return this.discard(instance)
+    const current = this.lookup(instance.$type, instance.$id)
+    if (!current || isDeleted(current)) return false
+    this.save(toTrashed(current))
+    return true
+  }
+
+  /**
+   * Record a write in the open transaction, remembering the stored $version it was based on
+   */
+  private buffer(instance: NounInstance, written: NounInstance | null): void {
+    const tx = this.tx!
+    if (!tx.base.has(instance.$id)) {
+      tx.base.set(instance.$id, { type: instance.$type, version: this.readEntity(instance.$type, instance.$id)?.$version })
+    }
+    tx.writes.set(instance.$id, written)
+  }
+
+  /**
+   * Apply a transaction's buffered writes to storage. Every entity is checked
+   * against the version the transaction started from before any is written.
+   */
+  private commit(tx: Transaction): void {
+    for (const [id, { type, version }] of tx.base) {
+      if (version === undefined) continue
+      const current = this.readEntity(type, id)
+      if (!current) throw new Error(`${type} not found: ${id}`)
+      if (current.$version !== version) throw new ConflictError(type, id, version, { ...current })
+    }
+    const batch: BatchWrite[] = []
+    for (const [id, written] of tx.writes) {
+      if (written) {
+        batch.push({ op: 'put', instance: written })
+      } else {
+        const current = this.readEntity(tx.base.get(id)!.type, id)
+        if (current) batch.push({ op: 'remove', instance: current })
+      }
+    }
+    this.writeBatch(batch)
+  }
+
+  /**
+   * Look up an entity by id, seeing the open transaction's buffered writes
+   */
+  private lookup(type: string, id: string): NounInstance | undefined {
+    if (this.tx?.writes.has(id)) {
+      const written = this.tx.writes.get(id)
+      return written?.$type === type ? written : undefined
+    }
+    return this.readEntity(type, id)
+  }
+
+  /**
+   * Stored entities of a type, overlaid with the open transaction's buffered
+   * writes so reads inside the transaction see them
+   */
+  protected withPending(type: string, stored: Iterable<NounInstance>): NounInstance[] {
+    const writes = this.tx?.writes
+    const results: NounInstance[] = []
+    const seen = new Set<string>()
+    for (const instance of stored) {
+      if (instance.$type !== type) continue
+      if (!writes?.has(instance.$id)) {
+        results.push(instance)
+        continue
+      }
+      seen.add(instance.$id)
+      const written = writes.get(instance.$id)
+      if (written) results.push(written)
+    }
+    for (const [id, written] of writes ?? []) {
+      if (written?.$type === type && !seen.has(id)) results.push(written)
+    }
+    return results
+  }
+
+  /**
+   * Whether a transaction is open with writes not yet in storage
+   */
+  protected get pending(): boolean {
+    return (this.tx?.writes.size ?? 0) > 0
+  }
+
+  /**
+   * Whether any entity, of any type or tenant, has this id (buffered
+   * transaction writes included)
+   */
+  protected hasId(id: string): boolean {
+    return Boolean(this.tx?.writes.get(id)) || this.store.has(id)
+  }
+
+  /**
+   * Look up an entity by id. Every read-by-id goes through here so subclasses
+   * can serve it from their own storage.
+   */
+  protected readEntity(type: string, id: string): NounInstance | undefined {
+    const instance = this.store.get(id)
+    if (!instance || instance.$type !== type) return undefined
+    return instance
+  }
+
+  /**
+   * Store an entity. Every write path goes through here so subclasses
+   * (e.g. FileNounProvider) can persist the change.
+   */
+  protected writeEntity(instance: NounInstance): void {
+    this.store.set(instance.$id, instance)
+  }
+
+  /**
+   * Remove an entity. Counterpart of writeEntity() for deletes.
+   */
+  protected removeEntity(instance: NounInstance): boolean {
+    return this.store.delete(instance.$id)
+  }
+
+  /**
+   * Apply a committed transaction's writes. Goes through writeEntity() and
+   * removeEntity() one at a time; subclasses whose storage can apply the
+   * batch atomically override it.
+   */
+  protected writeBatch(batch: BatchWrite[]): void {
+    for (const write of batch) {
+      if (write.op === 'put') this.writeEntity(write.instance)
+      else this.removeEntity(write.instance)
+    }
+  }
+
   private async emitEvent(
     entityType: string,
     verb: string,
@@ -313,12 +921,32 @@ export class LocalNounProvider implements NounProvider {
     data?: Record<string, unknown>,
     beforeState?: Record<string, unknown> | null,
     afterState?: Record<string, unknown> | null,
+    overrides: { $type?: string; conjugation?: NounEventInput['conjugation'] } = {},
+  ): Promise<void> {
+    // Inside a transaction, events wait for commit
+    if (this.tx) {
+      this.tx.events.push(() => this.publishEvent(entityType, verb, entityId, data, beforeState, afterState, overrides))
+      return
+    }
+    await this.publishEvent(entityType, verb, entityId, data, beforeState, afterState, overrides)
+  }
+
+  private async publishEvent(
+    entityType: string,
+    verb: string,
+    entityId: string,
+    data?: Record<string, unknown>,
+    beforeState?: Record<string, unknown> | null,
+    afterState?: Record<string, unknown> | null,
+    overrides: { $type?: string; conjugation?: NounEventInput['conjugation'] } = {},
   ): Promise<void> {
+    const eventType = overrides.$type ?? `${entityType}.${verb}`
+
     // Emit to EventLog if provided (full NounEvent with conjugation + sequence)
     if (this.eventLog) {
-      const conj = conjugateVerb(verb)
+      const conj = overrides.conjugation ?? conjugateVerb(verb)
       const input: NounEventInput = {
-        $type: `${entityType}.${verb}`,
+        $type: eventType,
         entityType,
         entityId,
         verb,
@@ -326,6 +954,7 @@ export class LocalNounProvider implements NounProvider {
         data,
         before: beforeState ?? undefined,
         after: afterState ?? undefined,
+        actor: this.actor,
         context: this.context,
       }
       await this.eventLog.append(input)
@@ -335,12 +964,14 @@ export class LocalNounProvider implements NounProvider {
     if (this.events) {
       const event: NounEvent = {
         $id: generateEventId(),
-        $type: `${entityType}.${verb}`,
+        $type: eventType,
         entityType,
         entityId,
         verb,
         data,
         timestamp: new Date().toISOString(),
+        actor: this.actor,
+        context: this.context,
       }
       await this.events.emit(event)
     }
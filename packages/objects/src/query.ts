@@ -0,0 +1,183 @@
+/**
+ * Query options — sorting, pagination, and projection for NounProvider.find()
+ *
+ * Providers that can push these down (SQLite, the DO backend) do so; the
+ * helpers here give every provider the same in-memory semantics otherwise:
+ *
+ * - sort: multi-key, applied in key order (`{ stage: 'asc', value: 'desc' }`)
+ * - offset / cursor: skip N matches; cursors are opaque and returned by findPage()
+ * - limit: maximum number of items returned
+ * - select: field projection ($id and $type are always kept)
+ */
+
+import type { NounInstance } from 'digital-objects'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type SortDirection = 'asc' | 'desc'
+
+/** Sort specification — keys are applied in insertion order */
+export type SortSpec = Record<string, SortDirection>
+
+/**
+ * Options for NounProvider.find() and findPage()
+ */
+export interface FindOptions {
+  /** Multi-key sort, e.g. `{ stage: 'asc', $createdAt: 'desc' }` */
+  sort?: SortSpec
+  /** Maximum number of items to return */
+  limit?: number
+  /** Number of matches to skip */
+  offset?: number
+  /** Opaque cursor from a previous findPage() — takes precedence over offset */
+  cursor?: string
+  /** Fields to return ($id and $type are always included) */
+  select?: string[]
+  /** Include soft-deleted entities (those with `$deletedAt`) */
+  includeDeleted?: boolean
+}
+
+/**
+ * One page of find() results
+ */
+export interface FindPage<T = NounInstance> {
+  items: T[]
+  /** Total number of matches, ignoring limit/offset */
+  total: number
+  /** Cursor for the next page, absent on the last page */
+  nextCursor?: string
+}
+
+// =============================================================================
+// Cursors
+// =============================================================================
+
+/**
+ * Encode a pagination cursor. The format is opaque to callers.
+ */
+export function encodeCursor(offset: number): string {
+  return btoa(JSON.stringify({ offset }))
+}
+
+/**
+ * Decode a pagination cursor, returning the offset it points at.
+ * Throws on a malformed cursor.
+ */
+export function decodeCursor(cursor: string): number {
+  let decoded: unknown
+  try {
+    decoded = JSON.parse(atob(cursor))
+  } catch {
+    throw new Error(`Invalid cursor: ${cursor}`)
+  }
+  const offset = (decoded as { offset?: unknown })?.offset
+  if (typeof offset !== 'number' || !Number.isInteger(offset) || offset < 0) {
+    throw new Error(`Invalid cursor: ${cursor}`)
+  }
+  return offset
+}
+
+/**
+ * Resolve the effective start offset from cursor/offset options
+ */
+export function resolveOffset(options?: FindOptions): number {
+  if (options?.cursor) return decodeCursor(options.cursor)
+  return Math.max(options?.offset ?? 0, 0)
+}
+
+// =============================================================================
+// Sorting
+// =============================================================================
+
+/**
+ * Rank values by type so mixed columns sort like SQLite:
+ * null/undefined < numbers/booleans < strings < everything else
+ */
+function typeRank(value: unknown): number {
+  if (value === null || value === undefined) return 0
+  if (typeof value === 'number' || typeof value === 'boolean') return 1
+  if (typeof value === 'string') return 2
+  return 3
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  const rankA = typeRank(a)
+  const rankB = typeRank(b)
+  if (rankA !== rankB) return rankA - rankB
+  if (rankA === 0) return 0
+  if (rankA === 3) {
+    const sa = JSON.stringify(a)
+    const sb = JSON.stringify(b)
+    return sa < sb ? -1 : sa > sb ? 1 : 0
+  }
+  const va = a as number | string
+  const vb = b as number | string
+  return va < vb ? -1 : va > vb ? 1 : 0
+}
+
+/**
+ * Build a comparator for a multi-key sort specification
+ */
+export function compareBy(sort: SortSpec): (a: Record<string, unknown>, b: Record<string, unknown>) => number {
+  const keys = Object.entries(sort)
+  return (a, b) => {
+    for (const [key, direction] of keys) {
+      const cmp = compareValues(a[key], b[key])
+      if (cmp !== 0) return direction === 'desc' ? -cmp : cmp
+    }
+    return 0
+  }
+}
+
+// =============================================================================
+// Projection
+// =============================================================================
+
+/**
+ * Project an entity down to the selected fields plus $id and $type
+ */
+export function project<T extends Record<string, unknown>>(instance: T, select: string[]): T {
+  const result: Record<string, unknown> = { $id: instance.$id, $type: instance.$type }
+  for (const field of select) {
+    if (field in instance) result[field] = instance[field]
+  }
+  return result as T
+}
+
+// =============================================================================
+// In-memory application
+// =============================================================================
+
+/**
+ * Apply sort, offset/cursor, limit, and select to an already-filtered result set.
+ * Returns a page with the total match count and the next cursor.
+ */
+export function paginate<T extends Record<string, unknown>>(results: T[], options: FindOptions = {}): FindPage<T> {
+  const sorted = options.sort && Object.keys(options.sort).length > 0 ? [...results].sort(compareBy(options.sort)) : results
+  const start = resolveOffset(options)
+  const end = options.limit !== undefined ? start + Math.max(options.limit, 0) : sorted.length
+  const slice = sorted.slice(start, end)
+  const items = options.select ? slice.map((item) => project(item, options.select!)) : slice
+  return {
+    items,
+    total: sorted.length,
+    nextCursor: end < sorted.length ? encodeCursor(end) : undefined,
+  }
+}
+
+/**
+ * Whether any option is set beyond the filter itself
+ */
+export function hasFindOptions(options?: FindOptions): options is FindOptions {
+  if (!options) return false
+  return (
+    (options.sort !== undefined && Object.keys(options.sort).length > 0) ||
+    options.limit !== undefined ||
+    options.offset !== undefined ||
+    options.cursor !== undefined ||
+    options.select !== undefined ||
+    options.includeDeleted === true
+  )
+}
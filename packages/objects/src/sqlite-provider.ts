@@ -0,0 +1,495 @@
+/**
+ * SQLiteNounProvider — NounProvider backed by SQLite
+ *
+ * Stores each Noun type in its own table, derived from the type's NounSchema,
+ * over the same `SqlStorage.exec()` interface SQLiteEventLog uses. Works against
+ * Durable Object SQL (`ctx.storage.sql`) and any better-sqlite3-style stand-in.
+ *
+ * Table layout (`noun_{snake_type}`):
+ * - "$id", "$context", "$version", "$createdAt", "$updatedAt", "$deletedAt" — meta-fields
+ * - "$data" — the full entity as JSON (source of truth for reads)
+ * - one column per scalar schema field and forward relationship, for filtering and indexing
+ *
+ * `##` unique fields get a UNIQUE index per tenant context (trashed rows excluded), `#` indexed fields a
+ * plain index. find() filters, sort, limit, and offset are compiled to SQL where
+ * possible; anything that cannot be expressed in SQL ($regex without a REGEXP
+ * function, logical operators, dot-paths, array and date operators) is applied
+ * in JS with the shared filter engine after the query.
+ *
+ * Events, verbs, and meta-field handling are inherited from LocalNounProvider.
+ */
+
+import type { NounInstance, NounSchema } from 'digital-objects'
+import { getNounSchema } from 'digital-objects'
+import type { SqlStorage } from '@headlessly/events'
+import { LocalNounProvider } from './local-provider.js'
+import type { BatchWrite, LocalNounProviderOptions } from './local-provider.js'
+import { encodeCursor, paginate, project, resolveOffset } from './query.js'
+import type { FindOptions, FindPage } from './query.js'
+import { matchesFilter } from './filter.js'
+import { isDeleted } from './trash.js'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for creating a SQLiteNounProvider
+ */
+export interface SQLiteNounProviderOptions extends LocalNounProviderOptions {
+  /** Table name prefix (defaults to 'noun_') */
+  tablePrefix?: string
+  /** Whether the database has a REGEXP function registered, so $regex can be pushed down (defaults to false) */
+  regexp?: boolean
+  /**
+   * Runs `fn` as one SQL transaction; a committed transaction's writes go
+   * through it. Durable Objects reject BEGIN, so pass `(fn) => ctx.storage.transactionSync(fn)`;
+   * with better-sqlite3, `(fn) => db.transaction(fn)()`. Defaults to BEGIN/COMMIT through exec().
+   */
+  transactionSync?: <T>(fn: () => T) => T
+}
+
+/** A parsed schema property (field or relationship) */
+type ParsedProperty = NounSchema['fields'] extends Map<string, infer P> ? P : never
+
+/** A noun table and its schema-derived columns */
+interface TableInfo {
+  name: string
+  columns: Map<string, ParsedProperty>
+}
+
+/** A compiled WHERE clause plus the filters that must run in JS */
+interface CompiledFilter {
+  clauses: string[]
+  bindings: unknown[]
+  residual: Record<string, unknown>
+}
+
+const IDENTIFIER_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/
+
+const META_COLUMNS = ['$id', '$context', '$version', '$createdAt', '$updatedAt', '$deletedAt'] as const
+
+const INTEGER_TYPES = new Set(['int', 'integer', 'boolean', 'bool'])
+const REAL_TYPES = new Set(['number', 'float', 'decimal'])
+const TEXT_TYPES = new Set(['string', 'text', 'date', 'datetime', 'timestamp', 'email', 'url', 'id', 'markdown'])
+
+// =============================================================================
+// Schema mapping
+// =============================================================================
+
+function toSnakeCase(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase()
+}
+
+function quote(column: string): string {
+  return `"${column}"`
+}
+
+/**
+ * Map a parsed schema property to a SQL column type, or null if it is only
+ * stored in the JSON "$data" column (arrays, reverse relationships, objects).
+ */
+function columnType(prop: ParsedProperty): string | null {
+  if (!IDENTIFIER_PATTERN.test(prop.name)) return null
+  if (prop.isArray || prop.modifiers?.array) return null
+  if (prop.kind === 'enum') return 'TEXT'
+  if (prop.kind === 'relationship') return prop.operator === '->' ? 'TEXT' : null
+  if (prop.kind !== 'field') return null
+  const type = (prop.type ?? 'string').toLowerCase()
+  if (INTEGER_TYPES.has(type)) return 'INTEGER'
+  if (REAL_TYPES.has(type)) return 'REAL'
+  if (TEXT_TYPES.has(type)) return 'TEXT'
+  return null
+}
+
+function schemaColumns(schema: NounSchema | undefined): Map<string, ParsedProperty> {
+  const columns = new Map<string, ParsedProperty>()
+  if (!schema) return columns
+  for (const props of [schema.fields, schema.relationships]) {
+    for (const [name, prop] of props) {
+      if (columnType(prop)) columns.set(name, prop)
+    }
+  }
+  return columns
+}
+
+/**
+ * Convert a JS value to something every SqlStorage binding accepts
+ * (DO SQL and better-sqlite3 both reject booleans and undefined).
+ */
+function toSqlValue(value: unknown): unknown {
+  if (value === undefined || value === null) return null
+  if (typeof value === 'boolean') return value ? 1 : 0
+  if (value instanceof Date) return value.toISOString()
+  if (typeof value === 'object') return JSON.stringify(value)
+  return value
+}
+
+function isScalar(value: unknown): value is string | number | boolean {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+}
+
+/**
+ * Run `fn` between BEGIN and COMMIT, rolling back if it throws
+ */
+function execTransaction<T>(sql: SqlStorage, fn: () => T): T {
+  sql.exec('BEGIN')
+  try {
+    const result = fn()
+    sql.exec('COMMIT')
+    return result
+  } catch (err) {
+    sql.exec('ROLLBACK')
+    throw err
+  }
+}
+
+// =============================================================================
+// SQLiteNounProvider
+// =============================================================================
+
+/**
+ * SQLiteNounProvider — SQL-backed NounProvider with event emission
+ *
+ * @example
+ * ```typescript
+ * import { setProvider } from 'digital-objects'
+ * import { SQLiteNounProvider } from '@headlessly/objects'
+ *
+ * // Inside a Durable Object
+ * setProvider(new SQLiteNounProvider(this.ctx.storage.sql, { transactionSync: (fn) => this.ctx.storage.transactionSync(fn) }))
+ * ```
+ */
+export class SQLiteNounProvider extends LocalNounProvider {
+  private sql: SqlStorage
+  private tablePrefix: string
+  private regexp: boolean
+  private transactionSync: <T>(fn: () => T) => T
+  private tables = new Map<string, TableInfo>()
+
+  constructor(sql: SqlStorage, options: SQLiteNounProviderOptions = {}) {
+    super(options)
+    this.sql = sql
+    this.tablePrefix = options.tablePrefix ?? 'noun_'
+    this.regexp = options.regexp ?? false
+    this.transactionSync = options.transactionSync ?? ((fn) => execTransaction(sql, fn))
+    if (!IDENTIFIER_PATTERN.test(this.tablePrefix)) {
+      throw new Error(`Invalid table prefix "${this.tablePrefix}": must contain only alphanumeric characters and underscores`)
+    }
+  }
+
+  override async find(type: string, where?: Record<string, unknown>, options?: FindOptions): Promise<NounInstance[]> {
+    return (await this.query(type, where, options, false)).items
+  }
+
+  override async findPage(type: string, where?: Record<string, unknown>, options?: FindOptions): Promise<FindPage> {
+    return this.query(type, where, options, true)
+  }
+
+  override async findOne(type: string, where?: Record<string, unknown>): Promise<NounInstance | null> {
+    const [first] = await this.find(type, where)
+    return first ?? null
+  }
+
+  override async count(type: string): Promise<number> {
+    if (this.pending) return (await this.find(type)).length
+    const table = this.ensureTable(type)
+    const row = this.sql.exec(`SELECT COUNT(*) as count FROM ${table.name} WHERE "$context" = ? AND "$deletedAt" IS NULL`, this.context).toArray()[0]
+    return Number(row?.count ?? 0)
+  }
+
+  /**
+   * Delete all rows from every noun table (for testing)
+   */
+  override clear(): void {
+    for (const name of this.listTables()) {
+      this.sql.exec(`DELETE FROM ${name}`)
+    }
+  }
+
+  /**
+   * Total number of stored entities across all noun tables (for testing/debugging)
+   */
+  override get size(): number {
+    let total = 0
+    for (const name of this.listTables()) {
+      const row = this.sql.exec(`SELECT COUNT(*) as count FROM ${name}`).toArray()[0]
+      total += Number(row?.count ?? 0)
+    }
+    return total
+  }
+
+  // =========================================================================
+  // Storage hooks
+  // =========================================================================
+
+  protected override readEntity(type: string, id: string): NounInstance | undefined {
+    const table = this.ensureTable(type)
+    const row = this.sql.exec(`SELECT "$data" FROM ${table.name} WHERE "$id" = ?`, id).toArray()[0]
+    return row ? (JSON.parse(row['$data'] as string) as NounInstance) : undefined
+  }
+
+  protected override hasId(id: string): boolean {
+    if (super.hasId(id)) return true
+    return this.listTables().some((name) => this.sql.exec(`SELECT 1 FROM ${name} WHERE "$id" = ?`, id).toArray().length > 0)
+  }
+
+  protected override writeEntity(instance: NounInstance): void {
+    const table = this.ensureTable(instance.$type)
+    const columns = [...META_COLUMNS, '$data', ...table.columns.keys()]
+    const values = [
+      instance.$id,
+      instance.$context,
+      instance.$version,
+      instance.$createdAt,
+      instance.$updatedAt,
+      instance.$deletedAt ?? null,
+      JSON.stringify(instance),
+      ...[...table.columns.keys()].map((name) => toSqlValue(instance[name])),
+    ]
+    const updates = columns
+      .filter((c) => c !== '$id')
+      .map((c) => `${quote(c)} = excluded.${quote(c)}`)
+      .join(', ')
+
+    this.sql.exec(
+      `INSERT INTO ${table.name} (${columns.map(quote).join(', ')}) VALUES (${columns.map(() => '?').join(', ')}) ON CONFLICT("$id") DO UPDATE SET ${updates}`,
+      ...values,
+    )
+  }
+
+  protected override removeEntity(instance: NounInstance): boolean {
+    const table = this.ensureTable(instance.$type)
+    const existing = this.sql.exec(`SELECT "$id" FROM ${table.name} WHERE "$id" = ?`, instance.$id).toArray()
+    if (existing.length === 0) return false
+    this.sql.exec(`DELETE FROM ${table.name} WHERE "$id" = ?`, instance.$id)
+    return true
+  }
+
+  protected override writeBatch(batch: BatchWrite[]): void {
+    // Create tables first so the cache never holds one a rollback undid
+    for (const write of batch) this.ensureTable(write.instance.$type)
+    this.transactionSync(() => super.writeBatch(batch))
+  }
+
+  // =========================================================================
+  // Internal
+  // =========================================================================
+
+  /**
+   * Create (or migrate) the table for a type. Safe to call repeatedly —
+   * new schema fields are added as columns, existing data is untouched.
+   */
+  private ensureTable(type: string): TableInfo {
+    const cached = this.tables.get(type)
+    if (cached) return cached
+
+    const name = `${this.tablePrefix}${toSnakeCase(type)}`
+    if (!IDENTIFIER_PATTERN.test(name)) {
+      throw new Error(`Invalid noun type "${type}": cannot be used as a table name`)
+    }
+
+    const columns = schemaColumns(getNounSchema(type))
+
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS ${name} (
+        "$id" TEXT PRIMARY KEY,
+        "$context" TEXT NOT NULL,
+        "$version" INTEGER NOT NULL,
+        "$createdAt" TEXT NOT NULL,
+        "$updatedAt" TEXT NOT NULL,
+        "$deletedAt" TEXT,
+        "$data" TEXT NOT NULL
+      )
+    `)
+    this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_${name}_context ON ${name}("$context")`)
+
+    const existing = new Set(
+      this.sql
+        .exec(`PRAGMA table_info(${name})`)
+        .toArray()
+        .map((row) => row.name as string),
+    )
+    // Tables created before soft delete: add "$deletedAt" and rebuild unique
+    // indexes so they ignore trashed rows
+    const migrateTrash = !existing.has('$deletedAt')
+    if (migrateTrash) {
+      this.sql.exec(`ALTER TABLE ${name} ADD COLUMN "$deletedAt" TEXT`)
+    }
+    for (const [column, prop] of columns) {
+      if (!existing.has(column)) {
+        this.sql.exec(`ALTER TABLE ${name} ADD COLUMN ${quote(column)} ${columnType(prop)}`)
+      }
+      if (prop.modifiers?.unique) {
+        if (migrateTrash) this.sql.exec(`DROP INDEX IF EXISTS idx_${name}_${column}`)
+        this.sql.exec(`CREATE UNIQUE INDEX IF NOT EXISTS idx_${name}_${column} ON ${name}("$context", ${quote(column)}) WHERE "$deletedAt" IS NULL`)
+      } else if (prop.modifiers?.indexed) {
+        this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_${name}_${column} ON ${name}(${quote(column)})`)
+      }
+    }
+
+    const info: TableInfo = { name, columns }
+    this.tables.set(type, info)
+    return info
+  }
+
+  /**
+   * Run a find. When the whole filter and sort compile to SQL, ORDER BY /
+   * LIMIT / OFFSET are pushed down too; otherwise matches are paginated in JS.
+   */
+  private query(type: string, where: Record<string, unknown> | undefined, options: FindOptions | undefined, withTotal: boolean): FindPage {
+    const table = this.ensureTable(type)
+    const { clauses, bindings, residual } = this.compileFilter(table, where)
+    const conditions = ['"$context" = ?', ...(options?.includeDeleted ? [] : ['"$deletedAt" IS NULL']), ...clauses].join(' AND ')
+    const whereBindings = [this.context, ...bindings]
+
+    const sortKeys = Object.entries(options?.sort ?? {})
+    const orderBy = sortKeys.map(([key, direction]) => {
+      const expr = this.columnExpr(table, key)
+      return expr ? `${expr} ${direction === 'desc' ? 'DESC' : 'ASC'}` : null
+    })
+
+    const parse = (rows: Record<string, unknown>[]) => rows.map((row) => JSON.parse(row['$data'] as string) as NounInstance)
+
+    // Buffered transaction writes are not in the table yet: match in JS over the table overlaid with them
+    if (this.pending) {
+      const rows = this.sql.exec(`SELECT "$data" FROM ${table.name} WHERE "$context" = ? ORDER BY rowid`, this.context).toArray()
+      const matches = this.withPending(type, parse(rows)).filter(
+        (instance) => instance.$context === this.context && (options?.includeDeleted || !isDeleted(instance)) && matchesFilter(instance, where),
+      )
+      return paginate(matches, options)
+    }
+
+    if (Object.keys(residual).length > 0 || orderBy.includes(null)) {
+      const rows = this.sql.exec(`SELECT "$data" FROM ${table.name} WHERE ${conditions} ORDER BY rowid`, ...whereBindings).toArray()
+      const matches = parse(rows).filter((instance) => matchesFilter(instance, residual))
+      return paginate(matches, options)
+    }
+
+    const start = resolveOffset(options)
+    const limit = options?.limit !== undefined ? Math.max(options.limit, 0) : -1
+    const rows = this.sql
+      .exec(
+        `SELECT "$data" FROM ${table.name} WHERE ${conditions} ORDER BY ${[...orderBy, 'rowid'].join(', ')} LIMIT ? OFFSET ?`,
+        ...whereBindings,
+        limit,
+        start,
+      )
+      .toArray()
+    const instances = parse(rows)
+    const items = options?.select ? instances.map((instance) => project(instance, options.select!)) : instances
+
+    if (!withTotal) return { items, total: items.length }
+
+    const countRow = this.sql.exec(`SELECT COUNT(*) as count FROM ${table.name} WHERE ${conditions}`, ...whereBindings).toArray()[0]
+    const total = Number(countRow?.count ?? 0)
+    const end = start + items.length
+    return { items, total, nextCursor: limit >= 0 && end < total ? encodeCursor(end) : undefined }
+  }
+
+  private listTables(): string[] {
+    return this.sql
+      .exec(`SELECT name FROM sqlite_master WHERE type = 'table' AND substr(name, 1, ?) = ?`, this.tablePrefix.length, this.tablePrefix)
+      .toArray()
+      .map((row) => row.name as string)
+  }
+
+  /**
+   * Column expression for a filter key: a real column for meta-fields and
+   * schema fields, json_extract() on "$data" for everything else.
+   */
+  private columnExpr(table: TableInfo, key: string): string | null {
+    if ((META_COLUMNS as readonly string[]).includes(key)) return quote(key)
+    if (table.columns.has(key)) return quote(key)
+    if (key.startsWith('$') || !IDENTIFIER_PATTERN.test(key)) return null
+    return `json_extract("$data", '$.${key}')`
+  }
+
+  /**
+   * Compile a MongoDB-style filter to SQL with the same semantics as
+   * LocalNounProvider. Keys that cannot be compiled are returned as `residual`.
+   */
+  private compileFilter(table: TableInfo, where?: Record<string, unknown>): CompiledFilter {
+    const compiled: CompiledFilter = { clauses: [], bindings: [], residual: {} }
+    if (!where) return compiled
+
+    for (const [key, filter] of Object.entries(where)) {
+      const expr = this.columnExpr(table, key)
+      const clause = expr ? this.compileCondition(expr, filter) : null
+      if (clause) {
+        compiled.clauses.push(clause.sql)
+        compiled.bindings.push(...clause.bindings)
+      } else {
+        compiled.residual[key] = filter
+      }
+    }
+    return compiled
+  }
+
+  private compileCondition(expr: string, filter: unknown): { sql: string; bindings: unknown[] } | null {
+    const isOperators = typeof filter === 'object' && filter !== null && !Array.isArray(filter) && Object.keys(filter).some((k) => k.startsWith('$'))
+    if (!isOperators) {
+      if (filter === null) return { sql: `${expr} IS NULL`, bindings: [] }
+      if (!isScalar(filter)) return null
+      return { sql: `${expr} = ?`, bindings: [toSqlValue(filter)] }
+    }
+
+    const parts: string[] = []
+    const bindings: unknown[] = []
+    for (const [op, value] of Object.entries(filter as Record<string, unknown>)) {
+      switch (op) {
+        case '$eq':
+          if (!isScalar(value)) return null
+          parts.push(`${expr} = ?`)
+          bindings.push(toSqlValue(value))
+          break
+        case '$ne':
+          if (!isScalar(value)) return null
+          parts.push(`(${expr} IS NULL OR ${expr} != ?)`)
+          bindings.push(toSqlValue(value))
+          break
+        case '$gt':
+        case '$gte':
+        case '$lt':
+        case '$lte': {
+          // Numbers compile to SQL; date comparisons are left to the filter engine
+          if (typeof value !== 'number') return null
+          const sqlOp = { $gt: '>', $gte: '>=', $lt: '<', $lte: '<=' }[op]
+          parts.push(`(typeof(${expr}) IN ('integer', 'real') AND ${expr} ${sqlOp} ?)`)
+          bindings.push(value)
+          break
+        }
+        case '$in':
+        case '$nin': {
+          if (!Array.isArray(value)) {
+            parts.push('0')
+            break
+          }
+          if (!value.every(isScalar)) return null
+          if (value.length === 0) {
+            parts.push(op === '$in' ? '0' : '1')
+            break
+          }
+          const placeholders = value.map(() => '?').join(', ')
+          parts.push(op === '$in' ? `${expr} IN (${placeholders})` : `(${expr} IS NULL OR ${expr} NOT IN (${placeholders}))`)
+          bindings.push(...value.map(toSqlValue))
+          break
+        }
+        case '$exists':
+          parts.push(value ? `${expr} IS NOT NULL` : `${expr} IS NULL`)
+          break
+        case '$regex': {
+          if (!this.regexp) return null
+          if (value instanceof RegExp && value.flags) return null
+          parts.push(`(typeof(${expr}) = 'text' AND ${expr} REGEXP ?)`)
+          bindings.push(value instanceof RegExp ? value.source : String(value))
+          break
+        }
+        default:
+          // $not, $contains, $size, and unknown operators are evaluated in JS
+          return null
+      }
+    }
+    return { sql: parts.length ? `(${parts.join(' AND ')})` : '1', bindings }
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * State machines — declarative verb transitions for Nouns
+ *
+ * A Noun can declare which verbs are allowed from which states of a status field:
+ *
+ *   defineStateMachine('Ticket', {
+ *     field: 'status',
+ *     transitions: {
+ *       start: { from: 'Open', to: 'InProgress' },
+ *       resolve: { from: 'InProgress', to: 'Resolved' },
+ *       close: { from: 'Resolved', to: 'Closed' },
+ *       reopen: { from: ['Resolved', 'Closed'], to: 'Open' },
+ *     },
+ *   })
+ *
+ * executeVerb() and LocalNounProvider.perform() then set the target state
+ * automatically and reject verbs that are not valid from the current state
+ * with an InvalidTransitionError. Verbs without a declared transition are
+ * unaffected.
+ */
+
+import type { NounInstance } from 'digital-objects'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A single verb transition. `from: '*'` allows the verb from any state.
+ */
+export interface Transition {
+  from: string | string[]
+  to: string
+}
+
+/**
+ * State machine declaration for a Noun
+ */
+export interface StateMachineDefinition {
+  /** Field holding the current state (e.g. 'status', 'stage') */
+  field: string
+  /** Verb name → transition */
+  transitions: Record<string, Transition>
+}
+
+/**
+ * A registered state machine with its derived state list
+ */
+export interface StateMachine extends StateMachineDefinition {
+  type: string
+  /** Every state mentioned by a transition, in declaration order */
+  states: string[]
+}
+
+/**
+ * Error thrown when a verb is not allowed from an entity's current state
+ */
+export class InvalidTransitionError extends Error {
+  constructor(
+    public readonly type: string,
+    public readonly id: string,
+    public readonly verb: string,
+    public readonly state: string | undefined,
+    public readonly allowed: string[],
+  ) {
+    super(
+      `Cannot ${verb} ${type}/${id} from state '${state ?? 'none'}'` + (allowed.length > 0 ? ` (allowed: ${allowed.join(', ')})` : ' (no verbs allowed)'),
+    )
+    this.name = 'InvalidTransitionError'
+  }
+}
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+const machines = new Map<string, StateMachine>()
+
+/**
+ * Declare the state machine for a Noun type, replacing any previous declaration
+ */
+export function defineStateMachine(type: string, definition: StateMachineDefinition): StateMachine {
+  const states: string[] = []
+  for (const { from, to } of Object.values(definition.transitions)) {
+    for (const state of [...(Array.isArray(from) ? from : [from]), to]) {
+      if (state !== '*' && !states.includes(state)) states.push(state)
+    }
+  }
+  const machine: StateMachine = { type, field: definition.field, transitions: { ...definition.transitions }, states }
+  machines.set(type, machine)
+  return machine
+}
+
+/**
+ * Get the state machine declared for a Noun type
+ */
+export function getStateMachine(type: string): StateMachine | undefined {
+  return machines.get(type)
+}
+
+/**
+ * Remove all state machine declarations (for tests)
+ */
+export function clearStateMachines(): void {
+  machines.clear()
+}
+
+// =============================================================================
+// Transitions
+// =============================================================================
+
+function allowsFrom(transition: Transition, state: string | undefined): boolean {
+  const from = Array.isArray(transition.from) ? transition.from : [transition.from]
+  return from.includes('*') || (state !== undefined && from.includes(state))
+}
+
+/**
+ * Verbs valid from an entity's current state
+ */
+export function availableVerbs(machine: StateMachine, instance: Record<string, unknown>): string[] {
+  const state = instance[machine.field] as string | undefined
+  return Object.entries(machine.transitions)
+    .filter(([, transition]) => allowsFrom(transition, state))
+    .map(([verb]) => verb)
+}
+
+/**
+ * Apply a verb's transition to the data it will be performed with.
+ *
+ * Returns the data with the state field set to the transition's target, or the
+ * data unchanged if the type has no state machine or the verb no transition.
+ * Throws InvalidTransitionError if the verb is not allowed from the current state.
+ */
+export function applyTransition(instance: NounInstance, verb: string, data?: Record<string, unknown>): Record<string, unknown> | undefined {
+  const machine = machines.get(instance.$type)
+  const transition = machine?.transitions[verb]
+  if (!machine || !transition) return data
+
+  const state = instance[machine.field] as string | undefined
+  if (!allowsFrom(transition, state)) {
+    throw new InvalidTransitionError(instance.$type, instance.$id, verb, state, availableVerbs(machine, instance))
+  }
+  return { ...data, [machine.field]: transition.to }
+}
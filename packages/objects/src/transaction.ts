@@ -0,0 +1,194 @@
+/**
+ * Transactions — all-or-nothing groups of provider writes
+ *
+ * A transactional provider runs a callback against a provider scoped to the
+ * transaction. Writes made through it become visible to the outside world, and
+ * their lifecycle events are emitted, only once the callback resolves. If the
+ * callback throws, every write is undone and no events are emitted.
+ *
+ * - LocalNounProvider buffers writes in a per-transaction view of itself and
+ *   applies them, then emits their events, on commit.
+ * - Remote providers buffer writes in a TransactionBuffer and send them to the
+ *   server as a single `transaction(ops)` call on commit.
+ */
+
+import type { NounProvider, NounInstance } from 'digital-objects'
+import { generateEntityId } from './id.js'
+import { hasFindOptions, paginate } from './query.js'
+import type { FindOptions } from './query.js'
+import { matchesFilter } from './filter.js'
+import { applyTransition } from './state-machine.js'
+import { checkVersion } from './concurrency.js'
+import type { WriteOptions } from './concurrency.js'
+import type { DeleteOptions, GetOptions } from './trash.js'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A NounProvider that can run a group of writes atomically
+ */
+export interface TransactionalProvider extends NounProvider {
+  transaction<T>(fn: (tx: NounProvider) => Promise<T>): Promise<T>
+}
+
+/**
+ * A buffered write, sent to the server in order on commit
+ */
+export type TransactionOp =
+  | { op: 'create'; type: string; id: string; data: Record<string, unknown> }
+  | { op: 'update'; type: string; id: string; data: Record<string, unknown>; ifVersion?: number }
+  | { op: 'delete'; type: string; id: string; ifVersion?: number; permanent?: boolean }
+  | { op: 'restore'; type: string; id: string }
+  | { op: 'perform'; type: string; id: string; verb: string; data?: Record<string, unknown>; ifVersion?: number }
+
+/**
+ * The method a remote provider's server exposes to apply a transaction's
+ * buffered writes all-or-nothing
+ */
+export interface TransactionRpc {
+  transaction(ops: TransactionOp[]): Promise<unknown>
+}
+
+/** NounProvider.get() extended with GetOptions, as the built-in providers implement it */
+type TrashAwareGet = (type: string, id: string, options?: GetOptions) => Promise<NounInstance | null>
+
+/**
+ * Whether a provider supports transaction()
+ */
+export function isTransactional(provider: NounProvider): provider is TransactionalProvider {
+  return typeof (provider as Partial<TransactionalProvider>).transaction === 'function'
+}
+
+// =============================================================================
+// TransactionBuffer
+// =============================================================================
+
+/**
+ * NounProvider that records writes instead of applying them.
+ *
+ * Reads go to the base provider, overlaid with the buffered writes so code
+ * inside the transaction sees its own changes. Creates are assigned their
+ * `$id` up front so later operations in the same transaction can refer to them.
+ */
+export class TransactionBuffer implements NounProvider {
+  readonly ops: TransactionOp[] = []
+  /** Entities written in this transaction by id; null marks a delete */
+  private overlay = new Map<string, NounInstance | null>()
+
+  constructor(
+    private base: NounProvider,
+    private context = 'https://headless.ly',
+  ) {}
+
+  async create(type: string, data: Record<string, unknown>): Promise<NounInstance> {
+    const id = (data.$id as string | undefined) ?? generateEntityId(type)
+    const now = new Date().toISOString()
+    const instance: NounInstance = {
+      $id: id,
+      $type: type,
+      $context: this.context,
+      $version: 1,
+      $createdAt: now,
+      $updatedAt: now,
+      ...data,
+    }
+    this.overlay.set(id, instance)
+    this.ops.push({ op: 'create', type, id, data: { ...data, $id: id } })
+    return instance
+  }
+
+  async get(type: string, id: string): Promise<NounInstance | null> {
+    if (this.overlay.has(id)) {
+      const instance = this.overlay.get(id)!
+      return instance?.$type === type ? instance : null
+    }
+    return this.base.get(type, id)
+  }
+
+  async find(type: string, where?: Record<string, unknown>, options?: FindOptions): Promise<NounInstance[]> {
+    const results: NounInstance[] = []
+    for (const instance of await this.base.find(type, where)) {
+      if (!this.overlay.has(instance.$id)) results.push(instance)
+    }
+    for (const instance of this.overlay.values()) {
+      if (instance && instance.$type === type && matchesFilter(instance, where)) results.push(instance)
+    }
+    return hasFindOptions(options) ? paginate(results, options).items : results
+  }
+
+  async findOne(type: string, where?: Record<string, unknown>): Promise<NounInstance | null> {
+    return (await this.find(type, where))[0] ?? null
+  }
+
+  async update(type: string, id: string, data: Record<string, unknown>, options?: WriteOptions): Promise<NounInstance> {
+    const existing = await this.require(type, id)
+    checkVersion(existing, options)
+    const updated = this.merge(existing, data)
+    this.overlay.set(id, updated)
+    this.ops.push({ op: 'update', type, id, data, ...options })
+    return updated
+  }
+
+  async delete(type: string, id: string, options?: DeleteOptions): Promise<boolean> {
+    const existing = await this.get(type, id)
+    if (!existing) return false
+    checkVersion(existing, options)
+    this.overlay.set(id, null)
+    this.ops.push({ op: 'delete', type, id, ...options })
+    return true
+  }
+
+  /**
+   * Queue a restore from the trash. The entity is read from the base provider's
+   * trash when the base supports `includeDeleted`.
+   */
+  async restore(type: string, id: string): Promise<NounInstance> {
+    const trashed = this.overlay.has(id) ? null : await (this.base.get as TrashAwareGet).call(this.base, type, id, { includeDeleted: true })
+    if (!trashed || trashed.$deletedAt === undefined || trashed.$deletedAt === null) {
+      throw new Error(`${type} not found in trash: ${id}`)
+    }
+    const { $deletedAt: _deletedAt, ...rest } = trashed
+    const restored = this.merge(rest as NounInstance, {})
+    this.overlay.set(id, restored)
+    this.ops.push({ op: 'restore', type, id })
+    return restored
+  }
+
+  async perform(type: string, verb: string, id: string, data?: Record<string, unknown>, options?: WriteOptions): Promise<NounInstance> {
+    const existing = await this.require(type, id)
+    checkVersion(existing, options)
+    // Preview the transition locally; the server applies it again on commit
+    const changes = applyTransition(existing, verb, data)
+    const updated = changes ? this.merge(existing, changes) : existing
+    this.overlay.set(id, updated)
+    this.ops.push({ op: 'perform', type, id, verb, data, ...options })
+    return updated
+  }
+
+  async rollback(type: string, id: string, _toVersion: number): Promise<NounInstance> {
+    throw new Error(`rollback is not supported inside a transaction. Entity: ${type}/${id}`)
+  }
+
+  private async require(type: string, id: string): Promise<NounInstance> {
+    const existing = await this.get(type, id)
+    if (!existing) {
+      throw new Error(`${type} not found: ${id}`)
+    }
+    return existing
+  }
+
+  private merge(existing: NounInstance, data: Record<string, unknown>): NounInstance {
+    return {
+      ...existing,
+      ...data,
+      $id: existing.$id,
+      $type: existing.$type,
+      $context: existing.$context,
+      $version: existing.$version + 1,
+      $createdAt: existing.$createdAt,
+      $updatedAt: new Date().toISOString(),
+    }
+  }
+}
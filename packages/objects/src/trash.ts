@@ -0,0 +1,71 @@
+/**
+ * Soft delete — trash, restore and purge
+ *
+ * By default LocalNounProvider.delete() moves an entity to the trash: it stays
+ * in storage with a `$deletedAt` timestamp and disappears from get(), find()
+ * and count(). restore() brings it back; purge() permanently removes trashed
+ * entities once they are older than the provider's `purgeAfter` policy.
+ *
+ *   await provider.delete('Deal', id)                        // → trash
+ *   await provider.find('Deal', {}, { includeDeleted: true }) // includes trash
+ *   await provider.restore('Deal', id)                       // back, as a new $version
+ *   await provider.delete('Deal', id, { permanent: true })   // gone for good
+ */
+
+import type { NounProvider, NounInstance } from 'digital-objects'
+import type { WriteOptions } from './concurrency.js'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for NounProvider.delete()
+ */
+export interface DeleteOptions extends WriteOptions {
+  /** Remove the entity permanently instead of moving it to the trash */
+  permanent?: boolean
+}
+
+/**
+ * Options for NounProvider.get()
+ */
+export interface GetOptions {
+  /** Return the entity even if it is in the trash */
+  includeDeleted?: boolean
+}
+
+/**
+ * A NounProvider that can bring entities back from the trash
+ */
+export interface RestorableProvider extends NounProvider {
+  restore(type: string, id: string): Promise<NounInstance>
+}
+
+/** Default trash retention before purge(): 30 days */
+export const DEFAULT_PURGE_AFTER = 30 * 24 * 60 * 60 * 1000
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Whether an entity is in the trash
+ */
+export function isDeleted(instance: Record<string, unknown>): boolean {
+  return instance.$deletedAt !== undefined && instance.$deletedAt !== null
+}
+
+/**
+ * The trashed form of an entity: `$deletedAt` set, stored as a new $version
+ */
+export function toTrashed(instance: NounInstance, now = new Date().toISOString()): NounInstance {
+  return { ...instance, $version: instance.$version + 1, $updatedAt: now, $deletedAt: now }
+}
+
+/**
+ * Whether a provider supports restore()
+ */
+export function isRestorable(provider: NounProvider): provider is RestorableProvider {
+  return typeof (provider as Partial<RestorableProvider>).restore === 'function'
+}
@@ -0,0 +1,82 @@
+/**
+ * Upsert by unique key — create or update keyed on `##` fields
+ *
+ * The match names one or more unique (`##`) fields of the entity's NounSchema.
+ * If an entity with those values exists it is updated with `data`; otherwise a
+ * new entity is created from the match and the data. Either way the usual
+ * create or update event is emitted, so sync jobs can replay safely:
+ *
+ *   const { instance, created } = await upsert(provider, 'Contact', { email: 'alice@acme.co' }, { stage: 'Lead' })
+ */
+
+import type { NounProvider, NounInstance } from 'digital-objects'
+import { getNounSchema } from 'digital-objects'
+import { EntityValidationError, formatLabel, uniqueFields } from './validation.js'
+import type { ValidationErrors } from './validation.js'
+import { findMatching } from './filter.js'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Outcome of an upsert
+ */
+export interface UpsertResult {
+  /** The entity as stored */
+  instance: NounInstance
+  /** true if the entity was created, false if an existing one was updated */
+  created: boolean
+}
+
+/**
+ * A NounProvider with native upsert
+ */
+export interface UpsertProvider extends NounProvider {
+  upsert(type: string, match: Record<string, unknown>, data: Record<string, unknown>): Promise<UpsertResult>
+}
+
+/**
+ * Whether a provider implements upsert natively
+ */
+export function isUpsertProvider(provider: NounProvider): provider is UpsertProvider {
+  return typeof (provider as Partial<UpsertProvider>).upsert === 'function'
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Check that a match is keyed on unique (`##`) fields of the type.
+ * Throws EntityValidationError naming each field that is not unique or has no value.
+ */
+export function checkUpsertKey(type: string, match: Record<string, unknown>): void {
+  const fields = Object.keys(match)
+  if (fields.length === 0) throw new Error(`upsert requires a match on a unique field of ${type}`)
+
+  const schema = getNounSchema(type)
+  const unique = new Set(schema ? uniqueFields(schema) : [])
+  const errors: ValidationErrors = {}
+  for (const field of fields) {
+    const value = match[field]
+    if (!unique.has(field)) errors[field] = `${formatLabel(field)} is not a unique field of ${type}`
+    else if (value === undefined || value === null || value === '') errors[field] = `${formatLabel(field)} is required to upsert`
+  }
+  if (Object.keys(errors).length > 0) throw new EntityValidationError(type, errors)
+}
+
+// =============================================================================
+// Provider integration
+// =============================================================================
+
+/**
+ * Create or update an entity keyed on unique fields, on any NounProvider
+ */
+export async function upsert(provider: NounProvider, type: string, match: Record<string, unknown>, data: Record<string, unknown>): Promise<UpsertResult> {
+  if (isUpsertProvider(provider)) return provider.upsert(type, match, data)
+  checkUpsertKey(type, match)
+  const [existing] = await findMatching(provider, type, match)
+  if (existing) return { instance: await provider.update(type, existing.$id, data), created: false }
+  return { instance: await provider.create(type, { ...data, ...match }), created: true }
+}
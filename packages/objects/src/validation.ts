@@ -0,0 +1,165 @@
+/**
+ * Schema validation — checks entity data against its NounSchema
+ *
+ * Enforces required (`!`) fields, enum membership, and primitive types.
+ * Unique (`##`) constraints need the provider's store and are checked by
+ * LocalNounProvider using uniqueFields().
+ *
+ * Errors map field names to human-readable messages. validateFormData() in
+ * @headlessly/ui delegates here, so forms and agents see identical errors.
+ */
+
+import type { NounSchema } from 'digital-objects'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Field name → error message (empty when valid) */
+export type ValidationErrors = Record<string, string>
+
+/**
+ * Options for validateEntity()
+ */
+export interface ValidateOptions {
+  /**
+   * Validate a partial update: only fields present in the data are checked,
+   * so omitted required fields keep their stored values
+   */
+  partial?: boolean
+}
+
+/**
+ * Error thrown when create/update data fails schema validation
+ */
+export class EntityValidationError extends Error {
+  constructor(
+    public readonly type: string,
+    public readonly errors: ValidationErrors,
+  ) {
+    super(`Invalid ${type}: ${Object.values(errors).join('; ')}`)
+    this.name = 'EntityValidationError'
+  }
+}
+
+// =============================================================================
+// Labels
+// =============================================================================
+
+const ACRONYMS = new Set(['id', 'url', 'api', 'html', 'css', 'json', 'xml', 'http', 'https', 'sql', 'ip'])
+
+/**
+ * Format a camelCase, PascalCase, or snake_case key into a human-readable label,
+ * e.g. 'firstName' -> 'First Name', '$createdAt' -> 'Created At', '$id' -> 'ID'.
+ * Also used for @headlessly/ui column and field labels.
+ */
+export function formatLabel(key: string): string {
+  const clean = key.startsWith('$') ? key.slice(1) : key
+  return clean
+    .replace(/_/g, ' ')
+    .replace(/([A-Z])/g, ' $1')
+    .trim()
+    .split(/\s+/)
+    .map((w) => {
+      const lower = w.toLowerCase()
+      if (ACRONYMS.has(lower)) return lower.toUpperCase()
+      return lower.charAt(0).toUpperCase() + lower.slice(1)
+    })
+    .join(' ')
+}
+
+// =============================================================================
+// Primitive types
+// =============================================================================
+
+/** Primitive type checks, keyed by schema type, with the noun used in messages */
+const TYPE_CHECKS: Record<string, { noun: string; check: (value: unknown) => boolean }> = {
+  string: { noun: 'a string', check: (v) => typeof v === 'string' },
+  number: { noun: 'a number', check: (v) => typeof v === 'number' && !Number.isNaN(v) },
+  int: { noun: 'an integer', check: (v) => Number.isInteger(v) },
+  boolean: { noun: 'a boolean', check: (v) => typeof v === 'boolean' },
+  date: { noun: 'a valid date', check: (v) => isDate(v) },
+}
+
+/** Aliases for schema types that share a check */
+const TYPE_ALIASES: Record<string, string> = {
+  text: 'string',
+  markdown: 'string',
+  email: 'string',
+  url: 'string',
+  id: 'string',
+  uuid: 'string',
+  ulid: 'string',
+  float: 'number',
+  decimal: 'number',
+  datetime: 'date',
+  timestamp: 'date',
+}
+
+function isDate(value: unknown): boolean {
+  if (value instanceof Date) return !Number.isNaN(value.getTime())
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value))
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === ''
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Validate entity data against a NounSchema.
+ * Returns an object mapping field names to error strings (empty if valid).
+ */
+export function validateEntity(schema: NounSchema, data: Record<string, unknown>, options: ValidateOptions = {}): ValidationErrors {
+  const errors: ValidationErrors = {}
+
+  for (const [key, prop] of schema.fields) {
+    if (options.partial && !(key in data)) continue
+    const value = data[key]
+    const label = formatLabel(key)
+
+    if (isEmpty(value)) {
+      if (prop.modifiers?.required) errors[key] = `${label} is required`
+      continue
+    }
+
+    if (prop.kind === 'enum' && prop.enumValues && prop.enumValues.length > 0) {
+      if (!prop.enumValues.includes(String(value))) {
+        errors[key] = `${label} must be one of: ${prop.enumValues.join(', ')}`
+      }
+      continue
+    }
+
+    const typeName = prop.type ? (TYPE_ALIASES[prop.type] ?? prop.type) : undefined
+    const typeCheck = typeName ? TYPE_CHECKS[typeName] : undefined
+
+    if (prop.modifiers?.array) {
+      if (!Array.isArray(value)) {
+        errors[key] = `${label} must be a list`
+      } else if (typeCheck && !value.every(typeCheck.check)) {
+        errors[key] = `${label} must be a list of ${typeCheck.noun.replace(/^an? /, '')} values`
+      }
+      continue
+    }
+
+    if (typeCheck && !typeCheck.check(value)) {
+      errors[key] = `${label} must be ${typeCheck.noun}`
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Fields with a unique (`##`) constraint
+ */
+export function uniqueFields(schema: NounSchema): string[] {
+  const fields: string[] = []
+  for (const [key, prop] of schema.fields) {
+    if (prop.modifiers?.unique) fields.push(key)
+  }
+  return fields
+}
@@ -3,7 +3,8 @@
  *
  * Executes a verb action on an entity:
  * 1. Run BEFORE hooks (code-as-data function strings stored in tenant DB)
- * 2. Execute the verb action (state transition via provider)
+ * 2. Execute the verb action (state transition via provider, checked against
+ *    the Noun's declared state machine if it has one)
  * 3. Emit event to the event bridge
  * 4. Run AFTER hooks
  * 5. Return updated entity
@@ -14,6 +15,8 @@ import { getNounSchema } from 'digital-objects'
 import type { EventEmitter, NounEvent } from './event-bridge.js'
 import { generateEventId } from './id.js'
 import { conjugateVerb } from './conjugation.js'
+import { applyTransition, getStateMachine } from './state-machine.js'
+import { actingAs } from './actor.js'
 
 /**
  * Describes a verb execution request
@@ -27,6 +30,8 @@ export interface VerbExecution {
   entityId: string
   /** Optional data payload for the verb */
   data?: Record<string, unknown>
+  /** User, agent or API key performing the verb, recorded on its events */
+  actor?: string
 }
 
 /**
@@ -48,15 +53,21 @@ export interface VerbExecutorOptions {
  * 3. Emit the verb event ({Type}.{verb}, e.g., Contact.qualify)
  * 4. Emit AFTER event ({Type}.{past}, e.g., Contact.qualified)
  *
+ * Events carry `execution.actor`, and the provider performs the verb as that
+ * actor when it supports asActor().
+ *
  * If a BEFORE hook throws, the error propagates and the verb is NOT executed.
+ * If the Noun declares a state machine, the verb's target state is added to the
+ * data, and an illegal transition throws InvalidTransitionError before any event.
  *
  * @param execution - The verb execution request
  * @param options - Provider and event emitter
  * @returns The updated entity instance
  */
 export async function executeVerb(execution: VerbExecution, options: VerbExecutorOptions): Promise<NounInstance> {
-  const { type, verb, entityId, data } = execution
-  const { provider, events } = options
+  const { type, verb, entityId, actor } = execution
+  const provider = actingAs(options.provider, actor)
+  const { events } = options
 
   // Look up schema for validation (optional — schema may not be registered in all contexts)
   const schema = getNounSchema(type)
@@ -64,6 +75,16 @@ export async function executeVerb(execution: VerbExecution, options: VerbExecuto
     validateVerbExists(schema, verb)
   }
 
+  // Check the transition against the current state and set the target state
+  let data = execution.data
+  if (getStateMachine(type)?.transitions[verb]) {
+    const current = await provider.get(type, entityId)
+    if (!current) {
+      throw new Error(`${type} not found: ${entityId}`)
+    }
+    data = applyTransition(current, verb, data)
+  }
+
   const conj = conjugateVerb(verb)
 
   // Emit BEFORE event (e.g., Contact.qualifying) — propagate errors to reject the verb
@@ -76,6 +97,7 @@ export async function executeVerb(execution: VerbExecution, options: VerbExecuto
       verb: conj.activity,
       data,
       timestamp: new Date().toISOString(),
+      actor,
     }
     await events.emit(beforeEvent)
   }
@@ -93,6 +115,7 @@ export async function executeVerb(execution: VerbExecution, options: VerbExecuto
       verb,
       data,
       timestamp: new Date().toISOString(),
+      actor,
     }
     await events.emit(event)
   }
@@ -107,6 +130,7 @@ export async function executeVerb(execution: VerbExecution, options: VerbExecuto
       verb: conj.event,
       data,
       timestamp: new Date().toISOString(),
+      actor,
     }
     await events.emit(afterEvent)
   }
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { clearRegistry, Noun } from 'digital-objects'
+import { EventLog } from '@headlessly/events'
+import { LocalNounProvider } from '../src/local-provider'
+import { createEventBridge } from '../src/event-bridge'
+import type { EventEmitter } from '../src/event-bridge'
+import { executeVerb } from '../src/verb-executor'
+import { actingAs, isActorScoped } from '../src/actor'
+
+describe('@headlessly/objects — actors', () => {
+  let eventLog: EventLog
+  let bridge: EventEmitter
+  let provider: LocalNounProvider
+
+  beforeEach(() => {
+    clearRegistry()
+    Noun('Organization', { name: 'string!', contacts: '<- Contact.organization[]' })
+    Noun('Contact', { name: 'string!', organization: '-> Organization.contacts', stage: 'Lead | Qualified', qualify: 'Qualified' })
+    eventLog = new EventLog()
+    bridge = createEventBridge()
+    provider = new LocalNounProvider({ context: 'https://headless.ly/~acme', eventLog, events: bridge, onDelete: { 'Contact.organization': 'cascade' } })
+  })
+
+  it('records the actor of every write through an actor view', async () => {
+    const agent = provider.asActor('agent_mR4nVkTw')
+    const contact = await agent.create('Contact', { name: 'Alice', stage: 'Lead' })
+    await agent.update('Contact', contact.$id, { name: 'Alice Smith' })
+    await agent.perform('Contact', 'qualify', contact.$id)
+    await agent.delete('Contact', contact.$id)
+
+    const events = await eventLog.query({})
+    expect(events.map((e) => [e.verb, e.actor])).toEqual([
+      ['create', 'agent_mR4nVkTw'],
+      ['update', 'agent_mR4nVkTw'],
+      ['qualify', 'agent_mR4nVkTw'],
+      ['delete', 'agent_mR4nVkTw'],
+    ])
+    expect((await bridge.query({ actor: 'agent_mR4nVkTw' })).length).toBe(4)
+  })
+
+  it('attributes cascades to the actor who caused them', async () => {
+    const org = await provider.create('Organization', { name: 'Acme' })
+    await provider.create('Contact', { name: 'Alice', organization: org.$id })
+
+    await provider.asActor('user_fX9bL5nR').delete('Organization', org.$id)
+    expect((await eventLog.query({ verb: 'delete' })).map((e) => [e.entityType, e.actor])).toEqual([
+      ['Contact', 'user_fX9bL5nR'],
+      ['Organization', 'user_fX9bL5nR'],
+    ])
+  })
+
+  it('shares storage with the provider and leaves it anonymous', async () => {
+    const contact = await provider.asActor('agent_mR4nVkTw').create('Contact', { name: 'Alice' })
+    expect(await provider.get('Contact', contact.$id)).toMatchObject({ name: 'Alice' })
+
+    await provider.update('Contact', contact.$id, { name: 'Alicia' })
+    expect((await eventLog.query({ verb: 'update' }))[0]!.actor).toBeUndefined()
+  })
+
+  it('takes a default actor from options and keeps it in tenant views', async () => {
+    const apiKey = new LocalNounProvider({ eventLog, actor: 'key_hT3wQx9L' })
+    await apiKey.forTenant('globex').create('Contact', { name: 'Bob' })
+    expect((await eventLog.query({}))[0]).toMatchObject({ actor: 'key_hT3wQx9L', context: 'https://headless.ly/~globex' })
+  })
+
+  it('makes changes queryable by actor in the audit log', async () => {
+    const contact = await provider.create('Contact', { name: 'Alice' })
+    await provider.asActor('agent_mR4nVkTw').update('Contact', contact.$id, { name: 'Alice Smith' })
+
+    const changes = await provider.audit({ actor: 'agent_mR4nVkTw' })
+    expect(changes.map((c) => [c.field, c.to])).toEqual([['name', 'Alice Smith']])
+  })
+
+  it('executes verbs as an actor', async () => {
+    const contact = await provider.create('Contact', { name: 'Alice', stage: 'Lead' })
+    const verbEvents = createEventBridge()
+    await executeVerb({ type: 'Contact', verb: 'qualify', entityId: contact.$id, actor: 'agent_mR4nVkTw' }, { provider, events: verbEvents })
+
+    expect((await verbEvents.query({})).every((e) => e.actor === 'agent_mR4nVkTw')).toBe(true)
+    expect((await eventLog.query({ verb: 'qualify' }))[0]!.actor).toBe('agent_mR4nVkTw')
+  })
+
+  it('falls back to the provider itself without an actor or support', () => {
+    expect(isActorScoped(provider)).toBe(true)
+    expect(actingAs(provider, undefined)).toBe(provider)
+    const plain = { get: async () => null } as unknown as LocalNounProvider
+    expect(actingAs(plain, 'agent_mR4nVkTw')).toBe(plain)
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { clearRegistry, Noun } from 'digital-objects'
+import { EventLog } from '@headlessly/events'
+import { LocalNounProvider } from '../src/local-provider'
+import { DONounProvider } from '../src/do-provider'
+import { isAuditable } from '../src/audit'
+
+const rpcAudit = vi.fn()
+
+vi.mock('rpc.do', () => ({
+  RPC: () => new Proxy({}, { get: () => ({ audit: rpcAudit }) }),
+}))
+
+describe('@headlessly/objects — audit', () => {
+  beforeEach(() => {
+    clearRegistry()
+    Noun('Deal', { name: 'string!', value: 'number', stage: 'Open | Won | Lost', close: 'Won' })
+  })
+
+  describe('LocalNounProvider', () => {
+    let eventLog: EventLog
+    let provider: LocalNounProvider
+
+    beforeEach(() => {
+      eventLog = new EventLog()
+      provider = new LocalNounProvider({ context: 'https://headless.ly/~acme', eventLog })
+    })
+
+    it('answers who changed a field, and when', async () => {
+      const deal = await provider.create('Deal', { name: 'Big', value: 100, stage: 'Open' })
+      await provider.update('Deal', deal.$id, { value: 250 })
+      await provider.perform('Deal', 'close', deal.$id, { stage: 'Won' })
+
+      const changes = await provider.audit({ entityType: 'Deal', entityId: deal.$id, field: 'value' })
+      expect(changes.map((c) => [c.verb, c.from, c.to])).toEqual([
+        ['create', undefined, 100],
+        ['update', 100, 250],
+      ])
+      expect((await provider.audit({ entityType: 'Deal', entityId: deal.$id, verb: 'close' })).map((c) => [c.field, c.from, c.to])).toEqual([['stage', 'Open', 'Won']])
+    })
+
+    it('does not audit meta-fields', async () => {
+      const deal = await provider.create('Deal', { name: 'Big' })
+      await provider.update('Deal', deal.$id, { name: 'Bigger' })
+      expect((await provider.audit()).every((c) => !c.field.startsWith('$'))).toBe(true)
+    })
+
+    it("sees only its own tenant's changes", async () => {
+      await provider.forTenant('globex').create('Deal', { name: 'Other' })
+      await provider.create('Deal', { name: 'Mine' })
+      expect((await provider.audit({ field: 'name' })).map((c) => c.to)).toEqual(['Mine'])
+    })
+
+    it('requires an EventLog', async () => {
+      await expect(new LocalNounProvider().audit({})).rejects.toThrow('without event history')
+    })
+  })
+
+  describe('DONounProvider', () => {
+    it("asks the entity type's DO", async () => {
+      const provider = new DONounProvider({ endpoint: 'https://db.headless.ly/~acme' })
+      rpcAudit.mockResolvedValueOnce([{ field: 'value', from: 1, to: 2 }])
+
+      expect(isAuditable(provider)).toBe(true)
+      const since = new Date('2026-01-01T00:00:00.000Z')
+      expect(await provider.audit({ entityType: 'Deal', entityId: 'deal_abc', since })).toEqual([{ field: 'value', from: 1, to: 2 }])
+      expect(rpcAudit).toHaveBeenCalledWith({ entityType: 'Deal', entityId: 'deal_abc', since: '2026-01-01T00:00:00.000Z' })
+      await expect(provider.audit({ actor: 'user_alice' })).rejects.toThrow('requires an entityType')
+    })
+  })
+})
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { clearRegistry, MemoryNounProvider, Noun } from 'digital-objects'
+import { LocalNounProvider } from '../src/local-provider'
+import { DONounProvider } from '../src/do-provider'
+import { createEventBridge } from '../src/event-bridge'
+import type { NounEvent } from '../src/event-bridge'
+import { createMany, deleteMany, updateMany } from '../src/bulk'
+
+const rpcCreateMany = vi.fn()
+const rpcUpdateMany = vi.fn()
+
+vi.mock('rpc.do', () => ({
+  RPC: () => new Proxy({}, { get: () => ({ createMany: rpcCreateMany, updateMany: rpcUpdateMany }) }),
+}))
+
+describe('@headlessly/objects — bulk writes', () => {
+  beforeEach(() => {
+    clearRegistry()
+    Noun('Contact', { name: 'string!', email: 'string##', stage: 'Lead | Qualified | Customer' })
+  })
+
+  describe('LocalNounProvider', () => {
+    let provider: LocalNounProvider
+    let events: NounEvent[]
+
+    beforeEach(() => {
+      const bridge = createEventBridge()
+      events = []
+      bridge.subscribe('*', (event) => {
+        events.push(event)
+      })
+      provider = new LocalNounProvider({ context: 'https://headless.ly/~test', events: bridge })
+    })
+
+    it('creates many entities and reports failures per item', async () => {
+      const result = await provider.createMany('Contact', [
+        { name: 'Alice', email: 'alice@example.com', stage: 'Lead' },
+        { stage: 'Lead' },
+        { name: 'Bob', email: 'alice@example.com' },
+        { name: 'Carol', stage: 'Lead' },
+      ])
+
+      expect(result.items.map((c) => c.name)).toEqual(['Alice', 'Carol'])
+      expect(result.errors).toEqual([
+        expect.objectContaining({ index: 1, errors: { name: 'Name is required' } }),
+        expect.objectContaining({ index: 2, errors: { email: 'Email must be unique' } }),
+      ])
+      expect(events.map((e) => e.$type)).toEqual(['Contact.create', 'Contact.create'])
+    })
+
+    it('updates every entity matching a filter, one event each', async () => {
+      await provider.createMany('Contact', [
+        { name: 'Alice', stage: 'Lead' },
+        { name: 'Bob', stage: 'Lead' },
+        { name: 'Carol', stage: 'Customer' },
+      ])
+      events.length = 0
+
+      const result = await provider.updateMany('Contact', { stage: 'Lead' }, { stage: 'Qualified' })
+      expect(result.items.map((c) => c.name)).toEqual(['Alice', 'Bob'])
+      expect(result.errors).toEqual([])
+      expect(events.map((e) => [e.$type, e.data])).toEqual([
+        ['Contact.update', { stage: 'Qualified' }],
+        ['Contact.update', { stage: 'Qualified' }],
+      ])
+      expect((await provider.find('Contact', { stage: 'Qualified' })).length).toBe(2)
+    })
+
+    it('reports the id of entities an update rejects', async () => {
+      const { items } = await provider.createMany('Contact', [{ name: 'Alice', stage: 'Lead' }])
+      const result = await provider.updateMany('Contact', { stage: 'Lead' }, { stage: 'Churned' })
+      expect(result.errors).toEqual([expect.objectContaining({ index: 0, id: items[0]!.$id, errors: { stage: expect.any(String) } })])
+    })
+
+    it('deletes every entity matching a filter', async () => {
+      await provider.createMany('Contact', [
+        { name: 'Alice', stage: 'Lead' },
+        { name: 'Bob', stage: 'Customer' },
+      ])
+      const result = await provider.deleteMany('Contact', { stage: 'Lead' })
+      expect(result.items).toHaveLength(1)
+      expect((await provider.find('Contact')).map((c) => c.name)).toEqual(['Bob'])
+    })
+  })
+
+  describe('on any NounProvider', () => {
+    it('falls back to one call per item', async () => {
+      const provider = new MemoryNounProvider()
+      const created = await createMany(provider, 'Contact', [
+        { name: 'Alice', stage: 'Lead' },
+        { name: 'Bob', stage: 'Lead' },
+      ])
+      expect(created.items).toHaveLength(2)
+
+      const updated = await updateMany(provider, 'Contact', { name: { $in: ['Alice'] } }, { stage: 'Customer' })
+      expect(updated.items.map((c) => c.stage)).toEqual(['Customer'])
+
+      const deleted = await deleteMany(provider, 'Contact', { stage: 'Lead' })
+      expect(deleted.items).toEqual([created.items[1]!.$id])
+    })
+  })
+
+  describe('DONounProvider', () => {
+    beforeEach(() => {
+      rpcCreateMany.mockReset()
+      rpcUpdateMany.mockReset()
+    })
+
+    it('sends createMany in chunks and maps errors back to input positions', async () => {
+      const provider = new DONounProvider({ endpoint: 'https://db.headless.ly/~acme', bulkChunkSize: 2 })
+      rpcCreateMany
+        .mockImplementationOnce(async (chunk: Record<string, unknown>[]) => chunk.map((data, i) => ({ $id: `contact_${i}`, ...data })))
+        .mockImplementationOnce(async (chunk: Record<string, unknown>[]) => ({
+          items: [{ $id: 'contact_2', ...chunk[0] }],
+          errors: [{ index: 1, message: 'Name is required' }],
+        }))
+        .mockRejectedValueOnce(new Error('connection reset'))
+
+      const rows = [{ name: 'A' }, { name: 'B' }, { name: 'C' }, {}, { name: 'E' }]
+      const result = await provider.createMany('Contact', rows)
+
+      expect(rpcCreateMany).toHaveBeenCalledTimes(3)
+      expect(rpcCreateMany.mock.calls.map(([chunk]) => chunk.length)).toEqual([2, 2, 1])
+      expect(result.items.map((c) => c.name)).toEqual(['A', 'B', 'C'])
+      expect(result.errors).toEqual([
+        { index: 3, message: 'Name is required' },
+        { index: 4, message: 'connection reset' },
+      ])
+    })
+
+    it('sends updateMany as a single call', async () => {
+      const provider = new DONounProvider({ endpoint: 'https://db.headless.ly/~acme' })
+      rpcUpdateMany.mockResolvedValueOnce({ items: [{ $id: 'contact_a', stage: 'Qualified' }], errors: [] })
+
+      const result = await provider.updateMany('Contact', { stage: 'Lead' }, { stage: 'Qualified' })
+      expect(rpcUpdateMany).toHaveBeenCalledWith({ stage: 'Lead' }, { stage: 'Qualified' })
+      expect(result.items[0]!.stage).toBe('Qualified')
+    })
+  })
+})
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { clearRegistry, Noun } from 'digital-objects'
+import { LocalNounProvider } from '../src/local-provider'
+import { createEventBridge } from '../src/event-bridge'
+import type { NounEvent } from '../src/event-bridge'
+import { EntityValidationError } from '../src/validation'
+import { aggregateValues, clearComputedFields, defineComputed, formula, rollup } from '../src/computed'
+
+describe('@headlessly/objects — computed fields', () => {
+  let provider: LocalNounProvider
+  let events: NounEvent[]
+
+  beforeEach(() => {
+    clearRegistry()
+    clearComputedFields()
+    Noun('Organization', { name: 'string!', deals: '<- Deal.organization[]', lifetimeValue: 'number', dealCount: 'number', tier: 'string' })
+    Noun('Deal', { name: 'string!', organization: '-> Organization.deals', value: 'number!', stage: 'Open | Won | Lost', probability: 'number' })
+    Noun('Campaign', { name: 'string!', actualLeads: 'number' })
+    Noun('Lead', { name: 'string!', campaign: '-> Campaign' })
+
+    defineComputed('Organization', {
+      lifetimeValue: rollup({ via: 'deals', field: 'value', where: { stage: 'Won' }, aggregate: 'sum' }),
+      dealCount: rollup({ via: 'deals' }),
+      tier: formula((org) => ((org.lifetimeValue as number) >= 1000 ? 'Gold' : 'Standard')),
+    })
+    defineComputed('Deal', {
+      weightedValue: formula((deal) => ((deal.value as number) * ((deal.probability as number) ?? 0)) / 100),
+    })
+    defineComputed('Campaign', { actualLeads: rollup({ via: 'Lead.campaign' }) })
+
+    const bridge = createEventBridge()
+    events = []
+    bridge.subscribe('*', (event) => {
+      events.push(event)
+    })
+    provider = new LocalNounProvider({ context: 'https://headless.ly/~test', events: bridge })
+  })
+
+  it('computes formulas on create and update', async () => {
+    const org = await provider.create('Organization', { name: 'Acme' })
+    const deal = await provider.create('Deal', { name: 'Big', organization: org.$id, value: 500, probability: 40 })
+    expect(deal.weightedValue).toBe(200)
+
+    const updated = await provider.update('Deal', deal.$id, { probability: 80 })
+    expect(updated.weightedValue).toBe(400)
+  })
+
+  it('starts rollups at their empty value', async () => {
+    const org = await provider.create('Organization', { name: 'Acme' })
+    expect(org).toMatchObject({ lifetimeValue: 0, dealCount: 0, tier: 'Standard' })
+  })
+
+  it('keeps rollups current as referencing entities change', async () => {
+    const org = await provider.create('Organization', { name: 'Acme' })
+    const won = await provider.create('Deal', { name: 'A', organization: org.$id, value: 700, stage: 'Won' })
+    const open = await provider.create('Deal', { name: 'B', organization: org.$id, value: 400, stage: 'Open' })
+    expect(await provider.get('Organization', org.$id)).toMatchObject({ lifetimeValue: 700, dealCount: 2, tier: 'Standard' })
+
+    await provider.update('Deal', open.$id, { stage: 'Won' })
+    expect(await provider.get('Organization', org.$id)).toMatchObject({ lifetimeValue: 1100, tier: 'Gold' })
+
+    await provider.delete('Deal', won.$id)
+    expect(await provider.get('Organization', org.$id)).toMatchObject({ lifetimeValue: 400, dealCount: 1, tier: 'Standard' })
+
+    await provider.restore('Deal', won.$id)
+    expect(await provider.get('Organization', org.$id)).toMatchObject({ lifetimeValue: 1100, dealCount: 2 })
+  })
+
+  it('recomputes both sides when a reference moves', async () => {
+    const acme = await provider.create('Organization', { name: 'Acme' })
+    const globex = await provider.create('Organization', { name: 'Globex' })
+    const deal = await provider.create('Deal', { name: 'A', organization: acme.$id, value: 300, stage: 'Won' })
+
+    await provider.update('Deal', deal.$id, { organization: globex.$id })
+    expect((await provider.get('Organization', acme.$id))!.lifetimeValue).toBe(0)
+    expect((await provider.get('Organization', globex.$id))!.lifetimeValue).toBe(300)
+  })
+
+  it('rolls up over a forward relationship without a back-reference', async () => {
+    const campaign = await provider.create('Campaign', { name: 'Launch' })
+    await provider.create('Lead', { name: 'L1', campaign: campaign.$id })
+    await provider.create('Lead', { name: 'L2', campaign: campaign.$id })
+    expect((await provider.get('Campaign', campaign.$id))!.actualLeads).toBe(2)
+  })
+
+  it('stores recomputed rollups as a new version with an update event', async () => {
+    const org = await provider.create('Organization', { name: 'Acme' })
+    events.length = 0
+    await provider.create('Deal', { name: 'A', organization: org.$id, value: 100, stage: 'Won' })
+
+    expect(events.map((e) => [e.$type, e.entityId])).toEqual([
+      ['Deal.create', expect.any(String)],
+      ['Organization.update', org.$id],
+    ])
+    expect(events[1]!.data).toEqual({ lifetimeValue: 100, dealCount: 1 })
+    expect((await provider.get('Organization', org.$id))!.$version).toBe(2)
+  })
+
+  it('rejects writes to computed fields', async () => {
+    const org = await provider.create('Organization', { name: 'Acme' })
+    const err = await provider.update('Organization', org.$id, { lifetimeValue: 1e6 }).catch((e: unknown) => e)
+    expect(err).toBeInstanceOf(EntityValidationError)
+    expect((err as EntityValidationError).errors).toEqual({ lifetimeValue: 'Lifetime Value is computed and cannot be set' })
+    await expect(provider.create('Organization', { name: 'Globex', tier: 'Gold' })).rejects.toThrow('Tier is computed and cannot be set')
+  })
+
+  it('rolls back rollup changes with the transaction', async () => {
+    const org = await provider.create('Organization', { name: 'Acme' })
+    await expect(
+      provider.transaction(async (tx) => {
+        await tx.create('Deal', { name: 'A', organization: org.$id, value: 100, stage: 'Won' })
+        throw new Error('boom')
+      }),
+    ).rejects.toThrow('boom')
+    expect(await provider.get('Organization', org.$id)).toMatchObject({ lifetimeValue: 0, dealCount: 0, $version: 1 })
+  })
+
+  it('aggregates only the referencing tenant', async () => {
+    const acme = provider.forTenant('acme')
+    const org = await acme.create('Organization', { name: 'Acme' })
+    await acme.create('Deal', { name: 'A', organization: org.$id, value: 100, stage: 'Won' })
+    expect((await acme.get('Organization', org.$id))!.lifetimeValue).toBe(100)
+  })
+
+  it('aggregates values', () => {
+    expect(aggregateValues('sum', [1, 2, 'x', null])).toBe(3)
+    expect(aggregateValues('avg', [2, 4])).toBe(3)
+    expect(aggregateValues('min', [])).toBeNull()
+    expect(aggregateValues('max', [3, 9, 1])).toBe(9)
+    expect(aggregateValues('count', [null, undefined])).toBe(2)
+    expect(() => rollup({ via: 'deals', aggregate: 'sum' })).toThrow('needs a field to aggregate')
+  })
+})
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { clearRegistry, Noun } from 'digital-objects'
+import { LocalNounProvider } from '../src/local-provider'
+import { DONounProvider } from '../src/do-provider'
+import { ConflictError } from '../src/concurrency'
+
+const rpcUpdate = vi.fn()
+const rpcGet = vi.fn()
+
+vi.mock('rpc.do', () => ({
+  RPC: () => new Proxy({}, { get: () => ({ update: rpcUpdate, get: rpcGet }) }),
+}))
+
+describe('@headlessly/objects — optimistic concurrency', () => {
+  beforeEach(() => {
+    clearRegistry()
+    Noun('Deal', { name: 'string!', stage: 'Open | Won | Lost', close: 'Closed' })
+  })
+
+  describe('LocalNounProvider', () => {
+    let provider: LocalNounProvider
+
+    beforeEach(() => {
+      provider = new LocalNounProvider({ context: 'https://headless.ly/~test' })
+    })
+
+    it('applies writes whose ifVersion matches', async () => {
+      const deal = await provider.create('Deal', { name: 'Big', stage: 'Open' })
+      const updated = await provider.update('Deal', deal.$id, { stage: 'Won' }, { ifVersion: 1 })
+      expect(updated.$version).toBe(2)
+      expect((await provider.perform('Deal', 'close', deal.$id, undefined, { ifVersion: 2 })).$id).toBe(deal.$id)
+    })
+
+    it('rejects a stale update with the current entity', async () => {
+      const deal = await provider.create('Deal', { name: 'Big', stage: 'Open' })
+      await provider.update('Deal', deal.$id, { stage: 'Lost' })
+
+      const error = await provider.update('Deal', deal.$id, { stage: 'Won' }, { ifVersion: 1 }).catch((e: unknown) => e)
+      expect(error).toBeInstanceOf(ConflictError)
+      expect((error as ConflictError).message).toBe(`Version conflict on Deal/${deal.$id}: expected version 1, current version is 2`)
+      expect((error as ConflictError).current).toMatchObject({ stage: 'Lost', $version: 2 })
+      expect((await provider.get('Deal', deal.$id))!.stage).toBe('Lost')
+    })
+
+    it('guards perform and delete', async () => {
+      const deal = await provider.create('Deal', { name: 'Big', stage: 'Open' })
+      await provider.update('Deal', deal.$id, { stage: 'Lost' })
+
+      await expect(provider.perform('Deal', 'close', deal.$id, { stage: 'Won' }, { ifVersion: 1 })).rejects.toThrow(ConflictError)
+      await expect(provider.delete('Deal', deal.$id, { ifVersion: 1 })).rejects.toThrow(ConflictError)
+      expect(await provider.delete('Deal', deal.$id, { ifVersion: 2 })).toBe(true)
+    })
+
+    it('lets only one of two concurrent writers with the same version win', async () => {
+      const deal = await provider.create('Deal', { name: 'Big', stage: 'Open' })
+      const results = await Promise.allSettled([
+        provider.update('Deal', deal.$id, { stage: 'Won' }, { ifVersion: 1 }),
+        provider.update('Deal', deal.$id, { stage: 'Lost' }, { ifVersion: 1 }),
+      ])
+      expect(results.map((r) => r.status)).toEqual(['fulfilled', 'rejected'])
+      expect((await provider.get('Deal', deal.$id))!.stage).toBe('Won')
+    })
+  })
+
+  describe('DONounProvider', () => {
+    beforeEach(() => {
+      rpcUpdate.mockReset()
+      rpcGet.mockReset()
+    })
+
+    it('sends the precondition and maps a 409 to ConflictError', async () => {
+      const current = { $id: 'deal_1', $type: 'Deal', $version: 3, stage: 'Lost' }
+      rpcUpdate.mockRejectedValue(Object.assign(new Error('conflict'), { status: 409 }))
+      rpcGet.mockResolvedValue(current)
+      const provider = new DONounProvider({ endpoint: 'https://db.headless.ly/~acme' })
+
+      const error = await provider.update('Deal', 'deal_1', { stage: 'Won' }, { ifVersion: 2 }).catch((e: unknown) => e)
+      expect(rpcUpdate).toHaveBeenCalledWith('deal_1', { stage: 'Won' }, { ifVersion: 2 })
+      expect(error).toBeInstanceOf(ConflictError)
+      expect((error as ConflictError).current.$version).toBe(3)
+    })
+
+    it('passes other errors through', async () => {
+      rpcUpdate.mockRejectedValue(new Error('network down'))
+      const provider = new DONounProvider({ endpoint: 'https://db.headless.ly/~acme' })
+      await expect(provider.update('Deal', 'deal_1', { stage: 'Won' }, { ifVersion: 2 })).rejects.toThrow('network down')
+    })
+  })
+})
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, readFileSync, appendFileSync, existsSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { clearRegistry } from 'digital-objects'
+import { FileNounProvider } from '../src/file-provider'
+
+describe('@headlessly/objects — FileNounProvider', () => {
+  let dir: string
+  const context = 'https://headless.ly/~test'
+
+  const open = (options: { compactThreshold?: number } = {}) => new FileNounProvider({ path: dir, context, ...options })
+
+  beforeEach(() => {
+    clearRegistry()
+    dir = mkdtempSync(join(tmpdir(), 'headlessly-file-provider-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  describe('persistence across restarts', () => {
+    it('reloads created entities from disk', async () => {
+      const first = open()
+      const alice = await first.create('Contact', { name: 'Alice', stage: 'Lead' })
+
+      const second = open()
+      const fetched = await second.get('Contact', alice.$id)
+      expect(fetched).toEqual(alice)
+    })
+
+    it('reloads updates and verb state changes', async () => {
+      const first = open()
+      const alice = await first.create('Contact', { name: 'Alice', stage: 'Lead' })
+      await first.update('Contact', alice.$id, { name: 'Alice Smith' })
+      await first.perform('Contact', 'qualify', alice.$id, { stage: 'Qualified' })
+
+      const fetched = await open().get('Contact', alice.$id)
+      expect(fetched!.name).toBe('Alice Smith')
+      expect(fetched!.stage).toBe('Qualified')
+      expect(fetched!.$version).toBe(3)
+    })
+
+    it('does not resurrect deleted entities', async () => {
+      const first = open()
+      const alice = await first.create('Contact', { name: 'Alice' })
+      const bob = await first.create('Contact', { name: 'Bob' })
+      await first.delete('Contact', alice.$id, { permanent: true })
+
+      const second = open()
+      expect(await second.get('Contact', alice.$id)).toBeNull()
+      expect(await second.get('Contact', bob.$id)).not.toBeNull()
+      expect(second.size).toBe(1)
+    })
+
+    it('supports find with filters after reload', async () => {
+      const first = open()
+      await first.create('Deal', { name: 'Small', value: 10 })
+      await first.create('Deal', { name: 'Big', value: 1000 })
+
+      const deals = await open().find('Deal', { value: { $gt: 100 } })
+      expect(deals).toHaveLength(1)
+      expect(deals[0]!.name).toBe('Big')
+    })
+  })
+
+  describe('append log and snapshot', () => {
+    it('appends one NDJSON line per write', async () => {
+      const provider = open()
+      const alice = await provider.create('Contact', { name: 'Alice' })
+      await provider.update('Contact', alice.$id, { name: 'Alicia' })
+      await provider.delete('Contact', alice.$id, { permanent: true })
+
+      const lines = readFileSync(join(dir, 'entities.log'), 'utf-8').trim().split('\n')
+      expect(lines.map((l) => JSON.parse(l).op)).toEqual(['put', 'put', 'delete'])
+    })
+
+    it('compacts the log into the snapshot once the threshold is reached', async () => {
+      const provider = open({ compactThreshold: 3 })
+      await provider.create('Contact', { name: 'A' })
+      await provider.create('Contact', { name: 'B' })
+      await provider.create('Contact', { name: 'C' })
+
+      expect(readFileSync(join(dir, 'entities.log'), 'utf-8')).toBe('')
+      const snapshot = JSON.parse(readFileSync(join(dir, 'entities.json'), 'utf-8'))
+      expect(snapshot.entities).toHaveLength(3)
+
+      await provider.create('Contact', { name: 'D' })
+      expect(open().size).toBe(4)
+    })
+
+    it('compact() writes the snapshot atomically without leaving a temp file', async () => {
+      const provider = open()
+      await provider.create('Contact', { name: 'Alice' })
+      provider.compact()
+
+      expect(existsSync(join(dir, 'entities.json.tmp'))).toBe(false)
+      expect(open().size).toBe(1)
+    })
+
+    it('discards a torn trailing line from a crash mid-append', async () => {
+      const first = open()
+      const alice = await first.create('Contact', { name: 'Alice' })
+      appendFileSync(join(dir, 'entities.log'), '{"op":"put","entity":{"$id":"contact_')
+
+      const second = open()
+      expect(second.size).toBe(1)
+      expect(await second.get('Contact', alice.$id)).not.toBeNull()
+
+      // Writes after recovery start on a clean line
+      await second.create('Contact', { name: 'Bob' })
+      expect(open().size).toBe(2)
+    })
+
+    it('appends a committed transaction as one batch line', async () => {
+      const provider = open()
+      const alice = await provider.create('Contact', { name: 'Alice' })
+      await provider.transaction(async (tx) => {
+        await tx.update('Contact', alice.$id, { name: 'Alicia' })
+        await tx.create('Contact', { name: 'Bob' })
+        await tx.create('Contact', { name: 'Carol' })
+      })
+
+      const lines = readFileSync(join(dir, 'entities.log'), 'utf-8').trim().split('\n')
+      expect(lines.map((l) => JSON.parse(l).op)).toEqual(['put', 'batch'])
+      expect(JSON.parse(lines[1]!).writes).toHaveLength(3)
+      const reloaded = open()
+      expect(reloaded.size).toBe(3)
+      expect((await reloaded.get('Contact', alice.$id))!.name).toBe('Alicia')
+    })
+
+    it('replays none of a transaction whose batch line was torn', async () => {
+      const first = open()
+      const alice = await first.create('Contact', { name: 'Alice' })
+      const batch = JSON.stringify({
+        op: 'batch',
+        writes: [
+          { op: 'put', entity: { ...alice, name: 'Alicia', $version: 2 } },
+          { op: 'put', entity: { ...alice, $id: 'contact_bob', name: 'Bob' } },
+        ],
+      })
+      appendFileSync(join(dir, 'entities.log'), batch.slice(0, -10))
+
+      const second = open()
+      expect(second.size).toBe(1)
+      expect((await second.get('Contact', alice.$id))!.name).toBe('Alice')
+    })
+
+    it('throws on a corrupt entry in the middle of the log', async () => {
+      const first = open()
+      await first.create('Contact', { name: 'Alice' })
+      appendFileSync(join(dir, 'entities.log'), 'not json\n')
+      await first.create('Contact', { name: 'Bob' })
+
+      expect(() => open()).toThrow(/Corrupt entry/)
+    })
+
+    it('clear() removes persisted entities', async () => {
+      const provider = open()
+      await provider.create('Contact', { name: 'Alice' })
+      provider.clear()
+
+      expect(open().size).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { clearRegistry, MemoryNounProvider, Noun } from 'digital-objects'
+import { findMatching, isBasicFilter, matchesFilter, resolvePath } from '../src/filter'
+import { LocalNounProvider } from '../src/local-provider'
+
+const deal = {
+  $id: 'deal_1',
+  $type: 'Deal',
+  name: 'Enterprise',
+  stage: 'Open',
+  value: 5000,
+  tags: ['enterprise', 'q3'],
+  closeDate: '2026-03-15T00:00:00.000Z',
+  metadata: { source: 'web', owner: { name: 'Alice' } },
+  lines: [
+    { sku: 'A', qty: 2 },
+    { sku: 'B', qty: 5 },
+  ],
+}
+
+describe('@headlessly/objects — filter engine', () => {
+  describe('logical operators', () => {
+    it('supports $and and $or', () => {
+      expect(matchesFilter(deal, { $and: [{ stage: 'Open' }, { value: { $gt: 1000 } }] })).toBe(true)
+      expect(matchesFilter(deal, { $or: [{ stage: 'Won' }, { value: { $lt: 1000 } }] })).toBe(false)
+      expect(matchesFilter(deal, { $or: [{ stage: 'Won' }, { name: 'Enterprise' }] })).toBe(true)
+    })
+
+    it('supports $nor and top-level $not', () => {
+      expect(matchesFilter(deal, { $nor: [{ stage: 'Won' }, { stage: 'Lost' }] })).toBe(true)
+      expect(matchesFilter(deal, { $not: { stage: 'Open' } })).toBe(false)
+    })
+
+    it('nests logical operators', () => {
+      const filter = { $or: [{ $and: [{ stage: 'Open' }, { $not: { value: { $lt: 1000 } } }] }, { stage: 'Won' }] }
+      expect(matchesFilter(deal, filter)).toBe(true)
+      expect(matchesFilter({ ...deal, value: 10 }, filter)).toBe(false)
+    })
+  })
+
+  describe('field operators', () => {
+    it('negates an operator object with field-level $not', () => {
+      expect(matchesFilter(deal, { stage: { $not: { $in: ['Won', 'Lost'] } } })).toBe(true)
+      expect(matchesFilter(deal, { name: { $not: { $regex: '^Ent' } } })).toBe(false)
+    })
+
+    it('matches array elements and substrings with $contains', () => {
+      expect(matchesFilter(deal, { tags: { $contains: 'q3' } })).toBe(true)
+      expect(matchesFilter(deal, { tags: { $contains: 'q4' } })).toBe(false)
+      expect(matchesFilter(deal, { lines: { $contains: { sku: 'B', qty: { $gte: 5 } } } })).toBe(true)
+      expect(matchesFilter(deal, { name: { $contains: 'prise' } })).toBe(true)
+    })
+
+    it('matches array length with $size', () => {
+      expect(matchesFilter(deal, { tags: { $size: 2 } })).toBe(true)
+      expect(matchesFilter(deal, { name: { $size: 10 } })).toBe(false)
+    })
+
+    it('compares ISO date strings and Date objects', () => {
+      expect(matchesFilter(deal, { closeDate: { $gte: '2026-03-01', $lt: '2026-04-01' } })).toBe(true)
+      expect(matchesFilter(deal, { closeDate: { $gt: new Date('2026-06-01') } })).toBe(false)
+      expect(matchesFilter(deal, { name: { $gt: '2026-01-01' } })).toBe(false)
+    })
+
+    it('rejects unknown operators', () => {
+      expect(matchesFilter(deal, { value: { $near: 5000 } })).toBe(false)
+    })
+  })
+
+  describe('dot-paths', () => {
+    it('resolves nested objects and array indexes', () => {
+      expect(matchesFilter(deal, { 'metadata.owner.name': 'Alice' })).toBe(true)
+      expect(matchesFilter(deal, { 'lines.1.sku': 'B' })).toBe(true)
+      expect(matchesFilter(deal, { 'metadata.missing': { $exists: false } })).toBe(true)
+    })
+
+    it('matches if any array element matches', () => {
+      expect(matchesFilter(deal, { 'lines.qty': { $gt: 4 } })).toBe(true)
+      expect(matchesFilter(deal, { 'lines.qty': { $gt: 9 } })).toBe(false)
+      expect(resolvePath(deal, 'lines.sku')).toEqual(['A', 'B'])
+    })
+
+    it('reaches into JSON-serialized fields', () => {
+      expect(matchesFilter({ metadata: '{"source":"api"}' }, { 'metadata.source': 'api' })).toBe(true)
+    })
+  })
+
+  describe('isBasicFilter', () => {
+    it('accepts flat filters with basic operators and $and/$or', () => {
+      expect(isBasicFilter(undefined)).toBe(true)
+      expect(isBasicFilter({ stage: 'Open', value: { $gte: 10 }, $or: [{ name: 'A' }, { name: 'B' }] })).toBe(true)
+    })
+
+    it('rejects engine-only features', () => {
+      expect(isBasicFilter({ $not: { stage: 'Open' } })).toBe(false)
+      expect(isBasicFilter({ 'metadata.source': 'web' })).toBe(false)
+      expect(isBasicFilter({ tags: { $contains: 'q3' } })).toBe(false)
+      expect(isBasicFilter({ closeDate: { $gt: '2026-01-01' } })).toBe(false)
+    })
+  })
+
+  describe('providers', () => {
+    beforeEach(() => {
+      clearRegistry()
+      Noun('Deal', { name: 'string!', stage: 'Open | Won | Lost', value: 'number', tags: 'string[]', closeDate: 'datetime', metadata: 'json' })
+    })
+
+    it('LocalNounProvider.find() uses the engine', async () => {
+      const provider = new LocalNounProvider({ context: 'https://headless.ly/~test' })
+      await provider.create('Deal', { name: 'A', stage: 'Open', tags: ['q3'], metadata: { source: 'web' } })
+      await provider.create('Deal', { name: 'B', stage: 'Won', tags: ['q4'], metadata: { source: 'api' } })
+
+      const names = async (where: Record<string, unknown>) => (await provider.find('Deal', where)).map((d) => d.name)
+      expect(await names({ $or: [{ stage: 'Won' }, { tags: { $contains: 'q3' } }] })).toEqual(['A', 'B'])
+      expect(await names({ 'metadata.source': 'api' })).toEqual(['B'])
+      expect((await provider.findOne('Deal', { $not: { stage: 'Open' } }))!.name).toBe('B')
+    })
+
+    it('findMatching applies engine-only filters on any provider', async () => {
+      const provider = new MemoryNounProvider()
+      await provider.create('Deal', { name: 'A', closeDate: '2026-01-10T00:00:00.000Z' })
+      await provider.create('Deal', { name: 'B', closeDate: '2026-05-10T00:00:00.000Z' })
+
+      const results = await findMatching(provider, 'Deal', { closeDate: { $gte: '2026-03-01' } })
+      expect(results.map((d) => d.name)).toEqual(['B'])
+      expect(await findMatching(provider, 'Deal', { name: 'A' })).toHaveLength(1)
+    })
+
+    it('findMatching passes basic conditions to the provider and matches the rest itself', async () => {
+      const provider = new MemoryNounProvider()
+      await provider.create('Deal', { name: 'A', stage: 'Open', closeDate: '2026-05-10T00:00:00.000Z' })
+      await provider.create('Deal', { name: 'B', stage: 'Won', closeDate: '2026-05-10T00:00:00.000Z' })
+      const find = vi.spyOn(provider, 'find')
+
+      const results = await findMatching(provider, 'Deal', { stage: 'Open', closeDate: { $gte: '2026-03-01' } })
+      expect(results.map((d) => d.name)).toEqual(['A'])
+      expect(find).toHaveBeenCalledWith('Deal', { stage: 'Open' })
+    })
+
+    it('findMatching hands the whole filter to providers that evaluate it', async () => {
+      const provider = new LocalNounProvider({ context: 'https://headless.ly/~test' })
+      await provider.create('Deal', { name: 'A', metadata: { source: 'web' } })
+      const find = vi.spyOn(provider, 'find')
+
+      expect(await findMatching(provider, 'Deal', { 'metadata.source': 'web' })).toHaveLength(1)
+      expect(find).toHaveBeenCalledWith('Deal', { 'metadata.source': 'web' })
+    })
+  })
+})
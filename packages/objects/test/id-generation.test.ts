@@ -1,5 +1,7 @@
-import { describe, it, expect } from 'vitest'
-import { generateSqid, generateEntityId, generateEventId } from '../src/id'
+import { describe, it, expect, beforeEach } from 'vitest'
+import { clearRegistry, Noun } from 'digital-objects'
+import { generateSqid, generateEntityId, generateEventId, cryptoSqid, sortableSqid, seededIds, resolveIdStrategy } from '../src/id'
+import { LocalNounProvider } from '../src/local-provider'
 
 describe('@headlessly/objects — ID generation', () => {
   describe('generateSqid', () => {
@@ -40,4 +42,80 @@ describe('@headlessly/objects — ID generation', () => {
       expect(id).toMatch(/^evt_/)
     })
   })
+
+  describe('ID strategies', () => {
+    it('cryptoSqid generates 12 alphanumeric characters', () => {
+      expect(cryptoSqid()).toMatch(/^[a-zA-Z0-9]{12}$/)
+      expect(cryptoSqid(20)).toHaveLength(20)
+    })
+
+    it('sortableSqid sorts by creation time, including within a millisecond', () => {
+      const ids = [sortableSqid(1_700_000_000_000), sortableSqid(1_700_000_000_000), sortableSqid(1_700_000_000_001), sortableSqid(1_800_000_000_000)]
+      expect(new Set(ids).size).toBe(4)
+      expect([...ids].sort()).toEqual(ids)
+      expect(ids[0]).toMatch(/^[0-9A-Za-z]{16}$/)
+    })
+
+    it('seededIds repeats the same sequence for the same seed', () => {
+      const a = seededIds(42)
+      const b = seededIds(42)
+      const sequence = [a(), a(), a()]
+      expect([b(), b(), b()]).toEqual(sequence)
+      expect(seededIds('fixtures')()).toBe(seededIds('fixtures')())
+      expect(seededIds(43)()).not.toBe(sequence[0])
+    })
+
+    it('resolveIdStrategy maps names to generators', () => {
+      expect(resolveIdStrategy()()).toHaveLength(8)
+      expect(resolveIdStrategy('crypto')()).toHaveLength(12)
+      expect(resolveIdStrategy('sortable')()).toHaveLength(16)
+      expect(generateEntityId('Contact', () => 'fixed')).toBe('contact_fixed')
+      expect(() => resolveIdStrategy('uuid' as 'random')).toThrow('Unknown ID strategy: uuid')
+    })
+  })
+
+  describe('LocalNounProvider idStrategy', () => {
+    beforeEach(() => {
+      clearRegistry()
+      Noun('Contact', { name: 'string!' })
+    })
+
+    it('gives reproducible IDs with a seeded generator', async () => {
+      const ids = async () => {
+        const provider = new LocalNounProvider({ idStrategy: seededIds(7) })
+        return [(await provider.create('Contact', { name: 'Alice' })).$id, (await provider.create('Contact', { name: 'Bob' })).$id]
+      }
+      expect(await ids()).toEqual(await ids())
+    })
+
+    it('regenerates IDs that collide with stored entities', async () => {
+      const sqids = ['dup', 'dup', 'fresh']
+      const provider = new LocalNounProvider({ idStrategy: () => sqids.shift()! })
+      await provider.create('Contact', { name: 'Alice' })
+      const bob = await provider.create('Contact', { name: 'Bob' })
+      expect(bob.$id).toBe('contact_fresh')
+    })
+
+    it('fails after repeated collisions instead of overwriting', async () => {
+      const provider = new LocalNounProvider({ idStrategy: () => 'same' })
+      await provider.create('Contact', { name: 'Alice' })
+      await expect(provider.create('Contact', { name: 'Bob' })).rejects.toThrow('Could not generate a unique Contact id')
+      expect((await provider.get('Contact', 'contact_same'))?.name).toBe('Alice')
+    })
+
+    it('rejects a supplied $id that is already in use', async () => {
+      const provider = new LocalNounProvider()
+      const alice = await provider.create('Contact', { name: 'Alice' })
+      await expect(provider.create('Contact', { $id: alice.$id, name: 'Bob' })).rejects.toThrow(`Contact id already in use: ${alice.$id}`)
+      expect(await provider.get('Contact', alice.$id)).toMatchObject({ name: 'Alice', $version: 1 })
+    })
+
+    it('rejects a supplied $id already used by another type', async () => {
+      Noun('Deal', { name: 'string!' })
+      const provider = new LocalNounProvider()
+      const alice = await provider.create('Contact', { name: 'Alice' })
+      await expect(provider.create('Deal', { $id: alice.$id, name: 'Big' })).rejects.toThrow(`Deal id already in use: ${alice.$id}`)
+      expect(await provider.get('Contact', alice.$id)).toMatchObject({ name: 'Alice', $version: 1 })
+    })
+  })
 })
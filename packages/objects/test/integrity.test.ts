@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { clearRegistry, Noun } from 'digital-objects'
+import { EventLog } from '@headlessly/events'
+import { LocalNounProvider } from '../src/local-provider'
+import { ReferentialIntegrityError, incomingRelationships } from '../src/integrity'
+import { EntityValidationError } from '../src/validation'
+import type { OnDeleteAction } from '../src/integrity'
+
+describe('@headlessly/objects — referential integrity', () => {
+  beforeEach(() => {
+    clearRegistry()
+    Noun('Organization', {
+      name: 'string!',
+      contacts: '<- Contact.organization[]',
+    })
+    Noun('Contact', {
+      name: 'string!',
+      organization: '-> Organization.contacts',
+    })
+    Noun('Deal', {
+      name: 'string!',
+      organization: '-> Organization.deals',
+      contact: '-> Contact.deals',
+      watchers: '-> Contact[]',
+    })
+  })
+
+  function createProvider(onDelete?: Record<string, OnDeleteAction>, eventLog?: EventLog) {
+    return new LocalNounProvider({ context: 'https://headless.ly/~acme', onDelete, eventLog })
+  }
+
+  it('finds incoming forward relationships', () => {
+    expect(incomingRelationships('Contact').map((r) => `${r.sourceType}.${r.field}`)).toEqual(['Deal.contact', 'Deal.watchers'])
+  })
+
+  describe('on write', () => {
+    it('rejects references to missing entities', async () => {
+      const provider = createProvider()
+      const error = await provider.create('Contact', { name: 'Alice', organization: 'organization_missing' }).catch((e: unknown) => e)
+      expect(error).toBeInstanceOf(EntityValidationError)
+      expect((error as EntityValidationError).errors).toEqual({ organization: 'Organization references a missing Organization: organization_missing' })
+    })
+
+    it('accepts existing references and checks array relationships', async () => {
+      const provider = createProvider()
+      const org = await provider.create('Organization', { name: 'Acme' })
+      const alice = await provider.create('Contact', { name: 'Alice', organization: org.$id })
+      await expect(provider.create('Deal', { name: 'Big', watchers: [alice.$id] })).resolves.toBeDefined()
+      await expect(provider.create('Deal', { name: 'Big', watchers: [alice.$id, 'contact_gone'] })).rejects.toThrow('Watchers references a missing Contact: contact_gone')
+    })
+
+    it('checks references on update', async () => {
+      const provider = createProvider()
+      const alice = await provider.create('Contact', { name: 'Alice' })
+      await expect(provider.update('Contact', alice.$id, { organization: 'organization_missing' })).rejects.toThrow(EntityValidationError)
+    })
+
+    it('rejects references to entities in another tenant', async () => {
+      const other = new LocalNounProvider({ context: 'https://headless.ly/~other' })
+      const org = await other.create('Organization', { name: 'Elsewhere' })
+      await expect(createProvider().create('Contact', { name: 'Alice', organization: org.$id })).rejects.toThrow(EntityValidationError)
+    })
+  })
+
+  describe('on delete', () => {
+    it('restricts by default', async () => {
+      const provider = createProvider()
+      const org = await provider.create('Organization', { name: 'Acme' })
+      const alice = await provider.create('Contact', { name: 'Alice', organization: org.$id })
+
+      const error = await provider.delete('Organization', org.$id).catch((e: unknown) => e)
+      expect(error).toBeInstanceOf(ReferentialIntegrityError)
+      expect((error as ReferentialIntegrityError).references).toEqual([{ type: 'Contact', id: alice.$id, field: 'organization' }])
+      expect(await provider.get('Organization', org.$id)).not.toBeNull()
+    })
+
+    it('cascades deletes through dependents and emits an event for each', async () => {
+      const eventLog = new EventLog()
+      const provider = createProvider({ 'Contact.organization': 'cascade', 'Deal.contact': 'cascade' }, eventLog)
+      const org = await provider.create('Organization', { name: 'Acme' })
+      const alice = await provider.create('Contact', { name: 'Alice', organization: org.$id })
+      const deal = await provider.create('Deal', { name: 'Big', contact: alice.$id })
+
+      expect(await provider.delete('Organization', org.$id)).toBe(true)
+      expect(await provider.get('Contact', alice.$id)).toBeNull()
+      expect(await provider.get('Deal', deal.$id)).toBeNull()
+
+      const deletes = (await eventLog.query({})).filter((e) => e.verb === 'delete')
+      expect(deletes.map((e) => e.$type)).toEqual(['Deal.delete', 'Contact.delete', 'Organization.delete'])
+    })
+
+    it('sets references to null, or removes them from arrays', async () => {
+      const eventLog = new EventLog()
+      const provider = createProvider({ 'Deal.contact': 'set-null', 'Deal.watchers': 'set-null' }, eventLog)
+      const alice = await provider.create('Contact', { name: 'Alice' })
+      const bob = await provider.create('Contact', { name: 'Bob' })
+      const deal = await provider.create('Deal', { name: 'Big', contact: alice.$id, watchers: [alice.$id, bob.$id] })
+
+      await provider.delete('Contact', alice.$id)
+      const updated = await provider.get('Deal', deal.$id)
+      expect(updated!.contact).toBeNull()
+      expect(updated!.watchers).toEqual([bob.$id])
+
+      const history = await eventLog.getEntityHistory('Deal', deal.$id)
+      expect(history.map((e) => e.$type)).toEqual(['Deal.create', 'Deal.update', 'Deal.update'])
+    })
+
+    it('aborts the whole cascade if any dependent is restricted', async () => {
+      const provider = createProvider({ 'Contact.organization': 'cascade' })
+      const org = await provider.create('Organization', { name: 'Acme' })
+      const alice = await provider.create('Contact', { name: 'Alice', organization: org.$id })
+      await provider.create('Deal', { name: 'Big', contact: alice.$id })
+
+      await expect(provider.delete('Organization', org.$id)).rejects.toThrow(ReferentialIntegrityError)
+      expect(await provider.get('Contact', alice.$id)).not.toBeNull()
+    })
+  })
+})
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest'
 import { clearRegistry } from 'digital-objects'
+import { EventLog } from '@headlessly/events'
 import { LocalNounProvider } from '../src/local-provider'
 
 describe('@headlessly/objects — LocalNounProvider', () => {
@@ -84,4 +85,79 @@ describe('@headlessly/objects — LocalNounProvider', () => {
       expect(deals.length).toBe(0)
     })
   })
+
+  describe('rollback', () => {
+    let eventLog: EventLog
+
+    beforeEach(() => {
+      eventLog = new EventLog()
+      provider = new LocalNounProvider({ context: 'https://headless.ly/~test', eventLog })
+    })
+
+    it('throws without an EventLog', async () => {
+      const plain = new LocalNounProvider({ context: 'https://headless.ly/~test' })
+      const created = await plain.create('Contact', { name: 'Alice' })
+      await expect(plain.rollback('Contact', created.$id, 1)).rejects.toThrow('rollback not supported')
+    })
+
+    it('restores a previous version as a new version', async () => {
+      const created = await provider.create('Contact', { name: 'Alice', stage: 'Lead' })
+      await provider.update('Contact', created.$id, { name: 'Alicia', title: 'CTO' })
+      await provider.update('Contact', created.$id, { stage: 'Customer' })
+
+      const restored = await provider.rollback('Contact', created.$id, 1)
+      expect(restored.name).toBe('Alice')
+      expect(restored.stage).toBe('Lead')
+      expect(restored.title).toBeUndefined()
+      expect(restored.$version).toBe(4)
+      expect(restored.$createdAt).toBe(created.$createdAt)
+
+      const fetched = await provider.get('Contact', created.$id)
+      expect(fetched).toEqual(restored)
+    })
+
+    it('targets $version even when verbs ran without data', async () => {
+      const created = await provider.create('Contact', { name: 'Alice', stage: 'Lead' })
+      await provider.perform('Contact', 'view', created.$id)
+      await provider.update('Contact', created.$id, { stage: 'Qualified' })
+      await provider.update('Contact', created.$id, { stage: 'Customer' })
+
+      const restored = await provider.rollback('Contact', created.$id, 2)
+      expect(restored.stage).toBe('Qualified')
+    })
+
+    it('emits a {Type}.rolled_back event', async () => {
+      const created = await provider.create('Contact', { name: 'Alice' })
+      await provider.update('Contact', created.$id, { name: 'Bob' })
+      await provider.rollback('Contact', created.$id, 1)
+
+      const history = await eventLog.getEntityHistory('Contact', created.$id)
+      const last = history[history.length - 1]!
+      expect(last.$type).toBe('Contact.rolled_back')
+      expect(last.verb).toBe('rollback')
+      expect(last.conjugation.event).toBe('rolledBack')
+      expect(last.data).toEqual({ toVersion: 1 })
+      expect(last.before!.name).toBe('Bob')
+      expect(last.after!.name).toBe('Alice')
+    })
+
+    it('restores a deleted entity', async () => {
+      const created = await provider.create('Contact', { name: 'Alice' })
+      await provider.delete('Contact', created.$id, { permanent: true })
+
+      const restored = await provider.rollback('Contact', created.$id, 1)
+      expect(restored.name).toBe('Alice')
+      expect(restored.$version).toBe(2)
+      expect(await provider.get('Contact', created.$id)).toEqual(restored)
+    })
+
+    it('throws for an unknown version', async () => {
+      const created = await provider.create('Contact', { name: 'Alice' })
+      await expect(provider.rollback('Contact', created.$id, 5)).rejects.toThrow('version 5 not found')
+    })
+
+    it('throws for an entity with no history', async () => {
+      await expect(provider.rollback('Contact', 'contact_notfound', 1)).rejects.toThrow('Contact not found')
+    })
+  })
 })
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import Database from 'better-sqlite3'
+import { clearRegistry, Noun } from 'digital-objects'
+import type { SqlStorage } from '@headlessly/events'
+import { LocalNounProvider } from '../src/local-provider'
+import { SQLiteNounProvider } from '../src/sqlite-provider'
+import { DONounProvider } from '../src/do-provider'
+import { compareBy, decodeCursor, encodeCursor, paginate, project } from '../src/query'
+
+const rpcFind = vi.fn()
+
+vi.mock('rpc.do', () => ({
+  RPC: () => new Proxy({}, { get: () => ({ find: rpcFind }) }),
+}))
+
+const DEALS = [
+  { name: 'A', stage: 'Open', value: 300 },
+  { name: 'B', stage: 'Won', value: 100 },
+  { name: 'C', stage: 'Open', value: 100 },
+  { name: 'D', stage: 'Won', value: 500 },
+  { name: 'E', stage: 'Open' },
+]
+
+describe('@headlessly/objects — query options', () => {
+  describe('helpers', () => {
+    it('round-trips cursors', () => {
+      expect(decodeCursor(encodeCursor(40))).toBe(40)
+      expect(() => decodeCursor('not-a-cursor')).toThrow('Invalid cursor')
+    })
+
+    it('sorts by multiple keys in order', () => {
+      const sorted = [...DEALS].sort(compareBy({ stage: 'asc', value: 'desc' }))
+      expect(sorted.map((d) => d.name)).toEqual(['A', 'C', 'E', 'D', 'B'])
+    })
+
+    it('sorts missing values first ascending', () => {
+      const sorted = [...DEALS].sort(compareBy({ value: 'asc' }))
+      expect(sorted[0]!.name).toBe('E')
+    })
+
+    it('projects selected fields plus $id and $type', () => {
+      expect(project({ $id: 'deal_1', $type: 'Deal', name: 'A', value: 1 }, ['name'])).toEqual({ $id: 'deal_1', $type: 'Deal', name: 'A' })
+    })
+
+    it('paginates with total and next cursor', () => {
+      const first = paginate(DEALS, { limit: 2 })
+      expect(first.items.map((d) => d.name)).toEqual(['A', 'B'])
+      expect(first.total).toBe(5)
+      const second = paginate(DEALS, { limit: 2, cursor: first.nextCursor })
+      expect(second.items.map((d) => d.name)).toEqual(['C', 'D'])
+      const last = paginate(DEALS, { limit: 2, cursor: second.nextCursor })
+      expect(last.items.map((d) => d.name)).toEqual(['E'])
+      expect(last.nextCursor).toBeUndefined()
+    })
+  })
+
+  const providers: Array<[string, () => LocalNounProvider]> = [
+    ['LocalNounProvider', () => new LocalNounProvider({ context: 'https://headless.ly/~test' })],
+    [
+      'SQLiteNounProvider',
+      () => {
+        const db = new Database(':memory:')
+        const sql: SqlStorage = {
+          exec(query: string, ...bindings: unknown[]) {
+            const stmt = db.prepare(query)
+            const rows = stmt.reader ? (stmt.all(...bindings) as Record<string, unknown>[]) : (stmt.run(...bindings), [])
+            return { toArray: () => rows }
+          },
+        }
+        return new SQLiteNounProvider(sql, { context: 'https://headless.ly/~test' })
+      },
+    ],
+  ]
+
+  describe.each(providers)('%s', (_name, createProvider) => {
+    let provider: LocalNounProvider
+
+    beforeEach(async () => {
+      clearRegistry()
+      Noun('Deal', { name: 'string!', stage: 'Open | Won | Lost', value: 'number' })
+      provider = createProvider()
+      for (const deal of DEALS) await provider.create('Deal', deal)
+    })
+
+    it('returns every match without options', async () => {
+      expect(await provider.find('Deal')).toHaveLength(5)
+    })
+
+    it('sorts, skips, and limits', async () => {
+      const deals = await provider.find('Deal', { stage: 'Open' }, { sort: { value: 'desc' }, offset: 1, limit: 1 })
+      expect(deals.map((d) => d.name)).toEqual(['C'])
+    })
+
+    it('sorts by multiple keys', async () => {
+      const deals = await provider.find('Deal', {}, { sort: { value: 'asc', name: 'desc' } })
+      expect(deals.map((d) => d.name)).toEqual(['E', 'C', 'B', 'A', 'D'])
+    })
+
+    it('projects selected fields', async () => {
+      const [deal] = await provider.find('Deal', { name: 'A' }, { select: ['value'] })
+      expect(Object.keys(deal!).sort()).toEqual(['$id', '$type', 'value'])
+    })
+
+    it('pages through results with findPage cursors', async () => {
+      const names: string[] = []
+      let cursor: string | undefined
+      let pages = 0
+      do {
+        const page = await provider.findPage('Deal', {}, { sort: { name: 'asc' }, limit: 2, cursor })
+        expect(page.total).toBe(5)
+        names.push(...page.items.map((d) => d.name as string))
+        cursor = page.nextCursor
+        pages++
+      } while (cursor)
+      expect(pages).toBe(3)
+      expect(names).toEqual(['A', 'B', 'C', 'D', 'E'])
+    })
+
+    it('applies options after JS-only filters', async () => {
+      const page = await provider.findPage('Deal', { name: { $regex: '^[A-C]' } }, { sort: { value: 'asc' }, limit: 2 })
+      expect(page.items.map((d) => d.name)).toEqual(['B', 'C'])
+      expect(page.total).toBe(3)
+    })
+  })
+
+  describe('DONounProvider', () => {
+    beforeEach(() => {
+      rpcFind.mockReset()
+    })
+
+    it('sends query options to the DO and reads pagination meta', async () => {
+      rpcFind.mockResolvedValue({ data: [{ $id: 'deal_1', $type: 'Deal', name: 'A' }], meta: { total: 42, nextCursor: 'next' } })
+      const provider = new DONounProvider({ endpoint: 'https://db.headless.ly/~acme' })
+
+      const page = await provider.findPage('Deal', { stage: 'Open' }, { sort: { value: 'desc' }, limit: 1 })
+      expect(rpcFind).toHaveBeenCalledWith({ stage: 'Open' }, { sort: { value: 'desc' }, limit: 1 })
+      expect(page.total).toBe(42)
+      expect(page.nextCursor).toBe('next')
+      expect(page.items[0]!.$id).toBe('deal_1')
+    })
+
+    it('applies options locally when the DO returns a bare array', async () => {
+      rpcFind.mockResolvedValue([
+        { $id: 'deal_1', name: 'A', value: 1 },
+        { $id: 'deal_2', name: 'B', value: 2 },
+      ])
+      const provider = new DONounProvider({ endpoint: 'https://db.headless.ly/~acme' })
+
+      const deals = await provider.find('Deal', {}, { sort: { value: 'desc' }, limit: 1 })
+      expect(deals.map((d) => d.name)).toEqual(['B'])
+    })
+
+    it('keeps the single-argument call when no options are given', async () => {
+      rpcFind.mockResolvedValue([])
+      const provider = new DONounProvider({ endpoint: 'https://db.headless.ly/~acme' })
+      await provider.find('Deal', { stage: 'Open' })
+      expect(rpcFind).toHaveBeenCalledWith({ stage: 'Open' })
+    })
+  })
+})
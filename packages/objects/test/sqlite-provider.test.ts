@@ -0,0 +1,312 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import Database from 'better-sqlite3'
+import { clearRegistry, Noun } from 'digital-objects'
+import { EventLog } from '@headlessly/events'
+import type { SqlStorage } from '@headlessly/events'
+import { SQLiteNounProvider } from '../src/sqlite-provider'
+
+/**
+ * better-sqlite3 stand-in for Durable Object SqlStorage, recording every query
+ */
+function createSqlStorage(options: { regexp?: boolean } = {}) {
+  const db = new Database(':memory:')
+  if (options.regexp) {
+    db.function('regexp', (pattern: unknown, value: unknown) => (new RegExp(String(pattern)).test(String(value)) ? 1 : 0))
+  }
+  const queries: string[] = []
+  const sql: SqlStorage = {
+    exec(query: string, ...bindings: unknown[]) {
+      queries.push(query)
+      const stmt = db.prepare(query)
+      const rows = stmt.reader ? (stmt.all(...bindings) as Record<string, unknown>[]) : (stmt.run(...bindings), [])
+      return { toArray: () => rows }
+    },
+  }
+  return { db, sql, queries }
+}
+
+describe('@headlessly/objects — SQLiteNounProvider', () => {
+  let storage: ReturnType<typeof createSqlStorage>
+  let provider: SQLiteNounProvider
+
+  beforeEach(() => {
+    clearRegistry()
+    Noun('Contact', {
+      name: 'string!',
+      email: 'string##',
+      score: 'number',
+      vip: 'boolean',
+      stage: 'Lead | Qualified | Customer',
+      company: '-> Company.contacts',
+      tags: 'string[]',
+      qualify: 'Qualified',
+    })
+    storage = createSqlStorage()
+    provider = new SQLiteNounProvider(storage.sql, { context: 'https://headless.ly/~test' })
+  })
+
+  describe('schema', () => {
+    it('creates a table per type with columns for scalar fields and forward relationships', async () => {
+      await provider.create('Contact', { name: 'Alice' })
+      const columns = storage.db
+        .prepare('PRAGMA table_info(noun_contact)')
+        .all()
+        .map((c) => (c as { name: string }).name)
+      expect(columns).toEqual(expect.arrayContaining(['$id', '$context', '$version', '$data', 'name', 'email', 'score', 'vip', 'stage', 'company']))
+      expect(columns).not.toContain('tags')
+    })
+
+    it('creates a unique index for ## fields', async () => {
+      await provider.create('Contact', { name: 'Alice', email: 'alice@example.com' })
+      const index = storage.db.prepare(`SELECT sql FROM sqlite_master WHERE name = 'idx_noun_contact_email'`).get() as { sql: string }
+      expect(index.sql).toContain('UNIQUE')
+      await expect(provider.create('Contact', { name: 'Alice 2', email: 'alice@example.com' })).rejects.toThrow('Email must be unique')
+      const unvalidated = new SQLiteNounProvider(storage.sql, { context: 'https://headless.ly/~test', validate: false })
+      await expect(unvalidated.create('Contact', { name: 'Alice 2', email: 'alice@example.com' })).rejects.toThrow(/UNIQUE/)
+    })
+
+    it('creates a plain index for # fields', async () => {
+      Noun('Ticket', { subject: 'string!', status: 'string#' })
+      await provider.create('Ticket', { subject: 'Help' })
+      const index = storage.db.prepare(`SELECT sql FROM sqlite_master WHERE name = 'idx_noun_ticket_status'`).get() as { sql: string }
+      expect(index.sql).not.toContain('UNIQUE')
+    })
+
+    it('adds columns for fields added to an existing table', async () => {
+      storage.sql.exec(
+        'CREATE TABLE noun_contact ("$id" TEXT PRIMARY KEY, "$context" TEXT NOT NULL, "$version" INTEGER NOT NULL, "$createdAt" TEXT NOT NULL, "$updatedAt" TEXT NOT NULL, "$data" TEXT NOT NULL)',
+      )
+      await provider.create('Contact', { name: 'Alice', score: 5 })
+      const columns = storage.db
+        .prepare('PRAGMA table_info(noun_contact)')
+        .all()
+        .map((c) => (c as { name: string }).name)
+      expect(columns).toContain('score')
+    })
+
+    it('stores types without a schema in the JSON column only', async () => {
+      const entity = await provider.create('Widget', { label: 'Gizmo', weight: 3 })
+      expect(await provider.get('Widget', entity.$id)).toEqual(entity)
+      expect(await provider.find('Widget', { weight: { $gte: 3 } })).toHaveLength(1)
+    })
+  })
+
+  describe('CRUD operations', () => {
+    it('round-trips an entity with meta-fields', async () => {
+      const created = await provider.create('Contact', { name: 'Alice', vip: true, tags: ['a', 'b'] })
+      const fetched = await provider.get('Contact', created.$id)
+      expect(fetched).toEqual(created)
+      expect(fetched!.vip).toBe(true)
+      expect(fetched!.tags).toEqual(['a', 'b'])
+    })
+
+    it('updates an entity and bumps $version', async () => {
+      const created = await provider.create('Contact', { name: 'Alice' })
+      const updated = await provider.update('Contact', created.$id, { name: 'Alicia' })
+      expect(updated.$version).toBe(2)
+      expect((await provider.get('Contact', created.$id))!.name).toBe('Alicia')
+    })
+
+    it('deletes an entity', async () => {
+      const created = await provider.create('Contact', { name: 'Alice' })
+      expect(await provider.delete('Contact', created.$id)).toBe(true)
+      expect(await provider.get('Contact', created.$id)).toBeNull()
+      expect(await provider.delete('Contact', created.$id)).toBe(false)
+    })
+
+    it('performs a verb with data', async () => {
+      const created = await provider.create('Contact', { name: 'Alice', stage: 'Lead' })
+      const qualified = await provider.perform('Contact', 'qualify', created.$id, { stage: 'Qualified' })
+      expect(qualified.stage).toBe('Qualified')
+      expect((await provider.find('Contact', { stage: 'Qualified' }))[0]!.$id).toBe(created.$id)
+    })
+
+    it('rejects a supplied $id already used in any table', async () => {
+      Noun('Company', { name: 'string!' })
+      const alice = await provider.create('Contact', { name: 'Alice' })
+      await expect(provider.create('Contact', { $id: alice.$id, name: 'Bob' })).rejects.toThrow('id already in use')
+      await expect(provider.create('Company', { $id: alice.$id, name: 'Acme' })).rejects.toThrow('id already in use')
+      expect(await provider.find('Company')).toEqual([])
+    })
+
+    it('keeps insertion order after updates', async () => {
+      const a = await provider.create('Contact', { name: 'A' })
+      await provider.create('Contact', { name: 'B' })
+      await provider.update('Contact', a.$id, { name: 'A2' })
+      expect((await provider.find('Contact')).map((c) => c.name)).toEqual(['A2', 'B'])
+    })
+
+    it('counts and scopes entities by tenant context', async () => {
+      const other = new SQLiteNounProvider(storage.sql, { context: 'https://headless.ly/~other' })
+      await provider.create('Contact', { name: 'Alice' })
+      await other.create('Contact', { name: 'Bob' })
+      expect(await provider.count('Contact')).toBe(1)
+      expect((await other.find('Contact')).map((c) => c.name)).toEqual(['Bob'])
+      expect(provider.size).toBe(2)
+    })
+
+    it('isolates forTenant() views over the same tables', async () => {
+      const acme = provider.forTenant('acme')
+      const alice = await acme.create('Contact', { name: 'Alice' })
+      expect(await provider.forTenant('globex').get('Contact', alice.$id)).toBeNull()
+      expect(await provider.get('Contact', alice.$id)).toBeNull()
+      expect((await acme.find('Contact')).map((c) => c.name)).toEqual(['Alice'])
+    })
+
+    it('clear() removes all rows', async () => {
+      await provider.create('Contact', { name: 'Alice' })
+      provider.clear()
+      expect(provider.size).toBe(0)
+    })
+
+    it('emits events to an EventLog', async () => {
+      const eventLog = new EventLog()
+      const withEvents = new SQLiteNounProvider(storage.sql, { context: 'https://headless.ly/~test', eventLog })
+      const created = await withEvents.create('Contact', { name: 'Alice' })
+      await withEvents.perform('Contact', 'qualify', created.$id, { stage: 'Qualified' })
+      const history = await eventLog.getEntityHistory('Contact', created.$id)
+      expect(history.map((e) => e.$type)).toEqual(['Contact.create', 'Contact.qualify'])
+    })
+  })
+
+  describe('filters', () => {
+    beforeEach(async () => {
+      await provider.create('Contact', { name: 'Alice', score: 90, vip: true, stage: 'Customer' })
+      await provider.create('Contact', { name: 'Bob', score: 40, vip: false, stage: 'Lead' })
+      await provider.create('Contact', { name: 'Carol', score: 70, stage: 'Qualified' })
+      await provider.create('Contact', { name: 'Dan', stage: 'Lead' })
+    })
+
+    const names = async (where: Record<string, unknown>) => (await provider.find('Contact', where)).map((c) => c.name)
+
+    it('matches exact values, including booleans', async () => {
+      expect(await names({ stage: 'Lead' })).toEqual(['Bob', 'Dan'])
+      expect(await names({ vip: true })).toEqual(['Alice'])
+    })
+
+    it('supports $gt/$gte/$lt/$lte on numbers only', async () => {
+      expect(await names({ score: { $gt: 40 } })).toEqual(['Alice', 'Carol'])
+      expect(await names({ score: { $gte: 40, $lt: 90 } })).toEqual(['Bob', 'Carol'])
+      expect(await names({ score: { $lte: 40 } })).toEqual(['Bob'])
+      expect(await names({ name: { $gt: 1 } })).toEqual([])
+    })
+
+    it('supports $in and $nin', async () => {
+      expect(await names({ stage: { $in: ['Customer', 'Qualified'] } })).toEqual(['Alice', 'Carol'])
+      expect(await names({ score: { $nin: [90, 40] } })).toEqual(['Carol', 'Dan'])
+      expect(await names({ stage: { $in: [] } })).toEqual([])
+    })
+
+    it('supports $eq, $ne, and $exists', async () => {
+      expect(await names({ name: { $eq: 'Bob' } })).toEqual(['Bob'])
+      expect(await names({ stage: { $ne: 'Lead' } })).toEqual(['Alice', 'Carol'])
+      expect(await names({ score: { $exists: false } })).toEqual(['Dan'])
+      expect(await names({ score: { $exists: true } })).toEqual(['Alice', 'Bob', 'Carol'])
+    })
+
+    it('pushes filters down into the WHERE clause', async () => {
+      storage.queries.length = 0
+      await provider.find('Contact', { score: { $gt: 50 }, stage: { $in: ['Customer'] } })
+      const select = storage.queries.find((q) => q.startsWith('SELECT "$data"'))!
+      expect(select).toContain('"score" > ?')
+      expect(select).toContain('"stage" IN (?)')
+    })
+
+    it('applies $regex in JS when REGEXP is not available', async () => {
+      storage.queries.length = 0
+      expect(await names({ name: { $regex: '^[AB]' } })).toEqual(['Alice', 'Bob'])
+      expect(storage.queries.some((q) => q.includes('REGEXP'))).toBe(false)
+    })
+
+    it('pushes $regex down when the database has a REGEXP function', async () => {
+      const withRegexp = createSqlStorage({ regexp: true })
+      const p = new SQLiteNounProvider(withRegexp.sql, { context: 'https://headless.ly/~test', regexp: true })
+      await p.create('Contact', { name: 'Alice' })
+      await p.create('Contact', { name: 'Zed' })
+      expect((await p.find('Contact', { name: { $regex: '^A' } })).map((c) => c.name)).toEqual(['Alice'])
+      expect(withRegexp.queries.some((q) => q.includes('REGEXP'))).toBe(true)
+    })
+
+    it('filters non-schema fields via json_extract', async () => {
+      await provider.create('Contact', { name: 'Eve', nickname: 'evie' })
+      expect(await names({ nickname: 'evie' })).toEqual(['Eve'])
+    })
+
+    it('applies logical, array, and dot-path filters in JS', async () => {
+      await provider.create('Contact', { name: 'Eve', tags: ['vip', 'beta'], profile: { city: 'Paris' } })
+      expect(await names({ $or: [{ stage: 'Customer' }, { score: { $lt: 50 } }] })).toEqual(['Alice', 'Bob'])
+      expect(await names({ stage: 'Lead', $not: { score: { $exists: true } } })).toEqual(['Dan'])
+      expect(await names({ tags: { $contains: 'beta' } })).toEqual(['Eve'])
+      expect(await names({ 'profile.city': 'Paris' })).toEqual(['Eve'])
+    })
+
+    it('findOne returns the first match or null', async () => {
+      expect((await provider.findOne('Contact', { stage: 'Lead' }))!.name).toBe('Bob')
+      expect(await provider.findOne('Contact', { stage: 'Churned' })).toBeNull()
+    })
+  })
+
+  describe('soft delete', () => {
+    it('keeps trashed rows out of queries and counts unless includeDeleted is set', async () => {
+      const alice = await provider.create('Contact', { name: 'Alice', stage: 'Lead' })
+      await provider.create('Contact', { name: 'Bob', stage: 'Lead' })
+      await provider.delete('Contact', alice.$id)
+
+      expect((await provider.find('Contact', { stage: 'Lead' })).map((c) => c.name)).toEqual(['Bob'])
+      expect(await provider.count('Contact')).toBe(1)
+      const all = await provider.findPage('Contact', { stage: 'Lead' }, { includeDeleted: true })
+      expect(all.total).toBe(2)
+      expect(all.items[0].$deletedAt).toBeDefined()
+      expect(provider.size).toBe(2)
+    })
+
+    it('frees unique values held by trashed rows', async () => {
+      const alice = await provider.create('Contact', { name: 'Alice', email: 'alice@example.com' })
+      await provider.delete('Contact', alice.$id)
+      await provider.create('Contact', { name: 'Alice 2', email: 'alice@example.com' })
+
+      await expect(provider.restore('Contact', alice.$id)).rejects.toThrow('Email must be unique')
+    })
+
+    it('migrates tables created without a $deletedAt column', async () => {
+      storage.db.exec(`CREATE TABLE noun_contact ("$id" TEXT PRIMARY KEY, "$context" TEXT NOT NULL, "$version" INTEGER NOT NULL, "$createdAt" TEXT NOT NULL, "$updatedAt" TEXT NOT NULL, "$data" TEXT NOT NULL, "email" TEXT)`)
+      storage.db.exec(`CREATE UNIQUE INDEX idx_noun_contact_email ON noun_contact("$context", "email")`)
+
+      const alice = await provider.create('Contact', { name: 'Alice', email: 'alice@example.com' })
+      await provider.delete('Contact', alice.$id)
+      await provider.create('Contact', { name: 'Alice 2', email: 'alice@example.com' })
+      const index = storage.db.prepare(`SELECT sql FROM sqlite_master WHERE name = 'idx_noun_contact_email'`).get() as { sql: string }
+      expect(index.sql).toContain('"$deletedAt" IS NULL')
+    })
+  })
+
+  describe('transactions', () => {
+    it('queries buffered writes inside the transaction and stores them on commit', async () => {
+      const alice = await provider.create('Contact', { name: 'Alice', stage: 'Lead' })
+
+      await provider.transaction(async (tx) => {
+        await tx.update('Contact', alice.$id, { stage: 'Qualified' })
+        await tx.create('Contact', { name: 'Bob', stage: 'Qualified' })
+        expect((await tx.find('Contact', { stage: 'Qualified' })).map((c) => c.name)).toEqual(['Alice', 'Bob'])
+        expect(await (tx as SQLiteNounProvider).count('Contact')).toBe(2)
+        expect(await provider.find('Contact', { stage: 'Qualified' })).toEqual([])
+      })
+
+      expect((await provider.find('Contact', { stage: 'Qualified' })).map((c) => c.name)).toEqual(['Alice', 'Bob'])
+    })
+
+    it('commits in one SQL transaction, so a failing write undoes the rest', async () => {
+      await expect(
+        provider.transaction(async (tx) => {
+          await tx.create('Contact', { name: 'Alice' })
+          await tx.create('Contact', { name: 'Bob', email: 'bob@acme.co' })
+          // Takes the email after the transaction checked it, so Bob's insert fails on commit
+          await provider.create('Contact', { name: 'Robert', email: 'bob@acme.co' })
+        }),
+      ).rejects.toThrow(/UNIQUE/)
+
+      expect((await provider.find('Contact')).map((c) => c.name)).toEqual(['Robert'])
+      expect(storage.queries).toEqual(expect.arrayContaining(['BEGIN', 'ROLLBACK']))
+    })
+  })
+})
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { clearRegistry, MemoryNounProvider, Noun } from 'digital-objects'
+import { LocalNounProvider } from '../src/local-provider'
+import { executeVerb } from '../src/verb-executor'
+import { createEventBridge } from '../src/event-bridge'
+import { InvalidTransitionError, availableVerbs, clearStateMachines, defineStateMachine, getStateMachine } from '../src/state-machine'
+
+describe('@headlessly/objects — state machines', () => {
+  beforeEach(() => {
+    clearRegistry()
+    clearStateMachines()
+    Noun('Ticket', {
+      subject: 'string!',
+      status: 'Open | InProgress | Resolved | Closed',
+      start: 'Started',
+      resolve: 'Resolved',
+      close: 'Closed',
+      reopen: 'Reopened',
+      comment: 'Commented',
+    })
+    defineStateMachine('Ticket', {
+      field: 'status',
+      transitions: {
+        start: { from: 'Open', to: 'InProgress' },
+        resolve: { from: 'InProgress', to: 'Resolved' },
+        close: { from: 'Resolved', to: 'Closed' },
+        reopen: { from: ['Resolved', 'Closed'], to: 'Open' },
+      },
+    })
+  })
+
+  it('registers machines with their states', () => {
+    const machine = getStateMachine('Ticket')!
+    expect(machine.field).toBe('status')
+    expect(machine.states).toEqual(['Open', 'InProgress', 'Resolved', 'Closed'])
+    expect(availableVerbs(machine, { status: 'Resolved' })).toEqual(['close', 'reopen'])
+  })
+
+  describe('executeVerb', () => {
+    it('sets the target state without data', async () => {
+      const provider = new MemoryNounProvider()
+      const ticket = await provider.create('Ticket', { subject: 'Help', status: 'Open' })
+
+      const started = await executeVerb({ type: 'Ticket', verb: 'start', entityId: ticket.$id }, { provider })
+      expect(started.status).toBe('InProgress')
+    })
+
+    it('rejects illegal transitions before emitting events', async () => {
+      const provider = new MemoryNounProvider()
+      const events = createEventBridge()
+      const emitted: string[] = []
+      events.subscribe('*', (e) => {
+        emitted.push(e.$type)
+      })
+      const ticket = await provider.create('Ticket', { subject: 'Help', status: 'Open' })
+
+      const error = await executeVerb({ type: 'Ticket', verb: 'close', entityId: ticket.$id }, { provider, events }).catch((e: unknown) => e)
+      expect(error).toBeInstanceOf(InvalidTransitionError)
+      expect((error as InvalidTransitionError).state).toBe('Open')
+      expect((error as InvalidTransitionError).allowed).toEqual(['start'])
+      expect(emitted).toEqual([])
+      expect((await provider.get('Ticket', ticket.$id))!.status).toBe('Open')
+    })
+  })
+
+  describe('LocalNounProvider.perform', () => {
+    it('walks a full lifecycle including reopen', async () => {
+      const provider = new LocalNounProvider({ context: 'https://headless.ly/~test' })
+      const ticket = await provider.create('Ticket', { subject: 'Help', status: 'Open' })
+
+      for (const [verb, status] of [
+        ['start', 'InProgress'],
+        ['resolve', 'Resolved'],
+        ['close', 'Closed'],
+        ['reopen', 'Open'],
+      ] as const) {
+        expect((await provider.perform('Ticket', verb, ticket.$id)).status).toBe(status)
+      }
+    })
+
+    it('rejects illegal transitions and leaves undeclared verbs alone', async () => {
+      const provider = new LocalNounProvider({ context: 'https://headless.ly/~test' })
+      const ticket = await provider.create('Ticket', { subject: 'Help', status: 'Open' })
+
+      await expect(provider.perform('Ticket', 'reopen', ticket.$id)).rejects.toThrow(`Cannot reopen Ticket/${ticket.$id} from state 'Open' (allowed: start)`)
+      expect((await provider.perform('Ticket', 'comment', ticket.$id, { body: 'hi' })).status).toBe('Open')
+    })
+  })
+})
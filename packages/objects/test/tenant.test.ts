@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { clearRegistry, Noun } from 'digital-objects'
+import { EventLog } from '@headlessly/events'
+import { LocalNounProvider, tenantContext } from '../src/local-provider'
+import { createEventBridge } from '../src/event-bridge'
+import type { NounEvent } from '../src/event-bridge'
+
+describe('@headlessly/objects — tenant isolation', () => {
+  let provider: LocalNounProvider
+  let events: NounEvent[]
+
+  beforeEach(() => {
+    clearRegistry()
+    Noun('Contact', { name: 'string!', email: 'string##', stage: 'Lead | Qualified | Customer', qualify: 'Qualified' })
+    const bridge = createEventBridge()
+    events = []
+    bridge.subscribe('*', (event) => {
+      events.push(event)
+    })
+    provider = new LocalNounProvider({ context: 'https://headless.ly/~root', events: bridge })
+  })
+
+  it('maps tenant names to context URLs', () => {
+    expect(tenantContext('acme')).toBe('https://headless.ly/~acme')
+    expect(tenantContext('https://headless.ly/~globex')).toBe('https://headless.ly/~globex')
+  })
+
+  it('scopes reads and counts to the tenant while sharing storage', async () => {
+    const acme = provider.forTenant('acme')
+    const globex = provider.forTenant('globex')
+    const alice = await acme.create('Contact', { name: 'Alice' })
+    await globex.create('Contact', { name: 'Bob' })
+
+    expect(alice.$context).toBe('https://headless.ly/~acme')
+    expect((await acme.find('Contact')).map((c) => c.name)).toEqual(['Alice'])
+    expect(await globex.count('Contact')).toBe(1)
+    expect(await provider.count('Contact')).toBe(0)
+    expect(await globex.get('Contact', alice.$id)).toBeNull()
+    expect(await acme.get('Contact', alice.$id)).toEqual(alice)
+    expect(provider.size).toBe(2)
+  })
+
+  it("rejects writes to another tenant's entities", async () => {
+    const acme = provider.forTenant('acme')
+    const globex = provider.forTenant('globex')
+    const alice = await acme.create('Contact', { name: 'Alice', stage: 'Lead' })
+
+    await expect(globex.update('Contact', alice.$id, { name: 'Mallory' })).rejects.toThrow(`Contact not found: ${alice.$id}`)
+    await expect(globex.perform('Contact', 'qualify', alice.$id)).rejects.toThrow(`Contact not found: ${alice.$id}`)
+    expect(await globex.delete('Contact', alice.$id)).toBe(false)
+    await expect(globex.create('Contact', { $id: alice.$id, name: 'Mallory' })).rejects.toThrow('id already in use')
+    expect(await acme.get('Contact', alice.$id)).toMatchObject({ name: 'Alice', $version: 1 })
+  })
+
+  it("rejects another tenant's $id with the same error as a local one", async () => {
+    const acme = provider.forTenant('acme')
+    const globex = provider.forTenant('globex')
+    const alice = await acme.create('Contact', { name: 'Alice' })
+    const bob = await globex.create('Contact', { name: 'Bob' })
+
+    const local = await globex.create('Contact', { $id: bob.$id, name: 'Mallory' }).catch((err: Error) => err.message)
+    const foreign = await globex.create('Contact', { $id: alice.$id, name: 'Mallory' }).catch((err: Error) => err.message)
+    expect(local).toBe(`Contact id already in use: ${bob.$id}`)
+    expect(foreign).toBe(`Contact id already in use: ${alice.$id}`)
+    expect(await globex.find('Contact')).toHaveLength(1)
+  })
+
+  it('ignores a $context in create data', async () => {
+    const contact = await provider.forTenant('acme').create('Contact', { name: 'Alice', $context: 'https://headless.ly/~globex' })
+    expect(contact.$context).toBe('https://headless.ly/~acme')
+  })
+
+  it('checks unique fields per tenant', async () => {
+    await provider.forTenant('acme').create('Contact', { name: 'Alice', email: 'alice@example.com' })
+    await expect(provider.forTenant('globex').create('Contact', { name: 'Alice', email: 'alice@example.com' })).resolves.toBeDefined()
+  })
+
+  it('tags events with the tenant context and routes them to per-tenant sinks', async () => {
+    const acmeBridge = createEventBridge()
+    const acmeEvents: NounEvent[] = []
+    acmeBridge.subscribe('*', (event) => {
+      acmeEvents.push(event)
+    })
+    const acme = provider.forTenant('acme', { events: acmeBridge })
+    const globex = provider.forTenant('globex')
+
+    await acme.create('Contact', { name: 'Alice' })
+    await globex.create('Contact', { name: 'Bob' })
+
+    expect(acmeEvents.map((e) => e.context)).toEqual(['https://headless.ly/~acme'])
+    expect(events.map((e) => e.context)).toEqual(['https://headless.ly/~globex'])
+  })
+
+  it('keeps transactions per view', async () => {
+    const acme = provider.forTenant('acme')
+    const globex = provider.forTenant('globex')
+
+    await expect(
+      acme.transaction(async (tx) => {
+        await tx.create('Contact', { name: 'Alice' })
+        await globex.create('Contact', { name: 'Bob' })
+        throw new Error('boom')
+      }),
+    ).rejects.toThrow('boom')
+
+    expect(await acme.count('Contact')).toBe(0)
+    expect(await globex.count('Contact')).toBe(1)
+  })
+
+  it("does not roll back another tenant's entity", async () => {
+    const eventLog = new EventLog()
+    const root = new LocalNounProvider({ context: 'https://headless.ly/~root', eventLog })
+    const acme = root.forTenant('acme')
+    const alice = await acme.create('Contact', { name: 'Alice' })
+    await acme.update('Contact', alice.$id, { name: 'Alicia' })
+
+    await expect(root.forTenant('globex').rollback('Contact', alice.$id, 1)).rejects.toThrow(`Contact not found: ${alice.$id}`)
+    expect((await acme.rollback('Contact', alice.$id, 1)).name).toBe('Alice')
+  })
+})
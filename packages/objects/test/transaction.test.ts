@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { clearRegistry, Noun } from 'digital-objects'
+import { EventLog } from '@headlessly/events'
+import { LocalNounProvider } from '../src/local-provider'
+import { DONounProvider } from '../src/do-provider'
+import { isTransactional } from '../src/transaction'
+import { ConflictError } from '../src/concurrency'
+
+const rpcTransaction = vi.fn()
+const rpcGet = vi.fn()
+
+vi.mock('rpc.do', () => ({
+  RPC: () => new Proxy({}, { get: (_target, prop) => (prop === 'transaction' ? rpcTransaction : { get: rpcGet }) }),
+}))
+
+describe('@headlessly/objects — transactions', () => {
+  beforeEach(() => {
+    clearRegistry()
+    Noun('Contact', { name: 'string!', stage: 'Lead | Customer' })
+    Noun('Deal', { name: 'string!', contact: '-> Contact.deals' })
+  })
+
+  describe('LocalNounProvider', () => {
+    let eventLog: EventLog
+    let provider: LocalNounProvider
+
+    beforeEach(() => {
+      eventLog = new EventLog()
+      provider = new LocalNounProvider({ context: 'https://headless.ly/~test', eventLog })
+    })
+
+    it('emits buffered events in order on commit', async () => {
+      const contact = await provider.transaction(async (tx) => {
+        const alice = await tx.create('Contact', { name: 'Alice', stage: 'Lead' })
+        expect(await eventLog.query({})).toEqual([])
+        await tx.update('Contact', alice.$id, { stage: 'Customer' })
+        return alice
+      })
+
+      expect((await provider.get('Contact', contact.$id))!.stage).toBe('Customer')
+      expect((await eventLog.query({})).map((e) => e.$type)).toEqual(['Contact.create', 'Contact.update'])
+    })
+
+    it('restores every touched entity and emits nothing when fn throws', async () => {
+      const alice = await provider.create('Contact', { name: 'Alice', stage: 'Lead' })
+      const bob = await provider.create('Contact', { name: 'Bob', stage: 'Lead' })
+      const before = await eventLog.query({})
+
+      await expect(
+        provider.transaction(async (tx) => {
+          await tx.update('Contact', alice.$id, { stage: 'Customer' })
+          await tx.delete('Contact', bob.$id)
+          await tx.create('Deal', { name: 'Big', contact: alice.$id })
+          throw new Error('payment failed')
+        }),
+      ).rejects.toThrow('payment failed')
+
+      expect(await provider.get('Contact', alice.$id)).toEqual(alice)
+      expect(await provider.get('Contact', bob.$id)).toEqual(bob)
+      expect(await provider.find('Deal')).toEqual([])
+      expect(await eventLog.query({})).toEqual(before)
+    })
+
+    it('rolls back writes made before a validation error', async () => {
+      await expect(
+        provider.transaction(async (tx) => {
+          await tx.create('Contact', { name: 'Alice' })
+          await tx.create('Contact', { stage: 'Lead' })
+        }),
+      ).rejects.toThrow('Name is required')
+      expect(await provider.count('Contact')).toBe(0)
+    })
+
+    it('joins nested transactions to the outer one', async () => {
+      await expect(
+        provider.transaction(async (outer) => {
+          await (outer as LocalNounProvider).transaction((tx) => tx.create('Contact', { name: 'Alice' }))
+          throw new Error('outer failed')
+        }),
+      ).rejects.toThrow('outer failed')
+      expect(await provider.count('Contact')).toBe(0)
+    })
+
+    it('keeps writes invisible outside the transaction until commit', async () => {
+      const alice = await provider.create('Contact', { name: 'Alice', stage: 'Lead' })
+      let release!: () => void
+      const paused = new Promise<void>((resolve) => (release = resolve))
+
+      const running = provider.transaction(async (tx) => {
+        await tx.update('Contact', alice.$id, { stage: 'Customer' })
+        const bob = await tx.create('Contact', { name: 'Bob' })
+        expect((await tx.get('Contact', alice.$id))!.stage).toBe('Customer')
+        expect(await tx.find('Contact')).toHaveLength(2)
+        await paused
+        return bob
+      })
+
+      await new Promise((resolve) => setTimeout(resolve, 0))
+      expect((await provider.get('Contact', alice.$id))!.stage).toBe('Lead')
+      expect(await provider.count('Contact')).toBe(1)
+
+      release()
+      const bob = await running
+      expect((await provider.get('Contact', alice.$id))!.stage).toBe('Customer')
+      expect(await provider.get('Contact', bob.$id)).toMatchObject({ name: 'Bob' })
+    })
+
+    it('fails the commit when an entity it wrote changed meanwhile', async () => {
+      const alice = await provider.create('Contact', { name: 'Alice', stage: 'Lead' })
+
+      await expect(
+        provider.transaction(async (tx) => {
+          await tx.update('Contact', alice.$id, { stage: 'Customer' })
+          await tx.create('Contact', { name: 'Bob' })
+          await provider.update('Contact', alice.$id, { name: 'Alicia' })
+        }),
+      ).rejects.toThrow(ConflictError)
+
+      expect(await provider.get('Contact', alice.$id)).toMatchObject({ name: 'Alicia', stage: 'Lead' })
+      expect(await provider.count('Contact')).toBe(1)
+    })
+  })
+
+  describe('DONounProvider', () => {
+    beforeEach(() => {
+      rpcTransaction.mockReset().mockResolvedValue([])
+      rpcGet.mockReset()
+    })
+
+    it('sends buffered writes as a single transaction call', async () => {
+      rpcGet.mockResolvedValue({ $id: 'contact_alice', $type: 'Contact', $version: 1, name: 'Alice', stage: 'Lead' })
+      const provider = new DONounProvider({ endpoint: 'https://db.headless.ly/~acme' })
+      expect(isTransactional(provider)).toBe(true)
+
+      await provider.transaction(async (tx) => {
+        const deal = await tx.create('Deal', { name: 'Big', contact: 'contact_alice' })
+        const contact = await tx.update('Contact', 'contact_alice', { stage: 'Customer' })
+        expect(contact.stage).toBe('Customer')
+        expect(await tx.get('Deal', deal.$id)).toMatchObject({ name: 'Big' })
+        await tx.delete('Deal', deal.$id)
+        expect(await tx.get('Deal', deal.$id)).toBeNull()
+      })
+
+      expect(rpcTransaction).toHaveBeenCalledTimes(1)
+      const ops = rpcTransaction.mock.calls[0]![0] as Array<{ op: string; type: string; id: string }>
+      expect(ops.map((o) => `${o.op} ${o.type}`)).toEqual(['create Deal', 'update Contact', 'delete Deal'])
+      expect(ops[0]!.id).toMatch(/^deal_/)
+      expect(ops[2]!.id).toBe(ops[0]!.id)
+    })
+
+    it('sends nothing when fn throws', async () => {
+      const provider = new DONounProvider({ endpoint: 'https://db.headless.ly/~acme' })
+      await expect(
+        provider.transaction(async (tx) => {
+          await tx.create('Contact', { name: 'Alice' })
+          throw new Error('abort')
+        }),
+      ).rejects.toThrow('abort')
+      expect(rpcTransaction).not.toHaveBeenCalled()
+    })
+  })
+})
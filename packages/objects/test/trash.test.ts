@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { clearRegistry, Noun } from 'digital-objects'
+import { LocalNounProvider } from '../src/local-provider'
+import { DONounProvider } from '../src/do-provider'
+import { createEventBridge } from '../src/event-bridge'
+import type { NounEvent } from '../src/event-bridge'
+
+const rpcDelete = vi.fn()
+const rpcRestore = vi.fn()
+
+vi.mock('rpc.do', () => ({
+  RPC: () => new Proxy({}, { get: () => ({ delete: rpcDelete, restore: rpcRestore }) }),
+}))
+
+describe('@headlessly/objects — soft delete', () => {
+  beforeEach(() => {
+    clearRegistry()
+    Noun('Company', { name: 'string!' })
+    Noun('Contact', { name: 'string!', email: 'string##', company: '-> Company.contacts' })
+  })
+
+  describe('LocalNounProvider', () => {
+    let provider: LocalNounProvider
+    let events: NounEvent[]
+
+    beforeEach(() => {
+      const bridge = createEventBridge()
+      events = []
+      bridge.subscribe('*', (event) => {
+        events.push(event)
+      })
+      provider = new LocalNounProvider({ context: 'https://headless.ly/~test', events: bridge, onDelete: { 'Contact.company': 'cascade' } })
+    })
+
+    it('moves deleted entities to the trash', async () => {
+      const alice = await provider.create('Contact', { name: 'Alice' })
+      await provider.create('Contact', { name: 'Bob' })
+
+      expect(await provider.delete('Contact', alice.$id)).toBe(true)
+      expect(await provider.get('Contact', alice.$id)).toBeNull()
+      expect((await provider.find('Contact')).map((c) => c.name)).toEqual(['Bob'])
+      expect(await provider.count('Contact')).toBe(1)
+
+      const trashed = await provider.get('Contact', alice.$id, { includeDeleted: true })
+      expect(trashed).toMatchObject({ name: 'Alice', $version: 2 })
+      expect(typeof trashed!.$deletedAt).toBe('string')
+      expect(await provider.find('Contact', { $deletedAt: { $exists: true } }, { includeDeleted: true })).toEqual([trashed])
+      expect(await provider.delete('Contact', alice.$id)).toBe(false)
+      expect(events.map((e) => e.$type)).toContain('Contact.delete')
+    })
+
+    it('treats trashed entities as missing for writes', async () => {
+      const alice = await provider.create('Contact', { name: 'Alice' })
+      await provider.delete('Contact', alice.$id)
+      await expect(provider.update('Contact', alice.$id, { name: 'Alicia' })).rejects.toThrow(`Contact not found: ${alice.$id}`)
+    })
+
+    it('restores an entity from the trash as a new version', async () => {
+      const alice = await provider.create('Contact', { name: 'Alice', email: 'alice@example.com' })
+      await provider.delete('Contact', alice.$id)
+
+      const restored = await provider.restore('Contact', alice.$id)
+      expect(restored).toMatchObject({ name: 'Alice', $version: 3 })
+      expect(restored).not.toHaveProperty('$deletedAt')
+      expect(await provider.get('Contact', alice.$id)).toEqual(restored)
+      expect(events.at(-1)?.$type).toBe('Contact.restore')
+      await expect(provider.restore('Contact', alice.$id)).rejects.toThrow(`Contact not found in trash: ${alice.$id}`)
+    })
+
+    it('re-validates unique fields on restore', async () => {
+      const alice = await provider.create('Contact', { name: 'Alice', email: 'alice@example.com' })
+      await provider.delete('Contact', alice.$id)
+      await provider.create('Contact', { name: 'Alice 2', email: 'alice@example.com' })
+
+      await expect(provider.restore('Contact', alice.$id)).rejects.toThrow('Email must be unique')
+      expect(await provider.get('Contact', alice.$id)).toBeNull()
+    })
+
+    it('moves cascaded dependents to the trash too', async () => {
+      const acme = await provider.create('Company', { name: 'Acme' })
+      const alice = await provider.create('Contact', { name: 'Alice', company: acme.$id })
+      await provider.delete('Company', acme.$id)
+
+      expect(await provider.get('Contact', alice.$id)).toBeNull()
+      expect(await provider.get('Contact', alice.$id, { includeDeleted: true })).not.toBeNull()
+      await expect(provider.restore('Contact', alice.$id)).rejects.toThrow('references a missing Company')
+      await provider.restore('Company', acme.$id)
+      expect((await provider.restore('Contact', alice.$id)).company).toBe(acme.$id)
+    })
+
+    it('removes entities outright with permanent or softDelete: false', async () => {
+      const alice = await provider.create('Contact', { name: 'Alice' })
+      await provider.delete('Contact', alice.$id)
+      expect(await provider.delete('Contact', alice.$id, { permanent: true })).toBe(true)
+      expect(await provider.get('Contact', alice.$id, { includeDeleted: true })).toBeNull()
+
+      const hard = new LocalNounProvider({ context: 'https://headless.ly/~test', softDelete: false })
+      const bob = await hard.create('Contact', { name: 'Bob' })
+      await hard.delete('Contact', bob.$id)
+      expect(hard.size).toBe(0)
+    })
+
+    it('purges trashed entities older than purgeAfter', async () => {
+      const alice = await provider.create('Contact', { name: 'Alice' })
+      const acme = await provider.create('Company', { name: 'Acme' })
+      await provider.delete('Contact', alice.$id)
+      await provider.delete('Company', acme.$id)
+      expect(await provider.purge()).toBe(0)
+
+      const eager = new LocalNounProvider({ context: 'https://headless.ly/~test', purgeAfter: 0 })
+      const bob = await eager.create('Contact', { name: 'Bob' })
+      const globex = await eager.create('Company', { name: 'Globex' })
+      await eager.create('Contact', { name: 'Carol' })
+      await eager.delete('Contact', bob.$id)
+      await eager.delete('Company', globex.$id)
+
+      expect(await eager.purge('Contact')).toBe(1)
+      expect(await eager.purge()).toBe(1)
+      expect(eager.size).toBe(1)
+    })
+
+    it('undoes a restore when the transaction fails', async () => {
+      const alice = await provider.create('Contact', { name: 'Alice' })
+      await provider.delete('Contact', alice.$id)
+
+      await expect(
+        provider.transaction(async (tx) => {
+          await (tx as LocalNounProvider).restore('Contact', alice.$id)
+          throw new Error('boom')
+        }),
+      ).rejects.toThrow('boom')
+      expect(await provider.get('Contact', alice.$id)).toBeNull()
+    })
+  })
+
+  describe('DONounProvider', () => {
+    it('sends restore and permanent deletes to the DO', async () => {
+      const provider = new DONounProvider({ endpoint: 'https://db.headless.ly/~acme' })
+      rpcDelete.mockResolvedValueOnce(true)
+      rpcRestore.mockResolvedValueOnce({ $id: 'contact_abc', $type: 'Contact', $version: 3, name: 'Alice' })
+
+      expect(await provider.delete('Contact', 'contact_abc', { permanent: true })).toBe(true)
+      expect(rpcDelete).toHaveBeenCalledWith('contact_abc', { permanent: true })
+      expect((await provider.restore('Contact', 'contact_abc')).$version).toBe(3)
+      expect(rpcRestore).toHaveBeenCalledWith('contact_abc')
+    })
+  })
+})
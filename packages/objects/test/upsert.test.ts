@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { clearRegistry, MemoryNounProvider, Noun } from 'digital-objects'
+import { LocalNounProvider } from '../src/local-provider'
+import { DONounProvider } from '../src/do-provider'
+import { createEventBridge } from '../src/event-bridge'
+import type { NounEvent } from '../src/event-bridge'
+import { EntityValidationError } from '../src/validation'
+import { upsert } from '../src/upsert'
+
+const rpcUpsert = vi.fn()
+
+vi.mock('rpc.do', () => ({
+  RPC: () => new Proxy({}, { get: () => ({ upsert: rpcUpsert }) }),
+}))
+
+describe('@headlessly/objects — upsert', () => {
+  beforeEach(() => {
+    clearRegistry()
+    Noun('Contact', { name: 'string!', email: 'string##', externalId: 'string##', stage: 'Lead | Qualified | Customer' })
+  })
+
+  describe('LocalNounProvider', () => {
+    let provider: LocalNounProvider
+    let events: NounEvent[]
+
+    beforeEach(() => {
+      const bridge = createEventBridge()
+      events = []
+      bridge.subscribe('*', (event) => {
+        events.push(event)
+      })
+      provider = new LocalNounProvider({ context: 'https://headless.ly/~test', events: bridge })
+    })
+
+    it('creates the entity from match and data when no entity has the key', async () => {
+      const { instance, created } = await provider.upsert('Contact', { email: 'alice@acme.co' }, { name: 'Alice', stage: 'Lead' })
+      expect(created).toBe(true)
+      expect(instance).toMatchObject({ email: 'alice@acme.co', name: 'Alice', $version: 1 })
+      expect(events.map((e) => e.$type)).toEqual(['Contact.create'])
+    })
+
+    it('updates the entity with the key, emitting an update event', async () => {
+      const alice = await provider.create('Contact', { name: 'Alice', email: 'alice@acme.co', stage: 'Lead' })
+      events.length = 0
+
+      const { instance, created } = await provider.upsert('Contact', { email: 'alice@acme.co' }, { stage: 'Customer' })
+      expect(created).toBe(false)
+      expect(instance).toMatchObject({ $id: alice.$id, name: 'Alice', stage: 'Customer', $version: 2 })
+      expect(events.map((e) => [e.$type, e.data])).toEqual([['Contact.update', { stage: 'Customer' }]])
+      expect(await provider.count('Contact')).toBe(1)
+    })
+
+    it('is idempotent when replayed', async () => {
+      for (let i = 0; i < 3; i++) {
+        await provider.upsert('Contact', { externalId: 'cus_123' }, { name: 'Acme Buyer', stage: 'Customer' })
+      }
+      expect(await provider.count('Contact')).toBe(1)
+    })
+
+    it('rejects keys that are not unique fields', async () => {
+      const err = await provider.upsert('Contact', { name: 'Alice', email: '' }, {}).catch((e: unknown) => e)
+      expect(err).toBeInstanceOf(EntityValidationError)
+      expect((err as EntityValidationError).errors).toEqual({
+        name: 'Name is not a unique field of Contact',
+        email: 'Email is required to upsert',
+      })
+      await expect(provider.upsert('Contact', {}, { name: 'Alice' })).rejects.toThrow('upsert requires a match on a unique field of Contact')
+      expect(events).toEqual([])
+    })
+
+    it('creates a new entity when the keyed one is in the trash', async () => {
+      const alice = await provider.create('Contact', { name: 'Alice', email: 'alice@acme.co' })
+      await provider.delete('Contact', alice.$id)
+
+      const { instance, created } = await provider.upsert('Contact', { email: 'alice@acme.co' }, { name: 'Alice' })
+      expect(created).toBe(true)
+      expect(instance.$id).not.toBe(alice.$id)
+    })
+  })
+
+  describe('on any NounProvider', () => {
+    it('falls back to find, then update or create', async () => {
+      const provider = new MemoryNounProvider()
+      const first = await upsert(provider, 'Contact', { email: 'alice@acme.co' }, { name: 'Alice' })
+      const second = await upsert(provider, 'Contact', { email: 'alice@acme.co' }, { stage: 'Lead' })
+
+      expect(first.created).toBe(true)
+      expect(second).toMatchObject({ created: false, instance: { $id: first.instance.$id, name: 'Alice', stage: 'Lead' } })
+    })
+  })
+
+  describe('DONounProvider', () => {
+    it('sends the match and data to the DO in one call', async () => {
+      const provider = new DONounProvider({ endpoint: 'https://db.headless.ly/~acme' })
+      rpcUpsert.mockResolvedValueOnce({ instance: { $id: 'contact_abc', $type: 'Contact', $version: 2, stage: 'Lead' }, created: false })
+
+      const result = await provider.upsert('Contact', { email: 'alice@acme.co' }, { stage: 'Lead' })
+      expect(rpcUpsert).toHaveBeenCalledWith({ email: 'alice@acme.co' }, { stage: 'Lead' })
+      expect(result).toMatchObject({ created: false, instance: { $id: 'contact_abc', $version: 2 } })
+    })
+  })
+})
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { clearRegistry, getNounSchema, Noun } from 'digital-objects'
+import type { NounSchema } from 'digital-objects'
+import { LocalNounProvider } from '../src/local-provider'
+import { EntityValidationError, validateEntity } from '../src/validation'
+
+describe('@headlessly/objects — schema validation', () => {
+  let schema: NounSchema
+
+  beforeEach(() => {
+    clearRegistry()
+    Noun('Contact', {
+      name: 'string!',
+      email: 'string##',
+      leadScore: 'number',
+      seats: 'int',
+      vip: 'boolean',
+      lastContactedAt: 'datetime',
+      tags: 'string[]',
+      stage: 'Lead | Qualified | Customer',
+    })
+    schema = getNounSchema('Contact')!
+  })
+
+  describe('validateEntity', () => {
+    it('returns no errors for valid data', () => {
+      expect(validateEntity(schema, { name: 'Alice', leadScore: 80, vip: true, tags: ['a'], stage: 'Lead', lastContactedAt: '2026-01-01T00:00:00Z' })).toEqual({})
+    })
+
+    it('requires ! fields', () => {
+      expect(validateEntity(schema, {})).toEqual({ name: 'Name is required' })
+      expect(validateEntity(schema, { name: '' })).toEqual({ name: 'Name is required' })
+    })
+
+    it('checks enum membership', () => {
+      expect(validateEntity(schema, { name: 'Alice', stage: 'Churned' })).toEqual({ stage: 'Stage must be one of: Lead, Qualified, Customer' })
+    })
+
+    it('checks primitive types', () => {
+      expect(validateEntity(schema, { name: 42, leadScore: '80', seats: 1.5, vip: 'yes', lastContactedAt: 'soon' })).toEqual({
+        name: 'Name must be a string',
+        leadScore: 'Lead Score must be a number',
+        seats: 'Seats must be an integer',
+        vip: 'Vip must be a boolean',
+        lastContactedAt: 'Last Contacted At must be a valid date',
+      })
+    })
+
+    it('checks array fields and their elements', () => {
+      expect(validateEntity(schema, { name: 'Alice', tags: 'a' })).toEqual({ tags: 'Tags must be a list' })
+      expect(validateEntity(schema, { name: 'Alice', tags: ['a', 1] })).toEqual({ tags: 'Tags must be a list of string values' })
+    })
+
+    it('only checks fields present in partial updates', () => {
+      expect(validateEntity(schema, { stage: 'Customer' }, { partial: true })).toEqual({})
+      expect(validateEntity(schema, { name: null }, { partial: true })).toEqual({ name: 'Name is required' })
+    })
+  })
+
+  describe('LocalNounProvider', () => {
+    let provider: LocalNounProvider
+
+    beforeEach(() => {
+      provider = new LocalNounProvider({ context: 'https://headless.ly/~acme' })
+    })
+
+    it('rejects invalid creates with field-level errors', async () => {
+      const error = await provider.create('Contact', { stage: 'Churned' }).catch((e: unknown) => e)
+      expect(error).toBeInstanceOf(EntityValidationError)
+      expect((error as EntityValidationError).errors).toEqual({
+        name: 'Name is required',
+        stage: 'Stage must be one of: Lead, Qualified, Customer',
+      })
+      expect(await provider.count('Contact')).toBe(0)
+    })
+
+    it('validates updates and verbs without requiring omitted fields', async () => {
+      const contact = await provider.create('Contact', { name: 'Alice', stage: 'Lead' })
+      expect((await provider.update('Contact', contact.$id, { stage: 'Qualified' })).stage).toBe('Qualified')
+      await expect(provider.update('Contact', contact.$id, { leadScore: 'high' })).rejects.toThrow('Lead Score must be a number')
+      await expect(provider.perform('Contact', 'qualify', contact.$id, { stage: 'Won' })).rejects.toThrow(EntityValidationError)
+    })
+
+    it('enforces unique fields within the tenant', async () => {
+      const alice = await provider.create('Contact', { name: 'Alice', email: 'alice@acme.co' })
+      await expect(provider.create('Contact', { name: 'Alice 2', email: 'alice@acme.co' })).rejects.toThrow('Email must be unique')
+      await expect(provider.update('Contact', alice.$id, { email: 'alice@acme.co', name: 'Alicia' })).resolves.toBeDefined()
+
+      const other = new LocalNounProvider({ context: 'https://headless.ly/~other' })
+      await expect(other.create('Contact', { name: 'Alice', email: 'alice@acme.co' })).resolves.toBeDefined()
+    })
+
+    it('skips validation for types without a schema or when disabled', async () => {
+      await expect(provider.create('Widget', { anything: true })).resolves.toBeDefined()
+      const unvalidated = new LocalNounProvider({ validate: false })
+      await expect(unvalidated.create('Contact', { stage: 'Churned' })).resolves.toBeDefined()
+    })
+  })
+})
@@ -1,10 +1,10 @@
 import { Noun } from 'digital-objects'
-import { setProvider, getProvider, MemoryNounProvider, setEntityRegistry, subscribeToEvents } from 'digital-objects'
+import { setProvider, getProvider, setProviderFactory, clearProviderFactory, MemoryNounProvider, setEntityRegistry, subscribeToEvents } from 'digital-objects'
 import type { NounProvider, NounInstance, NounEntity, NounSchema, EntityEvent as DOEntityEvent } from 'digital-objects'
 import { RPC } from 'rpc.do'
 import type { RPCProxy, RPCOptions } from 'rpc.do'
-import { LocalNounProvider, DONounProvider } from '@headlessly/objects'
-import type { DONounProviderOptions } from '@headlessly/objects'
+import { LocalNounProvider, DONounProvider, validateEntity, formatLabel, hasFindOptions, paginate, findMatching, EntityValidationError, ConflictError, TransactionBuffer, isTransactional, isRestorable, createMany, updateMany, deleteMany, sendInChunks, DEFAULT_BULK_CHUNK_SIZE, upsert, seededIds, defineComputed, getComputedFields, formula, rollup, actingAs } from '@headlessly/objects'
+import type { DONounProviderOptions, FindOptions, FindPage, ValidationErrors, WriteOptions, DeleteOptions, GetOptions, ValidateOptions, BulkResult, BulkItemError, UpsertResult, IdStrategy, ComputedField, TransactionRpc } from '@headlessly/objects'
 
 // Re-export the discriminated union types from @headlessly/events
 export type {
@@ -173,15 +173,78 @@ const _eventsNamespace = {
 }
 
 // Import all domain packages (side effect: registers nouns)
-import * as crm from '@headlessly/crm'
-import * as billing from '@headlessly/billing'
-import * as projects from '@headlessly/projects'
-import * as content from '@headlessly/content'
-import * as support from '@headlessly/support'
-import * as analytics from '@headlessly/analytics'
-import * as marketing from '@headlessly/marketing'
-import * as experiments from '@headlessly/experiments'
-import * as platform from '@headlessly/platform'
+import * as crmNouns from '@headlessly/crm'
+import * as billingNouns from '@headlessly/billing'
+import * as projectsNouns from '@headlessly/projects'
+import * as contentNouns from '@headlessly/content'
+import * as supportNouns from '@headlessly/support'
+import * as analyticsNouns from '@headlessly/analytics'
+import * as marketingNouns from '@headlessly/marketing'
+import * as experimentsNouns from '@headlessly/experiments'
+import * as platformNouns from '@headlessly/platform'
+
+/**
+ * $.Type — a Noun proxy with bulk writes and upsert added. Everything else, hooks
+ * included, is the Noun proxy's own.
+ */
+export interface HeadlessEntity extends NounEntity {
+  /** Create many entities, reporting failures per item */
+  createMany(items: Record<string, unknown>[]): Promise<BulkResult>
+  /** Apply the same patch to every entity matching a filter */
+  updateMany(filter: Record<string, unknown>, patch: Record<string, unknown>): Promise<BulkResult>
+  /** Delete every entity matching a filter, resolving with the deleted ids */
+  deleteMany(filter: Record<string, unknown>): Promise<BulkResult<string>>
+  /** Update the entity whose unique (`##`) fields equal `match`, or create it */
+  upsert(match: Record<string, unknown>, data: Record<string, unknown>): Promise<UpsertResult>
+}
+
+/** A domain namespace whose entities are HeadlessEntity proxies */
+export type EntityNamespace<T> = { [K in keyof T]: T[K] extends NounEntity ? HeadlessEntity : T[K] }
+
+/**
+ * The methods HeadlessEntity adds to a Noun proxy. Bulk writes and upserts
+ * go to the provider (natively chunked or upserted where supported).
+ */
+function _entityMethods(type: string, resolveProvider: () => NounProvider): Record<string, unknown> {
+  return {
+    createMany: (items: Record<string, unknown>[]) => createMany(resolveProvider(), type, items),
+    updateMany: (filter: Record<string, unknown>, patch: Record<string, unknown>) => updateMany(resolveProvider(), type, filter, patch),
+    deleteMany: (filter: Record<string, unknown>) => deleteMany(resolveProvider(), type, filter),
+    upsert: (match: Record<string, unknown>, data: Record<string, unknown>) => upsert(resolveProvider(), type, match, data),
+  }
+}
+
+/**
+ * Add the HeadlessEntity methods to a Noun proxy
+ */
+function _withEntityMethods(entity: NounEntity): HeadlessEntity {
+  const methods = _entityMethods(entity.$name, getProvider)
+  return new Proxy(entity, {
+    get(target, prop) {
+      if (typeof prop === 'string' && Object.hasOwn(methods, prop)) return methods[prop]
+      return target[prop as string]
+    },
+  }) as HeadlessEntity
+}
+
+/**
+ * A domain namespace with its Nouns wrapped, so `crm.Contact` and `$.Contact` are the same object
+ */
+function _namespace<T extends object>(nouns: T): EntityNamespace<T> {
+  return Object.fromEntries(
+    Object.entries(nouns).map(([name, value]) => [name, value && typeof value === 'object' && (value as NounEntity).$schema ? _withEntityMethods(value as NounEntity) : value]),
+  ) as EntityNamespace<T>
+}
+
+const crm = _namespace(crmNouns)
+const billing = _namespace(billingNouns)
+const projects = _namespace(projectsNouns)
+const content = _namespace(contentNouns)
+const support = _namespace(supportNouns)
+const analytics = _namespace(analyticsNouns)
+const marketing = _namespace(marketingNouns)
+const experiments = _namespace(experimentsNouns)
+const platform = _namespace(platformNouns)
 
 // Identity entities (not in a domain package)
 // Organization is defined in @headlessly/crm (matches HeadlesslySchema)
@@ -220,14 +283,21 @@ export const Message = Noun('Message', {
 export { crm, billing, projects, content, support, analytics, marketing, experiments, platform }
 
 // Re-export provider utilities
-export { setProvider, getProvider, MemoryNounProvider, LocalNounProvider, DONounProvider }
-export type { NounProvider, NounInstance, NounEntity, DONounProviderOptions }
+export { setProvider, getProvider, MemoryNounProvider, LocalNounProvider, DONounProvider, EntityValidationError, ConflictError, seededIds }
+export type { NounProvider, NounInstance, NounEntity, DONounProviderOptions, FindOptions, FindPage, ValidationErrors, ValidateOptions, WriteOptions, DeleteOptions, BulkResult, BulkItemError, UpsertResult, IdStrategy }
+
+// Re-export schema validation
+export { validateEntity, formatLabel }
+
+// Re-export computed field declarations
+export { defineComputed, getComputedFields, formula, rollup }
+export type { ComputedField }
 
 // All entities flat map (for $ proxy)
-const allEntities: Record<string, NounEntity> = {
+const allEntities: Record<string, HeadlessEntity> = {
   // Identity
-  User,
-  ApiKey,
+  User: _withEntityMethods(User),
+  ApiKey: _withEntityMethods(ApiKey),
   // CRM (includes Organization)
   ...crm,
   // Billing
@@ -247,7 +317,7 @@ const allEntities: Record<string, NounEntity> = {
   // Platform
   ...platform,
   // Communication
-  Message,
+  Message: _withEntityMethods(Message),
 }
 
 // Register entity registry for after-hook $ context injection
@@ -257,7 +327,7 @@ setEntityRegistry(allEntities)
  * Resolve an entity by type name from the registry.
  * Returns undefined if the type is not a registered entity.
  */
-export function resolveEntity(type: string): NounEntity | undefined {
+export function resolveEntity(type: string): HeadlessEntity | undefined {
   return allEntities[type]
 }
 
@@ -334,6 +404,11 @@ async function _statusFn(): Promise<SystemStatus> {
  */
 export const entityNames = Object.keys(allEntities) as EntityName[]
 
+/** Server methods RemoteNounProvider calls beside the entity collections */
+interface RemoteRpc extends TransactionRpc {
+  status(): Promise<unknown>
+}
+
 /**
  * RemoteNounProvider — sends entity operations to db.headless.ly via rpc.do
  *
@@ -344,7 +419,7 @@ export class RemoteNounProvider implements NounProvider {
   type = 'remote'
   endpoint: string
   apiKey: string
-  private rpc: RPCProxy<Record<string, unknown>>
+  private rpc: RPCProxy<Record<string, unknown> & RemoteRpc>
 
   constructor(endpoint: string, apiKey: string) {
     this.endpoint = endpoint
@@ -354,7 +429,7 @@ export class RemoteNounProvider implements NounProvider {
     if (apiKey) {
       rpcOptions.auth = apiKey
     }
-    this.rpc = RPC(endpoint, rpcOptions) as RPCProxy<Record<string, unknown>>
+    this.rpc = RPC(endpoint, rpcOptions) as RPCProxy<Record<string, unknown> & RemoteRpc>
   }
 
   private collection(type: string): Record<string, (...args: unknown[]) => Promise<unknown>> {
@@ -367,15 +442,29 @@ export class RemoteNounProvider implements NounProvider {
     return result as NounInstance
   }
 
-  async find(type: string, filter?: Record<string, unknown>) {
-    const result = await this.collection(type).find(filter ?? {})
-    if (Array.isArray(result)) return result as NounInstance[]
-    return []
+  async find(type: string, filter?: Record<string, unknown>, options?: FindOptions) {
+    return (await this.findPage(type, filter, options)).items
   }
 
-  async get(type: string, id: string) {
+  /**
+   * Find one page of matches. Query options are sent to the server; a bare
+   * array response means they were not applied, so they are applied locally.
+   */
+  async findPage(type: string, filter?: Record<string, unknown>, options?: FindOptions): Promise<FindPage> {
+    const ns = this.collection(type)
+    const result = hasFindOptions(options) ? await ns.find(filter ?? {}, options) : await ns.find(filter ?? {})
+    if (Array.isArray(result)) return paginate(result as NounInstance[], options)
+    if (result && typeof result === 'object' && Array.isArray((result as { data?: unknown }).data)) {
+      const { data, meta } = result as { data: NounInstance[]; meta?: { total?: number; nextCursor?: string } }
+      return { items: data, total: meta?.total ?? data.length, nextCursor: meta?.nextCursor }
+    }
+    return { items: [], total: 0 }
+  }
+
+  async get(type: string, id: string, options?: GetOptions) {
     try {
-      const result = await this.collection(type).get(id)
+      const ns = this.collection(type)
+      const result = options?.includeDeleted ? await ns.get(id, options) : await ns.get(id)
       if (!result) return null
       return result as NounInstance
     } catch {
@@ -388,9 +477,10 @@ export class RemoteNounProvider implements NounProvider {
     return result as NounInstance
   }
 
-  async delete(type: string, id: string) {
+  async delete(type: string, id: string, options?: DeleteOptions) {
     try {
-      const result = await this.collection(type).delete(id)
+      const ns = this.collection(type)
+      const result = options?.permanent ? await ns.delete(id, options) : await ns.delete(id)
       return result !== false
     } catch {
       return false
@@ -402,6 +492,34 @@ export class RemoteNounProvider implements NounProvider {
     return results[0] ?? null
   }
 
+  /**
+   * Create many entities, sent `DEFAULT_BULK_CHUNK_SIZE` per call
+   */
+  async createMany(type: string, items: Record<string, unknown>[]): Promise<BulkResult> {
+    const ns = this.collection(type)
+    return sendInChunks(items, DEFAULT_BULK_CHUNK_SIZE, async (chunk) => (await ns.createMany(chunk)) as BulkResult)
+  }
+
+  async updateMany(type: string, filter: Record<string, unknown>, patch: Record<string, unknown>) {
+    return (await this.collection(type).updateMany(filter, patch)) as BulkResult
+  }
+
+  async deleteMany(type: string, filter: Record<string, unknown>) {
+    return (await this.collection(type).deleteMany(filter)) as BulkResult<string>
+  }
+
+  async upsert(type: string, match: Record<string, unknown>, data: Record<string, unknown>) {
+    return (await this.collection(type).upsert(match, data)) as UpsertResult
+  }
+
+  /**
+   * Bring an entity back from the trash
+   */
+  async restore(type: string, id: string) {
+    const result = await this.collection(type).restore(id)
+    return result as NounInstance
+  }
+
   async rollback(type: string, id: string, toVersion: number) {
     const ns = this.collection(type)
     const result = await ns.rollback(id, toVersion)
@@ -414,13 +532,26 @@ export class RemoteNounProvider implements NounProvider {
     return result as NounInstance
   }
 
+  /**
+   * Run a group of writes atomically. Writes are buffered and sent as one
+   * `transaction(ops)` call once `fn` resolves; nothing is sent if it throws.
+   */
+  async transaction<T>(fn: (tx: NounProvider) => Promise<T>): Promise<T> {
+    const tx = new TransactionBuffer(this)
+    const result = await fn(tx)
+    if (tx.ops.length > 0) {
+      await this.rpc.transaction(tx.ops)
+    }
+    return result
+  }
+
   /**
    * Get all entity counts in a single RPC call.
    * One round-trip via capnweb, no entity data transferred — just counts.
    */
   async counts(): Promise<Record<string, number>> {
     try {
-      const result = (await (this.rpc as { status: () => Promise<unknown> }).status()) as Record<string, unknown>
+      const result = (await this.rpc.status()) as Record<string, unknown>
       const data = (result?.data ?? result) as Record<string, number>
       return typeof data === 'object' && data !== null ? data : {}
     } catch {
@@ -525,6 +656,18 @@ export interface HeadlesslyOptions {
    * @default false
    */
   lazy?: boolean
+  /**
+   * How IDs are generated for entities created locally: 'random' (default),
+   * 'sortable', 'crypto', or a generator such as seededIds(42).
+   * Ignored in remote mode, where the server assigns IDs.
+   */
+  idStrategy?: IdStrategy
+  /**
+   * User, agent or API key ID recorded as the actor of every local write and
+   * its events. Ignored in remote mode, where the server attributes writes to
+   * the API key.
+   */
+  actor?: string
 }
 
 // =============================================================================
@@ -567,6 +710,8 @@ class UninitializedNounProvider implements NounProvider {
 // Singleton state
 let _initialized = false
 let _lazyEnabled = false
+let _lazyIdStrategy: IdStrategy | undefined
+let _lazyActor: string | undefined
 
 /**
  * Validate that a string is a valid URL with helpful error messages
@@ -593,7 +738,7 @@ function validateEndpoint(endpoint: string): void {
  */
 function _autoInit(): void {
   if (_initialized) return
-  setProvider(new LocalNounProvider())
+  setProvider(new LocalNounProvider({ idStrategy: _lazyIdStrategy, actor: _lazyActor }))
   _initialized = true
 }
 
@@ -644,6 +789,8 @@ function _headlessly(options?: HeadlesslyOptions): HeadlessContext {
   // Handle lazy mode
   if (options?.lazy) {
     _lazyEnabled = true
+    _lazyIdStrategy = options.idStrategy
+    _lazyActor = options.actor
     return $
   }
 
@@ -671,9 +818,9 @@ function _headlessly(options?: HeadlesslyOptions): HeadlessContext {
       `[headlessly] Endpoint "${endpoint}" provided without an API key. Falling back to LocalNounProvider. ` +
         'Set apiKey in options or HEADLESSLY_API_KEY env var for remote access.',
     )
-    provider = new LocalNounProvider()
+    provider = new LocalNounProvider({ idStrategy: options?.idStrategy, actor: options?.actor })
   } else {
-    provider = new LocalNounProvider()
+    provider = new LocalNounProvider({ idStrategy: options?.idStrategy, actor: options?.actor })
   }
 
   // Set global provider (last-set wins for the global $ context)
@@ -693,6 +840,8 @@ function _headlessly(options?: HeadlesslyOptions): HeadlessContext {
 _headlessly.reset = function reset(): void {
   _initialized = false
   _lazyEnabled = false
+  _lazyIdStrategy = undefined
+  _lazyActor = undefined
   // Clean up event subscriptions
   for (const unsub of _activeUnsubscribes) {
     unsub()
@@ -769,12 +918,22 @@ export type EntityName =
 export interface HeadlessContext {
   // --- MCP-like operations ---
 
-  /** Search entities across the graph */
-  search(query: { type: EntityName | string; filter?: Record<string, unknown> }): Promise<NounInstance[]>
+  /** Search entities across the graph (`includeDeleted` also returns trashed entities) */
+  search(query: { type: EntityName | string; filter?: Record<string, unknown>; includeDeleted?: boolean }): Promise<NounInstance[]>
   /** Fetch a specific entity */
   fetch(query: { type: EntityName | string; id: string; include?: string[] }): Promise<NounInstance | null>
+  /** Bring a soft-deleted entity back from the trash */
+  restore(type: EntityName | string, id: string): Promise<NounInstance>
+  /** Create many entities, reporting failures per item (alias of `$.Type.createMany`) */
+  createMany(type: EntityName | string, items: Record<string, unknown>[]): Promise<BulkResult>
+  /** Apply the same patch to every entity matching a filter (alias of `$.Type.updateMany`) */
+  updateMany(type: EntityName | string, filter: Record<string, unknown>, patch: Record<string, unknown>): Promise<BulkResult>
+  /** Delete every entity matching a filter, resolving with the deleted ids (alias of `$.Type.deleteMany`) */
+  deleteMany(type: EntityName | string, filter: Record<string, unknown>): Promise<BulkResult<string>>
+  /** Update the entity whose unique (`##`) fields equal `match`, or create it (alias of `$.Type.upsert`) */
+  upsert(type: EntityName | string, match: Record<string, unknown>, data: Record<string, unknown>): Promise<UpsertResult>
   /** Execute arbitrary code with full entity access */
-  do(fn: (ctx: Record<EntityName | string, NounEntity>) => Promise<unknown>): Promise<unknown>
+  do(fn: (ctx: Record<EntityName | string, HeadlessEntity>) => Promise<unknown>): Promise<unknown>
 
   // --- Events ---
 
@@ -797,65 +956,65 @@ export interface HeadlessContext {
   status: () => Promise<SystemStatus>
 
   // --- Identity ---
-  User: NounEntity
-  ApiKey: NounEntity
+  User: HeadlessEntity
+  ApiKey: HeadlessEntity
 
   // --- CRM ---
-  Organization: NounEntity
-  Contact: NounEntity
-  Lead: NounEntity
-  Deal: NounEntity
-  Activity: NounEntity
-  Pipeline: NounEntity
+  Organization: HeadlessEntity
+  Contact: HeadlessEntity
+  Lead: HeadlessEntity
+  Deal: HeadlessEntity
+  Activity: HeadlessEntity
+  Pipeline: HeadlessEntity
 
   // --- Billing ---
-  Customer: NounEntity
-  Product: NounEntity
-  Plan: NounEntity
-  Price: NounEntity
-  Subscription: NounEntity
-  Invoice: NounEntity
-  Payment: NounEntity
+  Customer: HeadlessEntity
+  Product: HeadlessEntity
+  Plan: HeadlessEntity
+  Price: HeadlessEntity
+  Subscription: HeadlessEntity
+  Invoice: HeadlessEntity
+  Payment: HeadlessEntity
 
   // --- Projects ---
-  Project: NounEntity
-  Issue: NounEntity
-  Comment: NounEntity
+  Project: HeadlessEntity
+  Issue: HeadlessEntity
+  Comment: HeadlessEntity
 
   // --- Content ---
-  Content: NounEntity
-  Asset: NounEntity
-  Site: NounEntity
+  Content: HeadlessEntity
+  Asset: HeadlessEntity
+  Site: HeadlessEntity
 
   // --- Support ---
-  Ticket: NounEntity
+  Ticket: HeadlessEntity
 
   // --- Analytics ---
-  Event: NounEntity
-  Metric: NounEntity
-  Funnel: NounEntity
-  Goal: NounEntity
+  Event: HeadlessEntity
+  Metric: HeadlessEntity
+  Funnel: HeadlessEntity
+  Goal: HeadlessEntity
 
   // --- Marketing ---
-  Campaign: NounEntity
-  Segment: NounEntity
-  Form: NounEntity
+  Campaign: HeadlessEntity
+  Segment: HeadlessEntity
+  Form: HeadlessEntity
 
   // --- Experiments ---
-  Experiment: NounEntity
-  FeatureFlag: NounEntity
+  Experiment: HeadlessEntity
+  FeatureFlag: HeadlessEntity
 
   // --- Platform ---
-  Workflow: NounEntity
-  Integration: NounEntity
-  Agent: NounEntity
+  Workflow: HeadlessEntity
+  Integration: HeadlessEntity
+  Agent: HeadlessEntity
 
   // --- Communication ---
-  Message: NounEntity
+  Message: HeadlessEntity
 
   /** Access any entity by name (fallback index) */
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  [key: string]: NounEntity | ((...args: any[]) => any) | HeadlessContext['events'] | HeadlessContext['status']
+  [key: string]: HeadlessEntity | ((...args: any[]) => any) | HeadlessContext['events'] | HeadlessContext['status']
 }
 
 /**
@@ -864,10 +1023,10 @@ export interface HeadlessContext {
  * and any self-contained context returned by headlessly().
  */
 function _buildSearchFn() {
-  return async (query: { type: string; filter?: Record<string, unknown> }) => {
-    const entity = allEntities[query.type]
-    if (!entity) return []
-    return entity.find(query.filter)
+  return async (query: { type: string; filter?: Record<string, unknown>; includeDeleted?: boolean }) => {
+    if (!allEntities[query.type]) return []
+    // The provider filters what it can (SQL for SQLite); the shared engine matches the rest
+    return findMatching(getProvider(), query.type, query.filter, query.includeDeleted ? { includeDeleted: true } : undefined)
   }
 }
 
@@ -927,9 +1086,96 @@ function _buildFetchFn() {
   }
 }
 
+/**
+ * $.createMany('Type', ...) and friends — aliases of the HeadlessEntity methods on $.Type
+ */
+function _buildBulkFns() {
+  return {
+    createMany: (type: string, items: Record<string, unknown>[]) => createMany(getProvider(), type, items),
+    updateMany: (type: string, filter: Record<string, unknown>, patch: Record<string, unknown>) => updateMany(getProvider(), type, filter, patch),
+    deleteMany: (type: string, filter: Record<string, unknown>) => deleteMany(getProvider(), type, filter),
+  }
+}
+
+function _buildUpsertFn() {
+  return (type: string, match: Record<string, unknown>, data: Record<string, unknown>) => upsert(getProvider(), type, match, data)
+}
+
+function _buildRestoreFn() {
+  return async (type: string, id: string) => {
+    const provider = getProvider()
+    if (!isRestorable(provider)) {
+      throw new Error(`restore is not supported by this provider. Entity: ${type}/${id}`)
+    }
+    return provider.restore(type, id)
+  }
+}
+
+/**
+ * Runs a $.do() callback with the Noun proxies resolving to its transaction.
+ * Where the runtime tracks async context (AsyncLocalStorage in Node.js, Bun,
+ * Deno and Workers) only calls made from `fn` see the transaction. Browsers
+ * have no AsyncLocalStorage, so there the transaction is in scope for as long
+ * as `fn` runs.
+ */
+interface TransactionScope {
+  run<T>(tx: NounProvider, fn: () => Promise<T>): Promise<T>
+  current(): NounProvider | undefined
+}
+
+let _transactionScope: TransactionScope | undefined
+/** $.do() calls in flight; the provider factory is installed while any are */
+let _openTransactions = 0
+
+async function _loadTransactionScope(): Promise<TransactionScope> {
+  if (!_transactionScope) {
+    const storage = await import('node:async_hooks').then(
+      ({ AsyncLocalStorage }) => new AsyncLocalStorage<NounProvider>(),
+      () => undefined,
+    )
+    if (storage) {
+      _transactionScope = { run: (tx, fn) => storage.run(tx, fn), current: () => storage.getStore() }
+    } else {
+      let held: NounProvider | undefined
+      _transactionScope = {
+        async run(tx, fn) {
+          held = tx
+          try {
+            return await fn()
+          } finally {
+            held = undefined
+          }
+        },
+        current: () => held,
+      }
+    }
+  }
+  return _transactionScope
+}
+
+/**
+ * $.do() runs `fn` in a transaction when the provider supports one: its writes
+ * commit together and their events are emitted only if `fn` resolves. `fn`
+ * gets the real Noun proxies, so hooks run, and inside `fn` they (and the `$`
+ * after hooks receive) resolve to the transaction. $ calls made elsewhere
+ * meanwhile go to the global provider, which is left in place.
+ */
 function _buildDoFn() {
-  return async (fn: (ctx: Record<string, NounEntity>) => Promise<unknown>) => {
-    return fn(allEntities)
+  return async (fn: (ctx: Record<string, HeadlessEntity>) => Promise<unknown>) => {
+    const provider = getProvider()
+    if (!isTransactional(provider)) return fn(allEntities)
+
+    const scope = await _loadTransactionScope()
+    return provider.transaction(async (tx) => {
+      // A $.do() inside another joins its transaction
+      if (tx === provider) return fn(allEntities)
+      if (_openTransactions++ === 0) setProviderFactory(() => scope.current() ?? provider)
+      try {
+        return await scope.run(tx, () => fn(allEntities))
+      } finally {
+        if (--_openTransactions === 0) clearProviderFactory()
+      }
+    })
   }
 }
 
@@ -957,6 +1203,9 @@ function _createScopedContext(capturedProvider: NounProvider): HeadlessContext {
       // MCP-like operations
       if (prop === 'search') return _buildSearchFn()
       if (prop === 'fetch') return _buildFetchFn()
+      if (prop === 'restore') return _buildRestoreFn()
+      if (prop === 'createMany' || prop === 'updateMany' || prop === 'deleteMany') return _buildBulkFns()[prop]
+      if (prop === 'upsert') return _buildUpsertFn()
       if (prop === 'do') return _buildDoFn()
 
       // Entity access
@@ -972,6 +1221,9 @@ function _createScopedContext(capturedProvider: NounProvider): HeadlessContext {
  *   $.Contact.create({ name: 'Alice', stage: 'Lead' })
  *   $.search({ type: 'Contact', filter: { stage: 'Lead' } })
  *   $.fetch({ type: 'Contact', id: 'contact_abc123' })
+ *   $.restore('Contact', 'contact_abc123')
+ *   $.createMany('Contact', [{ name: 'Alice' }, { name: 'Bob' }])
+ *   $.upsert('Contact', { email: 'alice@acme.co' }, { stage: 'Lead' })
  *   $.do(async ($) => { ... })
  *
  * Auto-initializes with LocalNounProvider on first access if headlessly()
@@ -986,7 +1238,7 @@ export const $: HeadlessContext = new Proxy({} as HeadlessContext, {
     if (typeof prop === 'symbol') return undefined
 
     // Lazy auto-init: if $ is accessed before headlessly() was called, auto-init
-    if (!_initialized && (prop in allEntities || prop === 'search' || prop === 'fetch' || prop === 'do' || prop === 'events' || prop === 'status')) {
+    if (!_initialized && (prop in allEntities || prop === 'search' || prop === 'fetch' || prop === 'restore' || prop === 'createMany' || prop === 'updateMany' || prop === 'deleteMany' || prop === 'upsert' || prop === 'do' || prop === 'events' || prop === 'status')) {
       _autoInit()
     }
 
@@ -999,6 +1251,9 @@ export const $: HeadlessContext = new Proxy({} as HeadlessContext, {
     // MCP-like operations
     if (prop === 'search') return _buildSearchFn()
     if (prop === 'fetch') return _buildFetchFn()
+    if (prop === 'restore') return _buildRestoreFn()
+    if (prop === 'createMany' || prop === 'updateMany' || prop === 'deleteMany') return _buildBulkFns()[prop]
+    if (prop === 'upsert') return _buildUpsertFn()
     if (prop === 'do') return _buildDoFn()
 
     // Entity access
@@ -1049,6 +1304,8 @@ export interface HeadlesslyOrgOptions {
   mode?: 'local' | 'remote' | 'memory'
   /** Transport for remote mode: 'http' (default) or 'ws' for real-time with WebSocket */
   transport?: 'http' | 'ws'
+  /** User, agent or API key ID recorded as the actor of writes in 'local' and 'memory' mode */
+  actor?: string
 }
 
 /** Domain namespace map for the org proxy */
@@ -1068,12 +1325,12 @@ const domainNamespaces: Record<string, Record<string, unknown>> = {
  * Configure a provider based on mode selection
  */
 function configureOrgProvider(options: HeadlesslyOrgOptions): NounProvider {
-  const { tenant, mode = 'memory', apiKey, endpoint, transport } = options
+  const { tenant, mode = 'memory', apiKey, endpoint, transport, actor } = options
   const context = `https://headless.ly/~${tenant}`
 
   switch (mode) {
     case 'local': {
-      const provider = new LocalNounProvider({ context })
+      const provider = new LocalNounProvider({ context, actor })
       setProvider(provider)
       return provider
     }
@@ -1096,7 +1353,13 @@ function configureOrgProvider(options: HeadlesslyOrgOptions): NounProvider {
       try {
         provider = getProvider()
       } catch {
-        provider = new LocalNounProvider()
+        provider = new LocalNounProvider({ actor })
+        setProvider(provider)
+        return provider
+      }
+      // Act as the org's actor on the shared provider
+      if (actor) {
+        provider = actingAs(provider, actor)
         setProvider(provider)
       }
       return provider
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest'
-import { setProvider, MemoryNounProvider, clearRegistry } from 'digital-objects'
-import { $, crm, billing, projects, content, support, analytics, marketing, experiments, platform } from '../src/index'
+import { setProvider, getProvider, MemoryNounProvider, clearRegistry, Noun } from 'digital-objects'
+import { EventLog } from '@headlessly/events'
+import { $, LocalNounProvider, crm, billing, projects, content, support, analytics, marketing, experiments, platform } from '../src/index'
 
 describe('@headlessly/sdk — $ context', () => {
   beforeEach(() => {
@@ -148,6 +149,14 @@ describe('@headlessly/sdk — $ context', () => {
       expect(results.length).toBeGreaterThanOrEqual(2)
     })
 
+    it('$.search supports logical and negated filters', async () => {
+      await $.Contact.create({ name: 'Alice', stage: 'Lead' })
+      await $.Contact.create({ name: 'Bob', stage: 'Customer' })
+      await $.Contact.create({ name: 'Carol', stage: 'Churned' })
+      const results = await $.search({ type: 'Contact', filter: { $or: [{ stage: 'Lead' }, { name: 'Carol' }], name: { $not: { $eq: 'Alice' } } } })
+      expect(results.map((c: { name: string }) => c.name)).toEqual(['Carol'])
+    })
+
     it('$.fetch returns a specific entity', async () => {
       const created = await $.Contact.create({ name: 'Charlie' })
       const fetched = await $.fetch({ type: 'Contact', id: created.$id })
@@ -164,6 +173,175 @@ describe('@headlessly/sdk — $ context', () => {
       })
       expect(result).toBe('ok')
     })
+
+    it('$.do commits writes and their events together', async () => {
+      const eventLog = new EventLog()
+      setProvider(new LocalNounProvider({ eventLog }))
+      await $.do(async (ctx) => {
+        const contact = await ctx.Contact.create({ name: 'Alice' })
+        await ctx.Deal.create({ name: 'Big', contact: contact.$id })
+        expect(await eventLog.query({})).toEqual([])
+      })
+      expect((await eventLog.query({})).map((e) => e.$type)).toEqual(['Contact.create', 'Deal.create'])
+    })
+
+    it('$.do rolls back writes and emits no events when fn throws', async () => {
+      const eventLog = new EventLog()
+      setProvider(new LocalNounProvider({ eventLog }))
+      const alice = await $.Contact.create({ name: 'Alice', stage: 'Lead' })
+
+      await expect(
+        $.do(async (ctx) => {
+          await ctx.Contact.update(alice.$id, { stage: 'Customer' })
+          await ctx.Deal.create({ name: 'Big', contact: alice.$id })
+          throw new Error('sync failed')
+        }),
+      ).rejects.toThrow('sync failed')
+
+      expect((await $.Contact.get(alice.$id)).stage).toBe('Lead')
+      expect(await $.Deal.find()).toEqual([])
+      expect((await eventLog.query({})).map((e) => e.$type)).toEqual(['Contact.create'])
+    })
+
+    it('$.do scopes the transaction to fn and leaves the global provider alone', async () => {
+      const provider = new LocalNounProvider()
+      setProvider(provider)
+      const alice = await $.Contact.create({ name: 'Alice', stage: 'Lead' })
+      let release!: () => void
+      // Registered outside fn, so it runs outside the transaction
+      const elsewhere = new Promise<void>((resolve) => (release = resolve)).then(() => {
+        expect(getProvider()).toBe(provider)
+        return $.Contact.create({ name: 'Bob' })
+      })
+
+      await expect(
+        $.do(async (ctx) => {
+          const qualified = await ctx.Contact.qualify(alice.$id)
+          expect(qualified.stage).toBe('Qualified')
+          release()
+          await elsewhere
+          expect(await ctx.Contact.find()).toHaveLength(2)
+          expect((await provider.get('Contact', alice.$id))!.stage).toBe('Lead')
+          throw new Error('abort')
+        }),
+      ).rejects.toThrow('abort')
+
+      expect(getProvider()).toBe(provider)
+      expect((await $.Contact.find()).map((c) => [c.name, c.stage])).toEqual([
+        ['Alice', 'Lead'],
+        ['Bob', undefined],
+      ])
+    })
+
+    it('$.do runs hooks against the transaction and rolls back their writes', async () => {
+      setProvider(new LocalNounProvider())
+      const seen: string[] = []
+      const unhookBefore = $.Contact.creating((data: Record<string, unknown>) => ({ ...data, stage: 'Lead' }))
+      const unhookAfter = $.Contact.created(async (contact: any, ctx: any) => {
+        seen.push(contact.stage as string)
+        await ctx.Deal.create({ name: `${contact.name} deal`, contact: contact.$id })
+      })
+
+      try {
+        await expect(
+          $.do(async (ctx) => {
+            await ctx.Contact.create({ name: 'Alice' })
+            expect(await ctx.Deal.find()).toHaveLength(1)
+            throw new Error('abort')
+          }),
+        ).rejects.toThrow('abort')
+      } finally {
+        unhookBefore()
+        unhookAfter()
+      }
+
+      expect(seen).toEqual(['Lead'])
+      expect(await $.Contact.find()).toEqual([])
+      expect(await $.Deal.find()).toEqual([])
+    })
+
+    it('$.search with includeDeleted finds trashed entities that $.restore brings back', async () => {
+      setProvider(new LocalNounProvider())
+      const alice = await $.Contact.create({ name: 'Alice', stage: 'Lead' })
+      await $.Contact.delete(alice.$id)
+
+      expect(await $.search({ type: 'Contact', filter: { stage: 'Lead' } })).toEqual([])
+      const trashed = await $.search({ type: 'Contact', filter: { stage: 'Lead' }, includeDeleted: true })
+      expect(trashed.map((c) => c.$id)).toEqual([alice.$id])
+
+      const restored = await $.restore('Contact', alice.$id)
+      expect(restored.$deletedAt).toBeUndefined()
+      expect((await $.Contact.get(alice.$id)).name).toBe('Alice')
+    })
+
+    it('$.restore throws for providers without a trash', async () => {
+      await expect($.restore('Contact', 'contact_abc')).rejects.toThrow('restore is not supported')
+    })
+
+    it('$.createMany, $.updateMany and $.deleteMany write in bulk', async () => {
+      setProvider(new LocalNounProvider())
+      const created = await $.createMany('Contact', [
+        { name: 'Alice', stage: 'Lead' },
+        { name: 'Bob', stage: 'Lead' },
+      ])
+      expect(created.items.map((c) => c.name)).toEqual(['Alice', 'Bob'])
+      expect(created.errors).toEqual([])
+
+      const updated = await $.updateMany('Contact', { name: 'Alice' }, { stage: 'Qualified' })
+      expect(updated.items.map((c) => c.stage)).toEqual(['Qualified'])
+
+      const deleted = await $.deleteMany('Contact', { stage: 'Lead' })
+      expect(deleted.items).toEqual([created.items[1]!.$id])
+      expect((await $.Contact.find()).map((c) => c.name)).toEqual(['Alice'])
+    })
+    it('$.Type.createMany, updateMany and deleteMany write in bulk', async () => {
+      setProvider(new LocalNounProvider())
+      const created = await $.Contact.createMany([
+        { name: 'Alice', stage: 'Lead' },
+        { name: 'Bob', stage: 'Lead' },
+      ])
+      expect(created.items.map((c) => c.name)).toEqual(['Alice', 'Bob'])
+
+      const updated = await $.Contact.updateMany({ name: 'Alice' }, { stage: 'Qualified' })
+      expect(updated.items.map((c) => c.stage)).toEqual(['Qualified'])
+
+      const deleted = await $.Contact.deleteMany({ stage: 'Lead' })
+      expect(deleted.items).toEqual([created.items[1]!.$id])
+      expect((await $.Contact.find()).map((c) => c.name)).toEqual(['Alice'])
+      expect(crm.Contact.createMany).toBeTypeOf('function')
+    })
+
+    it('$.do entities write in bulk inside the transaction', async () => {
+      setProvider(new LocalNounProvider())
+      await expect(
+        $.do(async (ctx) => {
+          await ctx.Contact.createMany([{ name: 'Alice' }, { name: 'Bob' }])
+          throw new Error('import failed')
+        }),
+      ).rejects.toThrow('import failed')
+      expect(await $.Contact.find()).toEqual([])
+    })
+
+    it('$.upsert creates, then updates by a unique field', async () => {
+      setProvider(new LocalNounProvider())
+      Noun('Contact', { name: 'string!', email: 'string##', stage: 'Lead | Qualified | Customer' })
+      const first = await $.upsert('Contact', { email: 'alice@acme.co' }, { name: 'Alice', stage: 'Lead' })
+      const second = await $.upsert('Contact', { email: 'alice@acme.co' }, { stage: 'Qualified' })
+
+      expect(first.created).toBe(true)
+      expect(second).toMatchObject({ created: false, instance: { $id: first.instance.$id, name: 'Alice', stage: 'Qualified' } })
+    })
+
+    it('$.Type.upsert creates, then updates by a unique field', async () => {
+      setProvider(new LocalNounProvider())
+      Noun('Contact', { name: 'string!', email: 'string##', stage: 'Lead | Qualified | Customer' })
+      const first = await $.Contact.upsert({ email: 'alice@acme.co' }, { name: 'Alice', stage: 'Lead' })
+      const second = await $.Contact.upsert({ email: 'alice@acme.co' }, { stage: 'Qualified' })
+
+      expect(first.created).toBe(true)
+      expect(second).toMatchObject({ created: false, instance: { $id: first.instance.$id, name: 'Alice', stage: 'Qualified' } })
+      await expect($.Contact.upsert({ name: 'Alice' }, { stage: 'Lead' })).rejects.toThrow('Name is not a unique field of Contact')
+    })
   })
 
   describe('entity CRUD through $', () => {
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest'
 import { clearRegistry, MemoryNounProvider, setProvider } from 'digital-objects'
-import { Headlessly } from '../src/index'
+import { EventLog } from '@headlessly/events'
+import { Headlessly, LocalNounProvider } from '../src/index'
 import type { HeadlesslyOrg } from '../src/index'
 
 describe('headless.ly — Headlessly() factory', () => {
@@ -129,6 +130,17 @@ describe('headless.ly — Headlessly() factory', () => {
     })
   })
 
+  describe('actor', () => {
+    it('attributes writes to the org actor', async () => {
+      const eventLog = new EventLog()
+      setProvider(new LocalNounProvider({ eventLog }))
+      const org = Headlessly({ tenant: 'acme', actor: 'agent_mR4nVkTw' }) as HeadlesslyOrg & Record<string, any>
+
+      await org.Contact.create({ name: 'Alice' })
+      expect((await eventLog.query({ actor: 'agent_mR4nVkTw' })).map((e) => e.$type)).toEqual(['Contact.create'])
+    })
+  })
+
   describe('proxy behavior', () => {
     it('returns undefined for unknown properties', () => {
       const org = Headlessly({ tenant: 'test' })
@@ -8,7 +8,7 @@
  */
 import { describe, it, expect, afterEach, vi } from 'vitest'
 import { setProvider, clearRegistry, getProvider } from 'digital-objects'
-import { headlessly, $, RemoteNounProvider, LocalNounProvider, detectEnvironment, detectEndpoint, enableLazy, entityNames } from '../src/index'
+import { headlessly, $, RemoteNounProvider, LocalNounProvider, detectEnvironment, detectEndpoint, enableLazy, entityNames, seededIds } from '../src/index'
 import defaultExport from '../src/index'
 
 describe('headlessly() initialization', () => {
@@ -335,6 +335,38 @@ describe('headlessly() initialization', () => {
     })
   })
 
+  describe('idStrategy', () => {
+    it('passes the ID strategy to the LocalNounProvider', async () => {
+      const ids: string[] = []
+      for (let run = 0; run < 2; run++) {
+        headlessly.reset()
+        const ctx = headlessly({ idStrategy: seededIds(7) })
+        ids.push((await ctx.Contact.create({ name: 'Alice' })).$id)
+      }
+      expect(ids[0]).toBe(ids[1])
+    })
+
+    it('applies to lazy initialization', async () => {
+      headlessly({ lazy: true, idStrategy: 'sortable' })
+      const contact = await $.Contact.create({ name: 'Alice' })
+      expect(contact.$id).toMatch(/^contact_[0-9A-Za-z]{16}$/)
+    })
+  })
+
+  describe('actor', () => {
+    it('records the actor on local writes', async () => {
+      const ctx = headlessly({ actor: 'agent_mR4nVkTw' })
+      expect(ctx.$provider).toBeInstanceOf(LocalNounProvider)
+      expect((ctx.$provider as unknown as { actor?: string }).actor).toBe('agent_mR4nVkTw')
+    })
+
+    it('applies to lazy initialization', () => {
+      headlessly({ lazy: true, actor: 'user_fX9bL5nR' })
+      expect($.Contact).toBeDefined()
+      expect((getProvider() as unknown as { actor?: string }).actor).toBe('user_fX9bL5nR')
+    })
+  })
+
   describe('lazy initialization', () => {
     it('headlessly({ lazy: true }) does not throw', () => {
       expect(() => headlessly({ lazy: true })).not.toThrow()
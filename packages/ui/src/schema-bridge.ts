@@ -10,6 +10,8 @@ import type { NounSchema } from 'digital-objects'
 import type { ParsedProperty } from './schema-utils.js'
 import { getNounSchema, getAllNouns } from 'digital-objects'
 import type { DatabaseColumnDef, DatabaseSchema, DatabaseTable } from '@mdxui/admin'
+import { getComputedFields } from '@headlessly/sdk'
+import type { ComputedField } from '@headlessly/sdk'
 import { formatLabel } from './schema-utils.js'
 
 /**
@@ -78,8 +80,9 @@ function fieldTypeToDataType(type: string | undefined): DatabaseColumnDef['dataT
 
 /**
  * Convert a single ParsedProperty to a DatabaseColumnDef.
+ * Computed fields are read-only.
  */
-function fieldToColumnDef(key: string, prop: ParsedProperty): DatabaseColumnDef {
+function fieldToColumnDef(key: string, prop: ParsedProperty, computed = false): DatabaseColumnDef {
   // Enum fields
   if (prop.enumValues && prop.enumValues.length > 0) {
     return {
@@ -88,7 +91,7 @@ function fieldToColumnDef(key: string, prop: ParsedProperty): DatabaseColumnDef
       dataType: 'enum',
       enumValues: prop.enumValues,
       nullable: prop.modifiers?.optional ?? !prop.modifiers?.required,
-      editable: true,
+      editable: !computed,
       sortable: true,
     }
   }
@@ -99,12 +102,27 @@ function fieldToColumnDef(key: string, prop: ParsedProperty): DatabaseColumnDef
     header: formatLabel(key),
     dataType,
     nullable: prop.modifiers?.optional ?? !prop.modifiers?.required,
-    editable: true,
+    editable: !computed,
     sortable: true,
     isUnique: prop.modifiers?.unique ?? false,
   }
 }
 
+/**
+ * Convert a computed field that is not declared in the schema to a read-only DatabaseColumnDef.
+ * Rollups are numbers; formulas are shown as text.
+ */
+function computedToColumnDef(key: string, field: ComputedField): DatabaseColumnDef {
+  return {
+    accessorKey: key,
+    header: formatLabel(key),
+    dataType: field.kind === 'rollup' ? 'number' : 'text',
+    nullable: true,
+    editable: false,
+    sortable: true,
+  }
+}
+
 /**
  * Convert a relationship ParsedProperty to a DatabaseColumnDef.
  */
@@ -131,6 +149,7 @@ function relationshipToColumnDef(key: string, prop: ParsedProperty): DatabaseCol
 /**
  * Convert a NounSchema to an array of DatabaseColumnDef[].
  * Includes meta-columns ($id, $type, $createdAt, $updatedAt).
+ * Computed fields (defineComputed) are read-only columns.
  */
 export function nounToColumns(schema: NounSchema): DatabaseColumnDef[] {
   const columns: DatabaseColumnDef[] = []
@@ -148,8 +167,14 @@ export function nounToColumns(schema: NounSchema): DatabaseColumnDef[] {
   })
 
   // Schema-defined fields
+  const computed = getComputedFields(schema.name) ?? {}
   for (const [key, prop] of schema.fields) {
-    columns.push(fieldToColumnDef(key, prop))
+    columns.push(fieldToColumnDef(key, prop, key in computed))
+  }
+
+  // Computed fields not declared in the schema
+  for (const [key, field] of Object.entries(computed)) {
+    if (!schema.fields.has(key) && !schema.relationships.has(key)) columns.push(computedToColumnDef(key, field))
   }
 
   // Relationships
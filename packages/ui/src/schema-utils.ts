@@ -6,6 +6,9 @@
  */
 
 import type { NounSchema, VerbConjugation } from 'digital-objects'
+import { formatLabel, validateEntity } from '@headlessly/sdk'
+
+export { formatLabel }
 
 /**
  * Local type definitions matching digital-objects internal types.
@@ -221,25 +224,11 @@ export function deriveEntityTitle(schema: NounSchema, entity: Record<string, unk
 /**
  * Validate form data against a NounSchema.
  * Returns an object mapping field names to error strings (empty if valid).
+ * Uses the same rules as the provider (validateEntity), so a form rejects
+ * exactly what a create or update would.
  */
 export function validateFormData(schema: NounSchema, data: Record<string, unknown>): Record<string, string> {
-  const errors: Record<string, string> = {}
-
-  for (const [key, prop] of schema.fields) {
-    // Check required
-    if (prop.modifiers?.required && (data[key] === undefined || data[key] === null || data[key] === '')) {
-      errors[key] = `${formatLabel(key)} is required`
-    }
-
-    // Check enum values
-    if (prop.enumValues && prop.enumValues.length > 0 && data[key] !== undefined && data[key] !== null && data[key] !== '') {
-      if (!prop.enumValues.includes(String(data[key]))) {
-        errors[key] = `${formatLabel(key)} must be one of: ${prop.enumValues.join(', ')}`
-      }
-    }
-  }
-
-  return errors
+  return validateEntity(schema, data)
 }
 
 /**
@@ -398,34 +387,6 @@ export function isRequired(prop: ParsedProperty): boolean {
   return prop.modifiers?.required ?? false
 }
 
-/**
- * Known acronyms that should be fully uppercased.
- */
-const ACRONYMS = new Set(['id', 'url', 'api', 'html', 'css', 'json', 'xml', 'http', 'https', 'sql', 'ip'])
-
-/**
- * Format a camelCase, PascalCase, or snake_case key into a human-readable label.
- * e.g., 'firstName' -> 'First Name', '$createdAt' -> 'Created At', '$id' -> 'ID'
- */
-export function formatLabel(key: string): string {
-  const clean = key.startsWith('$') ? key.slice(1) : key
-
-  // Split on underscores first (snake_case), then on camelCase boundaries
-  const words = clean
-    .replace(/_/g, ' ')
-    .replace(/([A-Z])/g, ' $1')
-    .trim()
-    .split(/\s+/)
-
-  return words
-    .map((w) => {
-      const lower = w.toLowerCase()
-      if (ACRONYMS.has(lower)) return lower.toUpperCase()
-      return lower.charAt(0).toUpperCase() + lower.slice(1)
-    })
-    .join(' ')
-}
-
 /**
  * Format a value for display in a table cell.
  */
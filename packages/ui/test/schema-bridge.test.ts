@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest'
 import { clearRegistry, Noun } from 'digital-objects'
+import { defineComputed, formula, rollup } from '@headlessly/sdk'
 import { nounToColumns, nounToSchemas, domainForEntity, getColumnsForNoun } from '../src/schema-bridge'
 
 describe('@headlessly/ui — schema-bridge', () => {
@@ -72,6 +73,19 @@ describe('@headlessly/ui — schema-bridge', () => {
       expect(statusCol!.enumValues).toEqual(['Active', 'Inactive', 'Archived'])
     })
 
+    it('makes computed fields read-only columns', () => {
+      const Entity = Noun('ComputedEntity', { name: 'string!', items: '<- ComputedItem.entity[]', itemCount: 'number' })
+      defineComputed('ComputedEntity', {
+        itemCount: rollup({ via: 'items' }),
+        label: formula((e) => String(e.name).toUpperCase()),
+      })
+      const columns = nounToColumns(Entity.$schema)
+
+      expect(columns.find((c) => c.accessorKey === 'itemCount')).toMatchObject({ dataType: 'number', editable: false })
+      expect(columns.find((c) => c.accessorKey === 'label')).toMatchObject({ dataType: 'text', editable: false })
+      expect(columns.find((c) => c.accessorKey === 'name')!.editable).toBe(true)
+    })
+
     it('maps email fields to email dataType', () => {
       const Entity = Noun('EmailEntity', { email: 'email' })
       const columns = nounToColumns(Entity.$schema)
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest'
 import { clearRegistry, Noun } from 'digital-objects'
-import { deriveColumns, deriveFormFields, deriveVerbs, formatLabel, formatCellValue } from '../src/schema-utils'
+import { validateEntity } from '@headlessly/sdk'
+import { deriveColumns, deriveFormFields, deriveVerbs, formatLabel, formatCellValue, validateFormData } from '../src/schema-utils'
 
 describe('@headlessly/ui — schema-utils', () => {
   beforeEach(() => {
@@ -76,6 +77,24 @@ describe('@headlessly/ui — schema-utils', () => {
     })
   })
 
+  describe('validateFormData', () => {
+    it('reports the same errors as provider validation', () => {
+      const Entity = Noun('FormValidated', {
+        name: 'string!',
+        score: 'number',
+        stage: 'Lead | Qualified',
+      })
+      const data = { score: 'high', stage: 'Closed' }
+      const errors = validateFormData(Entity.$schema, data)
+      expect(errors).toEqual(validateEntity(Entity.$schema, data))
+      expect(errors).toEqual({
+        name: 'Name is required',
+        score: 'Score must be a number',
+        stage: 'Stage must be one of: Lead, Qualified',
+      })
+    })
+  })
+
   describe('formatCellValue', () => {
     it('returns string representation of value', () => {
       expect(formatCellValue('hello')).toBe('hello')
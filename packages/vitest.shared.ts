@@ -31,6 +31,7 @@ export default defineConfig({
       // SDK
       '@headlessly/sdk': resolve(packages, 'sdk/src/index.ts'),
       // Infrastructure
+      '@headlessly/objects/file': resolve(packages, 'objects/src/file-provider.ts'),
       '@headlessly/objects': resolve(packages, 'objects/src/index.ts'),
       '@headlessly/events': resolve(packages, 'events/src/index.ts'),
       '@headlessly/mcp': resolve(packages, 'mcp/src/index.ts'),